@@ -32,9 +32,27 @@ export default ({ env }) => ({
           shipUpdates: env('KAFKA_TOPIC_SHIP_UPDATES', 'ship-updates'),
           masterUpdates: env('KAFKA_TOPIC_MASTER_UPDATES', 'master-updates'),
         },
+        compression: env('KAFKA_COMPRESSION', 'gzip'), // none | gzip | lz4 | zstd
+      },
+      // Transport: kafka | http (ships post to and long-poll master's REST API)
+      // Topic names above are used by both transports
+      transport: {
+        type: env('SYNC_TRANSPORT', 'kafka'),
+        http: {
+          enabled: env.bool('SYNC_HTTP_TRANSPORT_ENABLED', false), // Master: serve HTTP ships next to Kafka
+          masterUrl: env('SYNC_HTTP_MASTER_URL'),                  // Replica: master base URL
+          apiToken: env('SYNC_HTTP_API_TOKEN'),
+          pollTimeout: env.int('SYNC_HTTP_POLL_TIMEOUT', 25000),
+          retryDelay: env.int('SYNC_HTTP_RETRY_DELAY', 5000),
+          batchSize: env.int('SYNC_HTTP_BATCH_SIZE', 100),
+        },
       },
       sync: {
         batchSize: env.int('SYNC_BATCH_SIZE', 100),
+        pushBatchSize: env.int('SYNC_PUSH_BATCH_SIZE', 50), // Queue items per Kafka batch
+        deltas: env.bool('SYNC_DELTAS_ENABLED', true),      // Send updates as deltas against the last synced state
+        relationRetryInterval: env.int('SYNC_RELATION_RETRY_INTERVAL', 60000), // Retry deferred relations (ms)
+        relationRetryAttempts: env.int('SYNC_RELATION_RETRY_ATTEMPTS', 30),    // Give up on a deferred relation after N retries
         retryAttempts: env.int('SYNC_RETRY_ATTEMPTS', 3),
         retryDelay: env.int('SYNC_RETRY_DELAY', 5000),
         connectivityCheckInterval: env.int('SYNC_CONNECTIVITY_CHECK_INTERVAL', 30000),
@@ -42,6 +60,64 @@ export default ({ env }) => ({
       },
       contentTypes: env('SYNC_CONTENT_TYPES', '').split(',').filter(Boolean),
 
+      // Conflict policies: manual | master-wins | ship-wins | last-writer-wins | field-merge
+      conflicts: {
+        defaultPolicy: env('SYNC_CONFLICT_POLICY', 'field-merge'),
+        policies: {
+          // 'api::headers.headers': 'master-wins', // Auto-resolve, no review
+          // 'api::package.package': 'manual',      // Always requires admin review
+        },
+      },
+
+      // Per-ship routing: master publishes to <masterUpdates>.<shipId> topics
+      // (create them or allow auto-creation), replicas consume their own topic.
+      // Enable on master and every replica together. Ships without rules get everything.
+      routing: {
+        enabled: env.bool('SYNC_ROUTING_ENABLED', false),
+        ships: {
+          // 'ship-001': {
+          //   contentTypes: ['api::page.page', 'api::headers.headers'],
+          //   locales: ['en', 'ar'],
+          //   siteSettings: ['MBA'], // Site setting names or codes
+          // },
+        },
+      },
+
+      // Sync bundles: signed files carrying changes to and from air-gapped ships
+      // (npm run bundle:export / bundle:import). Use the same secret on master and ships;
+      // master bundles are signed with master's key instead (see security).
+      bundles: {
+        secret: env('SYNC_BUNDLE_SECRET'),
+      },
+
+      // Message signing: ships sign with their Ed25519 key (npm run ship:keys),
+      // master verifies against the key registered in ship-registry.
+      // Master signs its bundles with its own key, ships verify them with master's public key.
+      security: {
+        privateKey: env('SYNC_SIGNING_PRIVATE_KEY'),             // Replica (messages), master (bundles)
+        privateKeyFile: env('SYNC_SIGNING_PRIVATE_KEY_FILE'),    // Replica (messages), master (bundles)
+        masterPublicKey: env('SYNC_MASTER_PUBLIC_KEY'),          // Replica (bundles)
+        masterPublicKeyFile: env('SYNC_MASTER_PUBLIC_KEY_FILE'), // Replica (bundles)
+        requireSignatures: env.bool('SYNC_REQUIRE_SIGNATURES', false), // Master: reject unsigned/unknown ships
+        probeToken: env('SYNC_PROBE_TOKEN'),                     // Health & metrics
+      },
+
+      // Fleet dashboard alerts - Only used on master
+      fleet: {
+        lagWarningMinutes: env.int('SYNC_FLEET_LAG_WARNING_MINUTES', 60),
+        lagCriticalMinutes: env.int('SYNC_FLEET_LAG_CRITICAL_MINUTES', 360),
+        queueWarningSize: env.int('SYNC_FLEET_QUEUE_WARNING_SIZE', 500),
+      },
+
+      // Dead letter retry worker - Only active on master!
+      deadLetter: {
+        retryEnabled: env.bool('DEAD_LETTER_RETRY_ENABLED', true),
+        retryInterval: env.int('DEAD_LETTER_RETRY_INTERVAL', 60000),
+        retryBaseDelay: env.int('DEAD_LETTER_RETRY_BASE_DELAY', 30000), // Doubles per attempt
+        retryMaxDelay: env.int('DEAD_LETTER_RETRY_MAX_DELAY', 3600000),
+        retryBatchSize: env.int('DEAD_LETTER_RETRY_BATCH_SIZE', 20),
+      },
+
       // Media sync configuration (OSS → MinIO) - Only active on replica!
       media: {
         enabled: env('SYNC_MODE', 'replica') === 'replica',  // Auto-enable only on replica
@@ -857,6 +857,15 @@ function groupFilesByBaseName(files) {
   return grouped;
 }
 
+/**
+ * Run document writes as one offline-sync bulk (single transaction, synced together)
+ * Falls back to a plain call when the plugin isn't loaded
+ */
+async function runAsBulk(fn) {
+  const bulkSync = strapi.plugin('offline-sync')?.service('bulk-sync');
+  return bulkSync ? bulkSync.run(fn) : fn();
+}
+
 /**
  * Main import function - processes all HTML files in the activities directory
  */
@@ -896,65 +905,67 @@ async function importActivities() {
     console.log('─'.repeat(50));
 
     try {
-      let enEntry = null;
-      let arEntry = null;
-      let documentId = null;
-
-      // Process English file first
-      if (fileGroup.en) {
-        const enFilePath = path.join(activitiesDir, fileGroup.en);
-        console.log(`  Processing English: ${fileGroup.en}`);
+      // One bulk per destination: both locales reach master together and are applied in one transaction
+      await runAsBulk(async () => {
+        let enEntry = null;
+        let arEntry = null;
+        let documentId = null;
+
+        // Process English file first
+        if (fileGroup.en) {
+          const enFilePath = path.join(activitiesDir, fileGroup.en);
+          console.log(`  Processing English: ${fileGroup.en}`);
         
-        const { activities, pageName } = parseActivitiesHTML(enFilePath);
+          const { activities, pageName } = parseActivitiesHTML(enFilePath);
         
-        if (activities.length === 0) {
-          console.log(`  ⚠ No activities found in ${fileGroup.en}, skipping...`);
-          totalSkipped++;
-          continue;
-        }
+          if (activities.length === 0) {
+            console.log(`  ⚠ No activities found in ${fileGroup.en}, skipping...`);
+            totalSkipped++;
+            return;
+          }
 
-        console.log(`  Found ${activities.length} activities for "${pageName}"`);
-        console.log(`  Creating English entry...`);
+          console.log(`  Found ${activities.length} activities for "${pageName}"`);
+          console.log(`  Creating English entry...`);
 
-        enEntry = await createDestinationActivityWithAllCards(activities, pageName, 'en');
+          enEntry = await createDestinationActivityWithAllCards(activities, pageName, 'en');
         
-        if (enEntry === null) {
-          console.log(`  ⏭ English entry already exists, skipping...`);
-          totalSkipped++;
-          continue; // Skip Arabic if English already exists
+          if (enEntry === null) {
+            console.log(`  ⏭ English entry already exists, skipping...`);
+            totalSkipped++;
+            return; // Skip Arabic if English already exists
+          } else {
+            documentId = enEntry.documentId;
+            totalSuccess++;
+          }
         } else {
-          documentId = enEntry.documentId;
-          totalSuccess++;
+          console.log(`  ⚠ No English file found for ${baseName}, skipping...`);
+          totalSkipped++;
+          return;
         }
-      } else {
-        console.log(`  ⚠ No English file found for ${baseName}, skipping...`);
-        totalSkipped++;
-        continue;
-      }
 
-      // Process Arabic file as localization
-      if (fileGroup.ar && documentId) {
-        const arFilePath = path.join(activitiesDir, fileGroup.ar);
-        console.log(`  Processing Arabic: ${fileGroup.ar}`);
+        // Process Arabic file as localization
+        if (fileGroup.ar && documentId) {
+          const arFilePath = path.join(activitiesDir, fileGroup.ar);
+          console.log(`  Processing Arabic: ${fileGroup.ar}`);
         
-        const { activities, pageName } = parseActivitiesHTML(arFilePath);
+          const { activities, pageName } = parseActivitiesHTML(arFilePath);
         
-        if (activities.length > 0) {
-          console.log(`  Found ${activities.length} activities for "${pageName}"`);
-          console.log(`  Creating Arabic localization...`);
+          if (activities.length > 0) {
+            console.log(`  Found ${activities.length} activities for "${pageName}"`);
+            console.log(`  Creating Arabic localization...`);
 
-          arEntry = await createDestinationActivityWithAllCards(activities, pageName, 'ar', documentId);
+            arEntry = await createDestinationActivityWithAllCards(activities, pageName, 'ar', documentId);
           
-          if (arEntry) {
-            console.log(`  ✓ Arabic localization created successfully`);
+            if (arEntry) {
+              console.log(`  ✓ Arabic localization created successfully`);
+            }
+          } else {
+            console.log(`  ⚠ No activities found in ${fileGroup.ar}`);
           }
-        } else {
-          console.log(`  ⚠ No activities found in ${fileGroup.ar}`);
+        } else if (fileGroup.ar && !documentId) {
+          console.log(`  ⚠ Arabic file found but no English entry created, skipping Arabic...`);
         }
-      } else if (fileGroup.ar && !documentId) {
-        console.log(`  ⚠ Arabic file found but no English entry created, skipping Arabic...`);
-      }
-
+      });
     } catch (error) {
       console.error(`  ✗ Failed to import ${baseName}:`, error.message);
       errors.push({ base: baseName, error: error.message });
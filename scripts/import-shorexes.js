@@ -422,6 +422,15 @@ async function createExcursionEntry(shorexId, enEntry, arEntry, imageFile) {
   }
 }
 
+/**
+ * Run document writes as one offline-sync bulk (single transaction, synced together)
+ * Falls back to a plain call when the plugin isn't loaded
+ */
+async function runAsBulk(fn) {
+  const bulkSync = strapi.plugin('offline-sync')?.service('bulk-sync');
+  return bulkSync ? bulkSync.run(fn) : fn();
+}
+
 /**
  * Main import function
  */
@@ -468,8 +477,8 @@ async function importShorexes(xmlFilePath) {
         console.log(`  ⚠ No image found for ${shorexId}`);
       }
 
-      // Create entry
-      const result = await createExcursionEntry(shorexId, enEntry, arEntry, imageFile);
+      // Create entry - one bulk per excursion, so both locales are applied on master in one transaction
+      const result = await runAsBulk(() => createExcursionEntry(shorexId, enEntry, arEntry, imageFile));
       if (result === null) {
         console.log(`  ⚠ Skipped (already exists)`);
         skippedCount++;
@@ -0,0 +1,110 @@
+'use strict';
+
+const fs = require('fs-extra');
+const path = require('path');
+const { generateKeyPairSync } = require('crypto');
+
+/**
+ * Ship signing keys
+ *
+ *   Ship:   npm run ship:keys -- generate [dir]                  new key pair → <dir>/ship-signing.key(.pub)
+ *   Master: npm run ship:keys -- generate --master [dir]         master's bundle key → <dir>/master-signing.key(.pub)
+ *   Master: npm run ship:keys -- register <shipId> <public.pem>  register a ship's public key
+ *
+ * Point SYNC_SIGNING_PRIVATE_KEY_FILE at the private key on the ship; it never leaves the ship.
+ * Admins can also register keys at PUT /offline-sync/ships/:shipId/public-key.
+ * Master's public key goes to every ship (SYNC_MASTER_PUBLIC_KEY_FILE) to verify master bundles.
+ */
+
+const USAGE = `Usage:
+  node scripts/ship-keys.js generate [--master] [dir]
+  node scripts/ship-keys.js register <shipId> <publicKey.pem>`;
+
+async function generateKeys(dir, { master = false } = {}) {
+  const target = path.resolve(dir || '.');
+  const privateFile = path.join(target, master ? 'master-signing.key' : 'ship-signing.key');
+  const publicFile = `${privateFile}.pub`;
+
+  if (await fs.pathExists(privateFile)) {
+    throw new Error(`${privateFile} already exists - remove it first to rotate the key`);
+  }
+
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  await fs.ensureDir(target);
+  await fs.writeFile(privateFile, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  await fs.writeFile(publicFile, publicKey.export({ type: 'spki', format: 'pem' }));
+
+  console.log(`✓ Private key → ${privateFile} (set SYNC_SIGNING_PRIVATE_KEY_FILE)`);
+  console.log(`✓ Public key  → ${publicFile} (${master ? 'set SYNC_MASTER_PUBLIC_KEY_FILE on ships' : 'register it on master'})`);
+}
+
+async function registerKey(shipId, file) {
+  if (!shipId || !file) {
+    throw new Error('shipId and public key file are required');
+  }
+
+  const config = strapi.config.get('plugin::offline-sync', {});
+  if (config.mode !== 'master') {
+    throw new Error('public keys are registered on master');
+  }
+
+  const signing = strapi.plugin('offline-sync').service('message-signing');
+  const publicKey = signing.normalizePublicKey(await fs.readFile(file, 'utf8'));
+  await strapi.plugin('offline-sync').service('ship-tracker').setPublicKey(shipId, publicKey);
+
+  console.log(`✓ Registered public key for ${shipId}`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'generate') {
+    const master = args.includes('--master');
+    await generateKeys(args.find((arg) => arg !== '--master'), { master });
+    return;
+  }
+  if (command !== 'register') {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { createStrapi, compileStrapi } = require('@strapi/strapi');
+
+  console.log('Compiling Strapi...');
+  const appContext = await compileStrapi();
+
+  console.log('Creating Strapi instance...');
+  const app = await createStrapi(appContext).load();
+
+  app.log.level = 'error';
+
+  // Set global strapi instance
+  global.strapi = app;
+
+  let exitCode = 0;
+  try {
+    await registerKey(args[0], args[1]);
+  } catch (error) {
+    console.error(`Registering key failed: ${error.message}`);
+    exitCode = 1;
+  } finally {
+    await app.destroy();
+    process.exit(exitCode);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = {
+  generateKeys,
+  registerKey,
+};
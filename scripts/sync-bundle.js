@@ -0,0 +1,170 @@
+'use strict';
+
+const fs = require('fs-extra');
+const path = require('path');
+
+/**
+ * Store-and-forward sync bundles for air-gapped ships
+ *
+ *   Replica: npm run bundle:export -- [file]                           pending changes → bundle
+ *   Master:  npm run bundle:export -- --ship <shipId> [--since N] [file]  changes for a ship → bundle
+ *   Both:    npm run bundle:import -- <file...>                        apply bundles in order
+ *
+ * Large exports are split into parts: <file>, then <name>.part2.bundle, <name>.part3.bundle, ...
+ * Master also imports bundles at POST /api/offline-sync/bundles/import.
+ */
+
+const USAGE = `Usage:
+  node scripts/sync-bundle.js export [--ship <shipId>] [--since <sequence>] [file]
+  node scripts/sync-bundle.js import <file...>`;
+
+/**
+ * Parse "<command> [--ship id] [--since n] [file...]"
+ */
+function parseArgs(argv) {
+  const args = { command: argv[0], ship: null, since: undefined, file: null, files: [] };
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--ship') {
+      args.ship = argv[++i];
+    } else if (argv[i] === '--since') {
+      args.since = Number(argv[++i]);
+    } else {
+      args.file = args.file || argv[i];
+      args.files.push(argv[i]);
+    }
+  }
+  return args;
+}
+
+/**
+ * Default bundle file name in the current directory
+ */
+function defaultFileName(from, to) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.resolve(`${from}-to-${to}-${stamp}.bundle`);
+}
+
+/**
+ * File of an export part: the given file for the first part, <name>.part<n><ext> after it
+ */
+function partFileName(file, part) {
+  if (part === 1) return file;
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.part${part}${ext}`;
+}
+
+async function exportBundle(args) {
+  const config = strapi.config.get('plugin::offline-sync', {});
+  const bundleService = strapi.plugin('offline-sync').service('bundle');
+
+  if (config.mode === 'master') {
+    if (!args.ship) {
+      throw new Error('--ship <shipId> is required on master');
+    }
+    if (args.since !== undefined && (!Number.isInteger(args.since) || args.since < 0)) {
+      throw new Error('--since must be a change log sequence number');
+    }
+
+    const file = args.file || defaultFileName('master', args.ship);
+    const result = await bundleService.exportMasterBundle(args.ship, async (bundle, part) => {
+      const partFile = partFileName(file, part.part);
+      await fs.writeFile(partFile, bundle);
+      console.log(`  → ${partFile} (sequence ${part.fromSequence}..${part.toSequence})`);
+    }, { since: args.since });
+
+    console.log(`✓ Exported ${result.messages} message(s) for ${args.ship} (sequence ${result.fromSequence}..${result.toSequence}) in ${result.parts} part(s), ${result.media} media file(s)`);
+    return;
+  }
+
+  const file = args.file || defaultFileName(config.shipId, 'master');
+  const result = await bundleService.exportShipBundle(async (bundle, part) => {
+    const partFile = partFileName(file, part);
+    await fs.writeFile(partFile, bundle);
+    console.log(`  → ${partFile}`);
+  });
+
+  if (result.operations === 0) {
+    console.log('Nothing to export - no pending operations');
+  } else {
+    console.log(`✓ Exported ${result.operations} operation(s) in ${result.messages} message(s), ${result.parts} part(s), ${result.media} media file(s)`);
+  }
+  if (result.failed > 0) {
+    console.log(`✗ ${result.failed} operation(s) failed to prepare (see sync queue)`);
+  }
+}
+
+async function importBundle(args) {
+  if (args.files.length === 0) {
+    throw new Error('bundle file is required');
+  }
+
+  const config = strapi.config.get('plugin::offline-sync', {});
+  const bundleService = strapi.plugin('offline-sync').service('bundle');
+
+  // Parts in the order given - each is read (and held in memory) on its own
+  for (const file of args.files) {
+    const contents = bundleService.read(await fs.readFile(file));
+
+    const result = config.mode === 'master'
+      ? await bundleService.importShipBundle(contents)
+      : await bundleService.importMasterBundle(contents);
+
+    console.log(`✓ ${path.basename(file)}: imported ${result.processed} of ${result.messages} message(s), ${result.media} media file(s)`);
+    if (result.failed > 0) {
+      console.log(`✗ ${result.failed} message(s) failed (see logs and dead letter queue)`);
+    }
+  }
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!['export', 'import'].includes(args.command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { createStrapi, compileStrapi } = require('@strapi/strapi');
+
+  console.log('Compiling Strapi...');
+  const appContext = await compileStrapi();
+
+  console.log('Creating Strapi instance...');
+  const app = await createStrapi(appContext).load();
+
+  app.log.level = 'error';
+
+  // Set global strapi instance
+  global.strapi = app;
+
+  let exitCode = 0;
+  try {
+    if (args.command === 'export') {
+      await exportBundle(args);
+    } else {
+      await importBundle(args);
+    }
+  } catch (error) {
+    console.error(`Bundle ${args.command} failed: ${error.message}`);
+    exitCode = 1;
+  } finally {
+    await app.destroy();
+    process.exit(exitCode);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = {
+  parseArgs,
+  exportBundle,
+  importBundle,
+};
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Box, Flex, Typography, Badge, Button } from '@strapi/design-system';
+
+// Types
+export type MergeSide = 'ship' | 'master';
+
+export interface ConflictField {
+  field: string;
+  path: Array<string | number>;
+  kind: 'modified' | 'deleted-on-ship' | 'deleted-on-master';
+  base: any;
+  master: any;
+  ship: any;
+}
+
+interface ConflictDiffProps {
+  shipData: any;
+  masterData: any;
+  mergedData?: any;
+  conflictFields?: ConflictField[] | null;
+  choices?: Record<string, MergeSide>;
+  onChoiceChange?: (field: string, side: MergeSide) => void; // Pickers hidden when omitted
+  labels?: { ship: string; master: string };
+}
+
+// Internal / database specific keys - ids differ between ship and master databases
+const IGNORED_KEYS = [
+  'id', 'documentId', 'createdAt', 'updatedAt', 'publishedAt',
+  'createdBy', 'updatedBy', 'locale', 'localizations',
+];
+
+const CONFLICT_KIND_LABELS: Record<ConflictField['kind'], string> = {
+  'modified': 'changed on both sides',
+  'deleted-on-ship': 'removed on ship, changed on master',
+  'deleted-on-master': 'removed on master, changed on ship',
+};
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Media references carry url + mime/hash (upload file entity)
+const isMedia = (value: any): boolean =>
+  isPlainObject(value) && typeof value.url === 'string' && ('mime' in value || 'hash' in value);
+
+// Comparable form: media by file identity, components without database ids
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (isMedia(value)) return `media:${value.hash || value.url}`;
+  if (isPlainObject(value)) {
+    return Object.keys(value)
+      .filter((key) => !IGNORED_KEYS.includes(key))
+      .sort()
+      .reduce((acc: Record<string, any>, key) => {
+        acc[key] = normalize(value[key]);
+        return acc;
+      }, {});
+  }
+  return value === undefined ? null : value;
+};
+
+const isSame = (a: any, b: any): boolean => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+/**
+ * Top-level fields whose content differs between ship and master
+ */
+export const getDifferingFields = (shipData: any, masterData: any): string[] => {
+  const keys = new Set([...Object.keys(shipData || {}), ...Object.keys(masterData || {})]);
+  return [...keys]
+    .filter((key) => !IGNORED_KEYS.includes(key))
+    .filter((key) => !isSame(shipData?.[key], masterData?.[key]))
+    .sort();
+};
+
+/**
+ * Build the POST /conflicts/:id/resolve body for a field-by-field merge
+ * - three-way conflicts: per-field choices applied to the stored merge result
+ * - legacy conflicts: master data with the fields picked from the ship
+ */
+export const buildMergePayload = (
+  conflict: { ship_data: any; master_data: any; merged_data?: any; conflict_fields?: ConflictField[] | null },
+  choices: Record<string, MergeSide>
+): Record<string, any> => {
+  if (conflict.merged_data && Array.isArray(conflict.conflict_fields)) {
+    return { strategy: 'merge', fields: choices };
+  }
+
+  const data: Record<string, any> = {};
+  for (const field of getDifferingFields(conflict.ship_data, conflict.master_data)) {
+    if (choices[field] === 'ship') {
+      data[field] = conflict.ship_data?.[field] ?? null;
+    }
+  }
+  return { strategy: 'merge', data };
+};
+
+// Pair repeatable component / dynamic zone entries: by id when ids match, else by position
+const alignEntries = (ship: any[], master: any[]): Array<{ ship?: any; master?: any }> => {
+  const key = (item: any) => (isPlainObject(item) && item.id != null ? `${item.__component || ''}:${item.id}` : null);
+  const masterKeys = new Set(master.map(key).filter(Boolean));
+  const keyed = ship.some((item) => key(item) && masterKeys.has(key(item)));
+
+  if (!keyed) {
+    return Array.from({ length: Math.max(ship.length, master.length) }, (_, index) => ({
+      ship: ship[index],
+      master: master[index],
+    }));
+  }
+
+  const pairs: Array<{ ship?: any; master?: any }> = master.map((item) => ({
+    master: item,
+    ship: ship.find((candidate) => key(candidate) === key(item)),
+  }));
+  for (const item of ship) {
+    if (!masterKeys.has(key(item))) {
+      pairs.push({ ship: item });
+    }
+  }
+  return pairs;
+};
+
+const formatComponentName = (uid?: string): string => (uid ? uid.split('.').pop() || uid : 'entry');
+
+// Media Reference Component
+const MediaReference = ({ media }: { media: any }) => (
+  <Flex gap={1} alignItems="center">
+    <span>🖼️</span>
+    <a href={media.url} target="_blank" rel="noopener noreferrer" style={{ fontSize: '12px' }}>
+      {media.name || media.url}
+    </a>
+  </Flex>
+);
+
+// Leaf Value Component
+const ValueView = ({ value }: { value: any }) => {
+  if (value === undefined || value === null || value === '') {
+    return <Typography variant="pi" textColor="neutral500">—</Typography>;
+  }
+  if (isMedia(value)) {
+    return <MediaReference media={value} />;
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(isMedia)) {
+    return (
+      <Flex direction="column" alignItems="flex-start" gap={1}>
+        {value.map((media, index) => <MediaReference key={index} media={media} />)}
+      </Flex>
+    );
+  }
+  if (typeof value === 'object') {
+    return (
+      <pre style={{ fontSize: '11px', whiteSpace: 'pre-wrap', wordBreak: 'break-word', margin: 0, fontFamily: 'monospace' }}>
+        {JSON.stringify(normalize(value), null, 2)}
+      </pre>
+    );
+  }
+  return <Typography variant="pi" style={{ wordBreak: 'break-word' }}>{String(value)}</Typography>;
+};
+
+// Diff Row Component (label | ship | master)
+const DiffRow = ({
+  label,
+  ship,
+  master,
+  depth,
+  badge,
+}: {
+  label: string;
+  ship: React.ReactNode;
+  master: React.ReactNode;
+  depth: number;
+  badge?: React.ReactNode;
+}) => (
+  <Flex alignItems="stretch" gap={2} paddingTop={1} paddingBottom={1}>
+    <Box style={{ width: '24%', paddingLeft: `${depth * 12}px` }}>
+      <Flex gap={1} wrap="wrap">
+        <Typography variant="pi" fontWeight="bold" textColor="neutral700">{label}</Typography>
+        {badge}
+      </Flex>
+    </Box>
+    <Box style={{ width: '38%' }}>{ship}</Box>
+    <Box style={{ width: '38%' }}>{master}</Box>
+  </Flex>
+);
+
+const highlighted = (side: MergeSide, content: React.ReactNode) => (
+  <Box background={side === 'ship' ? 'warning100' : 'primary100'} padding={1} borderRadius="4px">
+    {content}
+  </Box>
+);
+
+// Structural Diff Tree Component
+const DiffTree = ({ label, ship, master, depth }: { label: string; ship: any; master: any; depth: number }) => {
+  if (isSame(ship, master)) {
+    return <DiffRow label={label} depth={depth} ship={<ValueView value={ship} />} master={<Typography variant="pi" textColor="neutral500">same</Typography>} />;
+  }
+
+  // Component: compare attribute by attribute
+  if (isPlainObject(ship) && isPlainObject(master) && !isMedia(ship) && !isMedia(master)) {
+    const keys = [...new Set([...Object.keys(ship), ...Object.keys(master)])]
+      .filter((key) => !IGNORED_KEYS.includes(key) && key !== '__component')
+      .filter((key) => !isSame(ship[key], master[key]));
+    return (
+      <>
+        <DiffRow label={label} depth={depth} ship={null} master={null} />
+        {keys.map((key) => (
+          <DiffTree key={key} label={key} ship={ship[key]} master={master[key]} depth={depth + 1} />
+        ))}
+      </>
+    );
+  }
+
+  // Repeatable component / dynamic zone: entry by entry
+  const isEntryList = (value: any) => Array.isArray(value) && value.some((item) => isPlainObject(item) && !isMedia(item));
+  const isListOrEmpty = (value: any) => value == null || Array.isArray(value);
+  if (isListOrEmpty(ship) && isListOrEmpty(master) && (isEntryList(ship) || isEntryList(master))) {
+    const pairs = alignEntries(ship || [], master || []);
+    return (
+      <>
+        <DiffRow label={label} depth={depth} ship={null} master={null} />
+        {pairs.map((pair, index) => {
+          const entryLabel = `#${index + 1} ${formatComponentName(pair.master?.__component || pair.ship?.__component)}`;
+          if (pair.ship === undefined || pair.master === undefined) {
+            const side: MergeSide = pair.ship === undefined ? 'master' : 'ship';
+            return (
+              <DiffRow
+                key={index}
+                label={entryLabel}
+                depth={depth + 1}
+                badge={<Badge>{side === 'ship' ? 'ONLY ON SHIP' : 'ONLY ON MASTER'}</Badge>}
+                ship={side === 'ship' ? highlighted('ship', <ValueView value={pair.ship} />) : <ValueView value={undefined} />}
+                master={side === 'master' ? highlighted('master', <ValueView value={pair.master} />) : <ValueView value={undefined} />}
+              />
+            );
+          }
+          if (pair.ship?.__component !== pair.master?.__component) {
+            return (
+              <DiffRow
+                key={index}
+                label={entryLabel}
+                depth={depth + 1}
+                badge={<Badge>REPLACED</Badge>}
+                ship={highlighted('ship', <ValueView value={pair.ship} />)}
+                master={highlighted('master', <ValueView value={pair.master} />)}
+              />
+            );
+          }
+          return <DiffTree key={index} label={entryLabel} ship={pair.ship} master={pair.master} depth={depth + 1} />;
+        })}
+      </>
+    );
+  }
+
+  // Scalars, media, relations, JSON: compared as a whole
+  return (
+    <DiffRow
+      label={label}
+      depth={depth}
+      ship={highlighted('ship', <ValueView value={ship} />)}
+      master={highlighted('master', <ValueView value={master} />)}
+    />
+  );
+};
+
+// Take Ship / Take Master Picker Component
+const SidePicker = ({ value, onChange }: { value: MergeSide; onChange: (side: MergeSide) => void }) => (
+  <Flex gap={1}>
+    <Button size="S" variant={value === 'ship' ? 'default' : 'tertiary'} onClick={() => onChange('ship')}>
+      Take ship
+    </Button>
+    <Button size="S" variant={value === 'master' ? 'default' : 'tertiary'} onClick={() => onChange('master')}>
+      Take master
+    </Button>
+  </Flex>
+);
+
+/**
+ * Side-by-side structural diff of a conflict with per-field merge pickers
+ * Unpicked fields default to master
+ */
+const ConflictDiff = ({
+  shipData,
+  masterData,
+  mergedData,
+  conflictFields,
+  choices = {},
+  onChoiceChange,
+  labels = { ship: 'Ship', master: 'Master' },
+}: ConflictDiffProps) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const isThreeWay = !!mergedData && Array.isArray(conflictFields);
+  const differingFields = getDifferingFields(shipData, masterData);
+  const unchangedFields = [...new Set([...Object.keys(shipData || {}), ...Object.keys(masterData || {})])]
+    .filter((key) => !IGNORED_KEYS.includes(key) && !differingFields.includes(key))
+    .sort();
+
+  return (
+    <Box>
+      <Flex alignItems="stretch" gap={2} paddingBottom={2}>
+        <Box style={{ width: '24%' }}>
+          <Typography variant="sigma" textColor="neutral600">Field</Typography>
+        </Box>
+        <Box style={{ width: '38%' }}>
+          <Typography variant="sigma" textColor="warning700">{labels.ship}</Typography>
+        </Box>
+        <Box style={{ width: '38%' }}>
+          <Typography variant="sigma" textColor="primary700">{labels.master}</Typography>
+        </Box>
+      </Flex>
+
+      {differingFields.length === 0 && (
+        <Typography variant="omega" textColor="neutral600">
+          {labels.ship} and {labels.master} content are identical.
+        </Typography>
+      )}
+
+      {differingFields.map((field) => {
+        const fieldConflicts = isThreeWay
+          ? (conflictFields || []).filter((conflict) => conflict.path[0] === field)
+          : [];
+
+        return (
+          <Box key={field} marginBottom={3} padding={3} borderColor="neutral200" hasRadius>
+            <Flex justifyContent="space-between" alignItems="center" marginBottom={2} gap={2}>
+              <Flex gap={2} alignItems="center">
+                <Typography variant="omega" fontWeight="bold">{field}</Typography>
+                {isThreeWay ? (
+                  fieldConflicts.length > 0 ? (
+                    <Badge backgroundColor="danger100" textColor="danger700">CONFLICT</Badge>
+                  ) : (
+                    <Badge backgroundColor="success100" textColor="success700">AUTO-MERGED</Badge>
+                  )
+                ) : (
+                  <Badge backgroundColor="warning100" textColor="warning700">CHANGED</Badge>
+                )}
+              </Flex>
+              {!isThreeWay && onChoiceChange && (
+                <SidePicker value={choices[field] || 'master'} onChange={(side) => onChoiceChange(field, side)} />
+              )}
+            </Flex>
+
+            {onChoiceChange && fieldConflicts.map((conflict) => (
+              <Flex
+                key={conflict.field}
+                justifyContent="space-between"
+                alignItems="center"
+                background="danger100"
+                padding={2}
+                marginBottom={2}
+                gap={2}
+                hasRadius
+              >
+                <Typography variant="pi">
+                  <strong>{conflict.field}</strong> — {CONFLICT_KIND_LABELS[conflict.kind] || conflict.kind}
+                </Typography>
+                <SidePicker
+                  value={choices[conflict.field] || 'master'}
+                  onChange={(side) => onChoiceChange(conflict.field, side)}
+                />
+              </Flex>
+            ))}
+
+            <DiffTree label={field} ship={shipData?.[field]} master={masterData?.[field]} depth={0} />
+          </Box>
+        );
+      })}
+
+      {unchangedFields.length > 0 && (
+        <Box marginTop={2}>
+          <Button size="S" variant="tertiary" onClick={() => setShowUnchanged(!showUnchanged)}>
+            {showUnchanged ? 'Hide' : 'Show'} unchanged fields ({unchangedFields.length})
+          </Button>
+          {showUnchanged && (
+            <Box marginTop={2}>
+              {unchangedFields.map((field) => (
+                <DiffTree key={field} label={field} ship={shipData?.[field]} master={masterData?.[field]} depth={0} />
+              ))}
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ConflictDiff;
@@ -0,0 +1,295 @@
+import React from 'react';
+import { Box, Flex, Typography, Badge, Table, Thead, Tbody, Tr, Th, Td } from '@strapi/design-system';
+
+// Types
+export interface ShipHealthReport {
+  queue: { pending: number; failed: number; conflicts: number };
+  lastPushAt: string | null;
+  oldestPendingAt: string | null;
+  media: {
+    enabled: boolean;
+    lastSyncAt: string | null;
+    filesDownloaded: number;
+    filesFailed: number;
+    isRunning: boolean;
+    error: string | null;
+  };
+  versions: { strapi: string | null; plugin: string | null; node: string };
+  dbSizeBytes: number | null;
+  reportedAt: string;
+}
+
+export interface FleetAlert {
+  shipId: string;
+  level: 'warning' | 'critical';
+  type: string;
+  message: string;
+}
+
+export interface FleetShip {
+  shipId: string;
+  shipName: string;
+  connectivityStatus: 'online' | 'offline';
+  lastSeenAt: string | null;
+  health: ShipHealthReport | null;
+  lagMinutes: number | null;
+  history: Array<{ at: string; lagMinutes: number; pending: number }>;
+  alerts: FleetAlert[];
+}
+
+export interface Fleet {
+  ships: FleetShip[];
+  alerts: FleetAlert[];
+  thresholds: { lagWarningMinutes: number; lagCriticalMinutes: number; queueWarningSize: number };
+  masterVersion: string | null;
+}
+
+const SPARKLINE_WIDTH = 140;
+const SPARKLINE_HEIGHT = 32;
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / 1440)}d ${Math.floor((minutes % 1440) / 60)}h`;
+};
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null || bytes === undefined) return '-';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '-');
+
+const lagColor = (minutes: number | null, thresholds: Fleet['thresholds']) => {
+  if (minutes === null) return 'neutral';
+  if (minutes >= thresholds.lagCriticalMinutes) return 'danger';
+  if (minutes >= thresholds.lagWarningMinutes) return 'warning';
+  return 'success';
+};
+
+// SVG stroke colors matching the design system's 600 shades
+const STROKES: Record<string, string> = {
+  success: '#328048',
+  warning: '#d9822f',
+  danger: '#d02b20',
+  neutral: '#8e8ea9',
+};
+
+/**
+ * Lag over the last 24 hours (one sample per 10 minutes) plus the current value,
+ * with the warning threshold as a dashed line
+ */
+const LagSparkline = ({ ship, thresholds }: { ship: FleetShip; thresholds: Fleet['thresholds'] }) => {
+  const values = [...ship.history.map((sample) => sample.lagMinutes), ship.lagMinutes ?? 0];
+  if (values.length < 2) {
+    return <Typography variant="pi" textColor="neutral500">Collecting...</Typography>;
+  }
+
+  const max = Math.max(thresholds.lagWarningMinutes * 1.2, ...values);
+  const x = (index: number) => (index / (values.length - 1)) * SPARKLINE_WIDTH;
+  const y = (value: number) => SPARKLINE_HEIGHT - (value / max) * (SPARKLINE_HEIGHT - 2) - 1;
+  const points = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const warningY = y(thresholds.lagWarningMinutes);
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} role="img" aria-label={`Lag of ${ship.shipId} over 24 hours`}>
+      <line x1={0} x2={SPARKLINE_WIDTH} y1={warningY} y2={warningY} stroke={STROKES.warning} strokeDasharray="3 3" strokeWidth={1} />
+      <polyline points={points} fill="none" stroke={STROKES[lagColor(ship.lagMinutes, thresholds)]} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const SummaryCard = ({ title, value, color }: { title: string; value: string | number; color: string }) => (
+  <Box background="neutral0" padding={4} borderRadius="8px" shadow="filterShadow" style={{ minWidth: 160 }}>
+    <Typography variant="sigma" textColor="neutral600">{title}</Typography>
+    <Box paddingTop={1}>
+      <Typography variant="alpha" textColor={`${color}600`}>{value}</Typography>
+    </Box>
+  </Box>
+);
+
+/**
+ * Master fleet view: alerts for ships drifting behind and per-ship health
+ * reported with their heartbeats (GET /offline-sync/fleet)
+ */
+const FleetDashboard = ({ fleet }: { fleet: Fleet | null }) => {
+  if (!fleet) {
+    return (
+      <Box padding={6} textAlign="center">
+        <Typography textColor="neutral600">Fleet health is not available.</Typography>
+      </Box>
+    );
+  }
+
+  const { ships, alerts, thresholds } = fleet;
+  const reporting = ships.filter((ship) => ship.health);
+  const maxLag = reporting.length > 0 ? Math.max(...reporting.map((ship) => ship.lagMinutes ?? 0)) : null;
+  const totalPending = reporting.reduce((sum, ship) => sum + (ship.health?.queue.pending ?? 0), 0);
+  const criticalCount = alerts.filter((alert) => alert.level === 'critical').length;
+
+  return (
+    <Box>
+      {/* Summary */}
+      <Flex gap={4} marginTop={4} wrap="wrap">
+        <SummaryCard title="Ships" value={ships.length} color="primary" />
+        <SummaryCard
+          title="Online"
+          value={ships.filter((ship) => ship.connectivityStatus === 'online').length}
+          color="success"
+        />
+        <SummaryCard title="Max Lag" value={formatMinutes(maxLag)} color={lagColor(maxLag, thresholds)} />
+        <SummaryCard title="Changes Waiting" value={totalPending} color={totalPending > 0 ? 'warning' : 'success'} />
+        <SummaryCard
+          title="Alerts"
+          value={alerts.length}
+          color={criticalCount > 0 ? 'danger' : alerts.length > 0 ? 'warning' : 'success'}
+        />
+      </Flex>
+
+      {/* Alerts */}
+      {alerts.length > 0 && (
+        <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={6}>
+          <Box marginBottom={4}>
+            <Typography variant="beta" fontWeight="bold">
+              ⚠️ Alerts
+            </Typography>
+          </Box>
+          <Flex direction="column" alignItems="stretch" gap={2}>
+            {alerts.map((alert, index) => (
+              <Flex key={`${alert.shipId}-${alert.type}-${index}`} gap={3} alignItems="center">
+                <Badge
+                  backgroundColor={alert.level === 'critical' ? 'danger100' : 'warning100'}
+                  textColor={alert.level === 'critical' ? 'danger700' : 'warning700'}
+                >
+                  {alert.level.toUpperCase()}
+                </Badge>
+                <Typography fontWeight="bold" style={{ fontFamily: 'monospace' }}>{alert.shipId}</Typography>
+                <Typography textColor="neutral700">{alert.message}</Typography>
+              </Flex>
+            ))}
+          </Flex>
+        </Box>
+      )}
+
+      {/* Ships */}
+      <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={6}>
+        <Box marginBottom={2}>
+          <Typography variant="beta" fontWeight="bold">
+            🚢 Fleet Health
+          </Typography>
+        </Box>
+        <Box marginBottom={4}>
+          <Typography variant="pi" textColor="neutral600">
+            Lag is the age of a ship's oldest change not yet on master (warning after {formatMinutes(thresholds.lagWarningMinutes)}, critical after {formatMinutes(thresholds.lagCriticalMinutes)}).
+          </Typography>
+        </Box>
+
+        {ships.length === 0 ? (
+          <Box padding={6} textAlign="center">
+            <Typography textColor="neutral600">
+              No ships registered yet. Ships will appear here when they connect.
+            </Typography>
+          </Box>
+        ) : (
+          <Table colCount={8} rowCount={ships.length + 1}>
+            <Thead>
+              <Tr>
+                <Th><Typography variant="sigma">Ship</Typography></Th>
+                <Th><Typography variant="sigma">Lag (24h)</Typography></Th>
+                <Th><Typography variant="sigma">Queue</Typography></Th>
+                <Th><Typography variant="sigma">Last Push</Typography></Th>
+                <Th><Typography variant="sigma">Media</Typography></Th>
+                <Th><Typography variant="sigma">Versions</Typography></Th>
+                <Th><Typography variant="sigma">DB Size</Typography></Th>
+                <Th><Typography variant="sigma">Last Report</Typography></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {ships.map((ship) => {
+                const health = ship.health;
+                const color = lagColor(ship.lagMinutes, thresholds);
+                return (
+                  <Tr key={ship.shipId}>
+                    <Td>
+                      <Flex direction="column" alignItems="flex-start" gap={1}>
+                        <Typography textColor="primary600" style={{ fontFamily: 'monospace', fontWeight: 'bold' }}>
+                          {ship.shipId}
+                        </Typography>
+                        <Badge
+                          backgroundColor={ship.connectivityStatus === 'online' ? 'success100' : 'warning100'}
+                          textColor={ship.connectivityStatus === 'online' ? 'success700' : 'warning700'}
+                        >
+                          {ship.connectivityStatus === 'online' ? '🟢 ONLINE' : '🟠 OFFLINE'}
+                        </Badge>
+                      </Flex>
+                    </Td>
+                    <Td>
+                      <Flex direction="column" alignItems="flex-start" gap={1}>
+                        <Badge backgroundColor={`${color}100`} textColor={`${color}700`}>
+                          {health ? formatMinutes(ship.lagMinutes) : 'NO REPORT'}
+                        </Badge>
+                        {health && <LagSparkline ship={ship} thresholds={thresholds} />}
+                      </Flex>
+                    </Td>
+                    <Td>
+                      {health ? (
+                        <Typography variant="pi" textColor="neutral800">
+                          {health.queue.pending} waiting
+                          {health.queue.failed > 0 && ` · ${health.queue.failed} failed`}
+                          {health.queue.conflicts > 0 && ` · ${health.queue.conflicts} conflicts`}
+                        </Typography>
+                      ) : '-'}
+                    </Td>
+                    <Td>
+                      <Typography variant="pi" textColor="neutral600">{formatDate(health?.lastPushAt ?? null)}</Typography>
+                    </Td>
+                    <Td>
+                      {health?.media.enabled ? (
+                        <Typography variant="pi" textColor={health.media.error ? 'danger600' : 'neutral600'}>
+                          {health.media.isRunning ? 'Running · ' : ''}
+                          {health.media.filesDownloaded} downloaded
+                          {health.media.filesFailed > 0 && `, ${health.media.filesFailed} failed`}
+                          {health.media.lastSyncAt && ` · ${formatDate(health.media.lastSyncAt)}`}
+                        </Typography>
+                      ) : (
+                        <Typography variant="pi" textColor="neutral500">{health ? 'Disabled' : '-'}</Typography>
+                      )}
+                    </Td>
+                    <Td>
+                      {health ? (
+                        <Typography
+                          variant="pi"
+                          textColor={fleet.masterVersion && health.versions.plugin && health.versions.plugin !== fleet.masterVersion ? 'warning600' : 'neutral600'}
+                        >
+                          Strapi {health.versions.strapi || '?'} · plugin {health.versions.plugin || '?'}
+                        </Typography>
+                      ) : '-'}
+                    </Td>
+                    <Td>
+                      <Typography variant="pi" textColor="neutral600">{formatBytes(health?.dbSizeBytes ?? null)}</Typography>
+                    </Td>
+                    <Td>
+                      <Typography variant="pi" textColor="neutral600">
+                        {formatDate(health?.reportedAt ?? ship.lastSeenAt)}
+                      </Typography>
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default FleetDashboard;
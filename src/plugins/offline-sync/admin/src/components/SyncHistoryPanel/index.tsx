@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { useFetchClient, useRBAC, unstable_useContentManagerContext } from '@strapi/strapi/admin';
+import { Box, Flex, Typography, Badge, Button, Loader } from '@strapi/design-system';
+import { PERMISSIONS } from '../../permissions';
+
+// Types
+interface HistoryEvent {
+  at: string;
+  source: 'sync-queue' | 'processed-message' | 'edit-log' | 'conflict' | 'mapping';
+  type: string;
+  shipId: string | null;
+  operation: string | null;
+  actor: string | null;
+  documentId: string;
+  details: Record<string, any>;
+}
+
+interface DocumentHistory {
+  mode: 'master' | 'replica';
+  mappings: Array<{ shipId: string; replicaDocumentId: string; masterDocumentId: string }>;
+  events: HistoryEvent[];
+}
+
+// Events shown before "Show all"
+const COLLAPSED_COUNT = 5;
+
+const TYPE_LABELS: Record<string, string> = {
+  queued: 'Changed on ship',
+  confirmed: 'Reached master',
+  failed: 'Push failed',
+  processed: 'Applied',
+  'processing-failed': 'Apply failed',
+  edited: 'Last edit',
+  conflict: 'Conflict',
+  'conflict-resolved': 'Conflict resolved',
+  mapped: 'Linked',
+};
+
+const TYPE_COLORS: Record<string, string> = {
+  confirmed: 'success',
+  processed: 'success',
+  failed: 'danger',
+  'processing-failed': 'danger',
+  conflict: 'warning',
+  'conflict-resolved': 'secondary',
+};
+
+const describe = (event: HistoryEvent): string => {
+  const parts = [
+    event.operation,
+    event.shipId && `ship ${event.shipId}`,
+    event.actor && !event.actor.startsWith('ship-') && `by ${event.actor.replace(/^admin:/, '')}`,
+    event.details.resolution,
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+/**
+ * Sync timeline of the document open in the content manager edit view
+ * (editView.right-links injection zone)
+ */
+const SyncHistoryPanel = () => {
+  const { model, id } = unstable_useContentManagerContext();
+  const { get } = useFetchClient();
+  const { allowedActions: { canRead } } = useRBAC(PERMISSIONS.read);
+
+  const [history, setHistory] = useState<DocumentHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const enabled = canRead && !!id && !!model?.startsWith('api::');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+    get(`/offline-sync/history/${encodeURIComponent(model)}/${encodeURIComponent(id as string)}`)
+      .then((res: any) => {
+        if (!cancelled) {
+          setHistory(res.data);
+          setError(null);
+        }
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message || 'Failed to load sync history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, model, id, get]);
+
+  if (!enabled) return null;
+
+  const events = history?.events || [];
+  const visible = expanded ? events : events.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Box
+      background="neutral0"
+      hasRadius
+      shadow="tableShadow"
+      paddingTop={4}
+      paddingBottom={4}
+      paddingLeft={4}
+      paddingRight={4}
+      width="100%"
+    >
+      <Typography variant="sigma" textColor="neutral600" tag="h2">
+        Sync History
+      </Typography>
+
+      {loading && (
+        <Box paddingTop={3}>
+          <Loader small>Loading sync history...</Loader>
+        </Box>
+      )}
+
+      {error && (
+        <Box paddingTop={3}>
+          <Typography variant="pi" textColor="danger600">{error}</Typography>
+        </Box>
+      )}
+
+      {!loading && !error && history && (
+        <Box paddingTop={3}>
+          {history.mappings.length > 0 && (
+            <Box paddingBottom={3}>
+              <Typography variant="pi" textColor="neutral600">
+                {history.mode === 'master'
+                  ? `On ${history.mappings.length} ship(s): ${history.mappings.map((m) => m.shipId).join(', ')}`
+                  : `Master document: ${history.mappings[0].masterDocumentId}`}
+              </Typography>
+            </Box>
+          )}
+
+          {events.length === 0 ? (
+            <Typography variant="pi" textColor="neutral600">
+              Not synced yet.
+            </Typography>
+          ) : (
+            <Flex direction="column" alignItems="stretch" gap={3}>
+              {visible.map((event, index) => (
+                <Box key={`${event.source}-${event.type}-${event.at}-${index}`}>
+                  <Flex gap={2} alignItems="center">
+                    <Badge
+                      backgroundColor={`${TYPE_COLORS[event.type] || 'neutral'}100`}
+                      textColor={`${TYPE_COLORS[event.type] || 'neutral'}700`}
+                    >
+                      {TYPE_LABELS[event.type] || event.type}
+                    </Badge>
+                    <Typography variant="pi" textColor="neutral500">
+                      {new Date(event.at).toLocaleString()}
+                    </Typography>
+                  </Flex>
+                  <Box paddingTop={1}>
+                    <Typography variant="pi" textColor="neutral800">{describe(event)}</Typography>
+                  </Box>
+                  {(event.details.note || event.details.error) && (
+                    <Box paddingTop={1}>
+                      <Typography variant="pi" textColor="neutral600">
+                        {event.details.note ? `“${event.details.note}”` : event.details.error}
+                      </Typography>
+                    </Box>
+                  )}
+                </Box>
+              ))}
+            </Flex>
+          )}
+
+          {events.length > COLLAPSED_COUNT && (
+            <Box paddingTop={3}>
+              <Button variant="tertiary" size="S" onClick={() => setExpanded(!expanded)}>
+                {expanded ? 'Show less' : `Show all (${events.length})`}
+              </Button>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SyncHistoryPanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Badge } from '@strapi/design-system';
+
+// Types
+export type DocumentSyncState = 'pending' | 'synced' | 'conflict' | 'failed' | 'not-synced';
+
+export interface DocumentStatus {
+  documentId: string;
+  status: DocumentSyncState;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+  ships?: string[];
+}
+
+type GetFn = (url: string) => Promise<any>;
+
+// Wait before sending collected list view requests (all cells of a page mount together)
+const BATCH_DELAY = 20;
+
+// Largest batch the status endpoint accepts
+const BATCH_SIZE = 100;
+
+const COLORS: Record<DocumentSyncState, string> = {
+  pending: 'warning',
+  synced: 'success',
+  conflict: 'danger',
+  failed: 'danger',
+  'not-synced': 'neutral',
+};
+
+const LABELS: Record<DocumentSyncState, string> = {
+  pending: 'PENDING',
+  synced: 'SYNCED',
+  conflict: 'CONFLICT',
+  failed: 'FAILED',
+  'not-synced': 'NOT SYNCED',
+};
+
+export const SyncStatusBadge = ({ status }: { status: DocumentSyncState }) => (
+  <Badge backgroundColor={`${COLORS[status] || 'neutral'}100`} textColor={`${COLORS[status] || 'neutral'}700`}>
+    {LABELS[status] || status.toUpperCase()}
+  </Badge>
+);
+
+interface PendingBatch {
+  get: GetFn;
+  waiters: Map<string, Array<(status: DocumentStatus | null) => void>>;
+}
+
+const batches = new Map<string, PendingBatch>();
+
+const flush = async (model: string) => {
+  const batch = batches.get(model);
+  batches.delete(model);
+  if (!batch) return;
+
+  const ids = [...batch.waiters.keys()];
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const chunk = ids.slice(i, i + BATCH_SIZE);
+    let statuses: Record<string, DocumentStatus> = {};
+    try {
+      const res = await batch.get(
+        `/offline-sync/documents/${encodeURIComponent(model)}/status?documentIds=${chunk.map(encodeURIComponent).join(',')}`
+      );
+      statuses = res.data?.statuses || {};
+    } catch {
+      // No read permission or sync tables missing: cells stay empty
+    }
+    for (const id of chunk) {
+      for (const resolve of batch.waiters.get(id) || []) {
+        resolve(statuses[id] ?? null);
+      }
+    }
+  }
+};
+
+/**
+ * Sync status of one document; requests made within BATCH_DELAY for the same
+ * model are sent as one (a list view page asks for every row at once)
+ */
+export const fetchDocumentStatus = (get: GetFn, model: string, documentId: string): Promise<DocumentStatus | null> =>
+  new Promise((resolve) => {
+    let batch = batches.get(model);
+    if (!batch) {
+      batch = { get, waiters: new Map() };
+      batches.set(model, batch);
+      setTimeout(() => flush(model), BATCH_DELAY);
+    }
+    const waiters = batch.waiters.get(documentId) || [];
+    waiters.push(resolve);
+    batch.waiters.set(documentId, waiters);
+  });
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { useFetchClient } from '@strapi/strapi/admin';
+import { Tooltip, Typography } from '@strapi/design-system';
+import { SyncStatusBadge, fetchDocumentStatus, DocumentStatus } from '../SyncStatusBadge';
+
+interface SyncStatusCellProps {
+  model: string;
+  documentId?: string;
+}
+
+/**
+ * Sync status column cell of the content manager list view
+ * (Admin/CM/pages/ListView/inject-column-in-table hook)
+ */
+const SyncStatusCell = ({ model, documentId }: SyncStatusCellProps) => {
+  const { get } = useFetchClient();
+  const [status, setStatus] = useState<DocumentStatus | null>(null);
+
+  const enabled = !!documentId && model.startsWith('api::');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    fetchDocumentStatus(get, model, documentId as string).then((result) => {
+      if (!cancelled) setStatus(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, model, documentId, get]);
+
+  if (!enabled || !status) {
+    return <Typography textColor="neutral800">-</Typography>;
+  }
+
+  const hint = status.error
+    || (status.pendingCount > 0 ? `${status.pendingCount} change(s) waiting to be pushed` : null)
+    || (status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : null);
+
+  return hint ? (
+    <Tooltip label={hint}>
+      <span>
+        <SyncStatusBadge status={status.status} />
+      </span>
+    </Tooltip>
+  ) : (
+    <SyncStatusBadge status={status.status} />
+  );
+};
+
+export default SyncStatusCell;
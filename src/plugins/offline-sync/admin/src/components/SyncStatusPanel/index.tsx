@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useFetchClient, useRBAC, useNotification, unstable_useContentManagerContext } from '@strapi/strapi/admin';
+import { Box, Flex, Typography, Button, Loader } from '@strapi/design-system';
+import { PERMISSIONS } from '../../permissions';
+import { SyncStatusBadge, DocumentStatus } from '../SyncStatusBadge';
+
+/**
+ * Sync status of the document open in the content manager edit view, with
+ * "Push now" on ships (editView.right-links injection zone)
+ */
+const SyncStatusPanel = () => {
+  const { model, id } = unstable_useContentManagerContext();
+  const { get, post } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { allowedActions: { canRead, canSync } } = useRBAC([...PERMISSIONS.read, ...PERMISSIONS.sync]);
+
+  const [mode, setMode] = useState<'master' | 'replica' | null>(null);
+  const [status, setStatus] = useState<DocumentStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pushing, setPushing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const enabled = canRead && !!id && !!model?.startsWith('api::');
+
+  const fetchStatus = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await get(
+        `/offline-sync/documents/${encodeURIComponent(model)}/status?documentIds=${encodeURIComponent(id as string)}`
+      );
+      setMode(res.data.mode);
+      setStatus(res.data.statuses[id as string] ?? null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sync status');
+    } finally {
+      setLoading(false);
+    }
+  }, [get, model, id]);
+
+  useEffect(() => {
+    if (enabled) fetchStatus();
+  }, [enabled, fetchStatus]);
+
+  const handlePush = async () => {
+    setPushing(true);
+    try {
+      const res = await post(
+        `/offline-sync/documents/${encodeURIComponent(model)}/${encodeURIComponent(id as string)}/push`
+      );
+      if (res.data.status) setStatus(res.data.status);
+      toggleNotification({
+        type: res.data.success ? 'success' : 'warning',
+        message: res.data.success
+          ? `Pushed ${res.data.pushed} change(s) to master`
+          : `${res.data.failed} change(s) failed to push`,
+      });
+    } catch (err: any) {
+      toggleNotification({ type: 'danger', message: err.message || 'Push failed' });
+      await fetchStatus();
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  if (!enabled) return null;
+
+  const canPush = mode === 'replica' && canSync && !!status && ['pending', 'failed'].includes(status.status);
+
+  return (
+    <Box
+      background="neutral0"
+      hasRadius
+      shadow="tableShadow"
+      paddingTop={4}
+      paddingBottom={4}
+      paddingLeft={4}
+      paddingRight={4}
+      width="100%"
+    >
+      <Typography variant="sigma" textColor="neutral600" tag="h2">
+        Sync Status
+      </Typography>
+
+      {loading && !status && (
+        <Box paddingTop={3}>
+          <Loader small>Loading sync status...</Loader>
+        </Box>
+      )}
+
+      {error && (
+        <Box paddingTop={3}>
+          <Typography variant="pi" textColor="danger600">{error}</Typography>
+        </Box>
+      )}
+
+      {status && (
+        <Flex direction="column" alignItems="stretch" gap={2} paddingTop={3}>
+          <Flex gap={2} alignItems="center">
+            <SyncStatusBadge status={status.status} />
+            {status.pendingCount > 0 && (
+              <Typography variant="pi" textColor="neutral600">
+                {status.pendingCount} change(s) waiting
+              </Typography>
+            )}
+          </Flex>
+
+          {status.lastSyncedAt && (
+            <Typography variant="pi" textColor="neutral600">
+              Last synced {new Date(status.lastSyncedAt).toLocaleString()}
+            </Typography>
+          )}
+
+          {mode === 'master' && status.ships && status.ships.length > 0 && (
+            <Typography variant="pi" textColor="neutral600">
+              On ship(s): {status.ships.join(', ')}
+            </Typography>
+          )}
+
+          {status.error && (
+            <Typography variant="pi" textColor={status.status === 'failed' ? 'danger600' : 'neutral600'}>
+              {status.error}
+            </Typography>
+          )}
+
+          {status.status === 'conflict' && mode === 'replica' && (
+            <Typography variant="pi" textColor="neutral600">
+              Resolve it in the Offline Sync conflict inbox.
+            </Typography>
+          )}
+
+          {canPush && (
+            <Button variant="secondary" size="S" onClick={handlePush} loading={pushing} fullWidth>
+              Push now
+            </Button>
+          )}
+        </Flex>
+      )}
+    </Box>
+  );
+};
+
+export default SyncStatusPanel;
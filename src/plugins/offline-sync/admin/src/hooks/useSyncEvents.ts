@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@strapi/strapi/admin';
+
+export type SyncEventHandlers = Record<string, (data: any) => void>;
+
+// Wait before reconnecting after the stream dropped (server may send its own retry:)
+const DEFAULT_RETRY_DELAY = 5000;
+
+/**
+ * Subscribe to the plugin's server-sent events (GET /offline-sync/events)
+ * EventSource cannot send the admin JWT, so the stream is read with fetch.
+ * Handlers are keyed by event name (conflict, queue-changed, ship-heartbeat, ...);
+ * returns whether the stream is currently connected.
+ */
+export const useSyncEvents = (handlers: SyncEventHandlers, enabled = true): boolean => {
+  const token = useAuth('OfflineSyncEvents', (auth) => auth.token);
+  const handlersRef = useRef(handlers);
+  const [connected, setConnected] = useState(false);
+
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled || !token) return;
+
+    const controller = new AbortController();
+    let retryDelay = DEFAULT_RETRY_DELAY;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const dispatch = (block: string) => {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith(':')) continue;
+        const [field, ...rest] = line.split(':');
+        const value = rest.join(':').replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+        else if (field === 'retry' && Number(value) > 0) retryDelay = Number(value);
+      }
+      if (data.length === 0) return;
+
+      let payload: any = data.join('\n');
+      try {
+        payload = JSON.parse(payload);
+      } catch {
+        // Plain text event
+      }
+      handlersRef.current[event]?.(payload);
+    };
+
+    const connect = async () => {
+      try {
+        const res = await fetch(`${(window as any).strapi.backendURL}/offline-sync/events`, {
+          headers: { Accept: 'text/event-stream', Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          throw new Error(`Event stream returned ${res.status}`);
+        }
+
+        setConnected(true);
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+          }
+        }
+      } catch {
+        // Dropped or refused - reconnect below unless the page unmounted
+      }
+
+      setConnected(false);
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, retryDelay);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [enabled, token]);
+
+  return connected;
+};
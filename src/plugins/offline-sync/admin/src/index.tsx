@@ -1,4 +1,8 @@
 import React from 'react';
+import { PERMISSIONS } from './permissions';
+import SyncHistoryPanel from './components/SyncHistoryPanel';
+import SyncStatusPanel from './components/SyncStatusPanel';
+import SyncStatusCell from './components/SyncStatusCell';
 
 const PluginIcon = () => (
   <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -18,8 +22,39 @@ export default {
         defaultMessage: 'Offline Sync',
       },
       Component: () => import('./pages/HomePage'),
+      permissions: PERMISSIONS.read,
     });
   },
-  bootstrap() {},
+  bootstrap(app: any) {
+    // Sync status and "Push now" next to the document in the content manager edit view
+    app.getPlugin('content-manager').injectComponent('editView', 'right-links', {
+      name: 'offline-sync-status',
+      Component: SyncStatusPanel,
+    });
+
+    // Sync timeline next to the document in the content manager edit view
+    app.getPlugin('content-manager').injectComponent('editView', 'right-links', {
+      name: 'offline-sync-history',
+      Component: SyncHistoryPanel,
+    });
+
+    // Sync status column in the content manager list views
+    app.registerHook('Admin/CM/pages/ListView/inject-column-in-table', ({ displayedHeaders, layout }: any) => ({
+      displayedHeaders: [
+        ...displayedHeaders,
+        {
+          attribute: { type: 'custom' },
+          label: { id: 'offline-sync.list.sync-status', defaultMessage: 'Sync' },
+          name: 'offline-sync-status',
+          searchable: false,
+          sortable: false,
+          cellFormatter: (row: any, _header: any, { model }: { model: string }) => (
+            <SyncStatusCell model={model} documentId={row.documentId} />
+          ),
+        },
+      ],
+      layout,
+    }));
+  },
 };
 
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useFetchClient } from '@strapi/strapi/admin';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useFetchClient, useRBAC } from '@strapi/strapi/admin';
 import {
   Box,
   Flex,
@@ -17,12 +17,16 @@ import {
   IconButton,
   Modal,
   Tabs,
-  Grid,
   JSONInput,
   Field,
   SingleSelect,
   SingleSelectOption,
+  TextInput,
 } from '@strapi/design-system';
+import ConflictDiff, { buildMergePayload, ConflictField, MergeSide } from '../../components/ConflictDiff';
+import FleetDashboard, { Fleet } from '../../components/FleetDashboard';
+import { PERMISSIONS } from '../../permissions';
+import { useSyncEvents } from '../../hooks/useSyncEvents';
 // Simple icons
 const RefreshIcon = () => <span>🔄</span>;
 const WarningIcon = () => <span>⚠️</span>;
@@ -41,12 +45,14 @@ interface QueueItem {
   ship_id: string;
   content_type: string;
   content_id: string;
-  operation: 'create' | 'update' | 'delete';
+  operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
   status: 'pending' | 'syncing' | 'pushed' | 'synced' | 'failed';
   local_version: number;
   created_at: string;
   synced_at: string | null;
   error_message: string | null;
+  conflict_resolved_by?: string | null;
+  conflict_resolution_note?: string | null;
 }
 
 interface Conflict {
@@ -58,10 +64,36 @@ interface Conflict {
   master_version: number;
   ship_data: any;
   master_data: any;
+  ship_note?: string | null;
+  base_data: any | null;
+  merged_data: any | null;
+  conflict_fields: ConflictField[] | null;
   conflict_type: string;
   created_at: string;
   resolved_at: string | null;
   resolution_strategy: string | null;
+  resolved_by?: string | null;
+  resolution_note?: string | null;
+}
+
+interface LocalConflict {
+  id: number;
+  content_type: string;
+  content_id: string;
+  operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
+  status: 'conflict_pending' | 'conflict' | 'conflict_rejected';
+  conflict_id: number | null;
+  conflict_reason: string | null;
+  conflict_note: string | null;
+  conflict_resolved_by?: string | null;
+  conflict_resolution_note?: string | null;
+  error_message: string | null;
+  locale: string | null;
+  data: any;
+  master_data: any | null;
+  local_data: any | null;
+  created_at: string;
+  updated_at: string;
 }
 
 interface Ship {
@@ -74,6 +106,49 @@ interface Ship {
   updated_at: string;
 }
 
+interface MediaProgress {
+  phase: 'started' | 'progress' | 'completed' | 'failed';
+  processed: number;
+  downloaded: number;
+  skipped: number;
+  failed: number;
+  error: string | null;
+  timestamp: string;
+}
+
+interface DeadLetter {
+  id: number;
+  messageId: string;
+  shipId: string | null;
+  contentType: string | null;
+  contentId: string | null;
+  operation: string | null;
+  payload: any;
+  errorMessage: string | null;
+  errorStack: string | null;
+  retryCount: number;
+  maxRetries: number;
+  status: 'pending' | 'retrying' | 'exhausted' | 'resolved';
+  lastRetryAt: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+}
+
+interface DeadLetterStats {
+  total: number;
+  pending: number;
+  retrying: number;
+  exhausted: number;
+  resolved: number;
+}
+
+interface DeadLetterFilters {
+  shipId: string;
+  contentType: string;
+  status: string;
+}
+
 // Helper to get content manager URL
 const getContentManagerUrl = (contentType: string, documentId: string): string => {
   // Convert api::article.article to article
@@ -92,6 +167,14 @@ const StatusBadge = ({ status }: { status: string }) => {
     pushed: 'secondary',  // Sent to Kafka, awaiting Master
     synced: 'success',    // Master confirmed
     failed: 'danger',
+    retrying: 'primary',
+    exhausted: 'danger',
+    resolved: 'success',
+    conflict: 'warning',
+    conflict_pending: 'warning',
+    conflict_rejected: 'danger',
+    conflict_accepted: 'success',
+    conflict_merged: 'success',
   };
 
   const labels: Record<string, string> = {
@@ -100,6 +183,11 @@ const StatusBadge = ({ status }: { status: string }) => {
     pushed: 'AWAITING MASTER',  // More accurate label
     synced: 'CONFIRMED',        // Master confirmed
     failed: 'FAILED',
+    conflict: 'CONFLICT',
+    conflict_pending: 'CONFLICT - AWAITING MASTER',
+    conflict_rejected: 'REJECTED BY MASTER',
+    conflict_accepted: 'ACCEPTED BY MASTER',
+    conflict_merged: 'MERGED BY MASTER',
   };
 
   return (
@@ -115,6 +203,9 @@ const OperationBadge = ({ operation }: { operation: string }) => {
     create: 'success',
     update: 'primary',
     delete: 'danger',
+    publish: 'success',
+    unpublish: 'warning',
+    'discard-draft': 'warning',
   };
 
   return (
@@ -153,22 +244,44 @@ const StatsCard = ({
 );
 
 const HomePage = () => {
-  const { get, post } = useFetchClient();
+  const { get, post, put, del } = useFetchClient();
+  const {
+    allowedActions: { canSync, canResolveConflicts },
+  } = useRBAC([...PERMISSIONS.sync, ...PERMISSIONS.resolveConflicts]);
 
   const [status, setStatus] = useState<SyncStatus | null>(null);
   const [queue, setQueue] = useState<QueueItem[]>([]);
   const [conflicts, setConflicts] = useState<Conflict[]>([]);
   const [ships, setShips] = useState<Ship[]>([]);
+  const [fleet, setFleet] = useState<Fleet | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  const [mediaProgress, setMediaProgress] = useState<MediaProgress | null>(null);
 
   // Conflict modal state
   const [selectedConflict, setSelectedConflict] = useState<Conflict | null>(null);
   const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
-  const [resolutionStrategy, setResolutionStrategy] = useState<string>('keep-master');
+  const [resolutionStrategy, setResolutionStrategy] = useState<string>('merge');
+  const [resolutionNote, setResolutionNote] = useState<string>('');
+  const [fieldChoices, setFieldChoices] = useState<Record<string, MergeSide>>({});
   const [resolving, setResolving] = useState(false);
 
+  // Dead letter state (master only)
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [deadLetterStats, setDeadLetterStats] = useState<DeadLetterStats | null>(null);
+  const [deadLetterFilters, setDeadLetterFilters] = useState<DeadLetterFilters>({ shipId: '', contentType: '', status: '' });
+  const [selectedDeadLetter, setSelectedDeadLetter] = useState<DeadLetter | null>(null);
+  const [deadLetterPayload, setDeadLetterPayload] = useState<string>('');
+  const [deadLetterAction, setDeadLetterAction] = useState<string | null>(null);
+
+  // Conflict inbox state (replica only)
+  const [localConflicts, setLocalConflicts] = useState<LocalConflict[]>([]);
+  const [selectedLocalConflict, setSelectedLocalConflict] = useState<LocalConflict | null>(null);
+  const [localConflictData, setLocalConflictData] = useState<string>('');
+  const [localConflictNote, setLocalConflictNote] = useState<string>('');
+  const [localConflictAction, setLocalConflictAction] = useState<string | null>(null);
+
   // Fetch data based on mode (resilient - individual errors don't break the dashboard)
   const fetchData = useCallback(async () => {
     try {
@@ -176,16 +289,21 @@ const HomePage = () => {
       setError(null);
 
       // First fetch status to know the mode
-      const statusRes = await get('/api/offline-sync/status');
+      const statusRes = await get('/offline-sync/status');
       const currentMode = statusRes.data?.mode;
       setStatus(statusRes.data);
 
       // Fetch mode-specific data in parallel with individual error handling
       if (currentMode === 'master') {
-        // Master: fetch ships and conflicts (individually caught)
-        const [shipsResult, conflictsResult] = await Promise.allSettled([
-          get('/api/offline-sync/ships'),
-          get('/api/offline-sync/conflicts'),
+        // Master: fetch ships, fleet health, conflicts and dead letters (individually caught)
+        const deadLetterParams = Object.fromEntries(
+          Object.entries(deadLetterFilters).filter(([, value]) => value !== '')
+        );
+        const [shipsResult, fleetResult, conflictsResult, deadLettersResult] = await Promise.allSettled([
+          get('/offline-sync/ships'),
+          get('/offline-sync/fleet'),
+          get('/offline-sync/conflicts'),
+          get('/offline-sync/dead-letters', { params: deadLetterParams }),
         ]);
 
         // Handle ships
@@ -196,6 +314,14 @@ const HomePage = () => {
           setShips([]);
         }
 
+        // Handle fleet health
+        if (fleetResult.status === 'fulfilled') {
+          setFleet(fleetResult.value.data);
+        } else {
+          console.warn('Failed to fetch fleet health:', fleetResult.reason);
+          setFleet(null);
+        }
+
         // Handle conflicts
         if (conflictsResult.status === 'fulfilled') {
           setConflicts(conflictsResult.value.data.conflicts || []);
@@ -204,17 +330,39 @@ const HomePage = () => {
           setConflicts([]);
         }
 
+        // Handle dead letters
+        if (deadLettersResult.status === 'fulfilled') {
+          setDeadLetters(deadLettersResult.value.data.deadLetters || []);
+          setDeadLetterStats(deadLettersResult.value.data.stats || null);
+        } else {
+          console.warn('Failed to fetch dead letters:', deadLettersResult.reason);
+          setDeadLetters([]);
+          setDeadLetterStats(null);
+        }
+
         setQueue([]); // Clear queue on master
       } else {
-        // Replica: fetch queue only
-        try {
-          const queueRes = await get('/api/offline-sync/queue');
-          setQueue(queueRes.data.queue || []);
-        } catch (queueErr) {
-          console.warn('Failed to fetch queue:', queueErr);
+        // Replica: fetch queue and conflict inbox (individually caught)
+        const [queueResult, localConflictsResult] = await Promise.allSettled([
+          get('/offline-sync/queue'),
+          get('/offline-sync/local-conflicts'),
+        ]);
+
+        if (queueResult.status === 'fulfilled') {
+          setQueue(queueResult.value.data.queue || []);
+        } else {
+          console.warn('Failed to fetch queue:', queueResult.reason);
           setQueue([]);
         }
+
+        if (localConflictsResult.status === 'fulfilled') {
+          setLocalConflicts(localConflictsResult.value.data.conflicts || []);
+        } else {
+          console.warn('Failed to fetch conflict inbox:', localConflictsResult.reason);
+          setLocalConflicts([]);
+        }
         setShips([]); // Clear ships on replica
+        setFleet(null); // Clear fleet health on replica
         setConflicts([]); // Clear conflicts on replica
       }
 
@@ -228,7 +376,7 @@ const HomePage = () => {
     } finally {
       setLoading(false);
     }
-  }, [get]);
+  }, [get, deadLetterFilters]);
 
   // Resolve a conflict
   const handleResolveConflict = async () => {
@@ -236,8 +384,11 @@ const HomePage = () => {
 
     try {
       setResolving(true);
-      await post(`/api/offline-sync/conflicts/${selectedConflict.id}/resolve`, {
-        strategy: resolutionStrategy,
+      await post(`/offline-sync/conflicts/${selectedConflict.id}/resolve`, {
+        ...(resolutionStrategy === 'merge'
+          ? buildMergePayload(selectedConflict, fieldChoices)
+          : { strategy: resolutionStrategy }),
+        note: resolutionNote.trim() || undefined,
       });
 
       // Close modal and refresh data
@@ -254,18 +405,166 @@ const HomePage = () => {
   // Open conflict detail modal
   const openConflictModal = (conflict: Conflict) => {
     setSelectedConflict(conflict);
-    setResolutionStrategy('keep-master');
+    setResolutionStrategy('merge');
+    setResolutionNote('');
+    setFieldChoices({});
     setIsConflictModalOpen(true);
   };
 
-  // Initial fetch
+  // Open dead letter detail modal
+  const openDeadLetterModal = (deadLetter: DeadLetter) => {
+    setSelectedDeadLetter(deadLetter);
+    setDeadLetterPayload(JSON.stringify(deadLetter.payload ?? {}, null, 2));
+  };
+
+  // Run a dead letter action and refresh (retry, resolve, delete, save payload)
+  const runDeadLetterAction = async (action: string, request: () => Promise<any>) => {
+    try {
+      setDeadLetterAction(action);
+      const res = await request();
+      setSelectedDeadLetter(null);
+      await fetchData();
+
+      // Surface failures after the refresh (fetchData clears the error banner)
+      if (res?.data?.error || res?.data?.success === false) {
+        setError(res.data.error || 'Dead letter action failed');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Dead letter action failed');
+    } finally {
+      setDeadLetterAction(null);
+    }
+  };
+
+  const handleRetryDeadLetter = (id: number) =>
+    runDeadLetterAction(`retry-${id}`, () => post(`/offline-sync/dead-letters/${id}/retry`));
+
+  const handleResolveDeadLetter = (id: number) =>
+    runDeadLetterAction('resolve', () => post(`/offline-sync/dead-letters/${id}/resolve`, { resolvedBy: 'admin' }));
+
+  const handleDeleteDeadLetter = (id: number) =>
+    runDeadLetterAction('delete', () => del(`/offline-sync/dead-letters/${id}`));
+
+  const handleBulkRetryDeadLetters = () =>
+    runDeadLetterAction('bulk-retry', () => post('/offline-sync/dead-letters/retry', {
+      ...Object.fromEntries(Object.entries(deadLetterFilters).filter(([, value]) => value !== '')),
+    }));
+
+  const handleSaveDeadLetterPayload = (id: number) => {
+    let payload: any;
+    try {
+      payload = JSON.parse(deadLetterPayload);
+    } catch {
+      setError('Payload is not valid JSON');
+      return;
+    }
+    return runDeadLetterAction('save', () => put(`/offline-sync/dead-letters/${id}`, { payload }));
+  };
+
+  // Open conflict inbox entry (replica)
+  const openLocalConflictModal = (entry: LocalConflict) => {
+    setSelectedLocalConflict(entry);
+    setLocalConflictData(JSON.stringify(entry.data ?? {}, null, 2));
+    setLocalConflictNote(entry.conflict_note || '');
+  };
+
+  // Run a conflict inbox action and refresh (discard, resubmit, note)
+  const runLocalConflictAction = async (action: string, request: () => Promise<any>, closeModal = true) => {
+    try {
+      setLocalConflictAction(action);
+      await request();
+      if (closeModal) {
+        setSelectedLocalConflict(null);
+      }
+      await fetchData();
+    } catch (err: any) {
+      setError(err.message || 'Conflict action failed');
+    } finally {
+      setLocalConflictAction(null);
+    }
+  };
+
+  const handleDiscardLocalChange = (id: number) =>
+    runLocalConflictAction('discard', () => post(`/offline-sync/local-conflicts/${id}/discard`));
+
+  const handleResubmitLocalChange = (id: number) => {
+    let data: any;
+    try {
+      data = JSON.parse(localConflictData);
+    } catch {
+      setError('Local change is not valid JSON');
+      return;
+    }
+    return runLocalConflictAction('resubmit', () => post(`/offline-sync/local-conflicts/${id}/resubmit`, { data }));
+  };
+
+  const handleSendConflictNote = (id: number) =>
+    runLocalConflictAction('note', () => post(`/offline-sync/local-conflicts/${id}/note`, { note: localConflictNote }), false);
+
+  // Live updates: events that change what the tabs show trigger one (debounced) refetch
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimer.current) return;
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null;
+      fetchDataRef.current();
+    }, 1000);
+  }, []);
+
+  // Fleet health changes with every heartbeat; refetch it at most every 10 seconds
+  const fleetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleFleetRefresh = useCallback(() => {
+    if (fleetTimer.current) return;
+    fleetTimer.current = setTimeout(() => {
+      fleetTimer.current = null;
+      get('/offline-sync/fleet')
+        .then((res: any) => setFleet(res.data))
+        .catch((err: any) => console.warn('Failed to fetch fleet health:', err));
+    }, 10000);
+  }, [get]);
+
+  useEffect(() => () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    if (fleetTimer.current) clearTimeout(fleetTimer.current);
+  }, []);
+
+  // Heartbeats only touch one ship row; unknown ships need the full list
+  const updateShip = (data: { shipId: string; connectivityStatus: 'online' | 'offline'; lastSeenAt: string | null }) => {
+    scheduleFleetRefresh();
+    setShips((current) => {
+      if (!current.some((ship) => ship.ship_id === data.shipId)) {
+        scheduleRefresh();
+        return current;
+      }
+      return current.map((ship) => ship.ship_id === data.shipId
+        ? { ...ship, connectivity_status: data.connectivityStatus, last_seen_at: data.lastSeenAt || ship.last_seen_at }
+        : ship);
+    });
+    setLastRefresh(new Date());
+  };
+
+  const live = useSyncEvents({
+    'queue-changed': scheduleRefresh,
+    conflict: scheduleRefresh,
+    'conflict-resolved': scheduleRefresh,
+    'pull-complete': scheduleRefresh,
+    'ship-heartbeat': updateShip,
+    'ship-status': updateShip,
+    'media-progress': setMediaProgress,
+  });
+
+  // Initial fetch; poll every 30 seconds only while the event stream is down
   useEffect(() => {
     fetchData();
+  }, [fetchData]);
 
-    // Auto-refresh every 30 seconds
+  useEffect(() => {
+    if (live) return;
     const interval = setInterval(fetchData, 30000);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, live]);
 
   // Format date
   const formatDate = (dateStr: string) => {
@@ -282,6 +581,13 @@ const HomePage = () => {
     return contentType;
   };
 
+  // Who resolved a conflict: admin:<email>, policy:<name>, auto-merge
+  const formatResolvedBy = (resolvedBy: string) => {
+    if (resolvedBy.startsWith('admin:')) return resolvedBy.slice('admin:'.length);
+    if (resolvedBy.startsWith('policy:')) return `policy ${resolvedBy.slice('policy:'.length)}`;
+    return resolvedBy;
+  };
+
   // Count by status (Replica)
   const pushedCount = queue.filter(q => q.status === 'pushed').length;  // Awaiting Master
   const syncedCount = queue.filter(q => q.status === 'synced').length;  // Master confirmed
@@ -291,6 +597,9 @@ const HomePage = () => {
   const unresolvedConflictsCount = conflicts.filter(c => !c.resolved_at).length;
   const onlineShipsCount = ships.filter(s => s.connectivity_status === 'online').length;
   const offlineShipsCount = ships.filter(s => s.connectivity_status === 'offline').length;
+  const openDeadLettersCount = deadLetterStats
+    ? deadLetterStats.pending + deadLetterStats.retrying + deadLetterStats.exhausted
+    : 0;
 
   if (loading && !status) {
     return (
@@ -378,6 +687,13 @@ const HomePage = () => {
                 color="danger"
               />
             )}
+            {localConflicts.length > 0 && (
+              <StatsCard
+                title="Conflicts"
+                value={localConflicts.length}
+                color="danger"
+              />
+            )}
           </>
         )}
 
@@ -408,20 +724,53 @@ const HomePage = () => {
                 color="danger"
               />
             )}
+            {openDeadLettersCount > 0 && (
+              <StatsCard
+                title="Dead Letters"
+                value={openDeadLettersCount}
+                color="danger"
+              />
+            )}
           </>
         )}
       </Flex>
 
       {/* Last Refresh */}
-      <Box marginBottom={4}>
+      <Flex gap={2} alignItems="center" marginBottom={4}>
         <Typography variant="pi" textColor="neutral500">
           Last updated: {lastRefresh.toLocaleTimeString()}
         </Typography>
-      </Box>
+        <Badge
+          backgroundColor={live ? 'success100' : 'neutral150'}
+          textColor={live ? 'success700' : 'neutral600'}
+        >
+          {live ? 'LIVE' : 'REFRESHING EVERY 30S'}
+        </Badge>
+      </Flex>
 
-      {/* Queue Table - Replica Only */}
+      {/* Media sync progress (replica, from the event stream) */}
+      {mediaProgress && (
+        <Box marginBottom={4}>
+          <Typography variant="pi" textColor={mediaProgress.phase === 'failed' ? 'danger600' : 'neutral600'}>
+            {mediaProgress.phase === 'failed'
+              ? `Media sync failed: ${mediaProgress.error}`
+              : `Media sync ${mediaProgress.phase === 'completed' ? 'completed' : 'running'}: ${mediaProgress.processed} file(s) checked, ${mediaProgress.downloaded} downloaded, ${mediaProgress.skipped} skipped, ${mediaProgress.failed} failed`}
+          </Typography>
+        </Box>
+      )}
+
+      {/* Replica views - Sync Queue / Conflict Inbox */}
       {status?.mode === 'replica' && (
-        <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4}>
+        <Tabs.Root defaultValue="queue">
+          <Tabs.List aria-label="Replica views">
+            <Tabs.Trigger value="queue">Sync Queue</Tabs.Trigger>
+            <Tabs.Trigger value="inbox">
+              Conflict Inbox{localConflicts.length > 0 ? ` (${localConflicts.length})` : ''}
+            </Tabs.Trigger>
+          </Tabs.List>
+
+          <Tabs.Content value="queue">
+        <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={4}>
           <Box marginBottom={6}>
             <Typography variant="beta" fontWeight="bold">
               Recent Sync Operations
@@ -481,6 +830,18 @@ const HomePage = () => {
                     </Td>
                     <Td>
                       <StatusBadge status={item.status} />
+                      {item.conflict_resolved_by && (
+                        <Box marginTop={1}>
+                          <Typography variant="pi" textColor="neutral600">
+                            by {formatResolvedBy(item.conflict_resolved_by)}
+                          </Typography>
+                          {item.conflict_resolution_note && (
+                            <Typography variant="pi" textColor="neutral600" tag="p">
+                              “{item.conflict_resolution_note}”
+                            </Typography>
+                          )}
+                        </Box>
+                      )}
                     </Td>
                     <Td>
                       <Typography variant="pi" textColor="neutral600">
@@ -513,165 +874,408 @@ const HomePage = () => {
             </Box>
           )}
         </Box>
+          </Tabs.Content>
+
+          <Tabs.Content value="inbox">
+            <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={4}>
+              <Box marginBottom={6}>
+                <Typography variant="beta" fontWeight="bold">
+                  Conflict Inbox
+                </Typography>
+                <Box marginTop={1}>
+                  <Typography variant="pi" textColor="neutral600">
+                    Local changes master could not apply. Discard them, edit and resubmit, or leave a note for the master admin.
+                  </Typography>
+                </Box>
+              </Box>
+
+              {localConflicts.length === 0 ? (
+                <Box padding={6} textAlign="center">
+                  <Typography textColor="neutral600">
+                    No conflicts. All local changes were accepted by master.
+                  </Typography>
+                </Box>
+              ) : (
+                <Table colCount={7} rowCount={localConflicts.length + 1}>
+                  <Thead>
+                    <Tr>
+                      <Th><Typography variant="sigma">ID</Typography></Th>
+                      <Th><Typography variant="sigma">Content Type</Typography></Th>
+                      <Th><Typography variant="sigma">Document ID</Typography></Th>
+                      <Th><Typography variant="sigma">Status</Typography></Th>
+                      <Th><Typography variant="sigma">Reason</Typography></Th>
+                      <Th><Typography variant="sigma">Updated</Typography></Th>
+                      <Th><Typography variant="sigma">Actions</Typography></Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {localConflicts.map((entry) => (
+                      <Tr key={entry.id}>
+                        <Td>
+                          <Typography textColor="neutral800">
+                            #{entry.id}{entry.conflict_id ? ` (master #${entry.conflict_id})` : ''}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">
+                            {formatContentType(entry.content_type)}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="primary600" style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                            {entry.content_id}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <StatusBadge status={entry.status} />
+                        </Td>
+                        <Td>
+                          <Typography variant="pi" textColor="neutral600">
+                            {entry.conflict_reason || entry.error_message || '-'}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography variant="pi" textColor="neutral600">
+                            {formatDate(entry.updated_at || entry.created_at)}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Button variant="secondary" size="S" onClick={() => openLocalConflictModal(entry)}>
+                            Review
+                          </Button>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              )}
+            </Box>
+          </Tabs.Content>
+        </Tabs.Root>
       )}
 
-      {/* Ships Monitoring - Master Only */}
+      {/* Master views - Ships & Conflicts / Fleet / Dead Letters */}
       {status?.mode === 'master' && (
-        <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4}>
-          <Box marginBottom={6}>
-            <Flex gap={2} alignItems="center">
-              <Typography variant="beta" fontWeight="bold">
-                🚢 Connected Ships
-              </Typography>
-            </Flex>
-          </Box>
+        <Tabs.Root defaultValue="overview">
+          <Tabs.List aria-label="Master views">
+            <Tabs.Trigger value="overview">Ships & Conflicts</Tabs.Trigger>
+            <Tabs.Trigger value="fleet">
+              Fleet{fleet && fleet.alerts.length > 0 ? ` (${fleet.alerts.length})` : ''}
+            </Tabs.Trigger>
+            <Tabs.Trigger value="dead-letters">
+              Dead Letters{openDeadLettersCount > 0 ? ` (${openDeadLettersCount})` : ''}
+            </Tabs.Trigger>
+          </Tabs.List>
 
-          {ships.length === 0 ? (
-            <Box padding={6} textAlign="center">
-              <Typography textColor="neutral600">
-                No ships registered yet. Ships will appear here when they connect.
-              </Typography>
+          <Tabs.Content value="overview">
+            {/* Ships Monitoring */}
+            <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={4}>
+              <Box marginBottom={6}>
+                <Flex gap={2} alignItems="center">
+                  <Typography variant="beta" fontWeight="bold">
+                    🚢 Connected Ships
+                  </Typography>
+                </Flex>
+              </Box>
+
+              {ships.length === 0 ? (
+                <Box padding={6} textAlign="center">
+                  <Typography textColor="neutral600">
+                    No ships registered yet. Ships will appear here when they connect.
+                  </Typography>
+                </Box>
+              ) : (
+                <Table colCount={5} rowCount={ships.length + 1}>
+                  <Thead>
+                    <Tr>
+                      <Th><Typography variant="sigma">Ship ID</Typography></Th>
+                      <Th><Typography variant="sigma">Ship Name</Typography></Th>
+                      <Th><Typography variant="sigma">Status</Typography></Th>
+                      <Th><Typography variant="sigma">Last Seen</Typography></Th>
+                      <Th><Typography variant="sigma">Registered</Typography></Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {ships.map((ship) => (
+                      <Tr key={ship.id}>
+                        <Td>
+                          <Typography
+                            textColor="primary600"
+                            style={{ fontFamily: 'monospace', fontWeight: 'bold' }}
+                          >
+                            {ship.ship_id}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">{ship.ship_name}</Typography>
+                        </Td>
+                        <Td>
+                          <Badge
+                            backgroundColor={ship.connectivity_status === 'online' ? 'success100' : 'warning100'}
+                            textColor={ship.connectivity_status === 'online' ? 'success700' : 'warning700'}
+                          >
+                            {ship.connectivity_status === 'online' ? '🟢 ONLINE' : '🟠 OFFLINE'}
+                          </Badge>
+                        </Td>
+                        <Td>
+                          <Typography variant="pi" textColor="neutral600">
+                            {formatDate(ship.last_seen_at)}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography variant="pi" textColor="neutral600">
+                            {formatDate(ship.created_at)}
+                          </Typography>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              )}
             </Box>
-          ) : (
-            <Table colCount={5} rowCount={ships.length + 1}>
-              <Thead>
-                <Tr>
-                  <Th><Typography variant="sigma">Ship ID</Typography></Th>
-                  <Th><Typography variant="sigma">Ship Name</Typography></Th>
-                  <Th><Typography variant="sigma">Status</Typography></Th>
-                  <Th><Typography variant="sigma">Last Seen</Typography></Th>
-                  <Th><Typography variant="sigma">Registered</Typography></Th>
-                </Tr>
-              </Thead>
-              <Tbody>
-                {ships.map((ship) => (
-                  <Tr key={ship.id}>
-                    <Td>
-                      <Typography
-                        textColor="primary600"
-                        style={{ fontFamily: 'monospace', fontWeight: 'bold' }}
-                      >
-                        {ship.ship_id}
-                      </Typography>
-                    </Td>
-                    <Td>
-                      <Typography textColor="neutral800">{ship.ship_name}</Typography>
-                    </Td>
-                    <Td>
-                      <Badge
-                        backgroundColor={ship.connectivity_status === 'online' ? 'success100' : 'warning100'}
-                        textColor={ship.connectivity_status === 'online' ? 'success700' : 'warning700'}
-                      >
-                        {ship.connectivity_status === 'online' ? '🟢 ONLINE' : '🟠 OFFLINE'}
-                      </Badge>
-                    </Td>
-                    <Td>
-                      <Typography variant="pi" textColor="neutral600">
-                        {formatDate(ship.last_seen_at)}
-                      </Typography>
-                    </Td>
-                    <Td>
-                      <Typography variant="pi" textColor="neutral600">
-                        {formatDate(ship.created_at)}
-                      </Typography>
-                    </Td>
-                  </Tr>
-                ))}
-              </Tbody>
-            </Table>
-          )}
-        </Box>
-      )}
 
-      {/* Conflicts Section - Master Only */}
-      {status?.mode === 'master' && conflicts.length > 0 && (
-        <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={6}>
-          <Flex justifyContent="space-between" alignItems="center" marginBottom={6}>
-            <Flex gap={2} alignItems="center">
-              <WarningIcon />
-              <Typography variant="beta" fontWeight="bold" textColor="danger600">
-                Conflicts ({unresolvedConflictsCount} unresolved)
-              </Typography>
-            </Flex>
-          </Flex>
-
-          <Table colCount={7} rowCount={conflicts.length + 1}>
-            <Thead>
-              <Tr>
-                <Th><Typography variant="sigma">ID</Typography></Th>
-                <Th><Typography variant="sigma">Content Type</Typography></Th>
-                <Th><Typography variant="sigma">Content ID</Typography></Th>
-                <Th><Typography variant="sigma">Ship ID</Typography></Th>
-                <Th><Typography variant="sigma">Versions</Typography></Th>
-                <Th><Typography variant="sigma">Status</Typography></Th>
-                <Th><Typography variant="sigma">Actions</Typography></Th>
-              </Tr>
-            </Thead>
-            <Tbody>
-              {conflicts.map((conflict) => (
-                <Tr key={conflict.id}>
-                  <Td>
-                    <Typography textColor="neutral800">#{conflict.id}</Typography>
-                  </Td>
-                  <Td>
-                    <Typography textColor="neutral800">
-                      {formatContentType(conflict.content_type)}
-                    </Typography>
-                  </Td>
-                  <Td>
-                    <Typography
-                      textColor="primary600"
-                      style={{ fontFamily: 'monospace', fontSize: '12px' }}
-                    >
-                      {conflict.content_id}
+            {/* Conflicts Section */}
+            {conflicts.length > 0 && (
+              <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={6}>
+                <Flex justifyContent="space-between" alignItems="center" marginBottom={6}>
+                  <Flex gap={2} alignItems="center">
+                    <WarningIcon />
+                    <Typography variant="beta" fontWeight="bold" textColor="danger600">
+                      Conflicts ({unresolvedConflictsCount} unresolved)
                     </Typography>
-                  </Td>
-                  <Td>
-                    <Typography textColor="neutral800">{conflict.ship_id}</Typography>
-                  </Td>
-                  <Td>
-                    <Flex gap={1}>
-                      <Badge backgroundColor="warning100" textColor="warning700">
-                        Ship: v{conflict.ship_version}
-                      </Badge>
-                      <Badge backgroundColor="primary100" textColor="primary700">
-                        Master: v{conflict.master_version}
-                      </Badge>
-                    </Flex>
-                  </Td>
-                  <Td>
-                    {conflict.resolved_at ? (
-                      <Badge backgroundColor="success100" textColor="success700">
-                        RESOLVED ({conflict.resolution_strategy})
-                      </Badge>
-                    ) : (
-                      <Badge backgroundColor="danger100" textColor="danger700">
-                        UNRESOLVED
-                      </Badge>
-                    )}
-                  </Td>
-                  <Td>
-                    {!conflict.resolved_at && (
-                      <Button
-                        variant="secondary"
-                        size="S"
-                        onClick={() => openConflictModal(conflict)}
-                      >
-                        Resolve
-                      </Button>
-                    )}
-                  </Td>
-                </Tr>
-              ))}
-            </Tbody>
-          </Table>
-        </Box>
+                  </Flex>
+                </Flex>
+
+                <Table colCount={7} rowCount={conflicts.length + 1}>
+                  <Thead>
+                    <Tr>
+                      <Th><Typography variant="sigma">ID</Typography></Th>
+                      <Th><Typography variant="sigma">Content Type</Typography></Th>
+                      <Th><Typography variant="sigma">Content ID</Typography></Th>
+                      <Th><Typography variant="sigma">Ship ID</Typography></Th>
+                      <Th><Typography variant="sigma">Versions</Typography></Th>
+                      <Th><Typography variant="sigma">Status</Typography></Th>
+                      <Th><Typography variant="sigma">Actions</Typography></Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {conflicts.map((conflict) => (
+                      <Tr key={conflict.id}>
+                        <Td>
+                          <Typography textColor="neutral800">#{conflict.id}</Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">
+                            {formatContentType(conflict.content_type)}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography
+                            textColor="primary600"
+                            style={{ fontFamily: 'monospace', fontSize: '12px' }}
+                          >
+                            {conflict.content_id}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">{conflict.ship_id}</Typography>
+                        </Td>
+                        <Td>
+                          <Flex gap={1}>
+                            <Badge backgroundColor="warning100" textColor="warning700">
+                              Ship: v{conflict.ship_version}
+                            </Badge>
+                            <Badge backgroundColor="primary100" textColor="primary700">
+                              Master: v{conflict.master_version}
+                            </Badge>
+                          </Flex>
+                        </Td>
+                        <Td>
+                          {conflict.resolved_at ? (
+                            <Badge backgroundColor="success100" textColor="success700">
+                              RESOLVED ({conflict.resolution_strategy})
+                            </Badge>
+                          ) : (
+                            <Badge backgroundColor="danger100" textColor="danger700">
+                              UNRESOLVED
+                            </Badge>
+                          )}
+                        </Td>
+                        <Td>
+                          {!conflict.resolved_at && (
+                            <Button
+                              variant="secondary"
+                              size="S"
+                              onClick={() => openConflictModal(conflict)}
+                              disabled={!canResolveConflicts}
+                            >
+                              Resolve
+                            </Button>
+                          )}
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            )}
+          </Tabs.Content>
+
+          <Tabs.Content value="fleet">
+            <FleetDashboard fleet={fleet} />
+          </Tabs.Content>
+
+          <Tabs.Content value="dead-letters">
+            <Box background="neutral0" borderRadius="8px" shadow="filterShadow" padding={4} marginTop={4}>
+              <Flex justifyContent="space-between" alignItems="center" marginBottom={4}>
+                <Typography variant="beta" fontWeight="bold">
+                  📭 Dead Letters
+                </Typography>
+                <Button
+                  variant="secondary"
+                  size="S"
+                  onClick={handleBulkRetryDeadLetters}
+                  loading={deadLetterAction === 'bulk-retry'}
+                  disabled={!canSync || openDeadLettersCount === 0}
+                >
+                  Retry All Matching
+                </Button>
+              </Flex>
+
+              {deadLetterStats && (
+                <Flex gap={2} marginBottom={4} wrap="wrap">
+                  <StatusBadge status="pending" /> <Typography variant="pi">{deadLetterStats.pending}</Typography>
+                  <StatusBadge status="retrying" /> <Typography variant="pi">{deadLetterStats.retrying}</Typography>
+                  <StatusBadge status="exhausted" /> <Typography variant="pi">{deadLetterStats.exhausted}</Typography>
+                  <StatusBadge status="resolved" /> <Typography variant="pi">{deadLetterStats.resolved}</Typography>
+                </Flex>
+              )}
+
+              {/* Filters */}
+              <Flex gap={4} marginBottom={4} alignItems="flex-end" wrap="wrap">
+                <Field.Root>
+                  <Field.Label>Ship</Field.Label>
+                  <SingleSelect
+                    value={deadLetterFilters.shipId}
+                    onChange={(value: string | number) => setDeadLetterFilters({ ...deadLetterFilters, shipId: String(value) })}
+                  >
+                    <SingleSelectOption value="">All ships</SingleSelectOption>
+                    {ships.map((ship) => (
+                      <SingleSelectOption key={ship.ship_id} value={ship.ship_id}>
+                        {ship.ship_id}
+                      </SingleSelectOption>
+                    ))}
+                  </SingleSelect>
+                </Field.Root>
+                <Field.Root>
+                  <Field.Label>Content Type</Field.Label>
+                  <TextInput
+                    placeholder="api::article.article"
+                    value={deadLetterFilters.contentType}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDeadLetterFilters({ ...deadLetterFilters, contentType: e.target.value.trim() })}
+                  />
+                </Field.Root>
+                <Field.Root>
+                  <Field.Label>Status</Field.Label>
+                  <SingleSelect
+                    value={deadLetterFilters.status}
+                    onChange={(value: string | number) => setDeadLetterFilters({ ...deadLetterFilters, status: String(value) })}
+                  >
+                    <SingleSelectOption value="">All statuses</SingleSelectOption>
+                    <SingleSelectOption value="pending">Pending</SingleSelectOption>
+                    <SingleSelectOption value="retrying">Retrying</SingleSelectOption>
+                    <SingleSelectOption value="exhausted">Exhausted</SingleSelectOption>
+                    <SingleSelectOption value="resolved">Resolved</SingleSelectOption>
+                  </SingleSelect>
+                </Field.Root>
+              </Flex>
+
+              {deadLetters.length === 0 ? (
+                <Box padding={6} textAlign="center">
+                  <Typography textColor="neutral600">
+                    No dead letters. Failed ship messages will appear here.
+                  </Typography>
+                </Box>
+              ) : (
+                <Table colCount={8} rowCount={deadLetters.length + 1}>
+                  <Thead>
+                    <Tr>
+                      <Th><Typography variant="sigma">ID</Typography></Th>
+                      <Th><Typography variant="sigma">Ship ID</Typography></Th>
+                      <Th><Typography variant="sigma">Content Type</Typography></Th>
+                      <Th><Typography variant="sigma">Operation</Typography></Th>
+                      <Th><Typography variant="sigma">Retries</Typography></Th>
+                      <Th><Typography variant="sigma">Status</Typography></Th>
+                      <Th><Typography variant="sigma">Error</Typography></Th>
+                      <Th><Typography variant="sigma">Actions</Typography></Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {deadLetters.map((deadLetter) => (
+                      <Tr key={deadLetter.id}>
+                        <Td>
+                          <Typography textColor="neutral800">#{deadLetter.id}</Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">{deadLetter.shipId || '-'}</Typography>
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">
+                            {deadLetter.contentType ? formatContentType(deadLetter.contentType) : '-'}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          {deadLetter.operation ? <OperationBadge operation={deadLetter.operation} /> : '-'}
+                        </Td>
+                        <Td>
+                          <Typography textColor="neutral800">
+                            {deadLetter.retryCount}/{deadLetter.maxRetries}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <StatusBadge status={deadLetter.status} />
+                        </Td>
+                        <Td>
+                          <Typography
+                            variant="pi"
+                            textColor="danger600"
+                            style={{ maxWidth: '240px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', display: 'block' }}
+                          >
+                            {deadLetter.errorMessage || '-'}
+                          </Typography>
+                        </Td>
+                        <Td>
+                          <Flex gap={1}>
+                            <Button variant="ghost" size="S" onClick={() => openDeadLetterModal(deadLetter)}>
+                              View
+                            </Button>
+                            {deadLetter.status !== 'resolved' && (
+                              <Button
+                                variant="secondary"
+                                size="S"
+                                onClick={() => handleRetryDeadLetter(deadLetter.id)}
+                                loading={deadLetterAction === `retry-${deadLetter.id}`}
+                                disabled={!canSync}
+                              >
+                                Retry
+                              </Button>
+                            )}
+                          </Flex>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              )}
+            </Box>
+          </Tabs.Content>
+        </Tabs.Root>
       )}
 
       {/* Conflict Resolution Modal */}
       {isConflictModalOpen && selectedConflict && (
         <Modal.Root open={isConflictModalOpen} onOpenChange={setIsConflictModalOpen}>
-          <Modal.Content>
+          <Modal.Content style={{ maxWidth: '1100px', width: '90vw' }}>
             <Modal.Header>
               <Modal.Title>
                 Resolve Conflict - {formatContentType(selectedConflict.content_type)} #{selectedConflict.content_id}
@@ -685,44 +1289,30 @@ const HomePage = () => {
                 </Typography>
               </Box>
 
-              <Grid.Root gap={4}>
-                <Grid.Item col={6} s={12}>
-                  <Box background="warning100" padding={4} borderRadius="4px">
-                    <Typography variant="delta" fontWeight="bold" textColor="warning700">
-                      Ship Version (v{selectedConflict.ship_version})
-                    </Typography>
-                    <Box marginTop={2} style={{ maxHeight: '300px', overflow: 'auto' }}>
-                      <pre style={{
-                        fontSize: '11px',
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                        margin: 0,
-                        fontFamily: 'monospace'
-                      }}>
-                        {JSON.stringify(selectedConflict.ship_data, null, 2)}
-                      </pre>
-                    </Box>
-                  </Box>
-                </Grid.Item>
-                <Grid.Item col={6} s={12}>
-                  <Box background="primary100" padding={4} borderRadius="4px">
-                    <Typography variant="delta" fontWeight="bold" textColor="primary700">
-                      Master Version (v{selectedConflict.master_version})
-                    </Typography>
-                    <Box marginTop={2} style={{ maxHeight: '300px', overflow: 'auto' }}>
-                      <pre style={{
-                        fontSize: '11px',
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                        margin: 0,
-                        fontFamily: 'monospace'
-                      }}>
-                        {JSON.stringify(selectedConflict.master_data, null, 2)}
-                      </pre>
-                    </Box>
+              {selectedConflict.ship_note && (
+                <Box background="secondary100" padding={3} borderRadius="4px" marginBottom={4}>
+                  <Typography variant="pi" fontWeight="bold" textColor="secondary700">
+                    Note from {selectedConflict.ship_id}
+                  </Typography>
+                  <Box marginTop={1}>
+                    <Typography variant="omega">{selectedConflict.ship_note}</Typography>
                   </Box>
-                </Grid.Item>
-              </Grid.Root>
+                </Box>
+              )}
+
+              <Box style={{ maxHeight: '420px', overflow: 'auto' }}>
+                <ConflictDiff
+                  shipData={selectedConflict.ship_data}
+                  masterData={selectedConflict.master_data}
+                  mergedData={selectedConflict.merged_data}
+                  conflictFields={selectedConflict.conflict_fields}
+                  choices={fieldChoices}
+                  onChoiceChange={(field, side) => {
+                    setFieldChoices((prev) => ({ ...prev, [field]: side }));
+                    setResolutionStrategy('merge');
+                  }}
+                />
+              </Box>
 
               <Box marginTop={6}>
                 <Field.Root>
@@ -731,6 +1321,9 @@ const HomePage = () => {
                     value={resolutionStrategy}
                     onChange={(value: string | number) => setResolutionStrategy(String(value))}
                   >
+                    <SingleSelectOption value="merge">
+                      Field by Field - Use the picks above (unpicked fields keep master)
+                    </SingleSelectOption>
                     <SingleSelectOption value="keep-master">
                       Keep Master Version - Discard ship changes
                     </SingleSelectOption>
@@ -741,11 +1334,27 @@ const HomePage = () => {
                 </Field.Root>
                 <Box marginTop={2}>
                   <Typography variant="pi" textColor="neutral600">
-                    {resolutionStrategy === 'keep-master'
-                      ? 'The ship\'s changes will be discarded and master data will be preserved.'
-                      : 'The master data will be overwritten with the ship\'s version.'}
+                    {resolutionStrategy === 'merge'
+                      ? (selectedConflict.merged_data
+                        ? 'Non-overlapping changes are already merged. Each conflicting field takes the side you picked.'
+                        : 'Fields picked as "Take ship" are applied to master; all other fields keep the master value.')
+                      : resolutionStrategy === 'keep-master'
+                        ? 'The ship\'s changes will be discarded and master data will be preserved.'
+                        : 'The master data will be overwritten with the ship\'s version.'}
                   </Typography>
                 </Box>
+                <Box marginTop={4}>
+                  <Field.Root hint={`Sent to ${selectedConflict.ship_id} with the resolution`}>
+                    <Field.Label>Resolution Note (optional)</Field.Label>
+                    <TextInput
+                      value={resolutionNote}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setResolutionNote(e.target.value)}
+                      placeholder="Why you resolved it this way..."
+                      maxLength={2000}
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Box>
               </Box>
             </Modal.Body>
             <Modal.Footer>
@@ -756,6 +1365,7 @@ const HomePage = () => {
                 variant="danger"
                 onClick={handleResolveConflict}
                 loading={resolving}
+                disabled={!canResolveConflicts}
               >
                 Resolve Conflict
               </Button>
@@ -763,6 +1373,226 @@ const HomePage = () => {
           </Modal.Content>
         </Modal.Root>
       )}
+
+      {/* Conflict Inbox Modal (replica) */}
+      {selectedLocalConflict && (
+        <Modal.Root open={!!selectedLocalConflict} onOpenChange={(open: boolean) => !open && setSelectedLocalConflict(null)}>
+          <Modal.Content style={{ maxWidth: '1100px', width: '90vw' }}>
+            <Modal.Header>
+              <Modal.Title>
+                Conflict - {formatContentType(selectedLocalConflict.content_type)} #{selectedLocalConflict.content_id}
+              </Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+              <Box marginBottom={4}>
+                <Flex gap={2} alignItems="center">
+                  <StatusBadge status={selectedLocalConflict.status} />
+                  <Typography variant="omega" textColor="neutral600">
+                    {selectedLocalConflict.conflict_reason || selectedLocalConflict.error_message}
+                  </Typography>
+                </Flex>
+              </Box>
+
+              {selectedLocalConflict.conflict_resolution_note && (
+                <Box background="secondary100" padding={3} borderRadius="4px" marginBottom={4}>
+                  <Typography variant="pi" fontWeight="bold" textColor="secondary700">
+                    Note from {formatResolvedBy(selectedLocalConflict.conflict_resolved_by || 'admin')}
+                  </Typography>
+                  <Box marginTop={1}>
+                    <Typography variant="omega">{selectedLocalConflict.conflict_resolution_note}</Typography>
+                  </Box>
+                </Box>
+              )}
+
+              {selectedLocalConflict.master_data ? (
+                <Box style={{ maxHeight: '360px', overflow: 'auto' }}>
+                  <ConflictDiff
+                    shipData={selectedLocalConflict.local_data || selectedLocalConflict.data}
+                    masterData={selectedLocalConflict.master_data}
+                    labels={{ ship: 'Local', master: 'Master' }}
+                  />
+                </Box>
+              ) : (
+                <Box background="neutral100" padding={3} borderRadius="4px">
+                  <Typography variant="pi" textColor="neutral600">
+                    Master's copy was not included in the conflict notification. Discarding keeps the current local content.
+                  </Typography>
+                </Box>
+              )}
+
+              {selectedLocalConflict.operation !== 'delete' && (
+                <Box marginTop={4}>
+                  <Field.Root>
+                    <Field.Label>Local Change (edit before resubmitting)</Field.Label>
+                    <JSONInput
+                      value={localConflictData}
+                      onChange={(value: string) => setLocalConflictData(value)}
+                      minHeight="200px"
+                      maxHeight="300px"
+                    />
+                  </Field.Root>
+                </Box>
+              )}
+
+              <Box marginTop={4}>
+                <Field.Root>
+                  <Field.Label>Note for the master admin</Field.Label>
+                  <Flex gap={2}>
+                    <Box style={{ flex: 1 }}>
+                      <TextInput
+                        value={localConflictNote}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalConflictNote(e.target.value)}
+                        placeholder="Why this change matters, what to keep..."
+                      />
+                    </Box>
+                    <Button
+                      variant="secondary"
+                      onClick={() => handleSendConflictNote(selectedLocalConflict.id)}
+                      loading={localConflictAction === 'note'}
+                      disabled={!canResolveConflicts || !localConflictNote.trim() || !selectedLocalConflict.conflict_id}
+                    >
+                      Send Note
+                    </Button>
+                  </Flex>
+                </Field.Root>
+              </Box>
+            </Modal.Body>
+            <Modal.Footer>
+              <Modal.Close>
+                <Button variant="tertiary">Close</Button>
+              </Modal.Close>
+              <Flex gap={2}>
+                {selectedLocalConflict.operation !== 'delete' && (
+                  <Link
+                    href={getContentManagerUrl(selectedLocalConflict.content_type, selectedLocalConflict.content_id)}
+                    isExternal={false}
+                  >
+                    <Button variant="tertiary">Edit in Content Manager</Button>
+                  </Link>
+                )}
+                <Button
+                  variant="danger-light"
+                  onClick={() => handleDiscardLocalChange(selectedLocalConflict.id)}
+                  loading={localConflictAction === 'discard'}
+                  disabled={!canResolveConflicts}
+                >
+                  Discard Local Change
+                </Button>
+                {selectedLocalConflict.operation !== 'delete' && (
+                  <Button
+                    onClick={() => handleResubmitLocalChange(selectedLocalConflict.id)}
+                    loading={localConflictAction === 'resubmit'}
+                    disabled={!canResolveConflicts}
+                  >
+                    Resubmit
+                  </Button>
+                )}
+              </Flex>
+            </Modal.Footer>
+          </Modal.Content>
+        </Modal.Root>
+      )}
+
+      {/* Dead Letter Detail Modal */}
+      {selectedDeadLetter && (
+        <Modal.Root open={!!selectedDeadLetter} onOpenChange={(open: boolean) => !open && setSelectedDeadLetter(null)}>
+          <Modal.Content>
+            <Modal.Header>
+              <Modal.Title>
+                Dead Letter #{selectedDeadLetter.id} - {selectedDeadLetter.messageId}
+              </Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+              <Flex gap={2} marginBottom={4} wrap="wrap">
+                <StatusBadge status={selectedDeadLetter.status} />
+                {selectedDeadLetter.operation && <OperationBadge operation={selectedDeadLetter.operation} />}
+                <Typography variant="pi" textColor="neutral600">
+                  Ship: {selectedDeadLetter.shipId || '-'} · Retries: {selectedDeadLetter.retryCount}/{selectedDeadLetter.maxRetries}
+                  {' · '}Created: {formatDate(selectedDeadLetter.createdAt)}
+                  {selectedDeadLetter.lastRetryAt && ` · Last retry: ${formatDate(selectedDeadLetter.lastRetryAt)}`}
+                </Typography>
+              </Flex>
+
+              {selectedDeadLetter.errorMessage && (
+                <Box background="danger100" padding={4} borderRadius="4px" marginBottom={4}>
+                  <Typography variant="omega" fontWeight="bold" textColor="danger700">
+                    {selectedDeadLetter.errorMessage}
+                  </Typography>
+                  {selectedDeadLetter.errorStack && (
+                    <Box marginTop={2} style={{ maxHeight: '150px', overflow: 'auto' }}>
+                      <pre style={{
+                        fontSize: '11px',
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-word',
+                        margin: 0,
+                        fontFamily: 'monospace'
+                      }}>
+                        {selectedDeadLetter.errorStack}
+                      </pre>
+                    </Box>
+                  )}
+                </Box>
+              )}
+
+              <Field.Root>
+                <Field.Label>Payload</Field.Label>
+                <JSONInput
+                  value={deadLetterPayload}
+                  onChange={setDeadLetterPayload}
+                  disabled={selectedDeadLetter.status === 'resolved'}
+                  style={{ maxHeight: '400px' }}
+                />
+              </Field.Root>
+              <Box marginTop={2}>
+                <Typography variant="pi" textColor="neutral600">
+                  Saving an edited payload returns an exhausted message to the retry queue.
+                </Typography>
+              </Box>
+            </Modal.Body>
+            <Modal.Footer>
+              <Flex gap={2}>
+                <Button
+                  variant="danger-light"
+                  onClick={() => handleDeleteDeadLetter(selectedDeadLetter.id)}
+                  loading={deadLetterAction === 'delete'}
+                  disabled={!canSync}
+                >
+                  Delete
+                </Button>
+                {selectedDeadLetter.status !== 'resolved' && (
+                  <Button
+                    variant="tertiary"
+                    onClick={() => handleResolveDeadLetter(selectedDeadLetter.id)}
+                    loading={deadLetterAction === 'resolve'}
+                    disabled={!canSync}
+                  >
+                    Mark Resolved
+                  </Button>
+                )}
+              </Flex>
+              {selectedDeadLetter.status !== 'resolved' && (
+                <Flex gap={2}>
+                  <Button
+                    variant="secondary"
+                    onClick={() => handleSaveDeadLetterPayload(selectedDeadLetter.id)}
+                    loading={deadLetterAction === 'save'}
+                    disabled={!canSync}
+                  >
+                    Save Payload
+                  </Button>
+                  <Button
+                    onClick={() => handleRetryDeadLetter(selectedDeadLetter.id)}
+                    loading={deadLetterAction === `retry-${selectedDeadLetter.id}`}
+                    disabled={!canSync}
+                  >
+                    Retry Now
+                  </Button>
+                </Flex>
+              )}
+            </Modal.Footer>
+          </Modal.Content>
+        </Modal.Root>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,8 @@
+// Admin permissions registered by the server (server/src/permissions.ts)
+export const PERMISSIONS = {
+  read: [{ action: 'plugin::offline-sync.read', subject: null }],
+  sync: [{ action: 'plugin::offline-sync.sync', subject: null }],
+  resolveConflicts: [{ action: 'plugin::offline-sync.resolve-conflicts', subject: null }],
+  initialSync: [{ action: 'plugin::offline-sync.initial-sync', subject: null }],
+  mediaSync: [{ action: 'plugin::offline-sync.media-sync', subject: null }],
+};
@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Content Versions & Three-Way Merge - Database Migration Script
+-- ============================================================================
+-- This script creates the content_versions table (version counters + sync
+-- snapshots) and adds merge columns to conflict_logs.
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: content_versions (Master + Replica)
+-- Purpose: Version counter per document (Replica) and last synced snapshots
+--          used as the common ancestor for three-way merges (Master)
+-- ============================================================================
+--
+-- On Master, two snapshot rows are written per successful ship sync:
+--   content_id = master documentId   -> document as stored on master
+--   content_id = replica documentId  -> same state as sent by the ship
+--
+CREATE TABLE IF NOT EXISTS content_versions (
+    id SERIAL PRIMARY KEY,
+    content_type VARCHAR(255) NOT NULL,
+    content_id VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL,
+    ship_id VARCHAR(255),
+    locale VARCHAR(50),
+    data_snapshot JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for content_versions
+CREATE INDEX IF NOT EXISTS idx_content_versions_content ON content_versions(content_type, content_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_content_versions_changed_at ON content_versions(changed_at);
+
+
+-- ============================================================================
+-- MIGRATION: Add three-way merge columns to conflict_logs
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'conflict_logs') THEN
+        -- Common ancestor used for the merge
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'base_data') THEN
+            ALTER TABLE conflict_logs ADD COLUMN base_data JSONB;
+            RAISE NOTICE '[OK] Added base_data column to conflict_logs';
+        END IF;
+
+        -- Auto-merged document (master value kept for conflicting fields)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'merged_data') THEN
+            ALTER TABLE conflict_logs ADD COLUMN merged_data JSONB;
+            RAISE NOTICE '[OK] Added merged_data column to conflict_logs';
+        END IF;
+
+        -- Fields changed differently on both sides
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'conflict_fields') THEN
+            ALTER TABLE conflict_logs ADD COLUMN conflict_fields JSONB;
+            RAISE NOTICE '[OK] Added conflict_fields column to conflict_logs';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] conflict_logs table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'content_versions') THEN
+        RAISE NOTICE '[OK] content_versions table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] content_versions table was NOT created';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'conflict_logs' AND column_name = 'merged_data') THEN
+        RAISE NOTICE '[OK] conflict_logs merge columns verified';
+    ELSE
+        RAISE WARNING '[WARNING] conflict_logs merge columns not found';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
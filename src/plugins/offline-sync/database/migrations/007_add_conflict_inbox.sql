@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Replica Conflict Inbox - Database Migration Script
+-- ============================================================================
+-- Stores the master copy and the ship editor's note next to conflicted
+-- sync_queue entries, and the note on master's conflict_logs.
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: Add conflict inbox columns to sync_queue (Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'sync_queue') THEN
+        -- Master's copy of the document when the conflict was reported / resolved
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'master_data') THEN
+            ALTER TABLE sync_queue ADD COLUMN master_data JSONB;
+            RAISE NOTICE '[OK] Added master_data column to sync_queue';
+        END IF;
+
+        -- Note from the ship editor for the master admin
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'conflict_note') THEN
+            ALTER TABLE sync_queue ADD COLUMN conflict_note TEXT;
+            RAISE NOTICE '[OK] Added conflict_note column to sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] sync_queue table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Add ship note to conflict_logs (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'conflict_logs') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'ship_note') THEN
+            ALTER TABLE conflict_logs ADD COLUMN ship_note TEXT;
+            RAISE NOTICE '[OK] Added ship_note column to conflict_logs';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] conflict_logs table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'sync_queue' AND column_name = 'master_data') THEN
+        RAISE NOTICE '[OK] sync_queue conflict inbox columns verified';
+    ELSE
+        RAISE WARNING '[WARNING] sync_queue conflict inbox columns not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'conflict_logs' AND column_name = 'ship_note') THEN
+        RAISE NOTICE '[OK] conflict_logs ship_note column verified';
+    ELSE
+        RAISE WARNING '[WARNING] conflict_logs ship_note column not found';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
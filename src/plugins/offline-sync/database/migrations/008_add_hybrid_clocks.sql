@@ -0,0 +1,97 @@
+-- ============================================================================
+-- Hybrid Logical Clocks - Database Migration Script
+-- ============================================================================
+-- Adds hybrid logical clock columns used for causality-based conflict
+-- detection instead of updatedAt comparisons.
+-- Clock format: "<wall ms>-<counter>-<node>", e.g. 0001718000000000-0003-ship-01
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: Clock of the last synced state on document_mappings (Master + Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'document_mappings') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'document_mappings' AND column_name = 'clock') THEN
+            ALTER TABLE document_mappings ADD COLUMN clock VARCHAR(150);
+            RAISE NOTICE '[OK] Added clock column to document_mappings';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] document_mappings table not yet created (Strapi will create it on startup)';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Clock of each queued local change on sync_queue (Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'sync_queue') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'clock') THEN
+            ALTER TABLE sync_queue ADD COLUMN clock VARCHAR(150);
+            RAISE NOTICE '[OK] Added clock column to sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] sync_queue table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Clock columns on master_sync_queue and master_edit_log (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_sync_queue') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'master_sync_queue' AND column_name = 'clock') THEN
+            ALTER TABLE master_sync_queue ADD COLUMN clock VARCHAR(150);
+            RAISE NOTICE '[OK] Added clock column to master_sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] master_sync_queue table not found - run 005_create_master_sync_queue.sql first';
+    END IF;
+
+    -- Clock of the latest change applied to each master document
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_edit_log') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'master_edit_log' AND column_name = 'clock') THEN
+            ALTER TABLE master_edit_log ADD COLUMN clock VARCHAR(150);
+            RAISE NOTICE '[OK] Added clock column to master_edit_log';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] master_edit_log table not found - run 005_create_master_sync_queue.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'sync_queue' AND column_name = 'clock') THEN
+        RAISE NOTICE '[OK] sync_queue clock column verified';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'master_edit_log' AND column_name = 'clock') THEN
+        RAISE NOTICE '[OK] master_edit_log clock column verified';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'document_mappings' AND column_name = 'clock') THEN
+        RAISE NOTICE '[OK] document_mappings clock column verified';
+    ELSE
+        RAISE WARNING '[WARNING] document_mappings clock column not found - Strapi will add it on restart';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
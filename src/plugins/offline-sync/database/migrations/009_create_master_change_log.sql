@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Master Change Log - Database Migration Script
+-- ============================================================================
+-- Creates the master_change_log table: every change master broadcasts to
+-- ships, with a monotonic sequence number. Ships keep the last sequence they
+-- have seen (watermark) and pull everything after it when they reconnect.
+-- Run this on the Master database.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: master_change_log (Master Only)
+-- Purpose: Ordered record of broadcast changes for catch-up sync
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS master_change_log (
+    sequence BIGSERIAL PRIMARY KEY,
+    content_type VARCHAR(255) NOT NULL,
+    document_id VARCHAR(255) NOT NULL,
+    operation VARCHAR(50) NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+    data JSONB,
+    locale VARCHAR(50),
+    clock VARCHAR(150),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for master_change_log
+CREATE INDEX IF NOT EXISTS idx_master_change_log_document ON master_change_log(content_type, document_id);
+CREATE INDEX IF NOT EXISTS idx_master_change_log_created_at ON master_change_log(created_at);
+
+
+-- ============================================================================
+-- MIGRATION: Change log sequence on master_sync_queue
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_sync_queue') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'master_sync_queue' AND column_name = 'sequence') THEN
+            ALTER TABLE master_sync_queue ADD COLUMN sequence BIGINT;
+            RAISE NOTICE '[OK] Added sequence column to master_sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] master_sync_queue table not found - run 005_create_master_sync_queue.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_change_log') THEN
+        RAISE NOTICE '[OK] master_change_log table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] master_change_log table was NOT created';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Append-only Master Change Log - Database Migration Script
+-- ============================================================================
+-- Rejects UPDATE and DELETE on master_change_log so the log stays a complete,
+-- ordered history that ships can be re-seeded from at any time.
+-- Run this on the Master database after 009_create_master_change_log.sql.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: reject changes to existing change log entries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION master_change_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'master_change_log is append-only (% rejected)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- ============================================================================
+-- TRIGGER: master_change_log (Master Only)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_change_log') THEN
+        DROP TRIGGER IF EXISTS trg_master_change_log_append_only ON master_change_log;
+        CREATE TRIGGER trg_master_change_log_append_only
+            BEFORE UPDATE OR DELETE ON master_change_log
+            FOR EACH ROW EXECUTE FUNCTION master_change_log_append_only();
+        RAISE NOTICE '[OK] master_change_log is now append-only';
+    ELSE
+        RAISE NOTICE '[INFO] master_change_log table not found - run 009_create_master_change_log.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.triggers
+               WHERE event_object_table = 'master_change_log'
+                 AND trigger_name = 'trg_master_change_log_append_only') THEN
+        RAISE NOTICE '[OK] append-only trigger verified';
+    ELSE
+        RAISE WARNING '[ERROR] append-only trigger was NOT created';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Delta Snapshots - Database Migration Script
+-- ============================================================================
+-- Creates the delta_snapshots table: the last payload sent to / received from
+-- each peer per document. Update messages carry a JSON-patch delta against it
+-- instead of the full document.
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: delta_snapshots (Master + Replica)
+-- Purpose: Base state for delta payloads
+-- ============================================================================
+--
+--   direction = 'outgoing' -> last payload this node sent (peer: 'master' or 'ships')
+--   direction = 'incoming' -> last payload this node received (peer: 'master' or shipId)
+--
+CREATE TABLE IF NOT EXISTS delta_snapshots (
+    id SERIAL PRIMARY KEY,
+    direction VARCHAR(20) NOT NULL CHECK (direction IN ('outgoing', 'incoming')),
+    peer VARCHAR(255) NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    document_id VARCHAR(255) NOT NULL,
+    locale VARCHAR(50) NOT NULL DEFAULT '',
+    data JSONB,
+    hash VARCHAR(64) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_delta_snapshots_document UNIQUE (direction, peer, content_type, document_id, locale)
+);
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'delta_snapshots') THEN
+        RAISE NOTICE '[OK] delta_snapshots table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] delta_snapshots table was NOT created';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
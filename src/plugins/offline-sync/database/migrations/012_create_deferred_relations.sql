@@ -0,0 +1,54 @@
+-- ============================================================================
+-- Deferred Relations - Database Migration Script
+-- ============================================================================
+-- Creates the deferred_relations table: relation attributes of incoming
+-- changes whose related documents are not mapped on this side yet. They are
+-- left out of the write and applied once the related documents arrive.
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: deferred_relations (Master + Replica)
+-- Purpose: Relations waiting for their target documents
+-- ============================================================================
+--
+--   direction = 'to-master'  -> ship relation waiting on master (source_document_id: ship's documentId)
+--   direction = 'to-replica' -> master relation waiting on a ship (source_document_id: master's documentId)
+--
+CREATE TABLE IF NOT EXISTS deferred_relations (
+    id SERIAL PRIMARY KEY,
+    direction VARCHAR(20) NOT NULL CHECK (direction IN ('to-master', 'to-replica')),
+    ship_id VARCHAR(255) NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    source_document_id VARCHAR(255) NOT NULL,
+    locale VARCHAR(50) NOT NULL DEFAULT '',
+    field VARCHAR(255) NOT NULL,
+    value JSONB,
+    target_types TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for deferred_relations
+CREATE INDEX IF NOT EXISTS idx_deferred_relations_document ON deferred_relations(direction, ship_id, content_type, source_document_id, locale);
+CREATE INDEX IF NOT EXISTS idx_deferred_relations_status ON deferred_relations(status);
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'deferred_relations') THEN
+        RAISE NOTICE '[OK] deferred_relations table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] deferred_relations table was NOT created';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
@@ -0,0 +1,101 @@
+-- ============================================================================
+-- Draft & Publish State - Database Migration Script
+-- ============================================================================
+-- Allows the publish-state operations (publish, unpublish, discard-draft) in
+-- the sync queues and the change log, and adds a document_status column that
+-- records whether a create/update was saved as a draft or published.
+-- Rows without document_status (queued before this migration) are applied as
+-- published, like before.
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: Publish-state operations and document_status on sync_queue (Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'sync_queue') THEN
+        ALTER TABLE sync_queue DROP CONSTRAINT IF EXISTS sync_queue_operation_check;
+        ALTER TABLE sync_queue ADD CONSTRAINT sync_queue_operation_check
+            CHECK (operation IN ('create', 'update', 'delete', 'publish', 'unpublish', 'discard-draft'));
+        RAISE NOTICE '[OK] Updated operation check on sync_queue';
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'document_status') THEN
+            ALTER TABLE sync_queue ADD COLUMN document_status VARCHAR(20);
+            RAISE NOTICE '[OK] Added document_status column to sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] sync_queue table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Publish-state operations and document_status on master_sync_queue (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_sync_queue') THEN
+        ALTER TABLE master_sync_queue DROP CONSTRAINT IF EXISTS master_sync_queue_operation_check;
+        ALTER TABLE master_sync_queue ADD CONSTRAINT master_sync_queue_operation_check
+            CHECK (operation IN ('create', 'update', 'delete', 'publish', 'unpublish', 'discard-draft'));
+        RAISE NOTICE '[OK] Updated operation check on master_sync_queue';
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'master_sync_queue' AND column_name = 'document_status') THEN
+            ALTER TABLE master_sync_queue ADD COLUMN document_status VARCHAR(20);
+            RAISE NOTICE '[OK] Added document_status column to master_sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] master_sync_queue table not found - run 005_create_master_sync_queue.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Publish-state operations and document_status on master_change_log (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'master_change_log') THEN
+        ALTER TABLE master_change_log DROP CONSTRAINT IF EXISTS master_change_log_operation_check;
+        ALTER TABLE master_change_log ADD CONSTRAINT master_change_log_operation_check
+            CHECK (operation IN ('create', 'update', 'delete', 'publish', 'unpublish', 'discard-draft'));
+        RAISE NOTICE '[OK] Updated operation check on master_change_log';
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'master_change_log' AND column_name = 'document_status') THEN
+            ALTER TABLE master_change_log ADD COLUMN document_status VARCHAR(20);
+            RAISE NOTICE '[OK] Added document_status column to master_change_log';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] master_change_log table not found - run 009_create_master_change_log.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'sync_queue' AND column_name = 'document_status') THEN
+        RAISE NOTICE '[OK] sync_queue document_status column verified';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'master_sync_queue' AND column_name = 'document_status') THEN
+        RAISE NOTICE '[OK] master_sync_queue document_status column verified';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'master_change_log' AND column_name = 'document_status') THEN
+        RAISE NOTICE '[OK] master_change_log document_status column verified';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Bulk Operations - Database Migration Script
+-- ============================================================================
+-- Adds a bulk_id column to sync_queue. Operations made in one transaction
+-- (content-manager bulk actions, bulkSync.run in scripts) share a bulk id and
+-- are pushed to master as one 'bulk' message, which master applies in a
+-- single transaction.
+-- Run this on Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: bulk_id on sync_queue (Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'sync_queue') THEN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'bulk_id') THEN
+            ALTER TABLE sync_queue ADD COLUMN bulk_id VARCHAR(64);
+            RAISE NOTICE '[OK] Added bulk_id column to sync_queue';
+        END IF;
+
+        CREATE INDEX IF NOT EXISTS idx_sync_queue_bulk_id ON sync_queue (bulk_id) WHERE bulk_id IS NOT NULL;
+        RAISE NOTICE '[OK] Created index idx_sync_queue_bulk_id';
+    ELSE
+        RAISE NOTICE '[INFO] sync_queue table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'sync_queue' AND column_name = 'bulk_id') THEN
+        RAISE NOTICE '[OK] sync_queue bulk_id column verified';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- HTTP Transport - Database Migration Script
+-- ============================================================================
+-- Creates the tables master uses to serve ships over the HTTP transport
+-- (transport.type 'http' or transport.http.enabled): the outbox ships
+-- long-poll per topic, and each ship's acknowledged position.
+-- Run this on the Master database.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: transport_outbox (Master Only)
+-- Purpose: Messages master sent, per topic, for ships polling over HTTP
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS transport_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    topic VARCHAR(255) NOT NULL,
+    message_key VARCHAR(255),
+    payload TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for transport_outbox
+CREATE INDEX IF NOT EXISTS idx_transport_outbox_topic ON transport_outbox(topic, id);
+CREATE INDEX IF NOT EXISTS idx_transport_outbox_created ON transport_outbox(created_at);
+
+
+-- ============================================================================
+-- TABLE: transport_cursors (Master Only)
+-- Purpose: Last outbox id each ship acknowledged, per topic
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS transport_cursors (
+    ship_id VARCHAR(255) NOT NULL,
+    topic VARCHAR(255) NOT NULL,
+    position BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (ship_id, topic)
+);
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'transport_outbox') THEN
+        RAISE NOTICE '[OK] transport_outbox table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] transport_outbox table was NOT created';
+    END IF;
+
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'transport_cursors') THEN
+        RAISE NOTICE '[OK] transport_cursors table created successfully';
+    ELSE
+        RAISE WARNING '[ERROR] transport_cursors table was NOT created';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
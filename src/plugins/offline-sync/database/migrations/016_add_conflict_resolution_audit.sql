@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Conflict Resolution Audit - Database Migration Script
+-- ============================================================================
+-- Stores the admin's note next to who resolved a conflict on master
+-- (conflict_logs), and who resolved it and why on the ship's queue history
+-- (sync_queue).
+-- Run this on BOTH Master and Replica databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: Add resolution note to conflict_logs (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'conflict_logs') THEN
+        -- Optional note from the admin who resolved the conflict (resolved_by)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'resolution_note') THEN
+            ALTER TABLE conflict_logs ADD COLUMN resolution_note TEXT;
+            RAISE NOTICE '[OK] Added resolution_note column to conflict_logs';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] conflict_logs table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- MIGRATION: Add resolution audit columns to sync_queue (Replica)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'sync_queue') THEN
+        -- Who resolved the conflict on master (admin:<email>, policy:<name>, auto-merge)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'conflict_resolved_by') THEN
+            ALTER TABLE sync_queue ADD COLUMN conflict_resolved_by VARCHAR(255);
+            RAISE NOTICE '[OK] Added conflict_resolved_by column to sync_queue';
+        END IF;
+
+        -- The master admin's note on the resolution
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'sync_queue' AND column_name = 'conflict_resolution_note') THEN
+            ALTER TABLE sync_queue ADD COLUMN conflict_resolution_note TEXT;
+            RAISE NOTICE '[OK] Added conflict_resolution_note column to sync_queue';
+        END IF;
+    ELSE
+        RAISE NOTICE '[INFO] sync_queue table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'conflict_logs' AND column_name = 'resolution_note') THEN
+        RAISE NOTICE '[OK] conflict_logs resolution_note column verified';
+    ELSE
+        RAISE WARNING '[WARNING] conflict_logs resolution_note column not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'sync_queue' AND column_name = 'conflict_resolved_by') THEN
+        RAISE NOTICE '[OK] sync_queue resolution audit columns verified';
+    ELSE
+        RAISE WARNING '[WARNING] sync_queue resolution audit columns not found';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
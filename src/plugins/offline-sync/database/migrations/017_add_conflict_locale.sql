@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Conflict Locale & Publish State - Database Migration Script
+-- ============================================================================
+-- Stores the locale and the document version (draft / published) a conflicting
+-- ship change was made to on conflict_logs, so every resolution writes to the
+-- locale and version the ship edited.
+-- Run this on Master databases.
+-- ============================================================================
+
+-- ============================================================================
+-- MIGRATION: Add locale and document_status to conflict_logs (Master)
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'conflict_logs') THEN
+        -- Locale of the conflicting change (NULL = not localized)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'locale') THEN
+            ALTER TABLE conflict_logs ADD COLUMN locale VARCHAR(10);
+            RAISE NOTICE '[OK] Added locale column to conflict_logs';
+        END IF;
+
+        -- Version the ship saved to: draft or published (NULL = published)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'conflict_logs' AND column_name = 'document_status') THEN
+            ALTER TABLE conflict_logs ADD COLUMN document_status VARCHAR(16);
+            RAISE NOTICE '[OK] Added document_status column to conflict_logs';
+        END IF;
+
+        -- Unresolved conflicts are kept per locale
+        DROP INDEX IF EXISTS idx_conflict_logs_unresolved;
+        CREATE INDEX IF NOT EXISTS idx_conflict_logs_unresolved ON conflict_logs(content_type, content_id, ship_id, locale) WHERE resolved_at IS NULL;
+        RAISE NOTICE '[OK] Recreated index idx_conflict_logs_unresolved';
+    ELSE
+        RAISE NOTICE '[INFO] conflict_logs table not found - run 001_create_sync_tables.sql first';
+    END IF;
+END $$;
+
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_name = 'conflict_logs' AND column_name = 'document_status') THEN
+        RAISE NOTICE '[OK] conflict_logs locale and document_status columns verified';
+    ELSE
+        RAISE WARNING '[WARNING] conflict_logs locale and document_status columns not found';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Done!
+-- ============================================================================
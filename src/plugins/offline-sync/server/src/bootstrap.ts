@@ -3,6 +3,10 @@
  * Production-ready initialization for master/replica sync system
  */
 
+import type { DocumentChange, SyncOperation } from './services/bulk-sync';
+import type { ShipScope } from './services/ship-routing';
+import { PERMISSIONS } from './permissions';
+
 // Types
 interface PluginConfig {
   mode: 'master' | 'replica';
@@ -19,9 +23,25 @@ interface PluginConfig {
       shipUpdates: string;
       masterUpdates: string;
     };
+    compression?: 'none' | 'gzip' | 'lz4' | 'zstd';
+  };
+  transport?: {
+    type?: 'kafka' | 'http';
+    http?: {
+      enabled?: boolean;
+      masterUrl?: string;
+      apiToken?: string;
+      pollTimeout?: number;
+      retryDelay?: number;
+      batchSize?: number;
+    };
   };
   sync: {
     batchSize: number;
+    pushBatchSize?: number;
+    deltas?: boolean;
+    relationRetryInterval?: number;
+    relationRetryAttempts?: number;
     retryAttempts: number;
     retryDelay: number;
     connectivityCheckInterval: number;
@@ -29,6 +49,37 @@ interface PluginConfig {
     debounceMs?: number;
   };
   contentTypes: string[];
+  conflicts?: {
+    defaultPolicy?: 'manual' | 'master-wins' | 'ship-wins' | 'last-writer-wins' | 'field-merge';
+    policies?: Record<string, 'manual' | 'master-wins' | 'ship-wins' | 'last-writer-wins' | 'field-merge'>;
+  };
+  routing?: {
+    enabled?: boolean;
+    ships?: Record<string, ShipScope>;
+  };
+  bundles?: {
+    secret?: string;
+  };
+  security?: {
+    privateKey?: string;
+    privateKeyFile?: string;
+    masterPublicKey?: string;
+    masterPublicKeyFile?: string;
+    requireSignatures?: boolean;
+    probeToken?: string;
+  };
+  fleet?: {
+    lagWarningMinutes?: number;
+    lagCriticalMinutes?: number;
+    queueWarningSize?: number;
+  };
+  deadLetter?: {
+    retryEnabled?: boolean;
+    retryInterval?: number;
+    retryBaseDelay?: number;
+    retryMaxDelay?: number;
+    retryBatchSize?: number;
+  };
 }
 
 interface SyncContext {
@@ -36,9 +87,23 @@ interface SyncContext {
   uid: string;
   params?: {
     documentId?: string;
+    status?: 'draft' | 'published';
   };
 }
 
+// Document Service actions synced to the other side, and the sync operation they become
+const SYNC_OPERATIONS: Record<string, SyncOperation> = {
+  create: 'create',
+  update: 'update',
+  delete: 'delete',
+  publish: 'publish',
+  unpublish: 'unpublish',
+  discardDraft: 'discard-draft',
+};
+
+// Publish-state actions return { documentId, entries } instead of the document
+const PUBLISH_STATE_ACTIONS = ['publish', 'unpublish', 'discardDraft'];
+
 // Sensitive fields to strip from sync data
 const SENSITIVE_FIELDS = [
   'password',
@@ -89,9 +154,20 @@ function validateConfig(config: PluginConfig, strapi: any): void {
     throw new Error('[OfflineSync] SYNC_SHIP_ID is required for replica mode');
   }
 
-  if (!config.kafka?.brokers?.length) {
+  if (config.transport?.type === 'http') {
+    if (config.mode === 'replica' && !config.transport.http?.masterUrl) {
+      strapi.log.warn('[OfflineSync] No master URL configured for the HTTP transport - sync will be disabled');
+    }
+  } else if (!config.kafka?.brokers?.length) {
     strapi.log.warn('[OfflineSync] No Kafka brokers configured - sync will be disabled');
   }
+
+  if (config.mode === 'replica' && !config.security?.privateKey && !config.security?.privateKeyFile) {
+    strapi.log.warn('[OfflineSync] No signing key configured - messages to master are unsigned');
+  }
+  if (config.mode === 'master' && !config.security?.requireSignatures) {
+    strapi.log.warn('[OfflineSync] SYNC_REQUIRE_SIGNATURES is off - unsigned messages and unknown ships are accepted');
+  }
 }
 
 /**
@@ -109,15 +185,12 @@ function debounce<T extends (...args: any[]) => any>(
   };
 }
 
-export default ({ strapi }: { strapi: any }) => {
+export default async ({ strapi }: { strapi: any }) => {
   // Get and validate plugin config
   const pluginConfig: PluginConfig = strapi.config.get('plugin::offline-sync', {});
 
-  // Flags to prevent sync loops
-  // _offlineSyncFromMaster: set during processMasterUpdate to prevent replica re-pushing received updates
-  // _offlineSyncFromShip: set during processShipUpdate to prevent master re-broadcasting to ships
-  (strapi as any)._offlineSyncFromMaster = false;
-  (strapi as any)._offlineSyncFromShip = false;
+  // Admin permissions (routes check them even when sync itself is disabled)
+  strapi.admin.services.permission.actionProvider.registerMany(PERMISSIONS);
 
   try {
     validateConfig(pluginConfig, strapi);
@@ -129,39 +202,56 @@ export default ({ strapi }: { strapi: any }) => {
   strapi.log.info('🚀 Offline Sync plugin initialized');
   strapi.log.info(`📡 Sync mode: ${pluginConfig.mode}`);
 
+  // Continue the hybrid logical clock from the latest persisted clock before any change is stamped
+  try {
+    const clock = await strapi.plugin('offline-sync').service('hybrid-clock').seed();
+    if (clock) {
+      strapi.log.info(`🕒 Hybrid clock seeded from ${clock}`);
+    }
+  } catch (error: any) {
+    strapi.log.warn(`Hybrid clock seeding failed: ${error.message}`);
+  }
+
   // Store cleanup functions for graceful shutdown
   const cleanupFunctions: Array<() => Promise<void> | void> = [];
 
+  // Live updates for the admin page (server-sent events)
+  const eventStream = strapi.plugin('offline-sync').service('event-stream');
+  eventStream.start();
+  cleanupFunctions.push(() => {
+    eventStream.stop();
+  });
+
   if (pluginConfig.mode === 'replica') {
     strapi.log.info(`🚢 Ship ID: ${pluginConfig.shipId}`);
 
-    // Initialize Kafka producer for replica (sends to master)
-    const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-    kafkaProducer.connect().catch((error: any) => {
-      strapi.log.warn(`Kafka producer connection deferred: ${error.message}`);
+    // Connect the transport for replica (sends to master)
+    const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+    syncProducer.connect().catch((error: any) => {
+      strapi.log.warn(`Transport connection deferred: ${error.message}`);
     });
 
     // Add producer disconnect to cleanup
     cleanupFunctions.push(async () => {
       try {
-        await kafkaProducer.disconnect();
-        strapi.log.info('[OfflineSync] Kafka producer disconnected');
+        await syncProducer.disconnect();
+        strapi.log.info('[OfflineSync] Transport disconnected');
       } catch (e) {
         // Ignore disconnect errors
       }
     });
 
-    // Initialize Kafka consumer for replica (receives master updates for bi-directional sync)
-    const kafkaConsumer = strapi.plugin('offline-sync').service('kafka-consumer');
-    kafkaConsumer.connect().catch((error: any) => {
-      strapi.log.warn(`Kafka consumer connection deferred: ${error.message}`);
+    // Subscribe to master updates for replica (bi-directional sync)
+    const syncConsumer = strapi.plugin('offline-sync').service('sync-consumer');
+    syncConsumer.connect().catch((error: any) => {
+      strapi.log.warn(`Consumer subscription deferred: ${error.message}`);
     });
 
     // Add consumer disconnect to cleanup
     cleanupFunctions.push(async () => {
       try {
-        await kafkaConsumer.disconnect();
-        strapi.log.info('[OfflineSync] Kafka consumer disconnected');
+        await syncConsumer.disconnect();
+        strapi.log.info('[OfflineSync] Consumer unsubscribed');
       } catch (e) {
         // Ignore disconnect errors
       }
@@ -203,10 +293,10 @@ export default ({ strapi }: { strapi: any }) => {
         try {
           const syncService = strapi.plugin('offline-sync').service('sync-service');
           const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
-          const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
+          const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
 
           // Verify connection is still stable after delay
-          if (!kafkaProducer.isConnected()) {
+          if (!syncProducer.isConnected()) {
             strapi.log.warn('[OfflineSync] Connection unstable after stabilization delay, skipping push');
             return;
           }
@@ -219,8 +309,14 @@ export default ({ strapi }: { strapi: any }) => {
           } else {
             strapi.log.info('[OfflineSync] No pending items to push after reconnection');
           }
+
+          // Catch up on master changes that may have expired from the master-updates topic
+          const pullResult = await syncService.pull();
+          if (pullResult.requested) {
+            strapi.log.info(`[OfflineSync] 📥 Catch-up requested from master (watermark: ${pullResult.watermark ?? 'none'})`);
+          }
         } catch (error: any) {
-          strapi.log.error(`[OfflineSync] Reconnection push error: ${error.message}`);
+          strapi.log.error(`[OfflineSync] Reconnection sync error: ${error.message}`);
         }
       }, STABILIZATION_DELAY_MS);
     });
@@ -294,9 +390,9 @@ export default ({ strapi }: { strapi: any }) => {
       // Send initial heartbeat after Kafka connects
       setTimeout(async () => {
         try {
-          const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-          if (kafkaProducer.isConnected()) {
-            await kafkaProducer.sendHeartbeat();
+          const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+          if (syncProducer.isConnected()) {
+            await syncProducer.sendHeartbeat();
             strapi.log.info(`[Heartbeat] 💓 Started (interval: ${HEARTBEAT_INTERVAL_MS / 1000}s)`);
           }
         } catch (e) {
@@ -307,9 +403,9 @@ export default ({ strapi }: { strapi: any }) => {
       // Schedule periodic heartbeats
       heartbeatIntervalId = setInterval(async () => {
         try {
-          const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-          if (kafkaProducer.isConnected()) {
-            await kafkaProducer.sendHeartbeat();
+          const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+          if (syncProducer.isConnected()) {
+            await syncProducer.sendHeartbeat();
           }
         } catch (e) {
           // Heartbeat failures are non-critical, silently ignore
@@ -339,7 +435,7 @@ export default ({ strapi }: { strapi: any }) => {
     const autoPushCheck = async () => {
       try {
         const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
-        const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
+        const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
 
         // Check if there are pending items
         const pendingItems = await syncQueue.getPending(pluginConfig.shipId);
@@ -360,7 +456,7 @@ export default ({ strapi }: { strapi: any }) => {
             await new Promise(resolve => setTimeout(resolve, 2000));
             
             // Verify still connected after delay
-            if (!kafkaProducer.isConnected()) {
+            if (!syncProducer.isConnected()) {
               strapi.log.warn(`[AutoPush] Connection unstable, skipping push`);
               return;
             }
@@ -409,28 +505,28 @@ export default ({ strapi }: { strapi: any }) => {
     // MASTER MODE
     // Using Strapi content types - no database timing issues
 
-    let kafkaConsumer: ReturnType<typeof strapi.plugin> | null = null;
+    let syncConsumer: ReturnType<typeof strapi.plugin> | null = null;
     let cleanupIntervalId: NodeJS.Timeout | null = null;
     let masterAutoPushIntervalId: NodeJS.Timeout | null = null;
     let isShuttingDown = false;
     let masterWasOffline = false;
 
-    // Initialize Kafka producer (for bi-directional sync: master → ships)
-    const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
+    // Connect the transport (for bi-directional sync: master → ships)
+    const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
     const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
 
-    kafkaProducer.connect()
+    syncProducer.connect()
       .then(() => {
-        strapi.log.info('[OfflineSync] ✅ Kafka producer connected (master mode)');
+        strapi.log.info('[OfflineSync] ✅ Transport connected (master mode)');
       })
       .catch((error: any) => {
-        strapi.log.warn(`[OfflineSync] Kafka producer connection deferred: ${error.message}`);
+        strapi.log.warn(`[OfflineSync] Transport connection deferred: ${error.message}`);
       });
 
     // Add producer disconnect to cleanup
     cleanupFunctions.push(async () => {
       try {
-        await kafkaProducer.disconnect();
+        await syncProducer.disconnect();
       } catch {
         // Ignore disconnect errors
       }
@@ -453,7 +549,7 @@ export default ({ strapi }: { strapi: any }) => {
         }
 
         // Check if Kafka is connected
-        if (!kafkaProducer.isConnected()) {
+        if (!syncProducer.isConnected()) {
           if (!masterWasOffline) {
             strapi.log.info(`[MasterAutoPush] 📴 Kafka offline - ${pendingCount} items queued`);
             masterWasOffline = true;
@@ -472,9 +568,19 @@ export default ({ strapi }: { strapi: any }) => {
         let sent = 0;
         let failed = 0;
 
+        const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+
         for (const item of pending) {
+          const snapshotKey = {
+            direction: 'outgoing',
+            peer: 'ships',
+            contentType: item.content_type,
+            documentId: item.content_id,
+            locale: item.locale,
+          };
+
           try {
-            const message = {
+            const message = await deltaSync.encode(snapshotKey, {
               messageId: `master-queued-${Date.now()}-${item.content_id}`,
               shipId: 'master',
               timestamp: new Date().toISOString(),
@@ -484,13 +590,19 @@ export default ({ strapi }: { strapi: any }) => {
               version: 0,
               data: item.data,
               locale: item.locale,
-            };
+              clock: item.clock || null,
+              sequence: item.sequence ? Number(item.sequence) : null,
+              documentStatus: item.document_status || null,
+            });
 
-            await kafkaProducer.sendToShips(message);
+            if (await syncProducer.sendToShips(message) === false) {
+              throw new Error('Send to ships failed');
+            }
             await masterSyncQueue.markSent(item.id);
             sent++;
           } catch (error: any) {
             await masterSyncQueue.markFailed(item.id, error);
+            await deltaSync.forget(snapshotKey);
             failed++;
           }
         }
@@ -517,15 +629,15 @@ export default ({ strapi }: { strapi: any }) => {
 
     startMasterAutoPush();
 
-    // Initialize Kafka consumer (receives from ships)
-    const kafkaService = strapi.plugin('offline-sync').service('kafka-consumer');
-    kafkaService.connect()
+    // Subscribe to ship messages (Kafka topic and/or HTTP posts)
+    const syncConsumerService = strapi.plugin('offline-sync').service('sync-consumer');
+    syncConsumerService.connect()
       .then(() => {
-        kafkaConsumer = kafkaService;
-        strapi.log.info('[OfflineSync] ✅ Kafka consumer connected (master mode)');
+        syncConsumer = syncConsumerService;
+        strapi.log.info('[OfflineSync] ✅ Consumer subscribed (master mode)');
       })
       .catch((error: Error) => {
-        strapi.log.warn(`[OfflineSync] Kafka consumer connection deferred: ${error.message}`);
+        strapi.log.warn(`[OfflineSync] Consumer subscription deferred: ${error.message}`);
       });
 
     // Periodic cleanup tasks (every 5 minutes)
@@ -562,11 +674,23 @@ export default ({ strapi }: { strapi: any }) => {
           await deadLetter.cleanup(30);
         }
 
+        // Cleanup old HTTP transport outbox messages (keep 7 days)
+        const httpTransport = plugin.service('http-transport');
+        if (httpTransport?.cleanup && plugin.service('transport').getTransports().includes(httpTransport)) {
+          await httpTransport.cleanup(7);
+        }
+
         // Cleanup old Master queue entries (keep 7 days)
         const masterQueue = plugin.service('master-sync-queue');
         if (masterQueue?.cleanup) {
           await masterQueue.cleanup(7);
         }
+
+        // Cleanup old version snapshots (keep 30 days, latest per document always kept)
+        const versionManager = plugin.service('version-manager');
+        if (versionManager?.cleanup) {
+          await versionManager.cleanup(30);
+        }
       } catch (error: unknown) {
         // Non-critical cleanup, silently ignore during shutdown
         if (!isShuttingDown && strapi?.log?.debug) {
@@ -576,6 +700,16 @@ export default ({ strapi }: { strapi: any }) => {
       }
     }, 300000); // 5 minutes
 
+    // Dead letter retry worker (replays failed ship updates with backoff)
+    const deadLetterRetry = strapi.plugin('offline-sync').service('dead-letter-retry');
+    if (deadLetterRetry.isEnabled()) {
+      deadLetterRetry.start();
+
+      cleanupFunctions.push(() => {
+        deadLetterRetry.stop();
+      });
+    }
+
     // Cleanup function for graceful shutdown
     cleanupFunctions.push(async () => {
       isShuttingDown = true;
@@ -590,9 +724,9 @@ export default ({ strapi }: { strapi: any }) => {
         cleanupIntervalId = null;
       }
 
-      if (kafkaConsumer) {
+      if (syncConsumer) {
         try {
-          await kafkaService.disconnect();
+          await syncConsumerService.disconnect();
         } catch {
           // Ignore disconnect errors
         }
@@ -602,6 +736,27 @@ export default ({ strapi }: { strapi: any }) => {
     strapi.log.info('[OfflineSync] Master mode initialized');
   }
 
+  // Deferred relation retry (both modes) - writes relations whose target was not mapped yet
+  const relationSync = strapi.plugin('offline-sync').service('relation-sync');
+  let relationRetryIntervalId: NodeJS.Timeout | null = setInterval(async () => {
+    if ((strapi as any)._isShuttingDown) return;
+    try {
+      const result = await relationSync.retryDeferred();
+      if (result.resolved > 0 || result.failed > 0) {
+        strapi.log.info(`[OfflineSync] 🔗 Deferred relations: ${result.resolved} applied, ${result.pending} waiting, ${result.failed} failed`);
+      }
+    } catch (error: any) {
+      strapi.log.debug(`[OfflineSync] Deferred relation retry: ${error.message}`);
+    }
+  }, relationSync.getRetryInterval());
+
+  cleanupFunctions.push(() => {
+    if (relationRetryIntervalId) {
+      clearInterval(relationRetryIntervalId);
+      relationRetryIntervalId = null;
+    }
+  });
+
   // Register graceful shutdown
   const gracefulShutdown = async () => {
     // Set global shutdown flag so services know to skip operations
@@ -625,6 +780,184 @@ export default ({ strapi }: { strapi: any }) => {
   // Store shutdown function for manual cleanup
   (strapi as any).offlineSyncShutdown = gracefulShutdown;
 
+  /**
+   * Sync document changes to the other side
+   * Several changes with a bulkId (one transaction or multi-locale action) travel together:
+   * replicas queue them under the bulk id, master broadcasts them as one 'bulk' message
+   */
+  const syncChanges = async (changes: DocumentChange[], bulkId: string | null): Promise<void> => {
+    const relationSync = strapi.plugin('offline-sync').service('relation-sync');
+    const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+
+    // create/update/publish carry the document; unpublish and discard-draft only the state change
+    const carriesData = (change: DocumentChange) =>
+      change.operation === 'create' || change.operation === 'update' || change.operation === 'publish';
+
+    // Strip sensitive data; relations travel as related documentIds
+    const buildSafeData = async (change: DocumentChange) => {
+      if (!carriesData(change)) return null;
+
+      // For publish action, fetch the published document (the result only lists the published entries)
+      let syncData = change.data;
+      if (change.operation === 'publish') {
+        try {
+          const findOptions: any = { documentId: change.documentId, status: 'published' };
+          if (change.locale) findOptions.locale = change.locale;
+          syncData = await strapi.documents(change.uid).findOne(findOptions);
+        } catch {
+          // If fetch fails, use original result
+        }
+      }
+
+      return relationSync.attachRelations(change.uid, change.documentId, stripSensitiveData(syncData), change.locale);
+    };
+
+    if (pluginConfig.mode === 'replica') {
+      // REPLICA MODE: Queue changes to push to master
+      const versionManager = strapi.plugin('offline-sync').service('version-manager');
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+
+      for (const change of changes) {
+        const { uid, documentId, operation, locale } = change;
+        try {
+          // Increment version (skip for delete and publish-state changes)
+          const version = carriesData(change)
+            ? await versionManager.incrementVersion(uid, documentId, pluginConfig.shipId)
+            : 0;
+
+          await syncQueue.enqueue({
+            shipId: pluginConfig.shipId!,
+            contentType: uid,
+            contentId: documentId,
+            operation,
+            localVersion: version,
+            data: await buildSafeData(change),
+            locale, // Include locale for i18n support
+            clock: hybridClock.now(),
+            documentStatus: change.documentStatus,
+            bulkId,
+          });
+
+          strapi.log.info(`[Sync] ✅ Queued ${operation} for ${uid} (${documentId})${locale ? ` [${locale}]` : ''}${bulkId ? ` in bulk ${bulkId}` : ''}`);
+        } catch (error: any) {
+          strapi.log.error(`[Sync] Queue error for ${operation} ${uid}: ${error.message}`);
+        }
+      }
+
+      // Trigger instant push (debounced)
+      if ((strapi as any).offlineSyncPush) {
+        (strapi as any).offlineSyncPush();
+      }
+    } else if (pluginConfig.mode === 'master') {
+      // MASTER MODE: Publish changes to ships via Kafka
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
+      const changeLog = strapi.plugin('offline-sync').service('change-log');
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+
+      // Messages ready to send; a bulk goes out as one message once all are built
+      const outgoing: Array<{ message: any; snapshotKey: any }> = [];
+
+      for (const change of changes) {
+        const { uid, documentId, operation, locale, documentStatus } = change;
+        try {
+          const safeData = await buildSafeData(change);
+          const clock = hybridClock.now();
+
+          // Log this edit as coming from Master admin (for conflict detection)
+          // This helps distinguish Master direct edits from Ship syncs
+          // (publish-state changes are logged as updates of the document)
+          await masterSyncQueue.logEdit({
+            contentType: uid,
+            documentId,
+            operation: operation === 'create' || operation === 'delete' ? operation : 'update',
+            editedBy: 'master-admin',
+            locale,
+            clock,
+          });
+
+          // Record in the change log - ships that missed the broadcast catch up from it
+          const sequence = await changeLog.append({
+            contentType: uid,
+            documentId,
+            operation,
+            data: safeData,
+            locale,
+            clock,
+            documentStatus,
+          });
+
+          // Try to publish directly if Kafka is connected
+          if (syncProducer.isConnected()) {
+            const snapshotKey = { direction: 'outgoing', peer: 'ships', contentType: uid, documentId, locale };
+
+            // Updates go out as a delta against the last broadcast; the change log keeps the full document
+            const message = await deltaSync.encode(snapshotKey, {
+              messageId: `master-${Date.now()}-${documentId}`,
+              shipId: 'master',
+              timestamp: new Date().toISOString(),
+              operation,
+              contentType: uid,
+              contentId: documentId,
+              version: 0,
+              data: safeData,
+              locale, // Include locale for i18n support
+              clock,
+              sequence,
+              documentStatus,
+            });
+            outgoing.push({ message, snapshotKey });
+          } else {
+            // Kafka offline - queue for later (ships apply the operations of a bulk one by one anyway)
+            await masterSyncQueue.enqueue({
+              contentType: uid,
+              contentId: documentId,
+              operation,
+              data: safeData,
+              locale,
+              clock,
+              sequence,
+              documentStatus,
+            });
+            strapi.log.info(`[Sync] 📥 Queued ${operation} for ${uid} (${documentId})${locale ? ` [${locale}]` : ''} (Kafka offline)`);
+          }
+        } catch (error: any) {
+          // Non-critical, don't fail the operation
+          strapi.log.debug(`[Sync] Failed to publish/queue to ships: ${error.message}`);
+        }
+      }
+
+      if (bulkId && outgoing.length > 1) {
+        const bulkMessage = {
+          messageId: `master-bulk-${Date.now()}-${bulkId}`,
+          shipId: 'master',
+          timestamp: new Date().toISOString(),
+          operation: 'bulk' as const,
+          bulkId,
+          operations: outgoing.map((item) => item.message),
+          // Ships advance their watermark past the whole bulk
+          sequence: outgoing[outgoing.length - 1].message.sequence,
+        };
+        if (await syncProducer.sendToShips(bulkMessage) === false) {
+          for (const item of outgoing) {
+            await deltaSync.forget(item.snapshotKey);
+          }
+        }
+        strapi.log.info(`[Sync] 📤 Published bulk ${bulkId} (${outgoing.length} operations) to ships`);
+      } else {
+        for (const { message, snapshotKey } of outgoing) {
+          if (await syncProducer.sendToShips(message) === false) {
+            await deltaSync.forget(snapshotKey);
+          }
+          strapi.log.info(`[Sync] 📤 Published ${message.operation} for ${message.contentType} (${message.contentId})${message.locale ? ` [${message.locale}]` : ''} to ships`);
+        }
+      }
+    }
+  };
+
+  const bulkSync = strapi.plugin('offline-sync').service('bulk-sync');
+  bulkSync.onFlush(syncChanges);
+
   // Register Document Service middleware for Strapi 5
   strapi.documents.use(async (context: SyncContext, next: () => Promise<any>) => {
     const { action, uid } = context;
@@ -654,8 +987,8 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       // Only track specific actions
-      const trackedActions = ['create', 'update', 'delete', 'publish'];
-      if (!trackedActions.includes(action)) {
+      const operation = SYNC_OPERATIONS[action];
+      if (!operation) {
         return result;
       }
 
@@ -686,9 +1019,9 @@ export default ({ strapi }: { strapi: any }) => {
         return result;
       }
 
-      // Skip bulk operations (when result is an array or has count property)
-      // But NOT for delete - delete with valid documentId should proceed
-      if (action !== 'delete') {
+      // Skip array and count results of create/update - they don't describe a single document
+      // Delete and publish-state actions return { documentId, entries } and are expanded below
+      if (action !== 'delete' && !PUBLISH_STATE_ACTIONS.includes(action)) {
         if (Array.isArray(result)) {
           strapi.log.debug(`[Sync] Skipping array result for ${uid}`);
           return result;
@@ -699,122 +1032,42 @@ export default ({ strapi }: { strapi: any }) => {
         }
       }
 
-      // Map action to operation
-      let operation: 'create' | 'update' | 'delete' = 'update';
-      if (action === 'create') operation = 'create';
-      if (action === 'delete') operation = 'delete';
-
-      // Capture locale for i18n support (use pre-captured paramsLocale or from result)
-      const locale = paramsLocale || (result as any)?.locale || null;
-
-      // For publish action, fetch full document data if result is incomplete
-      let syncData = result;
-      if (action === 'publish' && (!result || Object.keys(result).length < 3)) {
-        try {
-          syncData = await strapi.documents(uid).findOne({ documentId });
-        } catch {
-          // If fetch fails, use original result
-        }
+      // Skip changes that originated from the other side (prevents sync loop)
+      // When master processes ship updates, it shouldn't broadcast them back
+      const syncContext = strapi.plugin('offline-sync').service('sync-context');
+      if (pluginConfig.mode === 'replica' && syncContext.isFromMaster()) {
+        strapi.log.debug(`[Sync] Skipping queue for ${uid} (${documentId}) - originated from master`);
+        return result;
       }
-
-      if (pluginConfig.mode === 'replica') {
-        // REPLICA MODE: Queue changes to push to master
-
-        // Skip if this change originated from master (prevents sync loop)
-        if ((strapi as any)._offlineSyncFromMaster) {
-          strapi.log.debug(`[Sync] Skipping queue for ${uid} (${documentId}) - originated from master`);
-          return result;
-        }
-
-        try {
-          const versionManager = strapi.plugin('offline-sync').service('version-manager');
-          const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
-
-          // Increment version (skip for delete)
-          const version = operation !== 'delete'
-            ? await versionManager.incrementVersion(uid, documentId, pluginConfig.shipId)
-            : 0;
-
-          // Strip sensitive data before queuing
-          const safeData = operation !== 'delete' ? stripSensitiveData(syncData) : null;
-
-          await syncQueue.enqueue({
-            shipId: pluginConfig.shipId!,
-            contentType: uid,
-            contentId: documentId,
-            operation,
-            localVersion: version,
-            data: safeData,
-            locale, // Include locale for i18n support
-          });
-
-          strapi.log.info(`[Sync] ✅ Queued ${operation} for ${uid} (${documentId})${locale ? ` [${locale}]` : ''}`);
-
-          // Trigger instant push (debounced)
-          if ((strapi as any).offlineSyncPush) {
-            (strapi as any).offlineSyncPush();
-          }
-        } catch (error: any) {
-          strapi.log.error(`[Sync] Queue error for ${action} ${uid}: ${error.message}`);
-        }
-      } else if (pluginConfig.mode === 'master') {
-        // MASTER MODE: Publish changes to ships via Kafka
-
-        // Skip if this change originated from a ship (prevents sync loop)
-        // When master processes ship updates, it shouldn't broadcast them back
-        if ((strapi as any)._offlineSyncFromShip) {
-          strapi.log.debug(`[Sync] Skipping broadcast for ${uid} (${documentId}) - originated from ship`);
-          return result;
-        }
-
-        try {
-          const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-          const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
-
-          const safeData = operation !== 'delete' ? stripSensitiveData(syncData) : null;
-
-          // Log this edit as coming from Master admin (for conflict detection)
-          // This helps distinguish Master direct edits from Ship syncs
-          await masterSyncQueue.logEdit({
-            contentType: uid,
-            documentId,
-            operation,
-            editedBy: 'master-admin',
-            locale,
-          });
-
-          // Try to publish directly if Kafka is connected
-          if (kafkaProducer.isConnected()) {
-            const message = {
-              messageId: `master-${Date.now()}-${documentId}`,
-              shipId: 'master',
-              timestamp: new Date().toISOString(),
-              operation,
-              contentType: uid,
-              contentId: documentId,
-              version: 0,
-              data: safeData,
-              locale, // Include locale for i18n support
-            };
-
-            await kafkaProducer.sendToShips(message);
-            strapi.log.info(`[Sync] 📤 Published ${operation} for ${uid} (${documentId})${locale ? ` [${locale}]` : ''} to ships`);
-          } else {
-            // Kafka offline - queue for later
-            await masterSyncQueue.enqueue({
-              contentType: uid,
-              contentId: documentId,
-              operation,
-              data: safeData,
-              locale,
-            });
-            strapi.log.info(`[Sync] 📥 Queued ${operation} for ${uid} (${documentId})${locale ? ` [${locale}]` : ''} (Kafka offline)`);
-          }
-        } catch (error: any) {
-          // Non-critical, don't fail the operation
-          strapi.log.debug(`[Sync] Failed to publish/queue to ships: ${error.message}`);
-        }
+      if (pluginConfig.mode === 'master' && syncContext.isFromShip()) {
+        strapi.log.debug(`[Sync] Skipping broadcast for ${uid} (${documentId}) - originated from ship`);
+        return result;
       }
+
+      // Capture locale for i18n support (use pre-captured paramsLocale or from result)
+      // Delete and publish-state actions with locale '*' touch one entry per locale
+      const entryLocales: string[] = Array.isArray(result?.entries)
+        ? [...new Set<string>(result.entries.map((entry: any) => entry?.locale).filter(Boolean))]
+        : [];
+      const locales: Array<string | null> = entryLocales.length > 0
+        ? entryLocales
+        : [paramsLocale || (result as any)?.locale || null];
+
+      // Creates and updates of draft & publish types only touch the draft, unless saved with status 'published'
+      const documentStatus = (operation === 'create' || operation === 'update')
+        ? (strapi.contentTypes[uid]?.options?.draftAndPublish && context.params?.status !== 'published' ? 'draft' : 'published')
+        : null;
+
+      // Inside a transaction (content-manager bulk actions, bulkSync.run) the changes
+      // are synced as one bulk after commit; several locales of one action form a bulk too
+      await bulkSync.submit(locales.map((locale) => ({
+        uid,
+        documentId: documentId!,
+        operation,
+        locale,
+        documentStatus,
+        data: result,
+      })));
     } catch (syncError: any) {
       // Our sync logic failed - log but NEVER block the original operation
       strapi.log.debug(`[Sync] Sync processing error (non-blocking): ${syncError.message}`);
@@ -825,4 +1078,3 @@ export default ({ strapi }: { strapi: any }) => {
 
   strapi.log.info('[Sync] Document Service middleware registered');
 };
-
@@ -1,5 +1,32 @@
 import schema from './schema';
 
+const KAFKA_COMPRESSIONS = ['none', 'gzip', 'lz4', 'zstd'];
+
+const TRANSPORTS = ['kafka', 'http'];
+
+const CONFLICT_POLICIES = ['manual', 'master-wins', 'ship-wins', 'last-writer-wins', 'field-merge'];
+
+// "api::headers.headers=master-wins,api::package.package=manual" -> { uid: policy }
+const parseConflictPolicies = (value?: string): Record<string, string> =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim().split('='))
+    .filter(([uid, policy]) => uid && policy)
+    .reduce((policies: Record<string, string>, [uid, policy]) => {
+      policies[uid.trim()] = policy.trim();
+      return policies;
+    }, {});
+
+// SYNC_ROUTING_RULES: '{"ship-001":{"contentTypes":["api::page.page"],"locales":["en"],"siteSettings":["MBA"]}}'
+const parseRoutingRules = (value?: string): Record<string, any> => {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error('SYNC_ROUTING_RULES must be a JSON object of ship scopes');
+  }
+};
+
 export default {
   default: {
     enabled: true,
@@ -17,14 +44,61 @@ export default {
         shipUpdates: process.env.KAFKA_TOPIC_SHIP_UPDATES || 'ship-updates',
         masterUpdates: process.env.KAFKA_TOPIC_MASTER_UPDATES || 'master-updates',
       },
+      compression: process.env.KAFKA_COMPRESSION || 'gzip',
+    },
+    transport: {
+      type: process.env.SYNC_TRANSPORT || 'kafka',
+      http: {
+        enabled: process.env.SYNC_HTTP_TRANSPORT_ENABLED === 'true',
+        masterUrl: process.env.SYNC_HTTP_MASTER_URL || null,
+        apiToken: process.env.SYNC_HTTP_API_TOKEN || null,
+        pollTimeout: parseInt(process.env.SYNC_HTTP_POLL_TIMEOUT || '25000'),
+        retryDelay: parseInt(process.env.SYNC_HTTP_RETRY_DELAY || '5000'),
+        batchSize: parseInt(process.env.SYNC_HTTP_BATCH_SIZE || '100'),
+      },
     },
     sync: {
       batchSize: parseInt(process.env.SYNC_BATCH_SIZE || '100'),
+      pushBatchSize: parseInt(process.env.SYNC_PUSH_BATCH_SIZE || '50'),
+      deltas: process.env.SYNC_DELTAS_ENABLED !== 'false',
+      relationRetryInterval: parseInt(process.env.SYNC_RELATION_RETRY_INTERVAL || '60000'),
+      relationRetryAttempts: parseInt(process.env.SYNC_RELATION_RETRY_ATTEMPTS || '30'),
       retryAttempts: parseInt(process.env.SYNC_RETRY_ATTEMPTS || '3'),
       retryDelay: parseInt(process.env.SYNC_RETRY_DELAY || '5000'),
       connectivityCheckInterval: parseInt(process.env.SYNC_CONNECTIVITY_CHECK_INTERVAL || '30000'),
     },
     contentTypes: process.env.SYNC_CONTENT_TYPES?.split(',').filter(Boolean) || [],
+    conflicts: {
+      defaultPolicy: process.env.SYNC_CONFLICT_POLICY || 'field-merge',
+      policies: parseConflictPolicies(process.env.SYNC_CONFLICT_POLICIES),
+    },
+    routing: {
+      enabled: process.env.SYNC_ROUTING_ENABLED === 'true',
+      ships: parseRoutingRules(process.env.SYNC_ROUTING_RULES),
+    },
+    bundles: {
+      secret: process.env.SYNC_BUNDLE_SECRET || null,
+    },
+    security: {
+      privateKey: process.env.SYNC_SIGNING_PRIVATE_KEY || null,
+      privateKeyFile: process.env.SYNC_SIGNING_PRIVATE_KEY_FILE || null,
+      masterPublicKey: process.env.SYNC_MASTER_PUBLIC_KEY || null,
+      masterPublicKeyFile: process.env.SYNC_MASTER_PUBLIC_KEY_FILE || null,
+      requireSignatures: process.env.SYNC_REQUIRE_SIGNATURES === 'true',
+      probeToken: process.env.SYNC_PROBE_TOKEN || null,
+    },
+    fleet: {
+      lagWarningMinutes: parseInt(process.env.SYNC_FLEET_LAG_WARNING_MINUTES || '60'),
+      lagCriticalMinutes: parseInt(process.env.SYNC_FLEET_LAG_CRITICAL_MINUTES || '360'),
+      queueWarningSize: parseInt(process.env.SYNC_FLEET_QUEUE_WARNING_SIZE || '500'),
+    },
+    deadLetter: {
+      retryEnabled: process.env.DEAD_LETTER_RETRY_ENABLED !== 'false',
+      retryInterval: parseInt(process.env.DEAD_LETTER_RETRY_INTERVAL || '60000'),
+      retryBaseDelay: parseInt(process.env.DEAD_LETTER_RETRY_BASE_DELAY || '30000'),
+      retryMaxDelay: parseInt(process.env.DEAD_LETTER_RETRY_MAX_DELAY || '3600000'),
+      retryBatchSize: parseInt(process.env.DEAD_LETTER_RETRY_BATCH_SIZE || '20'),
+    },
   },
   validator: (config: any) => {
     if (config.mode && !['master', 'replica'].includes(config.mode)) {
@@ -33,6 +107,40 @@ export default {
     if (config.mode === 'replica' && !config.shipId) {
       throw new Error('shipId is required when mode is "replica"');
     }
+    if (config.kafka?.compression && !KAFKA_COMPRESSIONS.includes(config.kafka.compression)) {
+      throw new Error(`kafka.compression must be one of ${KAFKA_COMPRESSIONS.join(', ')} (got "${config.kafka.compression}")`);
+    }
+    if (config.transport?.type && !TRANSPORTS.includes(config.transport.type)) {
+      throw new Error(`transport.type must be one of ${TRANSPORTS.join(', ')} (got "${config.transport.type}")`);
+    }
+    if (config.mode === 'replica' && config.transport?.type === 'http' && !config.transport.http?.masterUrl) {
+      throw new Error('transport.http.masterUrl is required when a replica uses the http transport');
+    }
+    const conflictPolicies = [
+      config.conflicts?.defaultPolicy,
+      ...Object.values(config.conflicts?.policies || {}),
+    ].filter(Boolean);
+    for (const policy of conflictPolicies) {
+      if (!CONFLICT_POLICIES.includes(policy)) {
+        throw new Error(`conflict policy must be one of ${CONFLICT_POLICIES.join(', ')} (got "${policy}")`);
+      }
+    }
+    const fleet = config.fleet || {};
+    for (const key of ['lagWarningMinutes', 'lagCriticalMinutes', 'queueWarningSize']) {
+      if (fleet[key] !== undefined && !(Number.isInteger(fleet[key]) && fleet[key] > 0)) {
+        throw new Error(`fleet.${key} must be a positive integer`);
+      }
+    }
+    if (fleet.lagWarningMinutes && fleet.lagCriticalMinutes && fleet.lagCriticalMinutes < fleet.lagWarningMinutes) {
+      throw new Error('fleet.lagCriticalMinutes must not be lower than fleet.lagWarningMinutes');
+    }
+    for (const [shipId, scope] of Object.entries<any>(config.routing?.ships || {})) {
+      for (const key of ['contentTypes', 'locales', 'siteSettings']) {
+        if (scope?.[key] !== undefined && !Array.isArray(scope[key])) {
+          throw new Error(`routing.ships.${shipId}.${key} must be an array of strings`);
+        }
+      }
+    }
   },
   schema,
 };
@@ -37,22 +37,223 @@ export default {
             masterUpdates: { type: 'string' },
           },
         },
+        compression: {
+          type: 'string',
+          enum: ['none', 'gzip', 'lz4', 'zstd'],
+          default: 'gzip',
+          description: 'Compression codec for produced batches (lz4 needs kafkajs-lz4, zstd needs @kafkajs/zstd)',
+        },
       },
     },
     sync: {
       type: 'object',
       properties: {
         batchSize: { type: 'integer', default: 100 },
+        pushBatchSize: { type: 'integer', default: 50 },
+        deltas: { type: 'boolean', default: true },
+        relationRetryInterval: { type: 'integer', default: 60000 },
+        relationRetryAttempts: { type: 'integer', default: 30 },
         retryAttempts: { type: 'integer', default: 3 },
         retryDelay: { type: 'integer', default: 5000 },
         connectivityCheckInterval: { type: 'integer', default: 30000 },
       },
     },
+    // How sync messages travel between master and ships
+    transport: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['kafka', 'http'],
+          default: 'kafka',
+          description: 'kafka: Kafka topics; http: ships post to and long-poll master\'s REST API',
+        },
+        http: {
+          type: 'object',
+          properties: {
+            enabled: {
+              type: 'boolean',
+              default: false,
+              description: 'Master: also serve HTTP ships next to Kafka (mixed fleets)',
+            },
+            masterUrl: {
+              type: ['string', 'null'],
+              default: null,
+              description: 'Replica: master base URL, e.g. https://cms.example.com',
+            },
+            apiToken: {
+              type: ['string', 'null'],
+              default: null,
+              description: 'Replica: API token sent to master',
+            },
+            pollTimeout: {
+              type: 'integer',
+              default: 25000,
+              description: 'How long master holds a poll open when there are no messages (ms, max 60000)',
+            },
+            retryDelay: {
+              type: 'integer',
+              default: 5000,
+              description: 'Replica: wait after a failed poll before polling again (ms)',
+            },
+            batchSize: {
+              type: 'integer',
+              default: 100,
+              description: 'Maximum messages per poll (max 500)',
+            },
+          },
+        },
+      },
+    },
     contentTypes: {
       type: 'array',
       items: { type: 'string' },
       default: [],
     },
+    // Conflict handling per content type (master and replica)
+    conflicts: {
+      type: 'object',
+      properties: {
+        defaultPolicy: {
+          type: 'string',
+          enum: ['manual', 'master-wins', 'ship-wins', 'last-writer-wins', 'field-merge'],
+          default: 'field-merge',
+          description: 'Policy for content types without an explicit entry in policies',
+        },
+        policies: {
+          type: 'object',
+          additionalProperties: {
+            type: 'string',
+            enum: ['manual', 'master-wins', 'ship-wins', 'last-writer-wins', 'field-merge'],
+          },
+          default: {},
+          description: 'Policy per content type uid, e.g. { "api::headers.headers": "master-wins" }',
+        },
+      },
+    },
+    // Per-ship content scope (master publishes, replicas consume per-ship topics)
+    routing: {
+      type: 'object',
+      properties: {
+        enabled: {
+          type: 'boolean',
+          default: false,
+          description: 'Publish master changes to one topic per ship (<masterUpdates>.<shipId>), filtered by scope',
+        },
+        ships: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              contentTypes: { type: 'array', items: { type: 'string' } },
+              locales: { type: 'array', items: { type: 'string' } },
+              siteSettings: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          default: {},
+          description: 'Scope per ship id, e.g. { "ship-001": { "locales": ["en"], "siteSettings": ["MBA"] } }',
+        },
+      },
+    },
+    // Store-and-forward sync bundles (air-gapped ships)
+    bundles: {
+      type: 'object',
+      properties: {
+        secret: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Shared secret ship bundles are signed with (HMAC-SHA256), same on master and ships',
+        },
+      },
+    },
+    // Message signing and probe access
+    security: {
+      type: 'object',
+      properties: {
+        privateKey: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Ed25519 private key (PEM, \\n escaped): replicas sign every message with it, master signs its bundles',
+        },
+        privateKeyFile: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Path of the private key file (instead of privateKey)',
+        },
+        masterPublicKey: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Replica: master\'s Ed25519 public key (PEM, \\n escaped) master bundles are verified with',
+        },
+        masterPublicKeyFile: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Replica: path of master\'s public key file (instead of masterPublicKey)',
+        },
+        requireSignatures: {
+          type: 'boolean',
+          default: false,
+          description: 'Master: reject unsigned messages and ships without a registered public key',
+        },
+        probeToken: {
+          type: ['string', 'null'],
+          default: null,
+          description: 'Token required by /health/ready, /health and /metrics (Bearer or X-Probe-Token)',
+        },
+      },
+    },
+    // Fleet dashboard alerts (master only)
+    fleet: {
+      type: 'object',
+      properties: {
+        lagWarningMinutes: {
+          type: 'integer',
+          default: 60,
+          description: 'Warn when a ship\'s oldest unsynced change is older than this',
+        },
+        lagCriticalMinutes: {
+          type: 'integer',
+          default: 360,
+          description: 'Critical lag; also warns about ships silent for this long',
+        },
+        queueWarningSize: {
+          type: 'integer',
+          default: 500,
+          description: 'Warn when a ship reports at least this many changes waiting',
+        },
+      },
+    },
+    // Dead letter retry worker (master only)
+    deadLetter: {
+      type: 'object',
+      properties: {
+        retryEnabled: {
+          type: 'boolean',
+          default: true,
+          description: 'Replay pending dead letters in the background',
+        },
+        retryInterval: {
+          type: 'integer',
+          default: 60000,
+          description: 'How often the retry worker runs in milliseconds (default: 1 minute)',
+        },
+        retryBaseDelay: {
+          type: 'integer',
+          default: 30000,
+          description: 'Initial backoff delay, doubled after each attempt (default: 30 seconds)',
+        },
+        retryMaxDelay: {
+          type: 'integer',
+          default: 3600000,
+          description: 'Maximum backoff delay in milliseconds (default: 1 hour)',
+        },
+        retryBatchSize: {
+          type: 'integer',
+          default: 20,
+          description: 'Maximum dead letters replayed per run',
+        },
+      },
+    },
     // Media sync configuration (OSS to MinIO)
     media: {
       type: 'object',
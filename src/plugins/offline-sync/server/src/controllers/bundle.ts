@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+/**
+ * Sync bundle endpoints (store-and-forward for air-gapped ships)
+ */
+export default {
+  /**
+   * Import an uploaded bundle (multipart field "bundle")
+   * Master applies ship bundles, a replica applies master bundles for itself
+   */
+  async import(ctx: any) {
+    try {
+      const upload = ctx.request.files?.bundle;
+      const file = Array.isArray(upload) ? upload[0] : upload;
+      if (!file) {
+        ctx.status = 400;
+        ctx.body = { error: 'bundle file is required (multipart field "bundle")' };
+        return;
+      }
+
+      const bundleService = strapi.plugin('offline-sync').service('bundle');
+      let contents;
+      try {
+        contents = bundleService.read(await fs.readFile(file.filepath || file.path));
+      } catch (error: any) {
+        ctx.status = 400;
+        ctx.body = { error: error.message };
+        return;
+      }
+
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      const expected = pluginConfig.mode === 'master' ? 'ship-to-master' : 'master-to-ship';
+      if (contents.direction !== expected || (pluginConfig.mode !== 'master' && contents.shipId !== pluginConfig.shipId)) {
+        ctx.status = 400;
+        ctx.body = { error: `Bundle for ${contents.shipId} (${contents.direction}) can't be imported here` };
+        return;
+      }
+
+      ctx.body = pluginConfig.mode === 'master'
+        ? await bundleService.importShipBundle(contents)
+        : await bundleService.importMasterBundle(contents);
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  /**
+   * Download master's changes for a ship as a bundle file (master)
+   * ?since=<sequence> overrides the watermark from the ship's last bundle. One part per
+   * request: while X-Bundle-Complete is false, download the rest with ?since=<X-Bundle-Next>
+   */
+  async exportShip(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Ship bundles are only available in master mode' };
+        return;
+      }
+
+      const { shipId } = ctx.params;
+      const since = ctx.query?.since !== undefined ? Number(ctx.query.since) : undefined;
+      if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+        ctx.status = 400;
+        ctx.body = { error: 'since must be a change log sequence number' };
+        return;
+      }
+
+      let bundle: Buffer | null = null;
+      const result = await strapi.plugin('offline-sync').service('bundle').exportMasterBundle(
+        shipId,
+        async (part: Buffer) => {
+          bundle = part;
+        },
+        { since, maxParts: 1 }
+      );
+
+      ctx.set('X-Bundle-Messages', String(result.messages));
+      ctx.set('X-Bundle-Sequence', `${result.fromSequence}..${result.toSequence}`);
+      ctx.set('X-Bundle-Complete', String(result.complete));
+      ctx.set('X-Bundle-Next', String(result.toSequence));
+      ctx.attachment(`master-to-${shipId}-${result.toSequence}.bundle`);
+      ctx.type = 'application/gzip';
+      ctx.body = bundle;
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
@@ -0,0 +1,79 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+export default {
+  async list(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Change log is only available in master mode' };
+        return;
+      }
+
+      const changeLog = strapi.plugin('offline-sync').service('change-log');
+      const { since, contentType, documentId, limit } = ctx.query || {};
+
+      const [entries, latestSequence] = await Promise.all([
+        changeLog.list({
+          since: since ? Number(since) : 0,
+          contentType,
+          documentId,
+          limit: limit ? Math.min(Number(limit), 500) : 100,
+        }),
+        changeLog.getLatestSequence(),
+      ]);
+
+      ctx.body = { entries, latestSequence };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async replay(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Change log replay is only available in master mode' };
+        return;
+      }
+
+      const { fromSequence, toSequence, shipId } = ctx.request.body || {};
+      const from = Number(fromSequence);
+      const to = toSequence !== undefined && toSequence !== null ? Number(toSequence) : undefined;
+
+      if (fromSequence === undefined || fromSequence === null || !Number.isInteger(from) || from < 0) {
+        ctx.status = 400;
+        ctx.body = { error: 'fromSequence must be a non-negative integer' };
+        return;
+      }
+      if (to !== undefined && (!Number.isInteger(to) || to < from)) {
+        ctx.status = 400;
+        ctx.body = { error: 'toSequence must be an integer not lower than fromSequence' };
+        return;
+      }
+
+      if (shipId) {
+        const shipTracker = strapi.plugin('offline-sync').service('ship-tracker');
+        const ship = await shipTracker.getShip(shipId);
+        if (!ship) {
+          ctx.status = 404;
+          ctx.body = { error: `Ship ${shipId} not found` };
+          return;
+        }
+      }
+
+      const changeLog = strapi.plugin('offline-sync').service('change-log');
+      const result = await changeLog.replay({ fromSequence: from, toSequence: to, shipId });
+
+      ctx.body = {
+        success: true,
+        shipId: shipId || null,
+        ...result,
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
@@ -1,6 +1,9 @@
 // Strapi is available globally in controllers
 declare const strapi: any;
 
+// Longest resolution note kept in conflict_logs and sent to the ship
+const MAX_NOTE_LENGTH = 2000;
+
 export default {
   async list(ctx: any) {
     try {
@@ -30,14 +33,33 @@ export default {
   },
 
   async resolve(ctx: any) {
+    const { strategy, data, fields, note } = ctx.request.body || {};
+
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      ctx.status = 400;
+      ctx.body = { error: 'note must be a string' };
+      return;
+    }
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      ctx.status = 400;
+      ctx.body = { error: `note must be at most ${MAX_NOTE_LENGTH} characters` };
+      return;
+    }
+
     try {
       const conflictResolver = strapi.plugin('offline-sync').service('conflict-resolver');
-      const { strategy, data } = ctx.request.body;
-      
+      // The admin user signed in to the admin panel (admin route)
+      const user = ctx.state.user;
+
       const result = await conflictResolver.resolveConflict(
         ctx.params.id,
         strategy,
-        data
+        data,
+        fields,
+        {
+          resolvedBy: user ? `admin:${user.email}` : undefined,
+          note: note?.trim() || null,
+        }
       );
       
       ctx.body = {
@@ -0,0 +1,191 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+const MAX_BULK_RETRY = 100;
+
+export default {
+  async list(ctx: any) {
+    try {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const { shipId, contentType, status } = ctx.query || {};
+
+      const [deadLetters, stats] = await Promise.all([
+        deadLetter.getAll({ shipId, contentType, status }),
+        deadLetter.getStats(),
+      ]);
+
+      ctx.body = { deadLetters, stats };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async get(ctx: any) {
+    try {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const entry = await deadLetter.get(Number(ctx.params.id));
+
+      if (!entry) {
+        ctx.status = 404;
+        ctx.body = { error: 'Dead letter not found' };
+        return;
+      }
+
+      ctx.body = { deadLetter: entry };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async retry(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Dead letter retry is only available in master mode' };
+        return;
+      }
+
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const deadLetterRetry = strapi.plugin('offline-sync').service('dead-letter-retry');
+      const id = Number(ctx.params.id);
+
+      const entry = await deadLetter.get(id);
+      if (!entry) {
+        ctx.status = 404;
+        ctx.body = { error: 'Dead letter not found' };
+        return;
+      }
+      if (entry.status === 'resolved') {
+        ctx.status = 400;
+        ctx.body = { error: 'Dead letter is already resolved' };
+        return;
+      }
+
+      const result = await deadLetterRetry.retry(id);
+      ctx.body = {
+        ...result,
+        deadLetter: await deadLetter.get(id),
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async bulkRetry(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Dead letter retry is only available in master mode' };
+        return;
+      }
+
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const deadLetterRetry = strapi.plugin('offline-sync').service('dead-letter-retry');
+      const { ids, shipId, contentType, status } = ctx.request.body || {};
+
+      // Explicit ids take precedence; otherwise retry everything matching the filters
+      let targetIds: number[];
+      if (Array.isArray(ids) && ids.length > 0) {
+        targetIds = ids.map(Number);
+      } else {
+        const entries = await deadLetter.getAll({ shipId, contentType, status });
+        targetIds = entries
+          .filter((entry: any) => entry.status !== 'resolved')
+          .map((entry: any) => entry.id);
+      }
+
+      if (targetIds.length > MAX_BULK_RETRY) {
+        ctx.status = 400;
+        ctx.body = { error: `Too many dead letters selected (max ${MAX_BULK_RETRY})` };
+        return;
+      }
+
+      const results: Array<{ id: number; success: boolean; status: string; error?: string }> = [];
+      for (const id of targetIds) {
+        const entry = await deadLetter.get(id);
+        if (!entry || entry.status === 'resolved') {
+          results.push({ id, success: false, status: entry ? entry.status : 'unknown', error: entry ? 'Already resolved' : 'Dead letter not found' });
+          continue;
+        }
+        results.push({ id, ...(await deadLetterRetry.retry(id)) });
+      }
+
+      ctx.body = {
+        success: true,
+        retried: results.length,
+        succeeded: results.filter((r) => r.success).length,
+        failed: results.filter((r) => !r.success).length,
+        results,
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async resolve(ctx: any) {
+    try {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const id = Number(ctx.params.id);
+      const { resolvedBy } = ctx.request.body || {};
+
+      const entry = await deadLetter.get(id);
+      if (!entry) {
+        ctx.status = 404;
+        ctx.body = { error: 'Dead letter not found' };
+        return;
+      }
+
+      const updated = await deadLetter.markResolved(id, resolvedBy || 'admin');
+      ctx.body = { success: !!updated, deadLetter: updated };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async updatePayload(ctx: any) {
+    try {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const id = Number(ctx.params.id);
+      const { payload } = ctx.request.body || {};
+
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        ctx.status = 400;
+        ctx.body = { error: 'payload must be a JSON object' };
+        return;
+      }
+
+      const entry = await deadLetter.get(id);
+      if (!entry) {
+        ctx.status = 404;
+        ctx.body = { error: 'Dead letter not found' };
+        return;
+      }
+
+      const updated = await deadLetter.updatePayload(id, payload);
+      ctx.body = { success: !!updated, deadLetter: updated };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async delete(ctx: any) {
+    try {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const id = Number(ctx.params.id);
+
+      const entry = await deadLetter.get(id);
+      if (!entry) {
+        ctx.status = 404;
+        ctx.body = { error: 'Dead letter not found' };
+        return;
+      }
+
+      const deleted = await deadLetter.delete(id);
+      ctx.body = { success: deleted };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
@@ -0,0 +1,79 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+// Documents per status request (largest content manager page size)
+const MAX_DOCUMENT_IDS = 100;
+
+export default {
+  /**
+   * GET /offline-sync/documents/:contentType/status?documentIds=a,b,c
+   * Sync status of the listed documents, keyed by documentId
+   */
+  async list(ctx: any) {
+    const { contentType } = ctx.params;
+    const documentIds = String(ctx.query?.documentIds || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (!strapi.contentTypes[contentType]) {
+      ctx.status = 400;
+      ctx.body = { error: `Unknown content type: ${contentType}` };
+      return;
+    }
+    if (documentIds.length > MAX_DOCUMENT_IDS) {
+      ctx.status = 400;
+      ctx.body = { error: `At most ${MAX_DOCUMENT_IDS} documentIds per request` };
+      return;
+    }
+
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      const documentStatus = strapi.plugin('offline-sync').service('document-status');
+      const statuses = await documentStatus.getStatuses(contentType, [...new Set(documentIds)]);
+
+      ctx.body = { mode: pluginConfig.mode, statuses };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  /**
+   * POST /offline-sync/documents/:contentType/:documentId/push
+   * Push one document's pending (and failed) changes to master now (replica only)
+   */
+  async push(ctx: any) {
+    const { contentType, documentId } = ctx.params;
+    const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+
+    if (pluginConfig.mode !== 'replica') {
+      ctx.status = 400;
+      ctx.body = { error: 'Push is only available in replica mode' };
+      return;
+    }
+    if (!strapi.contentTypes[contentType]) {
+      ctx.status = 400;
+      ctx.body = { error: `Unknown content type: ${contentType}` };
+      return;
+    }
+
+    try {
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+      const documentStatus = strapi.plugin('offline-sync').service('document-status');
+
+      const retried = await syncQueue.retryFailed(pluginConfig.shipId, contentType, documentId);
+      const result = await syncService.push({ contentType, documentId });
+      const statuses = await documentStatus.getStatuses(contentType, [documentId]);
+
+      ctx.body = {
+        success: result.failed === 0,
+        retried,
+        ...result,
+        status: statuses[documentId],
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
@@ -0,0 +1,35 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+export default {
+  /**
+   * GET /offline-sync/events
+   * Server-sent events stream of sync activity for the admin page
+   */
+  async stream(ctx: any) {
+    const eventStream = strapi.plugin('offline-sync').service('event-stream');
+    const connection = eventStream.connect();
+
+    if (!connection) {
+      ctx.status = 503;
+      ctx.body = { error: 'Too many open event streams, try again later' };
+      return;
+    }
+
+    // Long-lived response: no socket timeout, no buffering by compression or proxies
+    ctx.req.socket.setTimeout(0);
+    ctx.req.socket.setNoDelay(true);
+    ctx.req.socket.setKeepAlive(true);
+    ctx.compress = false;
+    ctx.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    ctx.req.on('close', connection.close);
+    ctx.status = 200;
+    ctx.body = connection.stream;
+  },
+};
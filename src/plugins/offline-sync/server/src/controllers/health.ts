@@ -16,7 +16,7 @@ export default ({ strapi }: { strapi: any }) => ({
 
     /**
      * Readiness probe - is the service ready to accept traffic?
-     * Checks database and Kafka connectivity
+     * Checks database and transport connectivity
      */
     async readiness(ctx: any) {
         const checks: Record<string, { status: string; latency?: number; error?: string }> = {};
@@ -38,23 +38,15 @@ export default ({ strapi }: { strapi: any }) => ({
             isReady = false;
         }
 
-        // Check Kafka (mode-dependent)
+        // Check transport (mode-dependent: master receives, replica sends)
         const config = strapi.config.get('plugin::offline-sync', {});
-        const kafkaStart = Date.now();
+        const transportStart = Date.now();
+        const transport = strapi.plugin('offline-sync').service('transport');
 
-        if (config.mode === 'master') {
-            const kafkaConsumer = strapi.plugin('offline-sync').service('kafka-consumer');
-            checks.kafka = {
-                status: kafkaConsumer.isConnected() ? 'healthy' : 'degraded',
-                latency: Date.now() - kafkaStart,
-            };
-        } else if (config.mode === 'replica') {
-            const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-            checks.kafka = {
-                status: kafkaProducer.isConnected() ? 'healthy' : 'degraded',
-                latency: Date.now() - kafkaStart,
-            };
-        }
+        checks.transport = {
+            status: (config.mode === 'master' ? transport.isSubscribed() : transport.isConnected()) ? 'healthy' : 'degraded',
+            latency: Date.now() - transportStart,
+        };
 
         ctx.status = isReady ? 200 : 503;
         ctx.body = {
@@ -86,27 +78,29 @@ export default ({ strapi }: { strapi: any }) => ({
             overallStatus = 'unhealthy';
         }
 
-        // Kafka check
+        // Transport check
         try {
+            const transport = strapi.plugin('offline-sync').service('transport');
             if (config.mode === 'master') {
-                const kafkaConsumer = strapi.plugin('offline-sync').service('kafka-consumer');
-                checks.kafka = {
-                    status: kafkaConsumer.isConnected() ? 'healthy' : 'degraded',
+                checks.transport = {
+                    status: transport.isSubscribed() ? 'healthy' : 'degraded',
+                    type: transport.getType(),
                     role: 'consumer',
                     topics: config.kafka?.topics?.shipUpdates || 'ship-updates',
+                    transports: transport.getStatus(),
                 };
             } else {
-                const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-                checks.kafka = {
-                    status: kafkaProducer.isConnected() ? 'healthy' : 'degraded',
+                checks.transport = {
+                    status: transport.isConnected() ? 'healthy' : 'degraded',
+                    type: transport.getType(),
                     role: 'producer',
                 };
             }
-            if (checks.kafka.status === 'degraded') {
+            if (checks.transport.status === 'degraded') {
                 overallStatus = overallStatus === 'unhealthy' ? 'unhealthy' : 'degraded';
             }
         } catch (error: any) {
-            checks.kafka = { status: 'unknown', error: error.message };
+            checks.transport = { status: 'unknown', error: error.message };
         }
 
         // Message tracker stats
@@ -129,6 +123,13 @@ export default ({ strapi }: { strapi: any }) => ({
                 status: stats.exhausted > 0 ? 'warning' : 'healthy',
                 ...stats,
             };
+            if (config.mode === 'master') {
+                const deadLetterRetry = strapi.plugin('offline-sync').service('dead-letter-retry');
+                checks.deadLetterQueue.retryWorker = {
+                    enabled: deadLetterRetry.isEnabled(),
+                    ...deadLetterRetry.getStats(),
+                };
+            }
             if (stats.exhausted > 0) {
                 overallStatus = overallStatus === 'unhealthy' ? 'unhealthy' : 'degraded';
             }
@@ -198,6 +199,11 @@ export default ({ strapi }: { strapi: any }) => ({
         lines.push(`# TYPE offline_sync_uptime_seconds gauge`);
         lines.push(`offline_sync_uptime_seconds ${Math.floor(process.uptime())}`);
 
+        // Admins connected to the event stream
+        lines.push(`# HELP offline_sync_event_stream_clients Admin pages connected to the event stream`);
+        lines.push(`# TYPE offline_sync_event_stream_clients gauge`);
+        lines.push(`offline_sync_event_stream_clients ${strapi.plugin('offline-sync').service('event-stream').getClientCount()}`);
+
         // Message tracker stats
         try {
             const messageTracker = strapi.plugin('offline-sync').service('message-tracker');
@@ -256,6 +262,17 @@ export default ({ strapi }: { strapi: any }) => ({
                 lines.push(`offline_sync_dead_letter_total{status="retrying"} ${stats.retrying}`);
                 lines.push(`offline_sync_dead_letter_total{status="exhausted"} ${stats.exhausted}`);
                 lines.push(`offline_sync_dead_letter_total{status="resolved"} ${stats.resolved}`);
+
+                const retryStats = strapi.plugin('offline-sync').service('dead-letter-retry').getStats();
+
+                lines.push(`# HELP offline_sync_dead_letter_retries_total Dead letter replay attempts by result`);
+                lines.push(`# TYPE offline_sync_dead_letter_retries_total counter`);
+                lines.push(`offline_sync_dead_letter_retries_total{result="succeeded"} ${retryStats.succeeded}`);
+                lines.push(`offline_sync_dead_letter_retries_total{result="failed"} ${retryStats.failed}`);
+                lines.push(`offline_sync_dead_letter_retries_total{result="exhausted"} ${retryStats.exhausted}`);
+                lines.push(`# HELP offline_sync_dead_letter_retry_attempts_total Total dead letter retry attempts recorded`);
+                lines.push(`# TYPE offline_sync_dead_letter_retry_attempts_total gauge`);
+                lines.push(`offline_sync_dead_letter_retry_attempts_total ${stats.totalRetries}`);
             } catch {
                 // Skip if not available
             }
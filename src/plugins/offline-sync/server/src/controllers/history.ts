@@ -0,0 +1,31 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+export default {
+  /**
+   * GET /offline-sync/history/:contentType/:documentId
+   * Sync timeline of one document (?limit=, max 500)
+   */
+  async get(ctx: any) {
+    const { contentType, documentId } = ctx.params;
+    const limit = ctx.query?.limit ? Number(ctx.query.limit) : 100;
+
+    if (!strapi.contentTypes[contentType]) {
+      ctx.status = 400;
+      ctx.body = { error: `Unknown content type: ${contentType}` };
+      return;
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      ctx.status = 400;
+      ctx.body = { error: 'limit must be a positive integer' };
+      return;
+    }
+
+    try {
+      const syncHistory = strapi.plugin('offline-sync').service('sync-history');
+      ctx.body = await syncHistory.getHistory(contentType, documentId, { limit: Math.min(limit, 500) });
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
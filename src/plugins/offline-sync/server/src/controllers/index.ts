@@ -3,6 +3,15 @@ import conflict from './conflict';
 import health from './health';
 import initialSync from './initial-sync';
 import media from './media';
+import deadLetter from './dead-letter';
+import localConflict from './local-conflict';
+import changeLog from './change-log';
+import routing from './routing';
+import transport from './transport';
+import bundle from './bundle';
+import history from './history';
+import documentStatus from './document-status';
+import events from './events';
 
 export default {
   sync,
@@ -10,5 +19,14 @@ export default {
   health,
   'initial-sync': initialSync,
   media,
+  'dead-letter': deadLetter,
+  'local-conflict': localConflict,
+  'change-log': changeLog,
+  routing,
+  transport,
+  bundle,
+  history,
+  'document-status': documentStatus,
+  events,
 };
 
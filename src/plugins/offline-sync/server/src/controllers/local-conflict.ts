@@ -0,0 +1,127 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+/**
+ * Replica-only guard - returns false (and sets a 400) on master
+ */
+const ensureReplica = (ctx: any): boolean => {
+  const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+  if (pluginConfig.mode !== 'replica') {
+    ctx.status = 400;
+    ctx.body = { error: 'The conflict inbox is only available in replica mode' };
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Load an inbox entry or respond with 404
+ */
+const getInboxEntry = async (ctx: any): Promise<any | null> => {
+  const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+  const entry = await syncQueue.getEntry(Number(ctx.params.id));
+
+  if (!syncQueue.isInboxEntry(entry)) {
+    ctx.status = 404;
+    ctx.body = { error: 'Conflict entry not found' };
+    return null;
+  }
+  return entry;
+};
+
+export default {
+  async list(ctx: any) {
+    try {
+      if (!ensureReplica(ctx)) return;
+
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+
+      const entries = await syncQueue.getInbox(pluginConfig.shipId);
+
+      // Current local copy next to the master copy
+      const conflicts = await Promise.all(entries.map(async (entry: any) => {
+        const { _syncLocale, ...data } = entry.data || {};
+        let localData = null;
+        try {
+          const findOptions: any = { documentId: entry.content_id, populate: '*' };
+          if (_syncLocale) {
+            findOptions.locale = _syncLocale;
+          }
+          const localDoc = await strapi.documents(entry.content_type).findOne(findOptions);
+          localData = localDoc ? syncService.cleanSyncData(localDoc) : null;
+        } catch (e) {
+          // Content type removed or document deleted - show the queued data only
+        }
+        return { ...entry, data, locale: _syncLocale || null, local_data: localData };
+      }));
+
+      ctx.body = { conflicts };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async discard(ctx: any) {
+    try {
+      if (!ensureReplica(ctx)) return;
+      if (!await getInboxEntry(ctx)) return;
+
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+      const result = await syncService.discardLocalChange(Number(ctx.params.id));
+
+      ctx.body = { success: true, ...result };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async resubmit(ctx: any) {
+    try {
+      if (!ensureReplica(ctx)) return;
+      const entry = await getInboxEntry(ctx);
+      if (!entry) return;
+
+      const { data } = ctx.request.body || {};
+      if (data !== undefined && (!data || typeof data !== 'object' || Array.isArray(data))) {
+        ctx.status = 400;
+        ctx.body = { error: 'data must be a JSON object' };
+        return;
+      }
+      if (entry.operation === 'delete') {
+        ctx.status = 400;
+        ctx.body = { error: 'Delete operations cannot be resubmitted' };
+        return;
+      }
+
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+      const result = await syncService.resubmitLocalChange(entry.id, data);
+
+      ctx.body = { success: true, ...result };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async note(ctx: any) {
+    try {
+      if (!ensureReplica(ctx)) return;
+      if (!await getInboxEntry(ctx)) return;
+
+      const { note } = ctx.request.body || {};
+      if (typeof note !== 'string' || note.trim() === '') {
+        ctx.status = 400;
+        ctx.body = { error: 'note must be a non-empty string' };
+        return;
+      }
+
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+      const result = await syncService.sendConflictNote(Number(ctx.params.id), note.trim());
+
+      ctx.body = { success: true, ...result };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
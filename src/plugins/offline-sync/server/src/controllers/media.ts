@@ -5,7 +5,7 @@
 
 export default ({ strapi }: { strapi: any }) => ({
   /**
-   * GET /api/offline-sync/media/stats
+   * GET /offline-sync/media/stats
    * Returns file counts and sync status for OSS and MinIO
    */
   async stats(ctx: any) {
@@ -66,7 +66,7 @@ export default ({ strapi }: { strapi: any }) => ({
   },
 
   /**
-   * POST /api/offline-sync/media/sync
+   * POST /offline-sync/media/sync
    * Trigger manual sync from OSS to MinIO
    */
   async triggerSync(ctx: any) {
@@ -98,7 +98,7 @@ export default ({ strapi }: { strapi: any }) => ({
   },
 
   /**
-   * GET /api/offline-sync/media/health
+   * GET /offline-sync/media/health
    * Quick health check for media sync services
    */
   async health(ctx: any) {
@@ -0,0 +1,52 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+export default {
+  async list(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Ship routing is only available in master mode' };
+        return;
+      }
+
+      const routing = strapi.plugin('offline-sync').service('ship-routing');
+      const shipIds = await routing.getShipIds();
+
+      ctx.body = {
+        enabled: routing.isEnabled(),
+        ships: shipIds.map((shipId: string) => ({
+          shipId,
+          topic: routing.getShipTopic(shipId),
+          scope: routing.getScope(shipId),
+        })),
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async scope(ctx: any) {
+    try {
+      const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+      if (pluginConfig.mode !== 'master') {
+        ctx.status = 400;
+        ctx.body = { error: 'Ship routing is only available in master mode' };
+        return;
+      }
+
+      const { shipId } = ctx.params;
+      const routing = strapi.plugin('offline-sync').service('ship-routing');
+
+      ctx.body = {
+        enabled: routing.isEnabled(),
+        shipId,
+        topic: routing.getShipTopic(shipId),
+        scope: routing.getScope(shipId),
+      };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
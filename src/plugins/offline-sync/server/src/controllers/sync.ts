@@ -112,6 +112,7 @@ export default {
         ship_name: ship.shipName,
         connectivity_status: ship.connectivityStatus,
         last_seen_at: ship.lastSeenAt,
+        has_public_key: !!ship.publicKey,
         created_at: ship.createdAt,
         updated_at: ship.updatedAt,
       }));
@@ -121,5 +122,58 @@ export default {
       ctx.throw(500, error);
     }
   },
+
+  /**
+   * Fleet dashboard: every ship's latest health report, lag history and alerts
+   */
+  async getFleet(ctx: any) {
+    const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+
+    if (pluginConfig.mode !== 'master') {
+      ctx.status = 400;
+      ctx.body = { error: 'The fleet dashboard is only available in master mode' };
+      return;
+    }
+
+    try {
+      ctx.body = await strapi.plugin('offline-sync').service('fleet-health').getFleet();
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  /**
+   * Register (or clear with publicKey: null) the key a ship signs its messages with
+   */
+  async setShipPublicKey(ctx: any) {
+    const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+
+    if (pluginConfig.mode !== 'master') {
+      ctx.status = 400;
+      ctx.body = { error: 'Ship keys are only available in master mode' };
+      return;
+    }
+
+    const { shipId } = ctx.params;
+    const { publicKey } = ctx.request.body || {};
+
+    let normalized: string | null = null;
+    if (publicKey) {
+      try {
+        normalized = strapi.plugin('offline-sync').service('message-signing').normalizePublicKey(publicKey);
+      } catch (error: any) {
+        ctx.status = 400;
+        ctx.body = { error: `Invalid public key: ${error.message}` };
+        return;
+      }
+    }
+
+    try {
+      await strapi.plugin('offline-sync').service('ship-tracker').setPublicKey(shipId, normalized);
+      ctx.body = { success: true, shipId, hasPublicKey: !!normalized };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
 };
 
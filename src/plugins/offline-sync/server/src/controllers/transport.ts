@@ -0,0 +1,106 @@
+// Strapi is available globally in controllers
+declare const strapi: any;
+
+/**
+ * HTTP transport endpoints for ships that don't use Kafka (master)
+ * Answers 400 unless master serves the HTTP transport
+ */
+const getHttpTransport = (ctx: any) => {
+  const pluginConfig = strapi.config.get('plugin::offline-sync', {});
+  if (pluginConfig.mode !== 'master') {
+    ctx.status = 400;
+    ctx.body = { error: 'HTTP transport is only available in master mode' };
+    return null;
+  }
+
+  const httpTransport = strapi.plugin('offline-sync').service('http-transport');
+  if (!strapi.plugin('offline-sync').service('transport').getTransports().includes(httpTransport)) {
+    ctx.status = 400;
+    ctx.body = { error: 'HTTP transport is not enabled on master' };
+    return null;
+  }
+  return httpTransport;
+};
+
+/**
+ * Only the ship named in a poll / ack may read or move its position: the request must be
+ * signed with that ship's registered key (answers 403 otherwise)
+ */
+const verifyShipRequest = async (ctx: any, fields: { action: string; shipId: string } & Record<string, string>): Promise<boolean> => {
+  const result = await strapi.plugin('offline-sync').service('message-signing')
+    .verifyRequest(fields, ctx.get('x-ship-timestamp') || undefined, ctx.get('x-ship-signature') || undefined);
+
+  if (!result.accepted) {
+    strapi.log.warn(`[Signing] 🚫 Rejected transport ${fields.action} from ${fields.shipId}: ${result.reason}`);
+    ctx.status = 403;
+    ctx.body = { error: `Request not verified: ${result.reason}` };
+    return false;
+  }
+  return true;
+};
+
+export default {
+  async receive(ctx: any) {
+    try {
+      const httpTransport = getHttpTransport(ctx);
+      if (!httpTransport) return;
+
+      const { shipId, messages } = ctx.request.body || {};
+      if (!shipId || !Array.isArray(messages)) {
+        ctx.status = 400;
+        ctx.body = { error: 'shipId and messages are required' };
+        return;
+      }
+
+      const handled = await httpTransport.receive(shipId, messages);
+      ctx.body = { received: messages.length, handled };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async poll(ctx: any) {
+    try {
+      const httpTransport = getHttpTransport(ctx);
+      if (!httpTransport) return;
+
+      const { shipId, topic, timeout, limit } = ctx.query || {};
+      if (!shipId || !topic) {
+        ctx.status = 400;
+        ctx.body = { error: 'shipId and topic are required' };
+        return;
+      }
+
+      if (!await verifyShipRequest(ctx, { action: 'poll', shipId: String(shipId), topic: String(topic) })) return;
+
+      const messages = await httpTransport.poll(shipId, topic, {
+        timeout: timeout !== undefined ? Number(timeout) : undefined,
+        limit: limit !== undefined ? Number(limit) : undefined,
+      });
+      ctx.body = { messages };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+
+  async ack(ctx: any) {
+    try {
+      const httpTransport = getHttpTransport(ctx);
+      if (!httpTransport) return;
+
+      const { shipId, topic, position } = ctx.request.body || {};
+      if (!shipId || !topic || !Number.isInteger(Number(position))) {
+        ctx.status = 400;
+        ctx.body = { error: 'shipId, topic and an integer position are required' };
+        return;
+      }
+
+      if (!await verifyShipRequest(ctx, { action: 'ack', shipId: String(shipId), topic: String(topic), position: String(Number(position)) })) return;
+
+      await httpTransport.commit(shipId, topic, Number(position));
+      ctx.body = { success: true };
+    } catch (error: any) {
+      ctx.throw(500, error);
+    }
+  },
+};
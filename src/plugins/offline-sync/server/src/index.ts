@@ -4,6 +4,7 @@ import routes from './routes';
 import controllers from './controllers';
 import services from './services';
 import contentTypes from './content-types';
+import policies from './policies';
 
 export default {
   config,
@@ -12,5 +13,6 @@ export default {
   controllers,
   services,
   contentTypes,
+  policies,
 };
 
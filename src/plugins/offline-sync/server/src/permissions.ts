@@ -0,0 +1,30 @@
+/**
+ * Admin permissions of the plugin (Settings → Roles → Plugins → Offline Sync)
+ * Admin routes check them with admin::hasPermissions (see adminRoute)
+ */
+
+export const ACTIONS = {
+  read: 'plugin::offline-sync.read',
+  sync: 'plugin::offline-sync.sync',
+  resolveConflicts: 'plugin::offline-sync.resolve-conflicts',
+  initialSync: 'plugin::offline-sync.initial-sync',
+  mediaSync: 'plugin::offline-sync.media-sync',
+};
+
+export const PERMISSIONS = [
+  { section: 'plugins', displayName: 'View sync status, queue, ships and conflicts', uid: 'read', pluginName: 'offline-sync' },
+  { section: 'plugins', displayName: 'Push, pull, replay and retry dead letters', uid: 'sync', pluginName: 'offline-sync' },
+  { section: 'plugins', displayName: 'Resolve conflicts', uid: 'resolve-conflicts', pluginName: 'offline-sync' },
+  { section: 'plugins', displayName: 'Run initial sync', uid: 'initial-sync', pluginName: 'offline-sync' },
+  { section: 'plugins', displayName: 'Trigger media sync', uid: 'media-sync', pluginName: 'offline-sync' },
+];
+
+/**
+ * Route config of an admin route guarded by a plugin permission
+ */
+export const adminRoute = (action: string) => ({
+  policies: [
+    'admin::isAuthenticatedAdmin',
+    { name: 'admin::hasPermissions', config: { actions: [action] } },
+  ],
+});
@@ -0,0 +1,5 @@
+import probeToken from './probe-token';
+
+export default {
+  'probe-token': probeToken,
+};
@@ -0,0 +1,21 @@
+/**
+ * Probe Token Policy
+ * Health and metrics routes answer only with security.probeToken, sent as
+ * "Authorization: Bearer <token>" or "X-Probe-Token: <token>" (open when no token is set)
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export default (policyContext: any, _config: any, { strapi }: { strapi: any }): boolean => {
+  const token = strapi.config.get('plugin::offline-sync', {}).security?.probeToken;
+  if (!token) {
+    return true;
+  }
+
+  const headers = policyContext.request?.headers || {};
+  const bearer = /^Bearer\s+(.+)$/i.exec(headers.authorization || '')?.[1];
+  const provided = Buffer.from(String(headers['x-probe-token'] || bearer || ''));
+  const expected = Buffer.from(String(token));
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
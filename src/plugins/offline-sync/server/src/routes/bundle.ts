@@ -0,0 +1,20 @@
+export default [
+  {
+    method: 'POST',
+    path: '/bundles/import',
+    handler: 'bundle.import',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bundles/ship/:shipId',
+    handler: 'bundle.exportShip',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+];
@@ -0,0 +1,16 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/change-log',
+    handler: 'change-log.list',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'POST',
+    path: '/change-log/replay',
+    handler: 'change-log.replay',
+    config: adminRoute(ACTIONS.sync),
+  },
+];
@@ -1,33 +1,23 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
 export default [
   {
     method: 'GET',
     path: '/conflicts',
     handler: 'conflict.list',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'GET',
     path: '/conflicts/:id',
     handler: 'conflict.get',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'POST',
     path: '/conflicts/:id/resolve',
     handler: 'conflict.resolve',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.resolveConflicts),
   },
 ];
 
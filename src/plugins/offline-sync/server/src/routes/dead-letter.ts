@@ -0,0 +1,46 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/dead-letters',
+    handler: 'dead-letter.list',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'POST',
+    path: '/dead-letters/retry',
+    handler: 'dead-letter.bulkRetry',
+    config: adminRoute(ACTIONS.sync),
+  },
+  {
+    method: 'GET',
+    path: '/dead-letters/:id',
+    handler: 'dead-letter.get',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'PUT',
+    path: '/dead-letters/:id',
+    handler: 'dead-letter.updatePayload',
+    config: adminRoute(ACTIONS.sync),
+  },
+  {
+    method: 'POST',
+    path: '/dead-letters/:id/retry',
+    handler: 'dead-letter.retry',
+    config: adminRoute(ACTIONS.sync),
+  },
+  {
+    method: 'POST',
+    path: '/dead-letters/:id/resolve',
+    handler: 'dead-letter.resolve',
+    config: adminRoute(ACTIONS.sync),
+  },
+  {
+    method: 'DELETE',
+    path: '/dead-letters/:id',
+    handler: 'dead-letter.delete',
+    config: adminRoute(ACTIONS.sync),
+  },
+];
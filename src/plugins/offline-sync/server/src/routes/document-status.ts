@@ -0,0 +1,16 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/documents/:contentType/status',
+    handler: 'document-status.list',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'POST',
+    path: '/documents/:contentType/:documentId/push',
+    handler: 'document-status.push',
+    config: adminRoute(ACTIONS.sync),
+  },
+];
@@ -0,0 +1,10 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/events',
+    handler: 'events.stream',
+    config: adminRoute(ACTIONS.read),
+  },
+];
@@ -6,6 +6,8 @@
  * - GET /api/offline-sync/health/ready  - Readiness probe (can accept traffic?)
  * - GET /api/offline-sync/health        - Detailed health status
  * - GET /api/offline-sync/metrics       - Prometheus metrics
+ *
+ * Liveness stays open; the others require security.probeToken when it is set.
  */
 export default {
   type: 'content-api',
@@ -25,7 +27,7 @@ export default {
       handler: 'health.readiness',
       config: {
         auth: false,
-        policies: [],
+        policies: ['plugin::offline-sync.probe-token'],
       },
     },
     {
@@ -34,7 +36,7 @@ export default {
       handler: 'health.health',
       config: {
         auth: false,
-        policies: [],
+        policies: ['plugin::offline-sync.probe-token'],
       },
     },
     {
@@ -43,7 +45,7 @@ export default {
       handler: 'health.metrics',
       config: {
         auth: false,
-        policies: [],
+        policies: ['plugin::offline-sync.probe-token'],
       },
     },
   ],
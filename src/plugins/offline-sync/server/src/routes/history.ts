@@ -0,0 +1,10 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/history/:contentType/:documentId',
+    handler: 'history.get',
+    config: adminRoute(ACTIONS.read),
+  },
+];
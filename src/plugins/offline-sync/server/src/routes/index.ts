@@ -3,15 +3,40 @@ import conflictRoutes from './conflict';
 import healthRoutes from './health';
 import initialSyncRoutes from './initial-sync';
 import mediaRoutes from './media';
+import deadLetterRoutes from './dead-letter';
+import localConflictRoutes from './local-conflict';
+import changeLogRoutes from './change-log';
+import routingRoutes from './routing';
+import transportRoutes from './transport';
+import bundleRoutes from './bundle';
+import historyRoutes from './history';
+import documentStatusRoutes from './document-status';
+import eventsRoutes from './events';
 
 export default {
-  'content-api': {
-    type: 'content-api',
+  // Admin panel (admin JWT + plugin permissions)
+  admin: {
+    type: 'admin',
     routes: [
       ...syncRoutes,
       ...conflictRoutes,
       ...initialSyncRoutes,
       ...mediaRoutes,
+      ...deadLetterRoutes,
+      ...localConflictRoutes,
+      ...changeLogRoutes,
+      ...historyRoutes,
+      ...documentStatusRoutes,
+      ...eventsRoutes,
+    ],
+  },
+  // Master <-> ship traffic (API token)
+  'content-api': {
+    type: 'content-api',
+    routes: [
+      ...routingRoutes,
+      ...transportRoutes,
+      ...bundleRoutes,
     ],
   },
   health: healthRoutes,
@@ -2,24 +2,20 @@
  * Initial Sync Routes
  */
 
+import { ACTIONS, adminRoute } from '../permissions';
+
 export default [
   {
     method: 'GET',
     path: '/initial-sync/status',
     handler: 'initial-sync.status',
-    config: {
-      policies: [],
-      auth: false, // Disable auth for testing - enable in production!
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'POST',
     path: '/initial-sync/pull',
     handler: 'initial-sync.pull',
-    config: {
-      policies: [],
-      auth: false, // Disable auth for testing - enable in production!
-    },
+    config: adminRoute(ACTIONS.initialSync),
   },
 ];
 
@@ -0,0 +1,28 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
+export default [
+  {
+    method: 'GET',
+    path: '/local-conflicts',
+    handler: 'local-conflict.list',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'POST',
+    path: '/local-conflicts/:id/discard',
+    handler: 'local-conflict.discard',
+    config: adminRoute(ACTIONS.resolveConflicts),
+  },
+  {
+    method: 'POST',
+    path: '/local-conflicts/:id/resubmit',
+    handler: 'local-conflict.resubmit',
+    config: adminRoute(ACTIONS.resolveConflicts),
+  },
+  {
+    method: 'POST',
+    path: '/local-conflicts/:id/note',
+    handler: 'local-conflict.note',
+    config: adminRoute(ACTIONS.resolveConflicts),
+  },
+];
@@ -2,32 +2,25 @@
  * Media Sync Routes
  */
 
+import { ACTIONS, adminRoute } from '../permissions';
+
 export default [
   {
     method: 'GET',
     path: '/media/stats',
     handler: 'media.stats',
-    config: {
-      policies: [],
-      auth: false, // Allow without auth for monitoring
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'POST',
     path: '/media/sync',
     handler: 'media.triggerSync',
-    config: {
-      policies: [],
-      auth: false,
-    },
+    config: adminRoute(ACTIONS.mediaSync),
   },
   {
     method: 'GET',
     path: '/media/health',
     handler: 'media.health',
-    config: {
-      policies: [],
-      auth: false,
-    },
+    config: adminRoute(ACTIONS.read),
   },
 ];
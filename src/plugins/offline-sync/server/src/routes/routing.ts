@@ -0,0 +1,20 @@
+export default [
+  {
+    method: 'GET',
+    path: '/routing',
+    handler: 'routing.list',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/routing/:shipId',
+    handler: 'routing.scope',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+];
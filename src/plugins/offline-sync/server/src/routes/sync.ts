@@ -1,63 +1,53 @@
+import { ACTIONS, adminRoute } from '../permissions';
+
 export default [
   {
     method: 'GET',
     path: '/status',
     handler: 'sync.getStatus',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'POST',
     path: '/push',
     handler: 'sync.push',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.sync),
   },
   {
     method: 'POST',
     path: '/pull',
     handler: 'sync.pull',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.sync),
   },
   {
     method: 'GET',
     path: '/queue',
     handler: 'sync.getQueue',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'GET',
     path: '/queue/pending',
     handler: 'sync.getPending',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
   },
   {
     method: 'GET',
     path: '/ships',
     handler: 'sync.getShips',
-    config: {
-      auth: false,
-      policies: [],
-      middlewares: [],
-    },
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'GET',
+    path: '/fleet',
+    handler: 'sync.getFleet',
+    config: adminRoute(ACTIONS.read),
+  },
+  {
+    method: 'PUT',
+    path: '/ships/:shipId/public-key',
+    handler: 'sync.setShipPublicKey',
+    config: adminRoute(ACTIONS.sync),
   },
 ];
 
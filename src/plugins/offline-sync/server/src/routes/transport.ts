@@ -0,0 +1,29 @@
+export default [
+  {
+    method: 'POST',
+    path: '/transport/messages',
+    handler: 'transport.receive',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/transport/poll',
+    handler: 'transport.poll',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/transport/ack',
+    handler: 'transport.ack',
+    config: {
+      policies: [],
+      middlewares: [],
+    },
+  },
+];
@@ -0,0 +1,127 @@
+/**
+ * Bulk Sync Service
+ * Groups the document changes made inside one database transaction into a bulk,
+ * so they reach the other side as a single 'bulk' message and master applies
+ * them in one transaction.
+ * - Content-manager bulk delete / publish / unpublish already run in strapi.db.transaction
+ * - Scripts and services wrap their writes in bulkSync.run() (e.g. scripts/import-*.js)
+ * - Multi-locale actions (locale '*') touch several entries and are submitted together
+ *
+ * Changes are handed to the flush handler registered by bootstrap (the Document
+ * Service middleware) once the transaction commits, and dropped on rollback.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type SyncOperation = 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
+
+export interface DocumentChange {
+  uid: string;
+  documentId: string;
+  operation: SyncOperation;
+  locale: string | null;
+  documentStatus: 'draft' | 'published' | null;
+  data: any;                        // Action result; publish reloads the published version
+}
+
+export type FlushHandler = (changes: DocumentChange[], bulkId: string | null) => Promise<void>;
+
+interface Batch {
+  id: string;
+  changes: DocumentChange[];
+  flushed?: Promise<void>;
+}
+
+export default ({ strapi }: { strapi: any }) => {
+  // Open batches by knex transaction; nested transactions share the outer one
+  const batches = new WeakMap<object, Batch>();
+  let flushHandler: FlushHandler | null = null;
+
+  const flush = async (changes: DocumentChange[], bulkId: string | null): Promise<void> => {
+    if (!flushHandler || changes.length === 0) return;
+    try {
+      // A single change needs no bulk envelope
+      await flushHandler(changes, changes.length > 1 ? bulkId : null);
+    } catch (error: any) {
+      strapi.log.error(`[BulkSync] Failed to sync ${changes.length} change(s): ${error.message}`);
+    }
+  };
+
+  return {
+    /**
+     * Knex connection for the plugin's own tables: the surrounding strapi.db.transaction
+     * when there is one (a ship bulk on master), so those rows commit and roll back with
+     * the documents written in it
+     */
+    async connection(): Promise<any> {
+      if (!strapi.db.inTransaction()) {
+        return strapi.db.connection;
+      }
+      // Joins the surrounding transaction instead of opening one
+      return strapi.db.transaction(({ trx }: any) => trx);
+    },
+
+    /**
+     * Register the handler that syncs submitted changes (bootstrap)
+     */
+    onFlush(handler: FlushHandler): void {
+      flushHandler = handler;
+    },
+
+    /**
+     * Submit the changes of one Document Service action
+     * Inside a transaction they join its batch and are synced after commit;
+     * otherwise they are synced now (as a bulk when there are several).
+     */
+    async submit(changes: DocumentChange[]): Promise<void> {
+      if (changes.length === 0) return;
+
+      if (!strapi.db.inTransaction()) {
+        await flush(changes, randomUUID());
+        return;
+      }
+
+      // Joins the surrounding transaction, which gives access to its commit hooks
+      await strapi.db.transaction(({ trx, onCommit, onRollback }: any) => {
+        let batch = batches.get(trx);
+        if (!batch) {
+          const created: Batch = { id: randomUUID(), changes: [] };
+          batches.set(trx, created);
+          onCommit(() => {
+            batches.delete(trx);
+            created.flushed = flush(created.changes, created.id);
+          });
+          onRollback(() => {
+            batches.delete(trx);
+            strapi.log.debug(`[BulkSync] Transaction rolled back, dropped ${created.changes.length} change(s)`);
+          });
+          batch = created;
+        }
+        batch.changes.push(...changes);
+      });
+    },
+
+    /**
+     * Run document writes as one bulk: in a single transaction, synced together
+     * once it commits. Resolves after the bulk was queued (replica) or sent (master),
+     * so scripts can exit right after. Nested calls join the outer bulk.
+     */
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+      if (strapi.db.inTransaction()) {
+        return fn();
+      }
+
+      let batch: Batch | undefined;
+      const result = await strapi.db.transaction(async ({ trx }: any) => {
+        const value = await fn();
+        batch = batches.get(trx);
+        return value;
+      });
+
+      if (batch?.flushed) {
+        await batch.flushed;
+      }
+      return result;
+    },
+  };
+};
@@ -0,0 +1,551 @@
+/**
+ * Sync Bundle Service
+ * Store-and-forward sync for air-gapped ships: changes travel as signed,
+ * gzip-compressed files instead of over a transport
+ * - Replica: exports every pending sync_queue operation with the media it references,
+ *   imports master bundles through processMasterUpdate
+ * - Master: imports ship bundles through processShipUpdate, exports the change log
+ *   for one ship (scoped by ship-routing) with create ACKs and media
+ *
+ * Bundles carry full documents (never deltas), since an air-gapped ship can't answer
+ * a full-document request. Ship bundles are signed with bundles.secret (HMAC-SHA256) and
+ * the messages inside carry the ship's own signature (message-signing) like live ones;
+ * master bundles are signed with master's Ed25519 key, so ships can't forge them.
+ * Exports are split into parts of about PART_MAX_BYTES, each a bundle of its own.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+
+export interface BundleContents {
+  direction: 'ship-to-master' | 'master-to-ship';
+  shipId: string;
+  createdAt: string;
+  messages: any[];
+  media: Array<{ path: string; contentType: string; data: string }>;  // data is base64
+  watermark?: number | null;      // Ship bundles: last change log sequence the ship applied
+  fromSequence?: number;          // Master bundles: change log range
+  toSequence?: number;
+  part?: number;                  // Part of the export (1-based)
+}
+
+interface BundlePart<T> {
+  messages: any[];
+  items: T[];
+  media: BundleContents['media'];
+}
+
+// Identifies bundle files (and their layout version)
+const BUNDLE_FORMAT = 'offline-sync-bundle';
+const BUNDLE_VERSION = 1;
+
+// Change log entries read per page while exporting
+const EXPORT_PAGE_SIZE = 500;
+
+// Messages plus base64 media per bundle part, so no export is built as one huge string
+const PART_MAX_BYTES = 32 * 1024 * 1024;
+
+// Plugin store key of the watermark a ship reported in its last bundle (master)
+const shipWatermarkKey = (shipId: string) => `bundle-watermark-${shipId}`;
+
+export default ({ strapi }: { strapi: any }) => {
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+  const service = (name: string) => strapi.plugin('offline-sync').service(name);
+
+  const getSecret = (): string => {
+    const secret = getConfig().bundles?.secret;
+    if (!secret) {
+      throw new Error('bundles.secret (SYNC_BUNDLE_SECRET) is not configured');
+    }
+    return secret;
+  };
+
+  const sign = (payload: string): string =>
+    createHmac('sha256', getSecret()).update(payload).digest('hex');
+
+  /**
+   * Local storage paths of the media a message references
+   */
+  const mediaPathsOf = (message: any): string[] => {
+    const mediaSync = service('media-sync');
+    const paths = new Set<string>();
+    for (const operation of message.operation === 'bulk' ? message.operations : [message]) {
+      for (const path of mediaSync.extractBundleObjectPaths({ data: operation.data, fileRecords: operation.fileRecords })) {
+        paths.add(path);
+      }
+    }
+    return [...paths];
+  };
+
+  /**
+   * Read media files from local storage (unreadable ones are logged and left out)
+   */
+  const readMedia = async (paths: string[]): Promise<BundleContents['media']> => {
+    const mediaSync = service('media-sync');
+    const media: BundleContents['media'] = [];
+    for (const path of paths) {
+      const file = await mediaSync.readBundleObject(path);
+      if (file) {
+        media.push({ path, contentType: file.contentType, data: file.data.toString('base64') });
+      } else {
+        strapi.log.warn(`[Bundle] Referenced media file ${path} could not be read`);
+      }
+    }
+    return media;
+  };
+
+  /**
+   * Group messages and their media into parts of about PART_MAX_BYTES
+   * flush() gets each full part and the message that starts the next one (null for the last);
+   * a message bigger than PART_MAX_BYTES gets a part of its own
+   */
+  const createPartBuilder = <T>(flush: (part: BundlePart<T>, next: any | null) => Promise<void>) => {
+    let part: BundlePart<T> = { messages: [], items: [], media: [] };
+    let bytes = 0;
+
+    return {
+      async add(message: any, item: T): Promise<void> {
+        const paths = mediaPathsOf(message);
+        const inPart = new Set(part.media.map((file) => file.path));
+        let media = await readMedia(paths.filter((path) => !inPart.has(path)));
+
+        const size = (files: BundleContents['media']) =>
+          Buffer.byteLength(JSON.stringify(message)) + files.reduce((sum, file) => sum + file.data.length, 0);
+
+        if (part.messages.length > 0 && bytes + size(media) > PART_MAX_BYTES) {
+          await flush(part, message);
+          part = { messages: [], items: [], media: [] };
+          bytes = 0;
+          // Files shared with the previous part are needed in this one too
+          const read = new Set(media.map((file) => file.path));
+          media = [...media, ...await readMedia(paths.filter((path) => !read.has(path)))];
+        }
+
+        part.messages.push(message);
+        part.items.push(item);
+        part.media.push(...media);
+        bytes += size(media);
+      },
+
+      /**
+       * Flush the last part (also when empty, if nothing was flushed yet)
+       */
+      async end(flushed: boolean): Promise<void> {
+        if (part.messages.length > 0 || !flushed) {
+          await flush(part, null);
+        }
+      },
+    };
+  };
+
+  /**
+   * Store bundled media in local storage, returns the number stored
+   */
+  const storeMedia = async (media: BundleContents['media']): Promise<number> => {
+    const mediaSync = service('media-sync');
+    let stored = 0;
+    for (const file of media || []) {
+      if (await mediaSync.writeBundleObject(file.path, Buffer.from(file.data, 'base64'), file.contentType)) {
+        stored++;
+      }
+    }
+    return stored;
+  };
+
+  return {
+    /**
+     * Sign and compress bundle contents
+     * Master bundles are signed with master's key, ship bundles with bundles.secret
+     */
+    create(contents: BundleContents): Buffer {
+      const payload = JSON.stringify(contents);
+      const fromMaster = contents.direction === 'master-to-ship';
+      return gzipSync(Buffer.from(JSON.stringify({
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        algorithm: fromMaster ? 'ed25519' : 'hmac-sha256',
+        signature: fromMaster ? service('message-signing').signBundle(payload) : sign(payload),
+        payload,
+      })));
+    },
+
+    /**
+     * Decompress a bundle and verify its signature
+     * Throws when the file isn't a bundle, or a master bundle wasn't signed with master's
+     * key, or a ship bundle with our secret
+     */
+    read(bundle: Buffer): BundleContents {
+      let envelope: any;
+      try {
+        envelope = JSON.parse(gunzipSync(bundle).toString('utf8'));
+      } catch {
+        throw new Error('Not a sync bundle (expected a gzip-compressed bundle file)');
+      }
+
+      if (envelope?.format !== BUNDLE_FORMAT || typeof envelope.payload !== 'string') {
+        throw new Error('Not a sync bundle');
+      }
+      if (envelope.version !== BUNDLE_VERSION) {
+        throw new Error(`Unsupported bundle version ${envelope.version}`);
+      }
+
+      if (envelope.algorithm === 'ed25519') {
+        if (!service('message-signing').verifyBundle(envelope.payload, String(envelope.signature || ''))) {
+          throw new Error('Bundle signature is invalid');
+        }
+      } else if (envelope.algorithm === 'hmac-sha256') {
+        const expected = Buffer.from(sign(envelope.payload), 'hex');
+        const actual = Buffer.from(String(envelope.signature || ''), 'hex');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+          throw new Error('Bundle signature is invalid');
+        }
+      } else {
+        throw new Error(`Unsupported bundle signature algorithm ${envelope.algorithm}`);
+      }
+
+      const contents: BundleContents = JSON.parse(envelope.payload);
+      // The shared secret is on every ship, so it must not vouch for master bundles
+      if ((contents.direction === 'master-to-ship') !== (envelope.algorithm === 'ed25519')) {
+        throw new Error(`A ${contents.direction} bundle can't be signed with ${envelope.algorithm}`);
+      }
+      return contents;
+    },
+
+    /**
+     * Export every pending operation into ship bundles (replica)
+     * write() receives each part in order; a part's operations are marked pushed once it
+     * resolves, the rest failed (and retried like a failed push) when it throws
+     */
+    async exportShipBundle(write: (bundle: Buffer, part: number) => Promise<void>): Promise<{ operations: number; messages: number; media: number; parts: number; failed: number }> {
+      const config = getConfig();
+      if (config.mode !== 'replica') {
+        throw new Error('Ship bundles can only be exported in replica mode');
+      }
+      getSecret();
+
+      const syncQueue = service('sync-queue');
+      const syncService = service('sync-service');
+      const deltaSync = service('delta-sync');
+
+      // Everything pending, referenced documents created in the bundle first
+      const pending: any[] = [];
+      while (true) {
+        const batch = await syncQueue.dequeue(config.shipId, config.sync?.batchSize || 100);
+        if (batch.length === 0) break;
+        pending.push(...batch);
+      }
+      if (pending.length === 0) {
+        return { operations: 0, messages: 0, media: 0, parts: 0, failed: 0 };
+      }
+
+      const { units, failed } = await syncService.preparePushUnits(
+        service('relation-sync').orderByDependencies(pending),
+        { full: true }
+      );
+      const signing = service('message-signing');
+      const watermark = await syncService.getWatermark();
+
+      let parts = 0;
+      let written = 0;  // Units in parts already written
+      let operations = 0;
+      let media = 0;
+
+      const builder = createPartBuilder<any>(async (part) => {
+        await write(this.create({
+          direction: 'ship-to-master',
+          shipId: config.shipId,
+          createdAt: new Date().toISOString(),
+          watermark,
+          part: parts + 1,
+          messages: part.messages,
+          media: part.media,
+        }), parts + 1);
+
+        for (const unit of part.items) {
+          for (const queueId of unit.queueIds) {
+            await syncQueue.markPushed(queueId);
+            operations++;
+          }
+        }
+        parts++;
+        written += part.items.length;
+        media += part.media.length;
+      });
+
+      try {
+        for (const unit of units) {
+          await builder.add(signing.sign(unit.message), unit);
+        }
+        await builder.end(parts > 0);
+
+        strapi.log.info(`[Bundle] 📦 Exported ${operations} operation(s) in ${units.length} message(s), ${parts} part(s), ${media} media file(s)`);
+        return { operations, messages: units.length, media, parts, failed };
+      } catch (error: any) {
+        strapi.log.error(`[Bundle] Export failed after ${parts} part(s): ${error.message}`);
+        for (const unit of units.slice(written)) {
+          for (const queueId of unit.queueIds) {
+            await syncQueue.markFailed(queueId, error);
+          }
+          // Master never got these states, so the next push of the documents is sent in full
+          for (const snapshotKey of unit.snapshotKeys) {
+            await deltaSync.forget(snapshotKey);
+          }
+        }
+        throw error;
+      }
+    },
+
+    /**
+     * Apply a ship bundle (master)
+     * Messages go through processShipUpdate in bundle order, like messages from the transport
+     * (each in its own sync context, so live traffic applied meanwhile is unaffected)
+     */
+    async importShipBundle(contents: BundleContents): Promise<{ shipId: string; messages: number; processed: number; failed: number; media: number }> {
+      if (getConfig().mode !== 'master') {
+        throw new Error('Ship bundles can only be imported in master mode');
+      }
+      if (contents.direction !== 'ship-to-master' || !contents.shipId) {
+        throw new Error('Not a ship bundle');
+      }
+
+      const syncService = service('sync-service');
+      const hybridClock = service('hybrid-clock');
+      const signing = service('message-signing');
+      const { shipId } = contents;
+
+      // Media first, so file records in the messages point at stored files
+      const media = await storeMedia(contents.media);
+
+      let processed = 0;
+      let failed = 0;
+      for (const message of contents.messages || []) {
+        if (message?.shipId !== shipId) {
+          strapi.log.warn(`[Bundle] Ignored message not sent by ${shipId}`);
+          failed++;
+          continue;
+        }
+        const verification = await signing.verify(message);
+        if (!verification.accepted) {
+          strapi.log.warn(`[Signing] 🚫 Rejected bundled ${message.messageId} from ${shipId}: ${verification.reason}`);
+          failed++;
+          continue;
+        }
+        try {
+          if (message.clock) {
+            hybridClock.receive(message.clock);
+          }
+          await syncService.processShipUpdate(message);
+          processed++;
+        } catch (error: any) {
+          strapi.log.error(`[Bundle] Failed to process ${message.messageId} from ${shipId}: ${error.message}`);
+          failed++;
+        }
+      }
+
+      // Where the next master bundle for this ship starts
+      if (contents.watermark !== null && contents.watermark !== undefined) {
+        await strapi.store({ type: 'plugin', name: 'offline-sync' }).set({
+          key: shipWatermarkKey(shipId),
+          value: Number(contents.watermark),
+        });
+      }
+
+      strapi.log.info(`[Bundle] 📥 Imported bundle from ${shipId}: ${processed} processed, ${failed} failed, ${media} media file(s)`);
+      return { shipId, messages: (contents.messages || []).length, processed, failed, media };
+    },
+
+    /**
+     * Last change log sequence a ship reported in a bundle (master, null if none)
+     */
+    async getShipWatermark(shipId: string): Promise<number | null> {
+      const value = await strapi.store({ type: 'plugin', name: 'offline-sync' }).get({ key: shipWatermarkKey(shipId) });
+      return value === null || value === undefined ? null : Number(value);
+    },
+
+    /**
+     * Bundle master's changes for one ship (master)
+     * Change log entries after since (default: the watermark from the ship's last bundle,
+     * else the whole log) in the ship's routing scope, plus create ACKs for its documents.
+     * write() receives each part in order, every part covering its own sequence range;
+     * with maxParts the export stops early and toSequence is where the next one starts
+     */
+    async exportMasterBundle(
+      shipId: string,
+      write: (bundle: Buffer, part: { part: number; fromSequence: number; toSequence: number }) => Promise<void>,
+      options: { since?: number; maxParts?: number } = {}
+    ): Promise<{
+      messages: number;
+      media: number;
+      parts: number;
+      fromSequence: number;
+      toSequence: number;
+      complete: boolean;
+    }> {
+      if (getConfig().mode !== 'master') {
+        throw new Error('Master bundles can only be exported in master mode');
+      }
+      if (!service('message-signing').getPrivateKey()) {
+        throw new Error('security.privateKeyFile (SYNC_SIGNING_PRIVATE_KEY_FILE) is not configured - master bundles are signed with master\'s key');
+      }
+
+      const changeLog = service('change-log');
+      const routing = service('ship-routing');
+      const documentMapping = service('document-mapping');
+
+      const fromSequence = options.since ?? (await this.getShipWatermark(shipId)) ?? 0;
+      const latestSequence = await changeLog.getLatestSequence();
+
+      let parts = 0;
+      let messages = 0;
+      let media = 0;
+      let partFrom = fromSequence;
+      let stopped = false;
+
+      const builder = createPartBuilder<null>(async (part, next) => {
+        // A part ends right before the change that starts the next one
+        const partTo = next ? (next.sequence ? next.sequence - 1 : partFrom) : latestSequence;
+        await write(this.create({
+          direction: 'master-to-ship',
+          shipId,
+          createdAt: new Date().toISOString(),
+          fromSequence: partFrom,
+          toSequence: partTo,
+          part: parts + 1,
+          messages: part.messages,
+          media: part.media,
+        }), { part: parts + 1, fromSequence: partFrom, toSequence: partTo });
+
+        parts++;
+        messages += part.messages.length;
+        media += part.media.length;
+        partFrom = partTo;
+        stopped = next !== null && options.maxParts !== undefined && parts >= options.maxParts;
+      });
+
+      // Mappings of documents the ship created - their ACKs may never have reached it
+      const mappings = await documentMapping.getMappingsForShip(shipId);
+      for (const mapping of mappings) {
+        if (stopped) break;
+        await builder.add({
+          messageId: `bundle-ack-${shipId}-${mapping.id}`,
+          shipId,
+          timestamp: new Date().toISOString(),
+          operation: 'create-ack',
+          contentType: mapping.contentType,
+          replicaDocumentId: mapping.replicaDocumentId,
+          masterDocumentId: mapping.masterDocumentId,
+          clock: mapping.clock || null,
+        }, null);
+      }
+
+      const scope = routing.isEnabled() ? routing.getScope(shipId) : null;
+      const cache = new Map<string, string[] | null>();
+      let cursor = fromSequence;
+
+      while (cursor < latestSequence && !stopped) {
+        const entries = await changeLog.getSince(cursor, EXPORT_PAGE_SIZE);
+        if (entries.length === 0) break;
+
+        for (const entry of entries) {
+          if (entry.sequence > latestSequence || stopped) break;
+
+          const message = {
+            messageId: `bundle-${shipId}-${entry.sequence}`,
+            shipId: 'master',
+            targetShipId: shipId,
+            timestamp: new Date().toISOString(),
+            operation: entry.operation,
+            contentType: entry.content_type,
+            contentId: entry.document_id,
+            version: 0,
+            data: entry.data,
+            locale: entry.locale,
+            clock: entry.clock,
+            sequence: entry.sequence,
+            documentStatus: entry.document_status || null,
+          };
+          if (await routing.matches(scope, message, cache)) {
+            await builder.add(message, null);
+          }
+        }
+
+        cursor = entries[entries.length - 1].sequence;
+      }
+
+      if (!stopped) {
+        await builder.end(parts > 0);
+      }
+
+      strapi.log.info(`[Bundle] 📦 Exported ${messages} message(s) for ${shipId} (${fromSequence}..${partFrom}) in ${parts} part(s), ${media} media file(s)`);
+      return { messages, media, parts, fromSequence, toSequence: partFrom, complete: !stopped };
+    },
+
+    /**
+     * Apply a master bundle (replica)
+     * Messages go through processMasterUpdate in order, then the watermark moves to the
+     * end of the bundle's range like after a catch-up pull. Sequences that failed stay
+     * held, so the watermark stays below them until a later bundle or pull applies them.
+     */
+    async importMasterBundle(contents: BundleContents): Promise<{ messages: number; processed: number; failed: number; media: number; watermark: number | null }> {
+      const config = getConfig();
+      if (config.mode !== 'replica') {
+        throw new Error('Master bundles can only be imported in replica mode');
+      }
+      if (contents.direction !== 'master-to-ship') {
+        throw new Error('Not a master bundle');
+      }
+      if (contents.shipId !== config.shipId) {
+        throw new Error(`Bundle is for ${contents.shipId}, not ${config.shipId}`);
+      }
+
+      const syncService = service('sync-service');
+      const hybridClock = service('hybrid-clock');
+
+      // Media first, so content arrives with its files in MinIO
+      const media = await storeMedia(contents.media);
+
+      let processed = 0;
+      let failed = 0;
+      for (const message of contents.messages || []) {
+        try {
+          if (message.clock) {
+            hybridClock.receive(message.clock);
+          }
+          const result = await syncService.processMasterUpdate(message);
+          await syncService.settleSequence(message.sequence, result);
+          if (result === 'failed' || result === 'pending') {
+            failed++;
+            continue;
+          }
+          processed++;
+        } catch (error: any) {
+          strapi.log.error(`[Bundle] Failed to apply ${message?.messageId}: ${error.message}`);
+          if (message?.sequence) {
+            await syncService.holdWatermark(Number(message.sequence));
+          }
+          failed++;
+        }
+      }
+
+      if (contents.toSequence !== undefined) {
+        await syncService.advanceWatermark(Number(contents.toSequence) || 0);
+      }
+
+      strapi.log.info(`[Bundle] 📥 Imported master bundle: ${processed} applied, ${failed} failed, ${media} media file(s)`);
+
+      strapi.eventHub?.emit('offline-sync.pull-complete', {
+        count: processed,
+        latestSequence: contents.toSequence ?? null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return {
+        messages: (contents.messages || []).length,
+        processed,
+        failed,
+        media,
+        watermark: await syncService.getWatermark(),
+      };
+    },
+  };
+};
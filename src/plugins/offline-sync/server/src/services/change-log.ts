@@ -0,0 +1,260 @@
+/**
+ * Master Change Log Service
+ *
+ * Ordered record of every change master broadcasts to ships.
+ * The sequence number is the watermark ships use to catch up after
+ * being offline longer than the Kafka retention of master-updates.
+ *
+ * Unlike master_sync_queue (cleaned up after 7 days) the log is append-only
+ * and never pruned, so any ship can be re-seeded by replaying it.
+ */
+
+// Log entries read per page while replaying
+const REPLAY_PAGE_SIZE = 500;
+
+export default ({ strapi }: { strapi: any }) => {
+  let tableExists: boolean | null = null;
+  let documentStatusColumnExists: boolean | null = null;
+
+  const parseJsonField = (value: any): any => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  };
+
+  return {
+    /**
+     * Check if master_change_log table exists (cached)
+     */
+    async ensureTable(): Promise<boolean> {
+      if (tableExists !== null) return tableExists;
+
+      try {
+        const db = strapi.db.connection;
+        tableExists = await db.schema.hasTable('master_change_log');
+        return tableExists;
+      } catch (error: any) {
+        strapi.log.warn(`[ChangeLog] Failed to check table: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Check if the document_status column exists (migration 013, cached)
+     */
+    async hasDocumentStatusColumn(): Promise<boolean> {
+      if (documentStatusColumnExists !== null) return documentStatusColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      documentStatusColumnExists = await db.schema.hasColumn('master_change_log', 'document_status');
+      return documentStatusColumnExists ?? false;
+    },
+
+    /**
+     * Append a broadcast change, returns its sequence number (null if not logged)
+     */
+    async append(change: {
+      contentType: string;
+      documentId: string;
+      operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
+      data: any;
+      locale?: string | null;
+      clock?: string | null;
+      documentStatus?: 'draft' | 'published' | null;
+    }): Promise<number | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      try {
+        const db = strapi.db.connection;
+        const row: any = {
+          content_type: change.contentType,
+          document_id: String(change.documentId),
+          operation: change.operation,
+          data: change.data ? JSON.stringify(change.data) : null,
+          locale: change.locale || null,
+          clock: change.clock || null,
+          created_at: new Date(),
+        };
+        if (change.documentStatus && await this.hasDocumentStatusColumn()) {
+          row.document_status = change.documentStatus;
+        }
+
+        const [inserted] = await db('master_change_log')
+          .insert(row)
+          .returning('sequence');
+
+        return Number(typeof inserted === 'object' ? inserted.sequence : inserted);
+      } catch (error: any) {
+        strapi.log.error(`[ChangeLog] Failed to append ${change.operation} for ${change.contentType}/${change.documentId}: ${error.message}`);
+        return null;
+      }
+    },
+
+    /**
+     * Get changes after a sequence number, oldest first
+     */
+    async getSince(sequence: number, limit: number = 500): Promise<any[]> {
+      if (!await this.ensureTable()) {
+        return [];
+      }
+
+      const db = strapi.db.connection;
+      const entries = await db('master_change_log')
+        .where('sequence', '>', sequence)
+        .orderBy('sequence', 'asc')
+        .limit(limit);
+
+      return entries.map((entry: any) => ({
+        ...entry,
+        sequence: Number(entry.sequence),
+        data: parseJsonField(entry.data),
+      }));
+    },
+
+    /**
+     * List log entries, oldest first, with optional filters
+     */
+    async list(filters: {
+      since?: number;
+      contentType?: string;
+      documentId?: string;
+      limit?: number;
+    } = {}): Promise<any[]> {
+      if (!await this.ensureTable()) {
+        return [];
+      }
+
+      const db = strapi.db.connection;
+      let query = db('master_change_log')
+        .where('sequence', '>', filters.since || 0)
+        .orderBy('sequence', 'asc')
+        .limit(filters.limit || 100);
+
+      if (filters.contentType) {
+        query = query.where('content_type', filters.contentType);
+      }
+      if (filters.documentId) {
+        query = query.where('document_id', filters.documentId);
+      }
+
+      const entries = await query;
+      return entries.map((entry: any) => ({
+        ...entry,
+        sequence: Number(entry.sequence),
+        data: parseJsonField(entry.data),
+      }));
+    },
+
+    /**
+     * Get the latest logged change carrying the document state (null if never broadcast)
+     * unpublish / discard-draft entries hold no data and are skipped
+     */
+    async getLatestFor(contentType: string, documentId: string, locale?: string | null): Promise<any | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const db = strapi.db.connection;
+      const query = db('master_change_log')
+        .where({ content_type: contentType, document_id: String(documentId) })
+        .whereNotIn('operation', ['unpublish', 'discard-draft']);
+
+      if (locale) {
+        query.where('locale', locale);
+      } else {
+        query.whereNull('locale');
+      }
+
+      const entry = await query.orderBy('sequence', 'desc').first();
+      if (!entry) return null;
+
+      return {
+        ...entry,
+        sequence: Number(entry.sequence),
+        data: parseJsonField(entry.data),
+      };
+    },
+
+    /**
+     * Re-publish logged changes after fromSequence (up to toSequence, default latest)
+     * With shipId only that ship applies them, otherwise every ship does
+     */
+    async replay(options: {
+      fromSequence: number;
+      toSequence?: number;
+      shipId?: string;
+      messagePrefix?: string;
+    }): Promise<{ sent: number; failed: number; firstFailed: number | null; fromSequence: number; toSequence: number }> {
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      const fromSequence = Number(options.fromSequence) || 0;
+      const toSequence = options.toSequence !== undefined
+        ? Number(options.toSequence)
+        : await this.getLatestSequence();
+      const prefix = options.messagePrefix || 'replay';
+      const target = options.shipId || 'all';
+      let cursor = fromSequence;
+      let sent = 0;      // Entries routed to at least one ship (out-of-scope entries aren't sent)
+      let failed = 0;
+      let firstFailed: number | null = null;
+
+      // Changes appended during the replay reach ships as regular broadcasts
+      while (cursor < toSequence) {
+        const entries = await this.getSince(cursor, REPLAY_PAGE_SIZE);
+        if (entries.length === 0) break;
+
+        for (const entry of entries) {
+          if (entry.sequence > toSequence) break;
+
+          const delivered = await syncProducer.sendToShips({
+            messageId: `${prefix}-${target}-${entry.sequence}`,
+            shipId: 'master',
+            targetShipId: options.shipId,
+            timestamp: new Date().toISOString(),
+            operation: entry.operation,
+            contentType: entry.content_type,
+            contentId: entry.document_id,
+            version: 0,
+            data: entry.data,
+            locale: entry.locale,
+            clock: entry.clock,
+            sequence: entry.sequence,
+            documentStatus: entry.document_status || null,
+          });
+          if (delivered === false) {
+            failed++;
+            firstFailed = firstFailed ?? entry.sequence;
+          } else if (delivered > 0) {
+            sent++;
+          }
+        }
+
+        cursor = entries[entries.length - 1].sequence;
+      }
+
+      strapi.log.info(`[ChangeLog] 📤 Replayed ${sent} change(s) (${fromSequence}..${toSequence}) to ${options.shipId || 'all ships'}${failed ? `, ${failed} failed` : ''}`);
+
+      return { sent, failed, firstFailed, fromSequence, toSequence };
+    },
+
+    /**
+     * Get the latest sequence number (0 when the log is empty)
+     */
+    async getLatestSequence(): Promise<number> {
+      if (!await this.ensureTable()) {
+        return 0;
+      }
+
+      const db = strapi.db.connection;
+      const result = await db('master_change_log').max('sequence as sequence').first();
+      return Number(result?.sequence || 0);
+    },
+  };
+};
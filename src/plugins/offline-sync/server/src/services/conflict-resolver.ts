@@ -1,5 +1,14 @@
+export type ConflictPolicy = 'manual' | 'master-wins' | 'ship-wins' | 'last-writer-wins' | 'field-merge';
+
 export default ({ strapi }: { strapi: any }) => {
   let tableExists: boolean | null = null;
+  let mergeColumnsExist: boolean | null = null;
+  let shipNoteColumnExists: boolean | null = null;
+  let resolutionNoteColumnExists: boolean | null = null;
+  let localeColumnsExist: boolean | null = null;
+
+  // Joins a surrounding transaction (bulk-sync), e.g. while master applies a ship bulk
+  const connection = () => strapi.plugin('offline-sync').service('bulk-sync').connection();
 
   const parseJsonField = (value: any): any => {
     if (typeof value === 'string') {
@@ -19,11 +28,85 @@ export default ({ strapi }: { strapi: any }) => {
     async ensureTable(): Promise<boolean> {
       if (tableExists !== null) return tableExists;
 
-      const db = strapi.db.connection;
+      const db = await connection();
       tableExists = await db.schema.hasTable('conflict_logs');
       return tableExists ?? false;
     },
 
+    /**
+     * Check if three-way merge columns exist (migration 006, cached)
+     */
+    async hasMergeColumns(): Promise<boolean> {
+      if (mergeColumnsExist !== null) return mergeColumnsExist;
+      if (!await this.ensureTable()) return false;
+
+      const db = await connection();
+      mergeColumnsExist = await db.schema.hasColumn('conflict_logs', 'merged_data');
+      return mergeColumnsExist ?? false;
+    },
+
+    /**
+     * Merge columns for insert/update (skipped when migration 006 is missing)
+     */
+    async buildMergeColumns(merge?: { baseData?: any; mergedData?: any; conflictFields?: any[] }): Promise<Record<string, any>> {
+      if (!merge || !await this.hasMergeColumns()) return {};
+      return {
+        base_data: merge.baseData ? JSON.stringify(merge.baseData) : null,
+        merged_data: merge.mergedData ? JSON.stringify(merge.mergedData) : null,
+        conflict_fields: merge.conflictFields ? JSON.stringify(merge.conflictFields) : null,
+      };
+    },
+
+    /**
+     * Check if the locale and document_status columns exist (migration 017, cached)
+     */
+    async hasLocaleColumns(): Promise<boolean> {
+      if (localeColumnsExist !== null) return localeColumnsExist;
+      if (!await this.ensureTable()) return false;
+
+      const db = await connection();
+      localeColumnsExist = await db.schema.hasColumn('conflict_logs', 'document_status');
+      return localeColumnsExist ?? false;
+    },
+
+    /**
+     * Locale and publish state columns for insert/update (skipped when migration 017 is missing)
+     */
+    async buildLocaleColumns(conflict: { locale?: string | null; documentStatus?: 'draft' | 'published' | null }): Promise<Record<string, any>> {
+      if (!await this.hasLocaleColumns()) return {};
+      return {
+        locale: conflict.locale || null,
+        document_status: conflict.documentStatus || null,
+      };
+    },
+
+    /**
+     * Conflict policy for a content type (config.conflicts.policies, falls back to defaultPolicy)
+     */
+    getPolicy(contentType: string): ConflictPolicy {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      return config.conflicts?.policies?.[contentType] || config.conflicts?.defaultPolicy || 'field-merge';
+    },
+
+    /**
+     * Side that wins a conflict under a policy (null = admin review or field merge)
+     * last-writer-wins compares hybrid logical clocks, ties and unknown clocks go to master
+     */
+    getPolicyWinner(policy: ConflictPolicy, shipClock: string | null, masterClock: string | null): 'ship' | 'master' | null {
+      switch (policy) {
+        case 'master-wins':
+          return 'master';
+        case 'ship-wins':
+          return 'ship';
+        case 'last-writer-wins': {
+          const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+          return shipClock && masterClock && hybridClock.compare(shipClock, masterClock) > 0 ? 'ship' : 'master';
+        }
+        default:
+          return null;
+      }
+    },
+
     /**
      * Log a conflict (only if no unresolved conflict exists for this document)
      */
@@ -36,23 +119,37 @@ export default ({ strapi }: { strapi: any }) => {
       shipData: any;
       masterData: any;
       conflictType: string;
+      baseData?: any;
+      mergedData?: any;
+      conflictFields?: any[];
+      locale?: string | null;                         // Locale the ship edited
+      documentStatus?: 'draft' | 'published' | null;  // Version the ship saved to
     }): Promise<any> {
       if (!await this.ensureTable()) {
         strapi.log.warn('conflict_logs table does not exist');
         return null;
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
+      const mergeColumns = await this.buildMergeColumns(conflict);
+      const localeColumns = await this.buildLocaleColumns(conflict);
 
-      // Check if there's already an unresolved conflict for this document
-      const existingConflict = await db('conflict_logs')
+      // Check if there's already an unresolved conflict for this document (and locale)
+      const existingQuery = db('conflict_logs')
         .where({
           content_type: conflict.contentType,
           content_id: String(conflict.contentId),
           ship_id: conflict.shipId,
         })
-        .whereNull('resolved_at')
-        .first();
+        .whereNull('resolved_at');
+      if (await this.hasLocaleColumns()) {
+        if (conflict.locale) {
+          existingQuery.where('locale', conflict.locale);
+        } else {
+          existingQuery.whereNull('locale');
+        }
+      }
+      const existingConflict = await existingQuery.first();
 
       if (existingConflict) {
         // Update the existing conflict with latest ship data instead of creating new one
@@ -62,6 +159,8 @@ export default ({ strapi }: { strapi: any }) => {
             ship_version: conflict.shipVersion,
             ship_data: JSON.stringify(conflict.shipData),
             master_data: JSON.stringify(conflict.masterData),
+            ...mergeColumns,
+            ...localeColumns,
           });
         strapi.log.debug(`[Conflict] Updated existing conflict #${existingConflict.id}`);
         return existingConflict;
@@ -78,6 +177,67 @@ export default ({ strapi }: { strapi: any }) => {
           ship_data: JSON.stringify(conflict.shipData),
           master_data: JSON.stringify(conflict.masterData),
           conflict_type: conflict.conflictType,
+          ...mergeColumns,
+          ...localeColumns,
+          created_at: new Date(),
+        })
+        .returning('*');
+
+      // Once a surrounding bulk commits - a rolled back conflict was never raised
+      await strapi.plugin('offline-sync').service('sync-service').afterCommit(async () => {
+        strapi.eventHub?.emit('offline-sync.conflict', {
+          shipId: conflict.shipId,
+          contentType: conflict.contentType,
+          contentId: String(conflict.contentId),
+          conflictId: result?.id ?? null,
+          conflictType: conflict.conflictType,
+          timestamp: new Date().toISOString(),
+        });
+      });
+
+      return result;
+    },
+
+    /**
+     * Record a conflict that was resolved automatically by three-way merge
+     * Kept as a resolved row so the ship notification has a conflict id
+     */
+    async logAutoMerge(conflict: {
+      contentType: string;
+      contentId: string | number;
+      shipId: string;
+      shipVersion: number;
+      shipData: any;
+      masterData: any;
+      baseData: any;
+      mergedData: any;
+      locale?: string | null;
+      documentStatus?: 'draft' | 'published' | null;
+    }): Promise<any> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const db = await connection();
+      const mergeColumns = await this.buildMergeColumns({ ...conflict, conflictFields: [] });
+      const localeColumns = await this.buildLocaleColumns(conflict);
+
+      const [result] = await db('conflict_logs')
+        .insert({
+          content_type: conflict.contentType,
+          content_id: String(conflict.contentId),
+          ship_id: conflict.shipId,
+          ship_version: conflict.shipVersion,
+          master_version: 0,
+          ship_data: JSON.stringify(conflict.shipData),
+          master_data: JSON.stringify(conflict.masterData),
+          conflict_type: 'auto-merged',
+          resolution_strategy: 'merge',
+          resolution_data: JSON.stringify(conflict.mergedData),
+          ...mergeColumns,
+          ...localeColumns,
+          resolved_at: new Date(),
+          resolved_by: 'auto-merge',
           created_at: new Date(),
         })
         .returning('*');
@@ -93,7 +253,7 @@ export default ({ strapi }: { strapi: any }) => {
         return [];
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
       const conflicts = await db('conflict_logs')
         .whereNull('resolved_at')
         .orderBy('created_at', 'desc');
@@ -102,6 +262,9 @@ export default ({ strapi }: { strapi: any }) => {
         ...conflict,
         ship_data: parseJsonField(conflict.ship_data),
         master_data: parseJsonField(conflict.master_data),
+        base_data: parseJsonField(conflict.base_data),
+        merged_data: parseJsonField(conflict.merged_data),
+        conflict_fields: parseJsonField(conflict.conflict_fields),
       }));
     },
 
@@ -113,7 +276,7 @@ export default ({ strapi }: { strapi: any }) => {
         return null;
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
       const conflict = await db('conflict_logs').where({ id }).first();
 
       if (!conflict) {
@@ -124,22 +287,53 @@ export default ({ strapi }: { strapi: any }) => {
         ...conflict,
         ship_data: parseJsonField(conflict.ship_data),
         master_data: parseJsonField(conflict.master_data),
+        base_data: parseJsonField(conflict.base_data),
+        merged_data: parseJsonField(conflict.merged_data),
+        conflict_fields: parseJsonField(conflict.conflict_fields),
       };
     },
 
     /**
-     * Resolve a conflict - applies the chosen strategy and updates mapping timestamp
+     * Store a note from the ship editor on a conflict (migration 007)
+     * Only the ship that raised the conflict may annotate it
+     */
+    async addShipNote(id: number, shipId: string, note: string): Promise<boolean> {
+      if (shipNoteColumnExists === null && await this.ensureTable()) {
+        shipNoteColumnExists = await (await connection()).schema.hasColumn('conflict_logs', 'ship_note');
+      }
+      if (!shipNoteColumnExists) {
+        strapi.log.warn('[Conflict] conflict_logs.ship_note column does not exist - run migration 007');
+        return false;
+      }
+
+      const db = await connection();
+      const updated = await db('conflict_logs')
+        .where({ id, ship_id: shipId })
+        .update({ ship_note: note });
+
+      return updated > 0;
+    },
+
+    /**
+     * Resolve a conflict - applies the chosen strategy and moves the mapping clock to the resolved state
+     * 'merge' without mergeData applies the stored three-way merge result, taking the
+     * ship value for fields listed as 'ship' in fieldChoices (master value otherwise)
+     * Ship and merged data are written to the conflict's locale and to the version the ship
+     * saved to (a draft save stays a draft); keep-master leaves the document as it is
+     * resolvedBy and note are stored for audit and sent to the ship
      */
     async resolveConflict(
       id: number,
       strategy: 'keep-ship' | 'keep-master' | 'merge',
-      mergeData?: any
+      mergeData?: any,
+      fieldChoices?: Record<string, 'ship' | 'master'>,
+      options: { resolvedBy?: string; note?: string | null } = {}
     ): Promise<any> {
       if (!await this.ensureTable()) {
         throw new Error('conflict_logs table does not exist');
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
       const conflict = await db('conflict_logs').where({ id }).first();
 
       if (!conflict) {
@@ -154,35 +348,75 @@ export default ({ strapi }: { strapi: any }) => {
       const documentId = conflict.content_id;
       const shipId = conflict.ship_id;
       const shipData = parseJsonField(conflict.ship_data);
+      const locale: string | null = conflict.locale || null;
+      const documentStatus: 'draft' | 'published' | null = conflict.document_status || null;
+      const resolvedBy = options.resolvedBy || 'admin';
+      const resolutionNote = options.note || null;
+      let appliedMergeData = mergeData;
 
       try {
         const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+        const syncService = strapi.plugin('offline-sync').service('sync-service');
+        const writeStatus = syncService.getWriteStatus({ documentStatus });
 
         if (strategy === 'keep-ship') {
-          // Apply ship data to master and publish
+          // Apply ship data to master, to the locale and version the ship edited
           await strapi.documents(contentType).update({
             documentId,
+            ...(locale && { locale }),
             data: shipData,
-            status: 'published',
+            status: writeStatus,
           });
           strapi.log.info(`[Conflict] ✅ #${id} resolved: Applied ship data`);
 
         } else if (strategy === 'keep-master') {
-          // Keep master data - no document update needed, but ensure it's published
-          await strapi.documents(contentType).publish({ documentId });
+          // Keep master data as it is - no document update needed
           strapi.log.info(`[Conflict] ✅ #${id} resolved: Kept master data`);
 
-        } else if (strategy === 'merge' && mergeData) {
-          // Apply merged data and publish
+        } else if (strategy === 'merge') {
+          let updateData = mergeData;
+
+          // No hand-written data: use the three-way merge result plus field choices
+          if (!updateData) {
+            const mergedData = parseJsonField(conflict.merged_data);
+            if (!mergedData) {
+              throw new Error('No merge data provided and no three-way merge result stored');
+            }
+
+            const threeWayMerge = strapi.plugin('offline-sync').service('three-way-merge');
+            const conflictFields = parseJsonField(conflict.conflict_fields) || [];
+            appliedMergeData = threeWayMerge.applyResolutions(mergedData, conflictFields, fieldChoices || {});
+            updateData = threeWayMerge.getChanges(parseJsonField(conflict.master_data) || {}, appliedMergeData);
+          }
+
+          // Apply merged data to the locale and version the ship edited
           await strapi.documents(contentType).update({
             documentId,
-            data: mergeData,
-            status: 'published',
+            ...(locale && { locale }),
+            data: updateData,
+            status: writeStatus,
           });
           strapi.log.info(`[Conflict] ✅ #${id} resolved: Applied merged data`);
         }
 
-        // IMPORTANT: Update the mapping timestamp so future syncs don't see a conflict
+        // Clock of the resolved state - the middleware logged it when the resolution was broadcast,
+        // otherwise (policy resolution while processing a ship update) it is issued here
+        const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
+        const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+        const fromShip = strapi.plugin('offline-sync').service('sync-context').isFromShip();
+        let resolvedClock = (await masterSyncQueue.getLastEditor(contentType, documentId))?.clock || null;
+        if (!resolvedClock || (fromShip && strategy !== 'keep-master')) {
+          resolvedClock = hybridClock.now();
+          await masterSyncQueue.logEdit({
+            contentType,
+            documentId,
+            operation: 'update',
+            editedBy: fromShip ? `ship-${shipId}` : 'master-admin',
+            clock: resolvedClock,
+          });
+        }
+
+        // IMPORTANT: Move the mapping clock to the resolved state so future syncs don't see a conflict
         // Find the mapping by masterDocumentId and update it
         const mappingContentType = 'plugin::offline-sync.document-mapping';
         const existingMapping = await strapi.documents(mappingContentType).findFirst({
@@ -194,60 +428,100 @@ export default ({ strapi }: { strapi: any }) => {
         });
 
         if (existingMapping) {
-          // Touch the mapping to update its timestamp
-          await strapi.documents(mappingContentType).update({
-            documentId: existingMapping.documentId,
-            data: { masterDocumentId: documentId }, // Same value, just to trigger updatedAt
-          });
-          strapi.log.debug(`[Conflict] Updated mapping timestamp for ${contentType}/${documentId}`);
+          await documentMapping.setMapping(
+            shipId,
+            contentType,
+            existingMapping.replicaDocumentId,
+            documentId,
+            existingMapping.lastSyncedBy || shipId,
+            resolvedClock
+          );
+          strapi.log.debug(`[Conflict] Updated mapping clock for ${contentType}/${documentId}: ${resolvedClock}`);
         }
 
-        // Mark conflict as resolved
+        // Mark conflict as resolved (the note needs migration 016)
+        if (resolutionNoteColumnExists === null) {
+          resolutionNoteColumnExists = await db.schema.hasColumn('conflict_logs', 'resolution_note');
+        }
+        if (resolutionNote && !resolutionNoteColumnExists) {
+          strapi.log.warn('[Conflict] conflict_logs.resolution_note column does not exist - run migration 016');
+        }
         await db('conflict_logs').where({ id }).update({
           resolution_strategy: strategy,
-          resolution_data: mergeData ? JSON.stringify(mergeData) : null,
+          resolution_data: appliedMergeData ? JSON.stringify(appliedMergeData) : null,
           resolved_at: new Date(),
-          resolved_by: 'admin',
+          resolved_by: resolvedBy,
+          ...(resolutionNoteColumnExists ? { resolution_note: resolutionNote } : {}),
         });
 
-        // Get the resolved document data to send to ship
+        // Get the resolved document data to send to ship (the version the ship edited)
         let resolvedData = null;
         try {
-          const doc = await strapi.documents(contentType).findOne({ documentId });
+          const doc = await strapi.documents(contentType).findOne({ documentId, status: writeStatus, ...(locale && { locale }) });
           if (doc) {
             // Clean the data before sending
-            const syncService = strapi.plugin('offline-sync').service('sync-service');
             resolvedData = syncService.cleanSyncData(doc);
           }
         } catch (e) {
           // Non-critical, continue without resolved data
         }
 
-        // Send resolution notification to ship via Kafka
-        try {
-          const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-          if (kafkaProducer.isConnected()) {
-            await kafkaProducer.sendToShips({
-              messageId: `conflict-resolved-${id}-${Date.now()}`,
-              shipId: shipId,
-              timestamp: new Date().toISOString(),
-              operation: 'conflict-resolved',
-              contentType,
-              contentId: documentId,
-              replicaDocumentId: existingMapping?.replicaDocumentId || null,
-              conflictId: id,
-              resolution: strategy,
-              resolvedData: resolvedData,
-              resolvedBy: 'admin',
-            });
-            strapi.log.info(`[Conflict] 📤 Sent resolution notification to ship ${shipId}`);
-          }
-        } catch (kafkaError: any) {
-          // Non-critical, log but don't fail
-          strapi.log.warn(`[Conflict] Could not notify ship of resolution: ${kafkaError.message}`);
+        // Resolved state becomes the common ancestor for the next three-way merge
+        if (existingMapping?.replicaDocumentId) {
+          await syncService.recordSyncSnapshot({
+            contentType,
+            masterDocumentId: documentId,
+            replicaDocumentId: existingMapping.replicaDocumentId,
+            shipId,
+            locale,
+            shipData: strategy === 'keep-ship' ? shipData : resolvedData,
+          });
         }
 
-        return { success: true, conflictId: id, strategy, contentType, documentId, shipId };
+        // Notify the ship once a surrounding bulk commits (policy resolution inside a ship bulk)
+        const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+        if (syncProducer.isConnected()) {
+          await syncService.afterCommit(async () => {
+            try {
+              await syncProducer.sendToShips({
+                messageId: `conflict-resolved-${id}-${Date.now()}`,
+                shipId: shipId,
+                timestamp: new Date().toISOString(),
+                operation: 'conflict-resolved',
+                contentType,
+                contentId: documentId,
+                replicaDocumentId: existingMapping?.replicaDocumentId || null,
+                conflictId: id,
+                resolution: strategy,
+                resolvedData: resolvedData,
+                resolvedBy,
+                resolutionNote,
+                locale,
+                documentStatus,
+                clock: resolvedClock,
+              });
+              strapi.log.info(`[Conflict] 📤 Sent resolution notification to ship ${shipId}`);
+            } catch (kafkaError: any) {
+              // Non-critical, log but don't fail
+              strapi.log.warn(`[Conflict] Could not notify ship of resolution: ${kafkaError.message}`);
+            }
+          });
+        }
+
+        await syncService.afterCommit(async () => {
+          strapi.eventHub?.emit('offline-sync.conflict-resolved', {
+            shipId,
+            contentType,
+            contentId: documentId,
+            conflictId: id,
+            resolution: strategy,
+            resolvedBy,
+            resolutionNote,
+            timestamp: new Date().toISOString(),
+          });
+        });
+
+        return { success: true, conflictId: id, strategy, contentType, documentId, shipId, resolvedBy, resolutionNote };
 
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -52,14 +52,14 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
+        const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
 
         // Always try to connect/reconnect - the connect() method handles cleanup internally
-        if (!kafkaProducer.isConnected()) {
-          strapi.log.debug('[Connectivity] Kafka disconnected, attempting to reconnect...');
+        if (!syncProducer.isConnected()) {
+          strapi.log.debug('[Connectivity] Transport disconnected, attempting to reconnect...');
           try {
-            await kafkaProducer.connect();
-            strapi.log.info('[Connectivity] ✅ Kafka reconnected successfully');
+            await syncProducer.connect();
+            strapi.log.info('[Connectivity] ✅ Transport reconnected successfully');
           } catch (connectError: any) {
             strapi.log.debug(`[Connectivity] Reconnect attempt failed: ${connectError.message}`);
             isOnline = false;
@@ -68,14 +68,14 @@ export default ({ strapi }: { strapi: any }) => {
         }
 
         // Verify connection with health check
-        const healthy = await kafkaProducer.healthCheck();
+        const healthy = await syncProducer.healthCheck();
 
         if (!healthy) {
           // Health check failed, try to reconnect
           strapi.log.debug('[Connectivity] Health check failed, forcing reconnect...');
           try {
-            await kafkaProducer.connect();
-            isOnline = kafkaProducer.isConnected();
+            await syncProducer.connect();
+            isOnline = syncProducer.isConnected();
           } catch {
             isOnline = false;
           }
@@ -0,0 +1,266 @@
+/**
+ * Dead Letter Retry Service (Master only)
+ *
+ * Background worker that replays pending dead letters through
+ * sync-service.processShipUpdate with exponential backoff.
+ * - Entries that reach maxRetries are moved to 'exhausted'
+ * - Successful replays are marked 'resolved'
+ * - Attempt counters are exposed via getStats() for health/metrics
+ * - Runs alongside the consumer: each replay carries its own sync context (sync-context)
+ */
+
+interface RetryConfig {
+  enabled: boolean;
+  interval: number;
+  baseDelay: number;
+  maxDelay: number;
+  batchSize: number;
+}
+
+interface RetryStats {
+  lastRunAt: Date | null;
+  attempts: number;
+  succeeded: number;
+  failed: number;
+  exhausted: number;
+  isRunning: boolean;
+}
+
+export default ({ strapi: strapiInstance }: { strapi: any }) => {
+  // Capture strapi in closure to ensure it's always available
+  const strapi = strapiInstance;
+  let retryIntervalId: NodeJS.Timeout | null = null;
+  let isRetrying = false;
+
+  const retryStats: RetryStats = {
+    lastRunAt: null,
+    attempts: 0,
+    succeeded: 0,
+    failed: 0,
+    exhausted: 0,
+    isRunning: false,
+  };
+
+  /**
+   * Get retry configuration from plugin config
+   */
+  const getRetryConfig = (): RetryConfig => {
+    const config = strapi.config.get('plugin::offline-sync', {});
+    const deadLetter = config.deadLetter || {};
+
+    return {
+      enabled: deadLetter.retryEnabled !== false,
+      interval: deadLetter.retryInterval || 60000, // 1 minute
+      baseDelay: deadLetter.retryBaseDelay || 30000, // 30 seconds
+      maxDelay: deadLetter.retryMaxDelay || 3600000, // 1 hour
+      batchSize: deadLetter.retryBatchSize || 20,
+    };
+  };
+
+  /**
+   * Check if DB connection is available
+   */
+  const isDbAvailable = (): boolean => {
+    if (!strapi?.db) return false;
+    if ((strapi as any)._isShuttingDown) return false;
+    try {
+      const connection = strapi.db.connection;
+      return connection && !connection.destroyed;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Rebuild the original ship message from a dead letter entry
+   * New entries store the full message as payload; older entries only
+   * stored { version, data, locale }, so fall back to the entry columns.
+   */
+  const buildReplayMessage = (entry: any): any => {
+    const payload = entry.payload || {};
+
+    // Bulk messages are replayed as a whole (processShipBulk)
+    if ((payload.contentType || payload.operation === 'bulk') && payload.shipId) {
+      return { ...payload, messageId: entry.messageId };
+    }
+
+    return {
+      messageId: entry.messageId,
+      shipId: entry.shipId,
+      timestamp: new Date().toISOString(),
+      operation: entry.operation,
+      contentType: entry.contentType,
+      contentId: entry.contentId,
+      version: payload.version || 0,
+      data: payload.data || {},
+      locale: payload.locale || null,
+    };
+  };
+
+  return {
+    /**
+     * Check if retry worker is enabled (master mode only)
+     */
+    isEnabled(): boolean {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      return config.mode === 'master' && getRetryConfig().enabled;
+    },
+
+    /**
+     * Start the periodic retry worker
+     */
+    start(): void {
+      if (!this.isEnabled()) {
+        strapi.log.debug('[DeadLetterRetry] Retry worker not enabled');
+        return;
+      }
+
+      if (retryIntervalId) {
+        clearInterval(retryIntervalId);
+      }
+
+      const retryConfig = getRetryConfig();
+      retryIntervalId = setInterval(() => {
+        this.runOnce().catch((error: any) => {
+          strapi.log.debug(`[DeadLetterRetry] Run error: ${error.message}`);
+        });
+      }, retryConfig.interval);
+
+      strapi.log.info(`[DeadLetterRetry] ✅ Enabled (interval: ${retryConfig.interval / 1000}s, base delay: ${retryConfig.baseDelay / 1000}s)`);
+    },
+
+    /**
+     * Stop the retry worker
+     */
+    stop(): void {
+      if (retryIntervalId) {
+        clearInterval(retryIntervalId);
+        retryIntervalId = null;
+      }
+    },
+
+    /**
+     * Compute when an entry is next eligible for retry
+     * delay = baseDelay * 2^retryCount, capped at maxDelay
+     */
+    getNextRetryAt(entry: { retryCount: number; lastRetryAt: Date | string | null; createdAt: Date | string }): Date {
+      const { baseDelay, maxDelay } = getRetryConfig();
+      const delay = Math.min(baseDelay * Math.pow(2, entry.retryCount || 0), maxDelay);
+      const from = new Date(entry.lastRetryAt || entry.createdAt);
+      return new Date(from.getTime() + delay);
+    },
+
+    /**
+     * Process one batch of due dead letters
+     */
+    async runOnce(): Promise<{ attempted: number; succeeded: number; failed: number; exhausted: number }> {
+      const result = { attempted: 0, succeeded: 0, failed: 0, exhausted: 0 };
+
+      if (isRetrying || !isDbAvailable()) {
+        return result;
+      }
+
+      isRetrying = true;
+      retryStats.isRunning = true;
+
+      try {
+        const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+        const { batchSize } = getRetryConfig();
+        const pageSize = batchSize * 5;
+        const now = Date.now();
+
+        // Page through pending entries until the batch is filled: older entries
+        // still backing off must not hide newer ones that are already due
+        let afterId = 0;
+        while (result.attempted < batchSize && isDbAvailable()) {
+          const pending = await deadLetter.getPending(pageSize, afterId);
+
+          for (const entry of pending) {
+            if (result.attempted >= batchSize || !isDbAvailable()) break;
+            afterId = entry.id;
+
+            // Entries that already used up their retries (including maxRetries: 0)
+            if (entry.retryCount >= entry.maxRetries) {
+              await deadLetter.markExhausted(entry.id);
+              result.exhausted++;
+              continue;
+            }
+
+            if (this.getNextRetryAt(entry).getTime() > now) {
+              continue;
+            }
+
+            const outcome = await this.retry(entry.id);
+            result.attempted++;
+            if (outcome.success) {
+              result.succeeded++;
+            } else if (outcome.status === 'exhausted') {
+              result.failed++;
+              result.exhausted++;
+            } else {
+              result.failed++;
+            }
+          }
+
+          if (pending.length < pageSize) break;
+        }
+
+        if (result.attempted > 0 || result.exhausted > 0) {
+          strapi.log.info(`[DeadLetterRetry] Run complete: ${result.attempted} attempted, ${result.succeeded} resolved, ${result.failed} failed, ${result.exhausted} exhausted`);
+        }
+
+        return result;
+      } catch (error: any) {
+        strapi.log.error(`[DeadLetterRetry] Run failed: ${error.message}`);
+        return result;
+      } finally {
+        retryStats.lastRunAt = new Date();
+        retryStats.exhausted += result.exhausted;
+        retryStats.isRunning = false;
+        isRetrying = false;
+      }
+    },
+
+    /**
+     * Replay a single dead letter through processShipUpdate
+     */
+    async retry(id: number): Promise<{ success: boolean; status: string; error?: string }> {
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+      const syncService = strapi.plugin('offline-sync').service('sync-service');
+
+      const entry = await deadLetter.markRetrying(id);
+      if (!entry) {
+        return { success: false, status: 'unknown', error: 'Dead letter not found' };
+      }
+
+      retryStats.attempts++;
+
+      try {
+        await syncService.processShipUpdate(buildReplayMessage(entry), { replay: true });
+        await deadLetter.markResolved(id, 'retry-worker');
+        retryStats.succeeded++;
+        strapi.log.info(`[DeadLetterRetry] ✅ Replayed ${entry.messageId} (attempt ${entry.retryCount}/${entry.maxRetries})`);
+        return { success: true, status: 'resolved' };
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const updated = await deadLetter.markRetryFailed(id, error instanceof Error ? error : new Error(errorMessage));
+        retryStats.failed++;
+
+        const status = updated?.status || 'pending';
+        if (status === 'exhausted') {
+          strapi.log.warn(`[DeadLetterRetry] ❌ ${entry.messageId} exhausted after ${entry.retryCount} attempts: ${errorMessage}`);
+        } else {
+          strapi.log.debug(`[DeadLetterRetry] Retry ${entry.retryCount}/${entry.maxRetries} failed for ${entry.messageId}: ${errorMessage}`);
+        }
+        return { success: false, status, error: errorMessage };
+      }
+    },
+
+    /**
+     * Get retry worker statistics
+     */
+    getStats(): RetryStats {
+      return { ...retryStats };
+    },
+  };
+};
@@ -104,9 +104,10 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
     },
 
     /**
-     * Get all pending dead letters for retry
+     * Get pending dead letters for retry, oldest first
+     * Pass the last id of the previous page as afterId to read the next page
      */
-    async getPending(limit: number = 100): Promise<DeadLetter[]> {
+    async getPending(limit: number = 100, afterId: number = 0): Promise<DeadLetter[]> {
       if (!strapi || !strapi.db) {
         console.error('[DeadLetter] Strapi instance not available');
         return [];
@@ -116,8 +117,9 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         const result = await strapi.db.query(CONTENT_TYPE).findMany({
           where: {
             status: { $in: ['pending', 'retrying'] },
+            id: { $gt: afterId },
           },
-          orderBy: { createdAt: 'asc' },
+          orderBy: { id: 'asc' },
           limit,
         });
         return result as DeadLetter[];
@@ -133,7 +135,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
     /**
      * Get all dead letters
      */
-    async getAll(filters?: { status?: string; shipId?: string }): Promise<DeadLetter[]> {
+    async getAll(filters?: { status?: string; shipId?: string; contentType?: string }): Promise<DeadLetter[]> {
       if (!strapi || !strapi.db) {
         console.error('[DeadLetter] Strapi instance not available');
         return [];
@@ -147,6 +149,9 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         if (filters?.shipId) {
           queryWhere.shipId = filters.shipId;
         }
+        if (filters?.contentType) {
+          queryWhere.contentType = filters.contentType;
+        }
 
         const result = await strapi.db.query(CONTENT_TYPE).findMany({
           where: queryWhere,
@@ -210,7 +215,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
     },
 
     /**
-     * Mark a dead letter as being retried
+     * Mark a dead letter as being retried (increments retryCount)
      */
     async markRetrying(id: number): Promise<DeadLetter | null> {
       if (!strapi || !strapi.db) {
@@ -222,14 +227,11 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         const existing = await this.get(id);
         if (!existing) return null;
 
-        const newRetryCount = existing.retryCount + 1;
-        const status = newRetryCount >= existing.maxRetries ? 'exhausted' : 'retrying';
-
         const updated = await strapi.db.query(CONTENT_TYPE).update({
           where: { id },
           data: {
-            retryCount: newRetryCount,
-            status,
+            retryCount: existing.retryCount + 1,
+            status: 'retrying',
             lastRetryAt: new Date(),
             updatedAt: new Date(),
           },
@@ -245,6 +247,47 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Record a failed retry attempt
+     * Returns the entry to 'pending', or 'exhausted' once maxRetries is reached
+     */
+    async markRetryFailed(id: number, error: Error | string): Promise<DeadLetter | null> {
+      if (!strapi || !strapi.db) {
+        console.error('[DeadLetter] Strapi instance not available');
+        return null;
+      }
+
+      try {
+        const existing = await this.get(id);
+        if (!existing) return null;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        const status = existing.retryCount >= existing.maxRetries ? 'exhausted' : 'pending';
+
+        const updated = await strapi.db.query(CONTENT_TYPE).update({
+          where: { id },
+          data: {
+            status,
+            errorMessage,
+            errorStack: errorStack || null,
+            updatedAt: new Date(),
+          },
+        });
+
+        if (status === 'exhausted' && strapi.log) {
+          strapi.log.warn(`[DeadLetter] Message ${id} exhausted all retries`);
+        }
+        return updated as DeadLetter;
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        if (strapi && strapi.log) {
+          strapi.log.error(`[DeadLetter] Failed to mark retry failed: ${message}`);
+        }
+        return null;
+      }
+    },
+
     /**
      * Mark a dead letter as resolved (successfully processed on retry)
      */
@@ -309,6 +352,49 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Replace the stored payload (e.g. to fix bad data before a retry)
+     * Exhausted entries are returned to 'pending' with a fresh retry budget
+     */
+    async updatePayload(id: number, payload: Record<string, unknown>): Promise<DeadLetter | null> {
+      if (!strapi || !strapi.db) {
+        console.error('[DeadLetter] Strapi instance not available');
+        return null;
+      }
+
+      try {
+        const existing = await this.get(id);
+        if (!existing) return null;
+
+        const data: Record<string, unknown> = {
+          payload,
+          updatedAt: new Date(),
+        };
+        if (existing.status === 'exhausted') {
+          data.status = 'pending';
+          data.retryCount = 0;
+          data.maxRetries = existing.maxRetries > 0 ? existing.maxRetries : 3;
+          data.lastRetryAt = null;
+        }
+
+        const updated = await strapi.db.query(CONTENT_TYPE).update({
+          where: { id },
+          data,
+        });
+
+        if (strapi.log) {
+          strapi.log.info(`[DeadLetter] Payload updated for message ${id}`);
+        }
+        return updated as DeadLetter;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (strapi && strapi.log) {
+          strapi.log.error(`[DeadLetter] Failed to update payload: ${message}`);
+        }
+        return null;
+      }
+    },
+
     /**
      * Delete a dead letter
      */
@@ -339,9 +425,10 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       retrying: number;
       exhausted: number;
       resolved: number;
+      totalRetries: number;
     }> {
       if (!strapi || !strapi.db) {
-        return { total: 0, pending: 0, retrying: 0, exhausted: 0, resolved: 0 };
+        return { total: 0, pending: 0, retrying: 0, exhausted: 0, resolved: 0, totalRetries: 0 };
       }
 
       try {
@@ -355,9 +442,10 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
           retrying: all.filter((d: DeadLetter) => d.status === 'retrying').length,
           exhausted: all.filter((d: DeadLetter) => d.status === 'exhausted').length,
           resolved: all.filter((d: DeadLetter) => d.status === 'resolved').length,
+          totalRetries: all.reduce((sum: number, d: DeadLetter) => sum + (d.retryCount || 0), 0),
         };
       } catch (error) {
-        return { total: 0, pending: 0, retrying: 0, exhausted: 0, resolved: 0 };
+        return { total: 0, pending: 0, retrying: 0, exhausted: 0, resolved: 0, totalRetries: 0 };
       }
     },
 
@@ -0,0 +1,348 @@
+/**
+ * Delta Sync Service
+ * Shrinks update messages to a JSON-patch style delta against the last synced state.
+ *
+ * Both ends keep the last payload exchanged per document (delta_snapshots):
+ * - outgoing: last payload this node sent (peer 'master' on ships, 'ships' on master)
+ * - incoming: last payload this node received (peer 'master' on ships, the shipId on master)
+ *
+ * A delta carries the hash of the sender's base and of the resulting document.
+ * When the receiver's snapshot has a different hash (missed or failed message),
+ * it asks the sender for the full document instead (operation 'full-request').
+ */
+
+import { createHash } from 'crypto';
+
+export interface DeltaOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;                  // RFC 6901 pointer, e.g. "/seo/metaTitle" or "/blocks/2/title"
+  value?: any;
+}
+
+export interface DeltaPayload {
+  baseHash: string;              // Hash of the snapshot the patch applies to
+  hash: string;                  // Hash of the full document after applying the patch
+  patch: DeltaOperation[];
+}
+
+export interface SnapshotKey {
+  direction: 'outgoing' | 'incoming';
+  peer: string;
+  contentType: string;
+  documentId: string;
+  locale?: string | null;
+}
+
+// Operations that carry the full document (only updates are sent as deltas)
+const FULL_DATA_OPERATIONS = ['create', 'update', 'publish'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Same value as it arrives on the other side (Dates become strings, undefined disappears)
+const normalize = (value: any): any => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+const escapePointer = (segment: string | number): string =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapePointer = (segment: string): string =>
+  segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * Diff two JSON values into patch operations
+ * Objects are diffed per key, equal-length arrays per index, anything else is replaced
+ */
+const diffValues = (base: any, target: any, path: string, ops: DeltaOperation[]): void => {
+  if (stableStringify(base) === stableStringify(target)) return;
+
+  if (isPlainObject(base) && isPlainObject(target)) {
+    for (const key of Object.keys(base)) {
+      if (!(key in target)) {
+        ops.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    }
+    for (const key of Object.keys(target)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (!(key in base)) {
+        ops.push({ op: 'add', path: childPath, value: target[key] });
+      } else {
+        diffValues(base[key], target[key], childPath, ops);
+      }
+    }
+    return;
+  }
+
+  // Reordered or resized dynamic zones are sent whole
+  if (Array.isArray(base) && Array.isArray(target) && base.length === target.length) {
+    target.forEach((item, index) => diffValues(base[index], item, `${path}/${index}`, ops));
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: target });
+};
+
+/**
+ * Apply patch operations to a copy of base (throws on paths that don't exist)
+ */
+const applyPatch = (base: any, patch: DeltaOperation[]): any => {
+  let document = normalize(base);
+
+  for (const operation of patch) {
+    if (operation.path === '') {
+      if (operation.op === 'remove') throw new Error('Cannot remove the document root');
+      document = normalize(operation.value);
+      continue;
+    }
+
+    const segments = operation.path.split('/').slice(1).map(unescapePointer);
+    const last = segments.pop() as string;
+    let parent = document;
+    for (const segment of segments) {
+      parent = Array.isArray(parent) ? parent[Number(segment)] : parent?.[segment];
+      if (parent === null || typeof parent !== 'object') {
+        throw new Error(`Patch path not found: ${operation.path}`);
+      }
+    }
+
+    if (Array.isArray(parent)) {
+      const index = Number(last);
+      if (!Number.isInteger(index) || index < 0 || index >= parent.length) {
+        throw new Error(`Patch index out of range: ${operation.path}`);
+      }
+      if (operation.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = normalize(operation.value);
+      }
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      if (operation.op === 'replace' && !(last in parent)) {
+        throw new Error(`Patch path not found: ${operation.path}`);
+      }
+      parent[last] = normalize(operation.value);
+    }
+  }
+
+  return document;
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  let tableExists: boolean | null = null;
+
+  // Joins a surrounding transaction (bulk-sync), e.g. while master applies a ship bulk
+  const connection = () => strapi.plugin('offline-sync').service('bulk-sync').connection();
+
+  const parseJsonField = (value: any): any => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  };
+
+  const toRow = (key: SnapshotKey) => ({
+    direction: key.direction,
+    peer: key.peer,
+    content_type: key.contentType,
+    document_id: String(key.documentId),
+    locale: key.locale || '',
+  });
+
+  return {
+    /**
+     * Whether this node sends deltas (receiving them is always supported)
+     */
+    isEnabled(): boolean {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      return config.sync?.deltas !== false;
+    },
+
+    /**
+     * Check if delta_snapshots table exists (cached)
+     */
+    async ensureTable(): Promise<boolean> {
+      if (tableExists !== null) return tableExists;
+
+      try {
+        const db = await connection();
+        tableExists = await db.schema.hasTable('delta_snapshots');
+        return tableExists;
+      } catch (error: any) {
+        strapi.log.warn(`[Delta] Failed to check table: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Stable hash of a JSON value (key order independent)
+     */
+    hash(value: any): string {
+      return createHash('sha256').update(stableStringify(normalize(value))).digest('hex');
+    },
+
+    /**
+     * Patch operations turning base into target
+     */
+    diff(base: any, target: any): DeltaOperation[] {
+      const ops: DeltaOperation[] = [];
+      diffValues(normalize(base), normalize(target), '', ops);
+      return ops;
+    },
+
+    /**
+     * Apply patch operations to base (base is not modified)
+     */
+    apply(base: any, patch: DeltaOperation[]): any {
+      return applyPatch(base, patch);
+    },
+
+    /**
+     * Get the last synced payload for a document
+     */
+    async getSnapshot(key: SnapshotKey): Promise<{ data: any; hash: string } | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const db = await connection();
+      const row = await db('delta_snapshots').where(toRow(key)).first();
+      if (!row) return null;
+
+      return { data: parseJsonField(row.data), hash: row.hash };
+    },
+
+    /**
+     * Store a payload as the last synced state, returns its hash
+     */
+    async remember(key: SnapshotKey, data: any): Promise<string | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const hash = this.hash(data);
+      const db = await connection();
+      await db('delta_snapshots')
+        .insert({
+          ...toRow(key),
+          data: JSON.stringify(normalize(data)),
+          hash,
+          updated_at: new Date(),
+        })
+        .onConflict(['direction', 'peer', 'content_type', 'document_id', 'locale'])
+        .merge(['data', 'hash', 'updated_at']);
+
+      return hash;
+    },
+
+    /**
+     * Drop the last synced state (next message for the document is sent in full)
+     */
+    async forget(key: SnapshotKey): Promise<void> {
+      if (!await this.ensureTable()) {
+        return;
+      }
+
+      const db = await connection();
+      await db('delta_snapshots').where(toRow(key)).delete();
+    },
+
+    /**
+     * Prepare an outgoing message: updates become deltas when a snapshot exists
+     * and the patch is smaller than the document. The full data becomes the new snapshot,
+     * so call forget() with the same key if sending fails.
+     * With options.full the message always stays full (bundles: no full-request round trip)
+     */
+    async encode(key: SnapshotKey, message: any, options: { full?: boolean } = {}): Promise<any> {
+      try {
+        if (message.operation === 'delete') {
+          await this.forget(key);
+          return message;
+        }
+        if (!FULL_DATA_OPERATIONS.includes(message.operation) || !message.data) {
+          return message;
+        }
+
+        const data = normalize(message.data);
+        const snapshot = message.operation === 'update' && this.isEnabled() && !options.full
+          ? await this.getSnapshot(key)
+          : null;
+        const hash = await this.remember(key, data);
+
+        if (!snapshot || !hash) {
+          return message;
+        }
+
+        const patch = this.diff(snapshot.data, data);
+        if (JSON.stringify(patch).length >= JSON.stringify(data).length) {
+          return message;
+        }
+
+        const encoded = { ...message, delta: { baseHash: snapshot.hash, hash, patch } as DeltaPayload };
+        delete encoded.data;
+
+        strapi.log.debug(`[Delta] ${key.contentType}/${key.documentId}: ${patch.length} op(s) instead of full document`);
+        return encoded;
+      } catch (error: any) {
+        // Deltas are an optimisation - fall back to the full message
+        strapi.log.warn(`[Delta] Could not encode ${key.contentType}/${key.documentId}: ${error.message}`);
+        await this.forget(key).catch(() => undefined);
+        return message;
+      }
+    },
+
+    /**
+     * Resolve the full data of an incoming message and remember it as the last synced state
+     * Returns null when a delta doesn't match the local snapshot (request the full document)
+     */
+    async decode(key: SnapshotKey, message: any): Promise<any> {
+      if (message.operation === 'delete') {
+        await this.forget(key);
+        return message.data ?? null;
+      }
+
+      const delta: DeltaPayload | undefined = message.delta;
+      if (!delta) {
+        if (message.data && FULL_DATA_OPERATIONS.includes(message.operation)) {
+          await this.remember(key, message.data);
+        }
+        return message.data;
+      }
+
+      const snapshot = await this.getSnapshot(key);
+      if (!snapshot || snapshot.hash !== delta.baseHash) {
+        strapi.log.info(`[Delta] Base mismatch for ${key.contentType}/${key.documentId} (${snapshot ? 'stale snapshot' : 'no snapshot'})`);
+        return null;
+      }
+
+      let data: any;
+      try {
+        data = this.apply(snapshot.data, delta.patch);
+      } catch (error: any) {
+        strapi.log.warn(`[Delta] Patch failed for ${key.contentType}/${key.documentId}: ${error.message}`);
+        return null;
+      }
+
+      if (this.hash(data) !== delta.hash) {
+        strapi.log.warn(`[Delta] Hash mismatch after patching ${key.contentType}/${key.documentId}`);
+        return null;
+      }
+
+      await this.remember(key, data);
+      return data;
+    },
+  };
+};
@@ -14,6 +14,7 @@ interface DocumentMapping {
     replicaDocumentId: string;
     masterDocumentId: string;
     lastSyncedBy: string | null;  // ShipId of last ship that synced (for conflict detection)
+    clock: string | null;         // Hybrid logical clock of the last synced state
     createdAt: Date;
     updatedAt: Date;
 }
@@ -85,13 +86,15 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         /**
          * Create or update a document mapping
          * @param lastSyncedBy - ShipId that performed this sync (for conflict detection)
+         * @param clock - Hybrid logical clock of the synced state (kept as-is when omitted)
          */
         async setMapping(
             shipId: string,
             contentType: string,
             replicaDocumentId: string,
             masterDocumentId: string,
-            lastSyncedBy?: string  // Optional: which ship performed this sync
+            lastSyncedBy?: string,  // Optional: which ship performed this sync
+            clock?: string | null
         ): Promise<DocumentMapping | null> {
             if (!isDbAvailable()) {
                 return null;
@@ -118,6 +121,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
                         data: { 
                             masterDocumentId,
                             lastSyncedBy: syncedBy,
+                            ...(clock && { clock }),
                             updatedAt: now,
                         },
                     });
@@ -133,6 +137,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
                         replicaDocumentId,
                         masterDocumentId,
                         lastSyncedBy: syncedBy,
+                        clock: clock || null,
                         createdAt: now,
                         updatedAt: now,
                     },
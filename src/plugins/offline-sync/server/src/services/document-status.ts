@@ -0,0 +1,166 @@
+/**
+ * Document Status Service
+ *
+ * Sync status of documents as shown in the content manager (edit view panel
+ * and list view column):
+ * - replica: derived from the document's sync_queue entries and its mapping
+ * - master: derived from unresolved conflict_logs and the ships' mappings
+ *
+ * Only entries newer than the document's last settled entry count, so an old
+ * failure that a later push superseded no longer shows.
+ */
+
+const MAPPING_CONTENT_TYPE = 'plugin::offline-sync.document-mapping';
+
+// Queue statuses that close a change (master accepted it or it was resolved)
+const SETTLED_STATUSES = ['synced', 'conflict_accepted', 'conflict_merged', 'conflict_resolved'];
+
+// Queue statuses waiting for the ship editor (conflict inbox)
+const CONFLICT_STATUSES = ['conflict_pending', 'conflict', 'conflict_rejected'];
+
+// Queue statuses not yet confirmed by master
+const PENDING_STATUSES = ['pending', 'syncing', 'pushed'];
+
+export type DocumentSyncState = 'pending' | 'synced' | 'conflict' | 'failed' | 'not-synced';
+
+export interface DocumentStatus {
+  documentId: string;
+  status: DocumentSyncState;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+  ships?: string[];               // master: ships holding a copy
+}
+
+export default ({ strapi }: { strapi: any }) => {
+  let conflictTableExists: boolean | null = null;
+
+  const toIso = (value: any): string | null => {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  };
+
+  const latest = (...values: Array<string | null>): string | null =>
+    values.filter(Boolean).sort().pop() ?? null;
+
+  /**
+   * Replica: status per document from its queue entries (oldest first)
+   */
+  const fromQueue = (documentId: string, entries: any[], mapping: any | null): DocumentStatus => {
+    let settledIndex = -1;
+    let lastSyncedAt: string | null = toIso(mapping?.updatedAt);
+    entries.forEach((entry, index) => {
+      if (SETTLED_STATUSES.includes(entry.status)) {
+        settledIndex = index;
+        lastSyncedAt = latest(lastSyncedAt, toIso(entry.conflict_resolved_at || entry.synced_at || entry.created_at));
+      }
+    });
+
+    const open = entries.slice(settledIndex + 1);
+    const pendingCount = open.filter((entry) => PENDING_STATUSES.includes(entry.status)).length;
+    const conflict = open.find((entry) => CONFLICT_STATUSES.includes(entry.status));
+    const failed = open.filter((entry) => entry.status === 'failed').pop();
+
+    let status: DocumentSyncState;
+    if (conflict) {
+      status = 'conflict';
+    } else if (failed) {
+      status = 'failed';
+    } else if (pendingCount > 0) {
+      status = 'pending';
+    } else {
+      status = entries.length > 0 || mapping ? 'synced' : 'not-synced';
+    }
+
+    return {
+      documentId,
+      status,
+      pendingCount,
+      lastSyncedAt,
+      error: conflict?.error_message ?? failed?.error_message ?? null,
+    };
+  };
+
+  return {
+    /**
+     * Sync status of several documents of one content type, keyed by documentId
+     */
+    async getStatuses(contentType: string, documentIds: string[]): Promise<Record<string, DocumentStatus>> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const statuses: Record<string, DocumentStatus> = {};
+      if (documentIds.length === 0) return statuses;
+
+      if (config.mode === 'master') {
+        return this.getMasterStatuses(contentType, documentIds);
+      }
+
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const [entries, mappings] = await Promise.all([
+        syncQueue.getDocumentEntries(config.shipId, contentType, documentIds),
+        strapi.db.query(MAPPING_CONTENT_TYPE).findMany({
+          where: { shipId: config.shipId, contentType, replicaDocumentId: { $in: documentIds } },
+        }),
+      ]);
+
+      const entriesByDocument = new Map<string, any[]>();
+      for (const entry of entries) {
+        const list = entriesByDocument.get(entry.content_id) || [];
+        list.push(entry);
+        entriesByDocument.set(entry.content_id, list);
+      }
+      const mappingByDocument = new Map<string, any>(
+        mappings.map((mapping: any) => [mapping.replicaDocumentId, mapping])
+      );
+
+      for (const documentId of documentIds) {
+        statuses[documentId] = fromQueue(
+          documentId,
+          entriesByDocument.get(documentId) || [],
+          mappingByDocument.get(documentId) ?? null
+        );
+      }
+      return statuses;
+    },
+
+    /**
+     * Master: conflict while a ship's change to the document is unresolved,
+     * synced once at least one ship holds a copy
+     */
+    async getMasterStatuses(contentType: string, documentIds: string[]): Promise<Record<string, DocumentStatus>> {
+      const db = strapi.db.connection;
+      if (conflictTableExists === null) {
+        conflictTableExists = await db.schema.hasTable('conflict_logs');
+      }
+
+      const [conflicts, mappings] = await Promise.all([
+        conflictTableExists
+          ? db('conflict_logs')
+            .where({ content_type: contentType })
+            .whereIn('content_id', documentIds)
+            .whereNull('resolved_at')
+            .select('content_id', 'ship_id')
+          : [],
+        strapi.db.query(MAPPING_CONTENT_TYPE).findMany({
+          where: { contentType, masterDocumentId: { $in: documentIds } },
+        }),
+      ]);
+
+      const statuses: Record<string, DocumentStatus> = {};
+      for (const documentId of documentIds) {
+        const copies = mappings.filter((mapping: any) => mapping.masterDocumentId === documentId);
+        const open = conflicts.filter((conflict: any) => conflict.content_id === documentId);
+
+        statuses[documentId] = {
+          documentId,
+          status: open.length > 0 ? 'conflict' : copies.length > 0 ? 'synced' : 'not-synced',
+          pendingCount: 0,
+          lastSyncedAt: latest(...copies.map((mapping: any) => toIso(mapping.updatedAt))),
+          error: open.length > 0 ? `Unresolved conflict from ${open.map((conflict: any) => conflict.ship_id).join(', ')}` : null,
+          ships: copies.map((mapping: any) => mapping.shipId),
+        };
+      }
+      return statuses;
+    },
+  };
+};
@@ -0,0 +1,166 @@
+/**
+ * Event Stream Service
+ *
+ * Server-sent events for the admin page (GET /offline-sync/events).
+ * Forwards the plugin's strapi.eventHub events to every connected admin:
+ * - conflict / conflict-resolved: a conflict was raised or resolved
+ * - queue-changed: replica sync_queue entries changed status
+ * - ship-heartbeat / ship-status: master heard from a ship or marked it offline
+ * - media-progress: media sync started, progressed or finished
+ * - pull-complete: a pull (or bundle import) finished
+ *
+ * Bursty events are coalesced so a large push sends one queue-changed per second.
+ */
+
+import { PassThrough } from 'stream';
+
+// Plugin events forwarded to admins (SSE event name = part after 'offline-sync.')
+const STREAMED_EVENTS = [
+  'offline-sync.conflict',
+  'offline-sync.conflict-resolved',
+  'offline-sync.queue-changed',
+  'offline-sync.ship-heartbeat',
+  'offline-sync.ship-status',
+  'offline-sync.media-progress',
+  'offline-sync.pull-complete',
+];
+
+// Events sent at most once per COALESCE_INTERVAL (latest payload wins)
+const COALESCED_EVENTS = ['offline-sync.queue-changed', 'offline-sync.media-progress'];
+const COALESCE_INTERVAL = 1000;
+
+// Comment line keeping idle connections (and proxies) open
+const KEEPALIVE_INTERVAL = 25000;
+
+// Concurrent admin connections served per instance
+const MAX_CLIENTS = 50;
+
+// Events buffered per client before a stalled client is dropped (it reconnects)
+const CLIENT_BUFFER_BYTES = 256 * 1024;
+
+// Document bodies stay out of the stream (the page refetches what it shows)
+const OMITTED_FIELDS = ['masterData', 'shipData', 'mergedData', 'data'];
+
+interface StreamClient {
+  id: number;
+  stream: PassThrough;
+}
+
+export default ({ strapi }: { strapi: any }) => {
+  const clients = new Map<number, StreamClient>();
+  const coalesced = new Map<string, any>();
+  let nextClientId = 1;
+  let nextEventId = 1;
+  let unsubscribe: (() => void) | null = null;
+  let keepAliveId: NodeJS.Timeout | null = null;
+  let coalesceId: NodeJS.Timeout | null = null;
+
+  /**
+   * Write to every client; a client whose buffer is full (slow or stalled
+   * connection) is ended instead of buffering events without bound
+   */
+  const write = (chunk: string): void => {
+    for (const client of [...clients.values()]) {
+      if (!client.stream.write(chunk)) {
+        clients.delete(client.id);
+        client.stream.end();
+        strapi.log.debug(`[EventStream] Dropped slow client ${client.id}`);
+      }
+    }
+  };
+
+  const send = (eventName: string, payload: any): void => {
+    const summary = payload && typeof payload === 'object'
+      ? Object.fromEntries(Object.entries(payload).filter(([key]) => !OMITTED_FIELDS.includes(key)))
+      : payload ?? {};
+
+    write(`id: ${nextEventId++}\nevent: ${eventName.replace(/^offline-sync\./, '')}\ndata: ${JSON.stringify(summary)}\n\n`);
+  };
+
+  const flushCoalesced = (): void => {
+    coalesceId = null;
+    for (const [eventName, payload] of coalesced) {
+      send(eventName, payload);
+    }
+    coalesced.clear();
+  };
+
+  const subscriber = async (eventName: string, payload?: any): Promise<void> => {
+    if (clients.size === 0 || !STREAMED_EVENTS.includes(eventName)) return;
+
+    if (COALESCED_EVENTS.includes(eventName)) {
+      coalesced.set(eventName, payload);
+      if (!coalesceId) {
+        coalesceId = setTimeout(flushCoalesced, COALESCE_INTERVAL);
+      }
+      return;
+    }
+    send(eventName, payload);
+  };
+
+  return {
+    /**
+     * Subscribe to the event hub (once, from bootstrap)
+     */
+    start(): void {
+      if (unsubscribe || !strapi.eventHub) return;
+
+      unsubscribe = strapi.eventHub.subscribe(subscriber);
+      keepAliveId = setInterval(() => write(': keep-alive\n\n'), KEEPALIVE_INTERVAL);
+    },
+
+    /**
+     * Unsubscribe and close every open stream
+     */
+    stop(): void {
+      if (unsubscribe) {
+        unsubscribe();
+        unsubscribe = null;
+      }
+      if (keepAliveId) {
+        clearInterval(keepAliveId);
+        keepAliveId = null;
+      }
+      if (coalesceId) {
+        clearTimeout(coalesceId);
+        coalesceId = null;
+      }
+      for (const client of clients.values()) {
+        client.stream.end();
+      }
+      clients.clear();
+    },
+
+    /**
+     * Open a stream for an admin; returns null when MAX_CLIENTS are connected
+     * The returned close() must be called when the request ends
+     */
+    connect(): { stream: PassThrough; close: () => void } | null {
+      if (clients.size >= MAX_CLIENTS) {
+        return null;
+      }
+
+      const client: StreamClient = { id: nextClientId++, stream: new PassThrough({ highWaterMark: CLIENT_BUFFER_BYTES }) };
+      clients.set(client.id, client);
+
+      // Reconnect delay for EventSource-style clients, then a first event so the page knows it is live
+      client.stream.write(`retry: 5000\n\n`);
+      client.stream.write(`event: connected\ndata: ${JSON.stringify({ mode: strapi.config.get('plugin::offline-sync', {}).mode })}\n\n`);
+
+      return {
+        stream: client.stream,
+        close: () => {
+          clients.delete(client.id);
+          client.stream.end();
+        },
+      };
+    },
+
+    /**
+     * Number of connected admins (health/metrics)
+     */
+    getClientCount(): number {
+      return clients.size;
+    },
+  };
+};
@@ -0,0 +1,274 @@
+/**
+ * Fleet Health Service
+ *
+ * Ship health carried by every heartbeat and the master's fleet view:
+ * - replica: collectReport() gathers the sync backlog, the last successful push,
+ *   the oldest change still waiting, media sync stats, versions and database size
+ * - master: recordHeartbeat() keeps the latest report and a lag history in
+ *   ship-registry.metadata; getFleet() adds current lag and alerts per ship
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Lag samples kept per ship; one every SAMPLE_INTERVAL (144 x 10 min = 24 hours)
+const HISTORY_SIZE = 144;
+const SAMPLE_INTERVAL = 10 * 60 * 1000;
+
+// Database size is measured at most this often (can be slow on large databases)
+const DB_SIZE_TTL = 10 * 60 * 1000;
+
+export interface ShipHealthReport {
+  queue: { pending: number; failed: number; conflicts: number };
+  lastPushAt: string | null;
+  oldestPendingAt: string | null;
+  media: {
+    enabled: boolean;
+    lastSyncAt: string | null;
+    filesDownloaded: number;
+    filesFailed: number;
+    isRunning: boolean;
+    error: string | null;
+  };
+  versions: { strapi: string | null; plugin: string | null; node: string };
+  dbSizeBytes: number | null;
+  reportedAt: string;
+}
+
+export interface LagSample {
+  at: string;
+  lagMinutes: number;
+  pending: number;
+}
+
+export type FleetAlertLevel = 'warning' | 'critical';
+
+export interface FleetAlert {
+  shipId: string;
+  level: FleetAlertLevel;
+  type: 'lag' | 'backlog' | 'failed' | 'conflicts' | 'silent' | 'media' | 'version';
+  message: string;
+}
+
+export interface FleetShip {
+  shipId: string;
+  shipName: string;
+  connectivityStatus: 'online' | 'offline';
+  lastSeenAt: string | null;
+  health: ShipHealthReport | null;
+  lagMinutes: number | null;        // age of the oldest change not yet on master (0 = caught up)
+  history: LagSample[];
+  alerts: FleetAlert[];
+}
+
+export default ({ strapi }: { strapi: any }) => {
+  let dbSize: { bytes: number | null; measuredAt: number } | null = null;
+  let pluginVersion: string | null | undefined;
+
+  const getThresholds = () => {
+    const fleet = strapi.config.get('plugin::offline-sync', {}).fleet || {};
+    return {
+      lagWarningMinutes: fleet.lagWarningMinutes ?? 60,
+      lagCriticalMinutes: fleet.lagCriticalMinutes ?? 360,
+      queueWarningSize: fleet.queueWarningSize ?? 500,
+    };
+  };
+
+  const getPluginVersion = (): string | null => {
+    if (pluginVersion === undefined) {
+      try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../package.json'), 'utf8'));
+        pluginVersion = pkg.version ?? null;
+      } catch {
+        pluginVersion = null;
+      }
+    }
+    return pluginVersion ?? null;
+  };
+
+  /**
+   * Size of this instance's database in bytes (null if the dialect is not supported)
+   */
+  const measureDbSize = async (): Promise<number | null> => {
+    if (dbSize && Date.now() - dbSize.measuredAt < DB_SIZE_TTL) {
+      return dbSize.bytes;
+    }
+
+    const db = strapi.db.connection;
+    let bytes: number | null = null;
+    try {
+      const client = strapi.db.dialect?.client;
+      if (client === 'postgres') {
+        const result = await db.raw('SELECT pg_database_size(current_database()) AS size');
+        bytes = Number(result.rows[0].size);
+      } else if (client === 'mysql') {
+        const [rows] = await db.raw('SELECT SUM(data_length + index_length) AS size FROM information_schema.tables WHERE table_schema = DATABASE()');
+        bytes = Number(rows[0].size);
+      } else if (client === 'sqlite') {
+        bytes = fs.statSync(db.client.config.connection.filename).size;
+      }
+    } catch (error: any) {
+      strapi.log.debug(`[FleetHealth] Could not measure database size: ${error.message}`);
+    }
+
+    dbSize = { bytes: Number.isFinite(bytes) ? bytes : null, measuredAt: Date.now() };
+    return dbSize.bytes;
+  };
+
+  const minutesSince = (iso: string | null, now: number): number | null =>
+    iso ? Math.max(0, Math.round((now - new Date(iso).getTime()) / 60000)) : null;
+
+  /**
+   * Lag of a ship: how long its oldest unsent change has been waiting (from its last report)
+   */
+  const computeLag = (health: ShipHealthReport | null, now: number): number | null => {
+    if (!health) return null;
+    if (!health.oldestPendingAt) return 0;
+    return minutesSince(health.oldestPendingAt, now);
+  };
+
+  const buildAlerts = (ship: any, health: ShipHealthReport | null, lagMinutes: number | null, now: number): FleetAlert[] => {
+    const thresholds = getThresholds();
+    const alerts: FleetAlert[] = [];
+    const add = (level: FleetAlertLevel, type: FleetAlert['type'], message: string) =>
+      alerts.push({ shipId: ship.shipId, level, type, message });
+
+    if (lagMinutes !== null && lagMinutes >= thresholds.lagWarningMinutes) {
+      add(
+        lagMinutes >= thresholds.lagCriticalMinutes ? 'critical' : 'warning',
+        'lag',
+        `Oldest unsynced change is ${lagMinutes} min old`
+      );
+    }
+
+    const silentMinutes = ship.lastSeenAt ? minutesSince(new Date(ship.lastSeenAt).toISOString(), now) : null;
+    if (silentMinutes !== null && silentMinutes >= thresholds.lagCriticalMinutes) {
+      add('warning', 'silent', `No heartbeat for ${silentMinutes} min`);
+    }
+
+    if (!health) return alerts;
+
+    if (health.queue.pending >= thresholds.queueWarningSize) {
+      add('warning', 'backlog', `${health.queue.pending} changes waiting to be pushed`);
+    }
+    if (health.queue.failed > 0) {
+      add('warning', 'failed', `${health.queue.failed} change(s) failed to push`);
+    }
+    if (health.queue.conflicts > 0) {
+      add('warning', 'conflicts', `${health.queue.conflicts} conflict(s) waiting in the ship's inbox`);
+    }
+    if (health.media.enabled && health.media.error) {
+      add('warning', 'media', `Media sync failing: ${health.media.error}`);
+    }
+
+    const masterVersion = getPluginVersion();
+    if (masterVersion && health.versions.plugin && health.versions.plugin !== masterVersion) {
+      add('warning', 'version', `Plugin ${health.versions.plugin} (master runs ${masterVersion})`);
+    }
+
+    return alerts;
+  };
+
+  return {
+    /**
+     * Health report sent with the replica's heartbeat
+     */
+    async collectReport(): Promise<ShipHealthReport> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const plugin = strapi.plugin('offline-sync');
+      const syncQueue = plugin.service('sync-queue');
+      const mediaSync = plugin.service('media-sync');
+
+      const [stats, backlog, dbSizeBytes] = await Promise.all([
+        syncQueue.getStats(config.shipId),
+        syncQueue.getBacklogTimes(config.shipId),
+        measureDbSize(),
+      ]);
+      const media = mediaSync.getStats();
+
+      return {
+        queue: {
+          pending: stats.pending + stats.syncing,
+          failed: stats.failed,
+          conflicts: stats.conflict_pending + stats.conflict_rejected + (stats.conflict || 0),
+        },
+        lastPushAt: backlog.lastPushAt?.toISOString() ?? null,
+        oldestPendingAt: backlog.oldestPendingAt?.toISOString() ?? null,
+        media: {
+          enabled: mediaSync.isEnabled(),
+          lastSyncAt: media.lastSyncAt ? new Date(media.lastSyncAt).toISOString() : null,
+          filesDownloaded: media.filesDownloaded,
+          filesFailed: media.filesFailed,
+          isRunning: media.isRunning,
+          error: media.error,
+        },
+        versions: {
+          strapi: strapi.config.get('info.strapi') ?? null,
+          plugin: getPluginVersion(),
+          node: process.version,
+        },
+        dbSizeBytes,
+        reportedAt: new Date().toISOString(),
+      };
+    },
+
+    /**
+     * Store a ship's heartbeat report (master); appends a lag sample every SAMPLE_INTERVAL
+     */
+    async recordHeartbeat(shipId: string, report: ShipHealthReport): Promise<void> {
+      const shipTracker = strapi.plugin('offline-sync').service('ship-tracker');
+      const ship = await shipTracker.getShip(shipId);
+      if (!ship) return;
+
+      const metadata = ship.metadata || {};
+      const history: LagSample[] = Array.isArray(metadata.lagHistory) ? metadata.lagHistory : [];
+      const now = Date.now();
+      const last = history[history.length - 1];
+
+      if (!last || now - new Date(last.at).getTime() >= SAMPLE_INTERVAL) {
+        history.push({
+          at: new Date(now).toISOString(),
+          lagMinutes: computeLag(report, now) ?? 0,
+          pending: report.queue?.pending ?? 0,
+        });
+      }
+
+      await shipTracker.setMetadata(shipId, {
+        ...metadata,
+        health: report,
+        lagHistory: history.slice(-HISTORY_SIZE),
+      });
+    },
+
+    /**
+     * Every ship with its latest report, current lag, lag history and alerts (master)
+     */
+    async getFleet(): Promise<{ ships: FleetShip[]; alerts: FleetAlert[]; thresholds: ReturnType<typeof getThresholds>; masterVersion: string | null }> {
+      const shipTracker = strapi.plugin('offline-sync').service('ship-tracker');
+      const ships = await shipTracker.listShips();
+      const now = Date.now();
+
+      const fleet: FleetShip[] = ships.map((ship: any) => {
+        const health: ShipHealthReport | null = ship.metadata?.health ?? null;
+        const lagMinutes = computeLag(health, now);
+
+        return {
+          shipId: ship.shipId,
+          shipName: ship.shipName,
+          connectivityStatus: ship.connectivityStatus,
+          lastSeenAt: ship.lastSeenAt ? new Date(ship.lastSeenAt).toISOString() : null,
+          health,
+          lagMinutes,
+          history: Array.isArray(ship.metadata?.lagHistory) ? ship.metadata.lagHistory : [],
+          alerts: buildAlerts(ship, health, lagMinutes, now),
+        };
+      });
+
+      const alerts = fleet
+        .flatMap((ship) => ship.alerts)
+        .sort((a, b) => (a.level === b.level ? 0 : a.level === 'critical' ? -1 : 1));
+
+      return { ships: fleet, alerts, thresholds: getThresholds(), masterVersion: getPluginVersion() };
+    },
+  };
+};
@@ -0,0 +1,384 @@
+/**
+ * HTTP Transport
+ * Sync messages over master's REST API, for ships whose links can't keep a Kafka client up
+ * - Replica: posts its messages to POST /transport/messages and long-polls
+ *   GET /transport/poll for its topic, acking with POST /transport/ack
+ * - Master: stores outgoing messages in transport_outbox (per topic, like Kafka),
+ *   answers polls from it and tracks each ship's acked position in transport_cursors
+ * - Polls and acks are signed with the ship's Ed25519 key (message-signing), so a ship
+ *   can only read and ack its own position
+ *
+ * Delivery is at-least-once: messages handled but not yet acked are polled again.
+ */
+
+import type { TransportEnvelope, TransportHandler } from './transport';
+
+// Replica: abort requests to master after this long (polls add their own timeout)
+const REQUEST_TIMEOUT_MS = 30000;
+
+export default ({ strapi }: { strapi: any }) => {
+  let outboxTableExists: boolean | null = null;
+  let isConnected = false;
+  let isSubscribed = false;
+  let handler: TransportHandler | null = null;
+  let pollController: AbortController | null = null;
+
+  // Master: long polls waiting for new outbox messages
+  const waiters = new Set<() => void>();
+
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+  const getHttpConfig = () => getConfig().transport?.http || {};
+  const isMaster = () => getConfig().mode === 'master';
+
+  /**
+   * Call master's offline-sync API (replica)
+   */
+  const request = async (method: string, path: string, options: { body?: any; query?: Record<string, any>; headers?: Record<string, string>; timeout?: number; signal?: AbortSignal } = {}): Promise<any> => {
+    const httpConfig = getHttpConfig();
+    if (!httpConfig.masterUrl) {
+      throw new Error('transport.http.masterUrl is not configured');
+    }
+
+    const url = new URL(`${httpConfig.masterUrl.replace(/\/$/, '')}/api/offline-sync${path}`);
+    for (const [key, value] of Object.entries(options.query || {})) {
+      url.searchParams.set(key, String(value));
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'ngrok-skip-browser-warning': 'true',
+      ...options.headers,
+    };
+    if (httpConfig.apiToken) {
+      headers['Authorization'] = `Bearer ${httpConfig.apiToken}`;
+    }
+
+    // Aborted on timeout or when the caller's signal aborts (unsubscribe)
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeout || REQUEST_TIMEOUT_MS);
+    options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`${method} ${path} failed: HTTP ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Headers proving a poll / ack comes from this ship: the request fields and a
+   * timestamp signed with the ship's key (replica)
+   */
+  const signRequest = (fields: Record<string, string>): Record<string, string> => {
+    const timestamp = new Date().toISOString();
+    const signed = strapi.plugin('offline-sync').service('message-signing').sign({ ...fields, timestamp });
+    if (!signed.signature) {
+      throw new Error('HTTP transport needs the ship signing key (security.privateKey or privateKeyFile)');
+    }
+    return { 'X-Ship-Timestamp': timestamp, 'X-Ship-Signature': signed.signature.value };
+  };
+
+  return {
+    name: 'http' as const,
+
+    /**
+     * Check if transport_outbox and transport_cursors tables exist (migration 015, cached)
+     */
+    async ensureTables(): Promise<boolean> {
+      if (outboxTableExists !== null) return outboxTableExists;
+
+      try {
+        const db = strapi.db.connection;
+        outboxTableExists = await db.schema.hasTable('transport_outbox') &&
+          await db.schema.hasTable('transport_cursors');
+        return outboxTableExists ?? false;
+      } catch (error: any) {
+        strapi.log.warn(`[HttpTransport] Failed to check tables: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Master: outbox tables must exist; replica: master must answer
+     */
+    async connect(): Promise<void> {
+      if (isMaster()) {
+        isConnected = await this.ensureTables();
+        if (!isConnected) {
+          throw new Error('transport_outbox table not found - run 015_create_transport_tables.sql');
+        }
+        strapi.log.info('✅ HTTP transport ready (master mode)');
+        return;
+      }
+
+      if (!strapi.plugin('offline-sync').service('message-signing').getPrivateKey()) {
+        strapi.log.error('[HttpTransport] No signing key configured - master rejects unsigned polls and acks');
+      }
+
+      try {
+        await request('GET', '/health/live');
+        isConnected = true;
+        strapi.log.info(`✅ HTTP transport connected to ${getHttpConfig().masterUrl}`);
+      } catch (error: any) {
+        isConnected = false;
+        strapi.log.error(`Failed to reach master over HTTP: ${error.message}`);
+        throw error;
+      }
+    },
+
+    async disconnect(): Promise<void> {
+      isConnected = false;
+    },
+
+    isConnected(): boolean {
+      return isConnected;
+    },
+
+    async healthCheck(): Promise<boolean> {
+      if (isMaster()) {
+        return this.ensureTables();
+      }
+
+      try {
+        await request('GET', '/health/live');
+        return true;
+      } catch (error: any) {
+        strapi.log.debug(`HTTP transport health check failed: ${error.message}`);
+        isConnected = false;
+        return false;
+      }
+    },
+
+    /**
+     * Master: append to the outbox and wake up waiting polls
+     * Replica: post to master in one request
+     */
+    async send(envelopes: TransportEnvelope[]): Promise<void> {
+      if (isMaster()) {
+        if (!await this.ensureTables()) {
+          throw new Error('transport_outbox table not found - cannot send message');
+        }
+
+        await strapi.db.connection('transport_outbox').insert(envelopes.map((envelope) => ({
+          topic: envelope.topic,
+          message_key: envelope.key || null,
+          payload: JSON.stringify(envelope.message),
+          created_at: new Date(),
+        })));
+
+        for (const wake of [...waiters]) wake();
+        return;
+      }
+
+      try {
+        await request('POST', '/transport/messages', {
+          body: {
+            shipId: getConfig().shipId,
+            messages: envelopes.map(({ topic, key, message }) => ({ topic, key, message })),
+          },
+        });
+        isConnected = true;
+      } catch (error: any) {
+        isConnected = false;
+        strapi.log.error(`Failed to send message over HTTP: ${error.message}`);
+        throw error;
+      }
+    },
+
+    /**
+     * Master: handle messages posted by ships (receive)
+     * Replica: long-poll master for the topic until unsubscribed
+     */
+    async subscribe(topic: string, messageHandler: TransportHandler): Promise<void> {
+      handler = messageHandler;
+      isSubscribed = true;
+
+      if (isMaster()) {
+        strapi.log.info(`📡 HTTP transport accepting ship messages for ${topic}`);
+        return;
+      }
+
+      strapi.log.info(`📡 Long-polling master for topic: ${topic}`);
+      const shipId = getConfig().shipId;
+      pollController = new AbortController();
+      const { signal } = pollController;
+
+      // Runs in the background like a Kafka consumer
+      (async () => {
+        while (isSubscribed && !signal.aborted) {
+          const httpConfig = getHttpConfig();
+          const pollTimeout = httpConfig.pollTimeout || 25000;
+
+          try {
+            const { messages = [] } = await request('GET', '/transport/poll', {
+              query: { shipId, topic, timeout: pollTimeout, limit: httpConfig.batchSize || 100 },
+              headers: signRequest({ action: 'poll', shipId: String(shipId), topic }),
+              timeout: pollTimeout + REQUEST_TIMEOUT_MS,
+              signal,
+            });
+            isConnected = true;
+
+            for (const entry of messages) {
+              try {
+                await messageHandler(entry.message, topic);
+              } catch (error: any) {
+                strapi.log.error(`Error processing HTTP message: ${error.message}`);
+              }
+            }
+
+            if (messages.length > 0) {
+              await this.ack(topic, messages[messages.length - 1].id);
+            }
+          } catch (error: any) {
+            if (signal.aborted) break;
+            isConnected = false;
+            strapi.log[error.message?.includes('HTTP 403') ? 'warn' : 'debug'](`[HttpTransport] Poll failed: ${error.message}`);
+            await wait(httpConfig.retryDelay || 5000);
+          }
+        }
+      })();
+    },
+
+    async unsubscribe(): Promise<void> {
+      isSubscribed = false;
+      handler = null;
+      pollController?.abort();
+      pollController = null;
+    },
+
+    isSubscribed(): boolean {
+      return isSubscribed;
+    },
+
+    /**
+     * Confirm every message up to position was handled (replica)
+     */
+    async ack(topic: string, position: string | number): Promise<void> {
+      const shipId = String(getConfig().shipId);
+      await request('POST', '/transport/ack', {
+        body: { shipId, topic, position: Number(position) },
+        headers: signRequest({ action: 'ack', shipId, topic, position: String(Number(position)) }),
+      });
+    },
+
+    /**
+     * Hand messages posted by a ship to the subscribed handler, in order (master)
+     */
+    async receive(shipId: string, messages: Array<{ topic: string; message: any }>): Promise<number> {
+      if (!handler) {
+        throw new Error('HTTP transport is not accepting messages');
+      }
+
+      let handled = 0;
+      for (const entry of messages) {
+        if (!entry?.message || entry.message.shipId !== shipId) {
+          strapi.log.warn(`[HttpTransport] Ignored message not sent by ${shipId}`);
+          continue;
+        }
+        try {
+          await handler(entry.message, entry.topic);
+          handled++;
+        } catch (error: any) {
+          strapi.log.error(`Error processing HTTP message: ${error.message}`);
+        }
+      }
+      return handled;
+    },
+
+    /**
+     * Messages of a topic after the ship's acked position (master)
+     * Waits up to timeout ms for new ones; a ship polling a topic for the first
+     * time starts at the oldest retained message, so nothing queued before its
+     * first poll is skipped (handlers ignore changes the ship already has)
+     */
+    async poll(shipId: string, topic: string, options: { timeout?: number; limit?: number } = {}): Promise<Array<{ id: number; message: any }>> {
+      if (!await this.ensureTables()) {
+        throw new Error('transport_outbox table not found');
+      }
+
+      const db = strapi.db.connection;
+      const limit = Math.min(options.limit || 100, 500);
+      const deadline = Date.now() + Math.min(options.timeout ?? 25000, 60000);
+
+      const cursor = await db('transport_cursors').where({ ship_id: shipId, topic }).first() || { position: 0 };
+
+      while (true) {
+        const rows = await db('transport_outbox')
+          .where({ topic })
+          .where('id', '>', Number(cursor.position))
+          .orderBy('id', 'asc')
+          .limit(limit);
+
+        const remaining = deadline - Date.now();
+        if (rows.length > 0 || remaining <= 0) {
+          return rows.map((row: any) => ({
+            id: Number(row.id),
+            message: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+          }));
+        }
+
+        // Sleep until the next send or the deadline
+        await new Promise<void>((resolve) => {
+          const wake = () => {
+            clearTimeout(timer);
+            waiters.delete(wake);
+            resolve();
+          };
+          const timer = setTimeout(wake, remaining);
+          waiters.add(wake);
+        });
+      }
+    },
+
+    /**
+     * Store a ship's acked position for a topic (master)
+     */
+    async commit(shipId: string, topic: string, position: number): Promise<void> {
+      if (!await this.ensureTables()) return;
+
+      await strapi.db.connection('transport_cursors')
+        .insert({ ship_id: shipId, topic, position, updated_at: new Date() })
+        .onConflict(['ship_id', 'topic'])
+        .merge(['position', 'updated_at']);
+    },
+
+    /**
+     * Delete outbox messages older than daysToKeep (master)
+     * Ships offline for longer catch up from the change log, as with Kafka retention
+     */
+    async cleanup(daysToKeep: number = 7): Promise<number> {
+      if (!await this.ensureTables()) {
+        return 0;
+      }
+
+      try {
+        const cutoffDate = new Date();
+        cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+
+        const deleted = await strapi.db.connection('transport_outbox')
+          .where('created_at', '<', cutoffDate)
+          .delete();
+
+        if (deleted > 0) {
+          strapi.log.info(`[HttpTransport] Cleaned up ${deleted} old outbox messages`);
+        }
+        return deleted;
+      } catch (error: any) {
+        strapi.log.error(`[HttpTransport] Cleanup failed: ${error.message}`);
+        return 0;
+      }
+    },
+  };
+};
@@ -0,0 +1,183 @@
+/**
+ * Hybrid Logical Clock Service
+ * Orders document changes across ships and master without trusting wall clocks.
+ * A clock is "<wall ms>-<counter>-<node>", e.g. "0001718000000000-0003-ship-01":
+ * - wall: max physical time seen by this node (local or received)
+ * - counter: breaks ties within the same wall millisecond
+ * - node: 'master' or the shipId that issued the clock
+ *
+ * Every outgoing change gets now(), every received clock goes through receive(),
+ * so a change always compares greater than the changes its author had seen.
+ * The clock lives in memory; bootstrap seeds it from the persisted clocks so a
+ * restart on a node whose wall clock is behind cannot issue older clocks.
+ */
+
+export interface HybridTimestamp {
+  wall: number;
+  counter: number;
+  node: string;
+}
+
+const WALL_WIDTH = 16;
+const COUNTER_WIDTH = 4;
+
+// Remote clocks further ahead than this point at a skewed node clock
+const MAX_DRIFT_MS = 5 * 60 * 1000;
+
+// Tables holding clocks this node issued or received (clock column)
+const CLOCK_TABLES = ['document_mappings', 'master_edit_log', 'master_sync_queue', 'sync_queue'];
+
+export default ({ strapi }: { strapi: any }) => {
+  let last: HybridTimestamp = { wall: 0, counter: 0, node: '' };
+
+  const getNodeId = (): string => {
+    const config = strapi.config.get('plugin::offline-sync', {});
+    return config.mode === 'master' ? 'master' : String(config.shipId || 'replica');
+  };
+
+  return {
+    /**
+     * Seed the clock from the latest clock persisted in the sync tables (bootstrap)
+     * Fixed-width clocks sort as strings, so MAX(clock) is the latest per table
+     */
+    async seed(): Promise<string | null> {
+      const db = strapi.db.connection;
+      const latest: string[] = [];
+
+      for (const table of CLOCK_TABLES) {
+        try {
+          if (!await db.schema.hasTable(table) || !await db.schema.hasColumn(table, 'clock')) continue;
+          const row = await db(table).max('clock as clock').first();
+          if (row?.clock) latest.push(row.clock);
+        } catch (error: any) {
+          strapi.log.warn(`[Clock] Could not read clocks from ${table}: ${error.message}`);
+        }
+      }
+
+      const persisted = this.parse(this.max(latest));
+      if (persisted && (persisted.wall > last.wall || (persisted.wall === last.wall && persisted.counter > last.counter))) {
+        last = { wall: persisted.wall, counter: persisted.counter, node: getNodeId() };
+      }
+
+      if (last.wall > Date.now()) {
+        strapi.log.warn(`[Clock] Persisted clocks are ${Math.round((last.wall - Date.now()) / 1000)}s ahead of local time - new clocks continue from them`);
+      }
+      return last.wall > 0 ? this.format(last) : null;
+    },
+
+    /**
+     * Format a timestamp (fixed-width wall/counter so clocks also sort as strings)
+     */
+    format(ts: HybridTimestamp): string {
+      return `${String(ts.wall).padStart(WALL_WIDTH, '0')}-${String(ts.counter).padStart(COUNTER_WIDTH, '0')}-${ts.node}`;
+    },
+
+    /**
+     * Parse a clock string (null for missing or malformed clocks)
+     */
+    parse(clock: string | null | undefined): HybridTimestamp | null {
+      if (!clock || typeof clock !== 'string') return null;
+
+      const match = /^(\d+)-(\d+)-(.+)$/.exec(clock);
+      if (!match) return null;
+
+      return { wall: Number(match[1]), counter: Number(match[2]), node: match[3] };
+    },
+
+    /**
+     * Issue a clock for a local change
+     */
+    now(): string {
+      const physical = Date.now();
+
+      if (physical > last.wall) {
+        last = { wall: physical, counter: 0, node: getNodeId() };
+      } else {
+        last = { wall: last.wall, counter: last.counter + 1, node: getNodeId() };
+      }
+
+      return this.format(last);
+    },
+
+    /**
+     * Merge a clock received from another node into the local clock
+     * Returns the local clock after the merge
+     */
+    receive(clock: string | null | undefined): string {
+      const remote = this.parse(clock);
+      if (!remote) return this.now();
+
+      const physical = Date.now();
+      if (remote.wall - physical > MAX_DRIFT_MS) {
+        strapi.log.warn(`[Clock] ${remote.node} is ${Math.round((remote.wall - physical) / 1000)}s ahead of local time - check its system clock`);
+      }
+
+      const wall = Math.max(physical, last.wall, remote.wall);
+      let counter = 0;
+      if (wall === last.wall && wall === remote.wall) {
+        counter = Math.max(last.counter, remote.counter) + 1;
+      } else if (wall === last.wall) {
+        counter = last.counter + 1;
+      } else if (wall === remote.wall) {
+        counter = remote.counter + 1;
+      }
+
+      last = { wall, counter, node: getNodeId() };
+      return this.format(last);
+    },
+
+    /**
+     * Compare two clocks (-1, 0, 1); missing clocks sort before any clock
+     */
+    compare(a: string | null | undefined, b: string | null | undefined): number {
+      const left = this.parse(a);
+      const right = this.parse(b);
+
+      if (!left && !right) return 0;
+      if (!left) return -1;
+      if (!right) return 1;
+
+      if (left.wall !== right.wall) return left.wall < right.wall ? -1 : 1;
+      if (left.counter !== right.counter) return left.counter < right.counter ? -1 : 1;
+      if (left.node !== right.node) return left.node < right.node ? -1 : 1;
+      return 0;
+    },
+
+    /**
+     * Latest of several clocks (null when none is set)
+     */
+    max(clocks: Array<string | null | undefined>): string | null {
+      return clocks.reduce<string | null>(
+        (latest, clock) => (clock && this.compare(clock, latest) > 0 ? clock : latest),
+        null
+      );
+    },
+
+    /**
+     * Node that issued a clock
+     */
+    nodeOf(clock: string | null | undefined): string | null {
+      return this.parse(clock)?.node ?? null;
+    },
+
+    /**
+     * Whether a document changed concurrently with an incoming change
+     * - current: clock of the latest change applied to the local document
+     * - base: clock of the document state the sender had seen when it made its change
+     * - incoming: clock of the incoming change
+     * The local change is known to the sender if it is not newer than base, or if the
+     * sender issued it itself before the incoming change (its own earlier push).
+     */
+    isConcurrent(current: string | null | undefined, base: string | null | undefined, incoming: string | null | undefined): boolean {
+      if (!this.parse(current)) return false;
+      if (this.compare(current, base) <= 0) return false;
+
+      const incomingNode = this.nodeOf(incoming);
+      if (incomingNode && this.nodeOf(current) === incomingNode && this.compare(current, incoming) < 0) {
+        return false;
+      }
+
+      return true;
+    },
+  };
+};
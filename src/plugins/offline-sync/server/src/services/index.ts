@@ -1,32 +1,68 @@
 import syncQueue from './sync-queue';
 import versionManager from './version-manager';
-import kafkaProducer from './kafka-producer';
-import kafkaConsumer from './kafka-consumer';
+import syncProducer from './sync-producer';
+import syncConsumer from './sync-consumer';
+import transport from './transport';
+import kafkaTransport from './kafka-transport';
+import httpTransport from './http-transport';
 import syncService from './sync-service';
 import conflictResolver from './conflict-resolver';
 import shipTracker from './ship-tracker';
 import connectivityMonitor from './connectivity-monitor';
 import messageTracker from './message-tracker';
 import deadLetter from './dead-letter';
+import deadLetterRetry from './dead-letter-retry';
 import documentMapping from './document-mapping';
 import initialSync from './initial-sync';
 import masterSyncQueue from './master-sync-queue';
 import mediaSync from './media-sync';
+import threeWayMerge from './three-way-merge';
+import hybridClock from './hybrid-clock';
+import changeLog from './change-log';
+import deltaSync from './delta-sync';
+import relationSync from './relation-sync';
+import bulkSync from './bulk-sync';
+import shipRouting from './ship-routing';
+import bundle from './bundle';
+import messageSigning from './message-signing';
+import syncHistory from './sync-history';
+import documentStatus from './document-status';
+import eventStream from './event-stream';
+import fleetHealth from './fleet-health';
+import syncContext from './sync-context';
 
 export default {
   'sync-queue': syncQueue,
   'version-manager': versionManager,
-  'kafka-producer': kafkaProducer,
-  'kafka-consumer': kafkaConsumer,
+  'sync-producer': syncProducer,
+  'sync-consumer': syncConsumer,
+  transport,
+  'kafka-transport': kafkaTransport,
+  'http-transport': httpTransport,
   'sync-service': syncService,
   'conflict-resolver': conflictResolver,
   'ship-tracker': shipTracker,
   'connectivity-monitor': connectivityMonitor,
   'message-tracker': messageTracker,
   'dead-letter': deadLetter,
+  'dead-letter-retry': deadLetterRetry,
   'document-mapping': documentMapping,
   'initial-sync': initialSync,
   'master-sync-queue': masterSyncQueue,
   'media-sync': mediaSync,
+  'three-way-merge': threeWayMerge,
+  'hybrid-clock': hybridClock,
+  'change-log': changeLog,
+  'delta-sync': deltaSync,
+  'relation-sync': relationSync,
+  'bulk-sync': bulkSync,
+  'ship-routing': shipRouting,
+  bundle,
+  'message-signing': messageSigning,
+  'sync-history': syncHistory,
+  'document-status': documentStatus,
+  'event-stream': eventStream,
+  'fleet-health': fleetHealth,
+  'sync-context': syncContext,
 };
 
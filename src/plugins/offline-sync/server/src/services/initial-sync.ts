@@ -4,6 +4,8 @@
  * Used for production systems where data existed before sync was active
  */
 
+import type { ShipScope } from './ship-routing';
+
 export default ({ strapi: strapiInstance }: { strapi: any }) => {
   const strapi = strapiInstance;
 
@@ -56,6 +58,15 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         return result;
       }
 
+      // Ships scoped by master routing only map the content in their scope
+      const routing = strapi.plugin('offline-sync').service('ship-routing');
+      const scope = await this.fetchScopeFromMaster(options.masterUrl, shipId, options.masterApiToken);
+
+      if (scope?.contentTypes?.length) {
+        contentTypesToSync = contentTypesToSync.filter((uid: string) => scope.contentTypes!.includes(uid));
+        strapi.log.info(`[InitialSync] Routing scope limits sync to ${contentTypesToSync.length} content types`);
+      }
+
       strapi.log.info(`[InitialSync] Starting pull from master: ${options.masterUrl}`);
       strapi.log.info(`[InitialSync] Content types: ${contentTypesToSync.join(', ')}`);
       strapi.log.info(`[InitialSync] Dry run: ${options.dryRun ? 'YES' : 'NO'}`);
@@ -81,13 +92,19 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
             continue;
           }
 
-          const masterContent = await this.fetchFromMaster(
-            options.masterUrl,
-            apiPath,
-            options.masterApiToken
-          );
+          // Scoped locales are fetched one by one; otherwise the default locale is enough
+          const masterContent: any[] = [];
+          for (const locale of scope?.locales?.length ? scope.locales : [null]) {
+            const docs = await this.fetchFromMaster(
+              options.masterUrl,
+              apiPath,
+              options.masterApiToken,
+              locale
+            );
+            masterContent.push(...docs.map((doc: any) => (locale ? { ...doc, _fetchedLocale: locale } : doc)));
+          }
 
-          if (!masterContent || !Array.isArray(masterContent)) {
+          if (masterContent.length === 0) {
             strapi.log.warn(`[InitialSync] No content found for ${contentType}`);
             continue;
           }
@@ -111,6 +128,22 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
               continue;
             }
 
+            // Documents outside the ship's routing scope never reach it, so they aren't mapped
+            if (!routing.inScope(scope, {
+              contentType,
+              locale: masterDoc._fetchedLocale || masterDoc.locale || null,
+              siteSettings: routing.extractSiteSettings(contentType, masterDoc),
+            })) {
+              result.skipped++;
+              result.details.push({
+                contentType,
+                masterDocId,
+                localDocId: '',
+                action: 'skipped (out of scope)',
+              });
+              continue;
+            }
+
             try {
               // Check if mapping already exists in database
               const existingMapping = await documentMapping.findByMasterDocumentId(
@@ -326,15 +359,51 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Fetch this ship's routing scope from master (null: everything)
+     * Older masters without the routing endpoint count as unscoped
+     */
+    async fetchScopeFromMaster(
+      masterUrl: string,
+      shipId: string,
+      apiToken?: string
+    ): Promise<ShipScope | null> {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'ngrok-skip-browser-warning': 'true',
+      };
+
+      if (apiToken) {
+        headers['Authorization'] = `Bearer ${apiToken}`;
+      }
+
+      try {
+        const response = await fetch(`${masterUrl}/api/offline-sync/routing/${encodeURIComponent(shipId)}`, { headers });
+
+        if (!response.ok) {
+          strapi.log.debug(`[InitialSync] No routing scope from master: HTTP ${response.status}`);
+          return null;
+        }
+
+        const json: any = await response.json();
+        return json.enabled ? json.scope || null : null;
+      } catch (error: any) {
+        strapi.log.warn(`[InitialSync] Error fetching routing scope: ${error.message}`);
+        return null;
+      }
+    },
+
     /**
      * Fetch content from master API
-     * Only needs documentIds for mapping - locale doesn't matter for mapping
+     * Only needs documentIds for mapping - locale doesn't matter for mapping,
+     * except for ships scoped to some locales (locale)
      * Locale-specific operations are handled by the sync service
      */
     async fetchFromMaster(
       masterUrl: string,
       apiPath: string,
-      apiToken?: string
+      apiToken?: string,
+      locale?: string | null
     ): Promise<any[]> {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
@@ -348,7 +417,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       // Fetch without locale filter - we only need documentIds for mapping
       // The same documentId is used for ALL locales (en, ar, etc.)
       // Locale-specific sync operations are handled separately by sync-service
-      const url = `${masterUrl}${apiPath}?pagination[pageSize]=1000&populate=*`;
+      const url = `${masterUrl}${apiPath}?pagination[pageSize]=1000&populate=*${locale ? `&locale=${encodeURIComponent(locale)}` : ''}`;
 
       strapi.log.debug(`[InitialSync] Fetching: ${url}`);
 
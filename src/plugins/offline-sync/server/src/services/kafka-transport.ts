@@ -0,0 +1,380 @@
+/**
+ * Kafka Transport
+ * Sync messages over Kafka topics (kafkajs)
+ * - Producer with an admin client for health checks, compressed produce requests
+ * - Consumer group per side (master-sync-consumer, ship-<id>-consumer)
+ * - Offsets are committed by kafkajs once the handler returns, so ack() has nothing to do
+ */
+
+import { Kafka, Producer, Consumer, Admin, CompressionTypes, CompressionCodecs } from 'kafkajs';
+import type { Transport, TransportEnvelope, TransportHandler } from './transport';
+
+// kafka.compression -> kafkajs codec (gzip is built in, lz4/zstd need a codec package)
+const COMPRESSION_TYPES: Record<string, CompressionTypes> = {
+  none: CompressionTypes.None,
+  gzip: CompressionTypes.GZIP,
+  lz4: CompressionTypes.LZ4,
+  zstd: CompressionTypes.ZSTD,
+};
+
+const CODEC_PACKAGES: Record<string, string> = {
+  lz4: 'kafkajs-lz4',
+  zstd: '@kafkajs/zstd',
+};
+
+// Send attempts on disconnect errors, with a growing delay between them
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+export default ({ strapi }: { strapi: any }): Transport => {
+  let kafka: Kafka | null = null;
+  let producer: Producer | null = null;
+  let admin: Admin | null = null;
+  let consumer: Consumer | null = null;
+  let isConnected = false;
+  let isSubscribed = false;
+  let compression: CompressionTypes | null = null;
+  let availableCodecs: Set<string> | null = null;
+
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+
+  const createKafka = (clientId: string, timeouts = false): Kafka => {
+    const config = getConfig();
+    return new Kafka({
+      clientId,
+      brokers: config.kafka.brokers,
+      ssl: config.kafka.ssl,
+      sasl: config.kafka.sasl?.mechanism ? {
+        mechanism: config.kafka.sasl.mechanism as any,
+        username: config.kafka.sasl.username,
+        password: config.kafka.sasl.password,
+      } : undefined,
+      ...(timeouts && {
+        connectionTimeout: 10000, // 10 second timeout
+        requestTimeout: 30000,    // 30 second request timeout
+      }),
+    });
+  };
+
+  /**
+   * Register every installed lz4/zstd codec with kafkajs (once, before producing or consuming)
+   * Consumers need them too: the other side may compress with a codec this node never sends
+   */
+  const registerCodecs = (): Set<string> => {
+    if (availableCodecs) return availableCodecs;
+
+    const configured = getConfig().kafka?.compression || 'gzip';
+    availableCodecs = new Set<string>();
+
+    for (const [name, codecPackage] of Object.entries(CODEC_PACKAGES)) {
+      try {
+        const codec = require(codecPackage);
+        CompressionCodecs[COMPRESSION_TYPES[name]] = name === 'lz4'
+          ? new codec().codec
+          : codec();
+        availableCodecs.add(name);
+      } catch (error: any) {
+        strapi.log[name === configured ? 'warn' : 'debug'](`[Kafka] ${name} codec unavailable, install ${codecPackage} to send or receive ${name} batches (${error.message})`);
+      }
+    }
+    return availableCodecs;
+  };
+
+  /**
+   * Resolve the configured compression codec (cached)
+   * Falls back to gzip when the lz4/zstd codec package is not installed
+   */
+  const getCompression = (): CompressionTypes => {
+    if (compression !== null) return compression;
+
+    const name = getConfig().kafka?.compression || 'gzip';
+    if (CODEC_PACKAGES[name] && !registerCodecs().has(name)) {
+      strapi.log.warn(`[Kafka] ${name} compression needs the ${CODEC_PACKAGES[name]} package - using gzip`);
+      compression = CompressionTypes.GZIP;
+      return compression;
+    }
+
+    compression = COMPRESSION_TYPES[name] ?? CompressionTypes.GZIP;
+    return compression;
+  };
+
+  const isDisconnectError = (error: any): boolean =>
+    error.message?.includes('disconnected') ||
+    error.message?.includes('not connected') ||
+    error.message?.includes('ECONNRESET');
+
+  return {
+    name: 'kafka',
+
+    /**
+     * Initialize and connect Kafka producer
+     * Works in both replica (send to master) and master (send to ships) modes
+     */
+    async connect(): Promise<void> {
+      const config = getConfig();
+      registerCodecs();
+
+      // Producer is needed in both modes for bi-directional sync
+      const clientId = config.mode === 'master'
+        ? 'master-producer'
+        : `ship-${config.shipId}`;
+
+      try {
+        // If already connected, verify connection is healthy
+        if (producer && isConnected) {
+          try {
+            // Quick health check
+            if (admin) {
+              await admin.listTopics();
+              return; // Still connected
+            }
+          } catch {
+            // Connection is stale, need to reconnect
+            strapi.log.info('[Kafka] Connection stale, reconnecting...');
+          }
+        }
+
+        // Clean up existing connections before reconnecting
+        if (admin) {
+          try { await admin.disconnect(); } catch { /* ignore */ }
+          admin = null;
+        }
+        if (producer) {
+          try { await producer.disconnect(); } catch { /* ignore */ }
+          producer = null;
+        }
+        isConnected = false;
+
+        // Create fresh Kafka instance
+        kafka = createKafka(clientId, true);
+
+        producer = kafka.producer({
+          retry: {
+            retries: 5,
+            initialRetryTime: 100,
+            multiplier: 2,
+          },
+          maxInFlightRequests: 1,
+          idempotent: true,
+        });
+
+        await producer.connect();
+
+        // Also create admin client for health checks
+        admin = kafka.admin();
+        await admin.connect();
+
+        isConnected = true;
+
+        strapi.log.info(`✅ Kafka producer connected (${config.mode} mode)`);
+      } catch (error: any) {
+        isConnected = false;
+        strapi.log.error(`Failed to connect Kafka producer: ${error.message}`);
+        throw error;
+      }
+    },
+
+    /**
+     * Disconnect Kafka producer
+     */
+    async disconnect(): Promise<void> {
+      if (admin) {
+        try {
+          await admin.disconnect();
+        } catch (e) {
+          // Ignore disconnect errors
+        }
+        admin = null;
+      }
+      if (producer) {
+        try {
+          await producer.disconnect();
+        } catch (e) {
+          // Ignore disconnect errors
+        }
+        producer = null;
+      }
+      isConnected = false;
+      strapi.log.info('Kafka producer disconnected');
+    },
+
+    /**
+     * Check if producer is connected
+     */
+    isConnected(): boolean {
+      return isConnected;
+    },
+
+    /**
+     * Health check - actually tests if Kafka broker is reachable
+     */
+    async healthCheck(): Promise<boolean> {
+      if (!kafka) {
+        return false;
+      }
+
+      try {
+        // Create a temporary admin client to fetch cluster metadata
+        const tempAdmin = kafka.admin();
+        await tempAdmin.connect();
+        await tempAdmin.listTopics(); // This will fail if Kafka is down
+        await tempAdmin.disconnect();
+        return true;
+      } catch (error: any) {
+        strapi.log.debug(`Kafka health check failed: ${error.message}`);
+        // Mark as disconnected since broker is unreachable
+        isConnected = false;
+        return false;
+      }
+    },
+
+    /**
+     * Send envelopes in a single compressed produce request (one per call, any topics)
+     * All messages succeed or fail together
+     * Includes automatic retry with reconnection on failure
+     */
+    async send(envelopes: TransportEnvelope[]): Promise<void> {
+      if (!producer || !isConnected) {
+        strapi.log.debug('[Kafka] Producer not connected, attempting to connect...');
+        await this.connect();
+      }
+
+      if (!producer || !isConnected) {
+        throw new Error('Kafka producer is disconnected - cannot send message');
+      }
+
+      // Group by topic, keeping the order of messages within each topic
+      const topicMessages = new Map<string, any[]>();
+      for (const envelope of envelopes) {
+        if (!topicMessages.has(envelope.topic)) topicMessages.set(envelope.topic, []);
+        topicMessages.get(envelope.topic)!.push({
+          key: envelope.key,
+          value: JSON.stringify(envelope.message),
+          headers: envelope.headers,
+        });
+      }
+
+      // Retry loop with exponential backoff
+      let lastError: Error | null = null;
+      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+        try {
+          await producer!.sendBatch({
+            compression: getCompression(),
+            topicMessages: [...topicMessages].map(([topic, messages]) => ({ topic, messages })),
+          });
+
+          strapi.log.debug(`${envelopes.length} message(s) sent to Kafka topic(s) ${[...topicMessages.keys()].join(', ')}`);
+          return;
+        } catch (error: any) {
+          lastError = error;
+
+          if (isDisconnectError(error) && attempt < MAX_RETRIES) {
+            strapi.log.warn(`[Kafka] Send failed (attempt ${attempt}/${MAX_RETRIES}): ${error.message}, retrying after reconnect...`);
+
+            // Mark as disconnected and wait before retry
+            isConnected = false;
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+
+            // Try to reconnect
+            try {
+              await this.connect();
+            } catch (connectError: any) {
+              strapi.log.debug(`[Kafka] Reconnect failed: ${connectError.message}`);
+              continue; // Try next attempt anyway
+            }
+          } else {
+            // Non-recoverable error or max retries reached
+            break;
+          }
+        }
+      }
+
+      strapi.log.error(`Failed to send message to Kafka: ${lastError?.message}`);
+      throw lastError;
+    },
+
+    /**
+     * Initialize Kafka consumer and hand every message of the topic to the handler
+     * - Master: ship-updates topic (receives from ships)
+     * - Replica: its master-updates topic (receives from master)
+     */
+    async subscribe(topic: string, handler: TransportHandler): Promise<void> {
+      const config = getConfig();
+      registerCodecs();
+
+      try {
+        const clientId = config.mode === 'master'
+          ? 'master-consumer'
+          : `ship-${config.shipId}-consumer`;
+
+        const consumerKafka = createKafka(clientId);
+
+        // Use stable group ID for production
+        // In development, set KAFKA_CONSUMER_GROUP_SUFFIX env var to avoid zombie consumers
+        const groupSuffix = process.env.KAFKA_CONSUMER_GROUP_SUFFIX || '';
+        const baseGroupId = config.mode === 'master'
+          ? 'master-sync-consumer'
+          : `ship-${config.shipId}-consumer`;
+        const groupId = `${baseGroupId}${groupSuffix ? `-${groupSuffix}` : ''}`;
+
+        consumer = consumerKafka.consumer({
+          groupId,
+          sessionTimeout: 10000,
+          heartbeatInterval: 3000,
+        });
+
+        strapi.log.info(`[Kafka] Consumer group: ${groupId}`);
+
+        await consumer.connect();
+
+        await consumer.subscribe({
+          topics: [topic],
+          fromBeginning: false,
+        });
+
+        isSubscribed = true;
+        strapi.log.info(`✅ Kafka consumer connected (${config.mode} mode)`);
+        strapi.log.info(`📡 Subscribed to topic: ${topic}`);
+
+        await consumer.run({
+          eachMessage: async ({ topic: messageTopic, message }) => {
+            try {
+              const syncMessage = JSON.parse(message.value?.toString() || '{}');
+              await handler(syncMessage, messageTopic);
+            } catch (error: any) {
+              strapi.log.error(`Error processing Kafka message: ${error.message}`);
+            }
+          },
+        });
+      } catch (error: any) {
+        strapi.log.error(`Failed to connect Kafka consumer: ${error.message}`);
+        throw error;
+      }
+    },
+
+    /**
+     * Disconnect Kafka consumer
+     */
+    async unsubscribe(): Promise<void> {
+      if (consumer && isSubscribed) {
+        await consumer.disconnect();
+        isSubscribed = false;
+        strapi.log.info('Kafka consumer disconnected');
+      }
+    },
+
+    /**
+     * Check if consumer is connected
+     */
+    isSubscribed(): boolean {
+      return isSubscribed;
+    },
+
+    /**
+     * Offsets are committed automatically after each handled message
+     */
+    async ack(): Promise<void> {
+      // Nothing to do
+    },
+  };
+};
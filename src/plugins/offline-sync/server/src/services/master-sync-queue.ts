@@ -7,6 +7,12 @@
 export default ({ strapi }: { strapi: any }) => {
   let tableExists: boolean | null = null;
   let editLogTableExists: boolean | null = null;
+  let clockColumnsExist: boolean | null = null;
+  let sequenceColumnExists: boolean | null = null;
+  let documentStatusColumnExists: boolean | null = null;
+
+  // Joins a surrounding transaction (bulk-sync), e.g. while master applies a ship bulk
+  const connection = () => strapi.plugin('offline-sync').service('bulk-sync').connection();
 
   return {
     /**
@@ -16,7 +22,7 @@ export default ({ strapi }: { strapi: any }) => {
       if (tableExists !== null) return tableExists;
       
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         tableExists = await db.schema.hasTable('master_sync_queue');
         return tableExists;
       } catch (error: any) {
@@ -32,7 +38,7 @@ export default ({ strapi }: { strapi: any }) => {
       if (editLogTableExists !== null) return editLogTableExists;
       
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         editLogTableExists = await db.schema.hasTable('master_edit_log');
         return editLogTableExists;
       } catch (error: any) {
@@ -41,15 +47,70 @@ export default ({ strapi }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Check if clock columns exist on master_sync_queue and master_edit_log (migration 008, cached)
+     */
+    async hasClockColumns(): Promise<boolean> {
+      if (clockColumnsExist !== null) return clockColumnsExist;
+      if (!await this.ensureTable() || !await this.ensureEditLogTable()) return false;
+
+      try {
+        const db = await connection();
+        clockColumnsExist = await db.schema.hasColumn('master_sync_queue', 'clock') &&
+          await db.schema.hasColumn('master_edit_log', 'clock');
+        return clockColumnsExist ?? false;
+      } catch (error: any) {
+        strapi.log.warn(`[MasterQueue] Failed to check clock columns: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Check if the change log sequence column exists on master_sync_queue (migration 009, cached)
+     */
+    async hasSequenceColumn(): Promise<boolean> {
+      if (sequenceColumnExists !== null) return sequenceColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      try {
+        const db = await connection();
+        sequenceColumnExists = await db.schema.hasColumn('master_sync_queue', 'sequence');
+        return sequenceColumnExists ?? false;
+      } catch (error: any) {
+        strapi.log.warn(`[MasterQueue] Failed to check sequence column: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Check if the document_status column exists on master_sync_queue (migration 013, cached)
+     */
+    async hasDocumentStatusColumn(): Promise<boolean> {
+      if (documentStatusColumnExists !== null) return documentStatusColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      try {
+        const db = await connection();
+        documentStatusColumnExists = await db.schema.hasColumn('master_sync_queue', 'document_status');
+        return documentStatusColumnExists ?? false;
+      } catch (error: any) {
+        strapi.log.warn(`[MasterQueue] Failed to check document_status column: ${error.message}`);
+        return false;
+      }
+    },
+
     /**
      * Enqueue a Master change for later sync to ships
      */
     async enqueue(operation: {
       contentType: string;
       contentId: string;
-      operation: 'create' | 'update' | 'delete';
+      operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
       data: any;
       locale?: string | null;
+      clock?: string | null;
+      sequence?: number | null;  // Change log sequence number
+      documentStatus?: 'draft' | 'published' | null;
     }): Promise<any> {
       if (!await this.ensureTable()) {
         strapi.log.warn('[MasterQueue] master_sync_queue table does not exist');
@@ -57,7 +118,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         
         const insertData: any = {
           content_type: operation.contentType,
@@ -68,6 +129,16 @@ export default ({ strapi }: { strapi: any }) => {
           status: 'pending',
           created_at: new Date(),
         };
+
+        if (operation.clock && await this.hasClockColumns()) {
+          insertData.clock = operation.clock;
+        }
+        if (operation.sequence && await this.hasSequenceColumn()) {
+          insertData.sequence = operation.sequence;
+        }
+        if (operation.documentStatus && await this.hasDocumentStatusColumn()) {
+          insertData.document_status = operation.documentStatus;
+        }
         
         const [result] = await db('master_sync_queue')
           .insert(insertData)
@@ -90,7 +161,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const entries = await db('master_sync_queue')
           .where({ status: 'pending' })
           .orderBy('created_at', 'asc')
@@ -117,7 +188,7 @@ export default ({ strapi }: { strapi: any }) => {
      */
     async markSent(queueId: number): Promise<void> {
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         await db('master_sync_queue')
           .where({ id: queueId })
           .update({
@@ -134,7 +205,7 @@ export default ({ strapi }: { strapi: any }) => {
      */
     async markFailed(queueId: number, error: Error): Promise<void> {
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const entry = await db('master_sync_queue').where({ id: queueId }).first();
 
         const newRetryCount = (entry?.retry_count || 0) + 1;
@@ -164,7 +235,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const [result] = await db('master_sync_queue')
           .where({ status: 'pending' })
           .count('* as count');
@@ -190,7 +261,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const results = await db('master_sync_queue')
           .select('status')
           .count('* as count')
@@ -220,7 +291,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const cutoffDate = new Date();
         cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
@@ -254,13 +325,31 @@ export default ({ strapi }: { strapi: any }) => {
       operation: 'create' | 'update' | 'delete';
       editedBy: string;  // 'master-admin' or 'ship-{shipId}'
       locale?: string | null;
+      clock?: string | null;  // Hybrid logical clock of the edit
     }): Promise<void> {
       if (!await this.ensureEditLogTable()) {
         return;
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
+
+        if (await this.hasClockColumns()) {
+          await db.raw(`
+            INSERT INTO master_edit_log (content_type, document_id, operation, edited_by, locale, clock, edited_at)
+            VALUES (?, ?, ?, ?, ?, ?, NOW())
+            ON CONFLICT (content_type, document_id) 
+            DO UPDATE SET 
+              operation = EXCLUDED.operation,
+              edited_by = EXCLUDED.edited_by,
+              locale = EXCLUDED.locale,
+              clock = EXCLUDED.clock,
+              edited_at = NOW()
+          `, [params.contentType, params.documentId, params.operation, params.editedBy, params.locale || null, params.clock || null]);
+
+          strapi.log.debug(`[MasterEditLog] Logged ${params.operation} by ${params.editedBy} for ${params.contentType}/${params.documentId} @ ${params.clock || '-'}`);
+          return;
+        }
 
         // UPSERT: Insert or update on conflict
         await db.raw(`
@@ -287,13 +376,14 @@ export default ({ strapi }: { strapi: any }) => {
       editedBy: string;
       editedAt: Date;
       operation: string;
+      clock: string | null;
     } | null> {
       if (!await this.ensureEditLogTable()) {
         return null;
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         const entry = await db('master_edit_log')
           .where({ content_type: contentType, document_id: documentId })
           .first();
@@ -304,6 +394,7 @@ export default ({ strapi }: { strapi: any }) => {
           editedBy: entry.edited_by,
           editedAt: new Date(entry.edited_at),
           operation: entry.operation,
+          clock: entry.clock || null,
         };
       } catch (error: any) {
         return null;
@@ -336,7 +427,7 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        const db = strapi.db.connection;
+        const db = await connection();
         await db('master_edit_log')
           .where({ content_type: contentType, document_id: documentId })
           .delete();
@@ -82,11 +82,21 @@ export default ({ strapi }: { strapi: any }) => {
       return null;
     }
 
+    return readMediaConfig();
+  };
+
+  /**
+   * Read media settings whether or not media sync is enabled
+   * (bundles carry media on master too, where media sync is off)
+   */
+  const readMediaConfig = (): MediaConfig => {
+    const config = strapi.config.get('plugin::offline-sync', {});
+
     return {
-      enabled: config.media.enabled,
-      transformUrls: config.media.transformUrls !== false,
-      syncOnStartup: config.media.syncOnStartup !== false,
-      syncInterval: config.media.syncInterval || 300000, // 5 minutes default
+      enabled: config.media?.enabled === true,
+      transformUrls: config.media?.transformUrls !== false,
+      syncOnStartup: config.media?.syncOnStartup !== false,
+      syncInterval: config.media?.syncInterval || 300000, // 5 minutes default
       oss: {
         endPoint: config.media.oss?.endPoint || '',
         port: config.media.oss?.port || 443,
@@ -108,13 +118,62 @@ export default ({ strapi }: { strapi: any }) => {
         bucket: config.media.minio?.bucket || 'media',
         baseUrl: config.media.minio?.baseUrl || 'http://localhost:9000/media',
       },
-      mediaFields: config.media.mediaFields || [
+      mediaFields: config.media?.mediaFields || [
         'url', 'src', 'href', 'image', 'thumbnail', 'video', 'file',
         'formats', 'previewUrl', 'provider_metadata',
       ],
     };
   };
 
+  /**
+   * Create the OSS client (Alibaba OSS is S3-compatible)
+   */
+  const createOssClient = (config: MediaConfig): MinioClient => {
+    const ossEndpoint = config.oss.endPoint.replace(/^https?:\/\//, '');
+
+    // For Alibaba OSS, region should match endpoint (e.g., oss-cn-hangzhou)
+    const ossRegion = config.oss.region || ossEndpoint.split('.')[0] || 'oss-cn-hangzhou';
+
+    return new MinioClient({
+      endPoint: ossEndpoint,
+      port: config.oss.port,
+      useSSL: config.oss.useSSL,
+      accessKey: config.oss.accessKey,
+      secretKey: config.oss.secretKey,
+      region: ossRegion,
+      pathStyle: config.oss.pathStyle,  // false for Alibaba OSS (virtual-hosted style)
+    });
+  };
+
+  /**
+   * Create the local MinIO client
+   */
+  const createMinioClient = (config: MediaConfig): MinioClient => new MinioClient({
+    endPoint: config.minio.endPoint.replace(/^https?:\/\//, ''),
+    port: config.minio.port,
+    useSSL: config.minio.useSSL,
+    accessKey: config.minio.accessKey,
+    secretKey: config.minio.secretKey,
+  });
+
+  /**
+   * Object storage of this instance for bundled media: OSS on master, MinIO on a replica
+   * Clients are created on first use when media sync hasn't initialized them
+   */
+  const getLocalStorage = (): { client: MinioClient; bucket: string; baseUrl: string; uploadPath: string } | null => {
+    const config = readMediaConfig();
+
+    if (strapi.config.get('plugin::offline-sync', {}).mode === 'master') {
+      if (!config.oss.endPoint || !config.oss.accessKey) return null;
+      ossClient = ossClient || createOssClient(config);
+      return { client: ossClient, bucket: config.oss.bucket, baseUrl: config.oss.baseUrl, uploadPath: config.oss.uploadPath || '' };
+    }
+
+    if (!config.minio.endPoint || !config.minio.accessKey) return null;
+    minioClient = minioClient || createMinioClient(config);
+    return { client: minioClient, bucket: config.minio.bucket, baseUrl: config.minio.baseUrl, uploadPath: '' };
+  };
+
   /**
    * Initialize MinIO clients
    */
@@ -127,25 +186,11 @@ export default ({ strapi }: { strapi: any }) => {
     try {
       // Initialize OSS client (Alibaba OSS is S3-compatible)
       if (config.oss.endPoint && config.oss.accessKey) {
-        const ossEndpoint = config.oss.endPoint.replace(/^https?:\/\//, '');
-
-        // For Alibaba OSS, region should match endpoint (e.g., oss-cn-hangzhou)
-        const ossRegion = config.oss.region || ossEndpoint.split('.')[0] || 'oss-cn-hangzhou';
-
-        ossClient = new MinioClient({
-          endPoint: ossEndpoint,
-          port: config.oss.port,
-          useSSL: config.oss.useSSL,
-          accessKey: config.oss.accessKey,
-          secretKey: config.oss.secretKey,
-          region: ossRegion,
-          pathStyle: config.oss.pathStyle,  // false for Alibaba OSS (virtual-hosted style)
-        });
+        ossClient = createOssClient(config);
 
         strapi.log.info(`[MediaSync] OSS client initialized`);
-        strapi.log.info(`[MediaSync]   Endpoint: ${ossEndpoint}`);
+        strapi.log.info(`[MediaSync]   Endpoint: ${config.oss.endPoint}`);
         strapi.log.info(`[MediaSync]   Bucket: ${config.oss.bucket}`);
-        strapi.log.info(`[MediaSync]   Region: ${ossRegion}`);
         strapi.log.info(`[MediaSync]   Upload Path: ${config.oss.uploadPath || '(root)'}`);
       } else {
         strapi.log.warn('[MediaSync] OSS client not initialized - missing endpoint or accessKey');
@@ -153,13 +198,7 @@ export default ({ strapi }: { strapi: any }) => {
 
       // Initialize local MinIO client
       if (config.minio.endPoint && config.minio.accessKey) {
-        minioClient = new MinioClient({
-          endPoint: config.minio.endPoint.replace(/^https?:\/\//, ''),
-          port: config.minio.port,
-          useSSL: config.minio.useSSL,
-          accessKey: config.minio.accessKey,
-          secretKey: config.minio.secretKey,
-        });
+        minioClient = createMinioClient(config);
         strapi.log.info('[MediaSync] MinIO client initialized');
       }
 
@@ -268,6 +307,20 @@ export default ({ strapi }: { strapi: any }) => {
     let processed = 0;
     let listed = 0;
 
+    // Progress for the admin event stream (coalesced there to one event per second)
+    const emitProgress = (phase: 'started' | 'progress' | 'completed' | 'failed'): void => {
+      strapi.eventHub?.emit('offline-sync.media-progress', {
+        phase,
+        processed,
+        downloaded: syncStats.filesDownloaded,
+        skipped: syncStats.filesSkipped,
+        failed: syncStats.filesFailed,
+        error: syncStats.error,
+        timestamp: new Date().toISOString(),
+      });
+    };
+    emitProgress('started');
+
     try {
       strapi.log.info('[MediaSync] Starting media sync from OSS to MinIO...');
 
@@ -311,6 +364,7 @@ export default ({ strapi }: { strapi: any }) => {
         }
 
         processed++;
+        emitProgress('progress');
 
         // Check if file already exists in MinIO
         const exists = await fileExistsInMinio(obj.name);
@@ -352,6 +406,7 @@ export default ({ strapi }: { strapi: any }) => {
     } finally {
       isSyncing = false;
       syncStats.isRunning = false;
+      emitProgress(syncStats.error ? 'failed' : 'completed');
     }
   };
 
@@ -1137,10 +1192,10 @@ export default ({ strapi }: { strapi: any }) => {
 
     /**
      * Prepare content for push to master
-     * - Syncs media files to OSS
+     * - Syncs media files to OSS (unless options.upload is false)
      * - Collects file records that need to be created on master
      */
-    async prepareContentForMasterPush(data: any): Promise<{
+    async prepareContentForMasterPush(data: any, options: { upload?: boolean } = {}): Promise<{
       fileRecords: any[];
       fileSyncResult: { synced: number; failed: number };
     }> {
@@ -1155,8 +1210,10 @@ export default ({ strapi }: { strapi: any }) => {
       }
 
       try {
-        // 1. Sync media files from MinIO to OSS
-        result.fileSyncResult = await this.syncContentMediaToOss(data);
+        // 1. Sync media files from MinIO to OSS (bundles carry the files themselves)
+        if (options.upload !== false) {
+          result.fileSyncResult = await this.syncContentMediaToOss(data);
+        }
 
         // 2. Extract file IDs and get their records
         const fileIds = this.extractFileIds(data);
@@ -1247,5 +1304,96 @@ export default ({ strapi }: { strapi: any }) => {
 
       return updateValue(data);
     },
+
+    /**
+     * Object paths of the media referenced in content, in this instance's storage
+     * (MinIO URLs on a replica, OSS URLs on master) - for sync bundles
+     */
+    extractBundleObjectPaths(data: any): string[] {
+      const storage = getLocalStorage();
+      if (!storage?.baseUrl) return [];
+
+      const paths: Set<string> = new Set();
+      const baseUrl = storage.baseUrl.replace(/\/$/, '');
+
+      const extractFromValue = (value: any): void => {
+        if (typeof value === 'string') {
+          if (value.includes(baseUrl)) {
+            const objectPath = value.slice(value.indexOf(baseUrl) + baseUrl.length).replace(/^\//, '');
+            if (objectPath) {
+              paths.add(objectPath);
+            }
+          }
+        } else if (Array.isArray(value)) {
+          value.forEach(extractFromValue);
+        } else if (typeof value === 'object' && value !== null) {
+          Object.values(value).forEach(extractFromValue);
+        }
+      };
+
+      extractFromValue(data);
+      return Array.from(paths);
+    },
+
+    /**
+     * Read a media file from this instance's storage for a sync bundle (null if missing)
+     */
+    async readBundleObject(objectPath: string): Promise<{ data: Buffer; contentType: string } | null> {
+      const storage = getLocalStorage();
+      if (!storage) {
+        return null;
+      }
+
+      try {
+        const stat = await storage.client.statObject(storage.bucket, objectPath);
+        const stream = await storage.client.getObject(storage.bucket, objectPath);
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+          chunks.push(Buffer.from(chunk));
+        }
+
+        return {
+          data: Buffer.concat(chunks),
+          contentType: stat.metaData?.['content-type'] || 'application/octet-stream',
+        };
+      } catch (error: any) {
+        strapi.log.warn(`[MediaSync] Failed to read ${objectPath} for bundle: ${error.message}`);
+        return null;
+      }
+    },
+
+    /**
+     * Store a media file from a sync bundle in this instance's storage
+     * Same object names as online sync: master prepends oss.uploadPath (uploadFileToOss),
+     * a replica keeps master's path (syncFile). Existing objects are kept.
+     */
+    async writeBundleObject(objectPath: string, data: Buffer, contentType: string): Promise<boolean> {
+      const storage = getLocalStorage();
+      if (!storage) {
+        strapi.log.warn(`[MediaSync] Cannot store bundled ${objectPath} - storage not configured`);
+        return false;
+      }
+
+      const objectName = storage.uploadPath
+        ? `${storage.uploadPath.replace(/\/$/, '')}/${objectPath}`
+        : objectPath;
+
+      try {
+        try {
+          await storage.client.statObject(storage.bucket, objectName);
+          return true;
+        } catch {
+          // Not stored yet
+        }
+
+        await storage.client.putObject(storage.bucket, objectName, data, data.length, {
+          'Content-Type': contentType || 'application/octet-stream',
+        });
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[MediaSync] Failed to store bundled ${objectName}: ${error.message}`);
+        return false;
+      }
+    },
   };
 };
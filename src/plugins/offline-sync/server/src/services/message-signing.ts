@@ -0,0 +1,280 @@
+/**
+ * Message Signing Service
+ * Ships sign every message they send with their Ed25519 private key
+ * (security.privateKey / privateKeyFile); master verifies it against the public key
+ * registered for the ship in ship-registry before processing the message.
+ *
+ * Always rejected: ships missing from the ship registry, unsigned messages from a ship
+ * with a registered key, and signatures that don't verify. With security.requireSignatures
+ * master also rejects unsigned messages and ships without a registered key.
+ *
+ * Master signs the bundles it exports with its own key (security.privateKey / privateKeyFile
+ * on master); ships verify them with security.masterPublicKey / masterPublicKeyFile.
+ */
+
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+
+export interface MessageSignature {
+  algorithm: 'ed25519';
+  value: string;  // base64
+}
+
+export interface VerifyResult {
+  accepted: boolean;
+  verified: boolean;
+  reason?: string;
+}
+
+// Registered public keys are re-read after this long (keys can be rotated from the admin)
+const PUBLIC_KEY_TTL_MS = 60000;
+
+// Signed transport requests older (or newer) than this are rejected; generous for ship clock skew
+const REQUEST_MAX_AGE_MS = 15 * 60 * 1000;
+
+/**
+ * JSON with sorted object keys, so sender and receiver sign the same bytes
+ */
+const canonicalize = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  let privateKey: KeyObject | null | undefined;
+  let masterPublicKey: KeyObject | null | undefined;
+  const publicKeys = new Map<string, { known: boolean; key: KeyObject | null; loadedAt: number }>();
+
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+
+  /**
+   * Signed bytes of a message (everything but the signature)
+   */
+  const payloadOf = (message: any): Buffer => {
+    const { signature, ...rest } = message;
+    return Buffer.from(canonicalize(rest));
+  };
+
+  const isValidSignature = (payload: Buffer, signature: Partial<MessageSignature> | undefined, publicKey: KeyObject): boolean => {
+    try {
+      return signature?.algorithm === 'ed25519'
+        && verify(null, payload, publicKey, Buffer.from(String(signature.value), 'base64'));
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    /**
+     * New Ed25519 key pair as PEM strings (private key stays on the ship)
+     */
+    generateKeyPair(): { publicKey: string; privateKey: string } {
+      const { publicKey, privateKey: secretKey } = generateKeyPairSync('ed25519');
+      return {
+        publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        privateKey: secretKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      };
+    },
+
+    /**
+     * Validate a PEM public key, returns it normalized (throws if it isn't Ed25519)
+     */
+    normalizePublicKey(pem: string): string {
+      const key = createPublicKey(String(pem || '').replace(/\\n/g, '\n'));
+      if (key.asymmetricKeyType !== 'ed25519') {
+        throw new Error(`Expected an ed25519 public key (got ${key.asymmetricKeyType})`);
+      }
+      return key.export({ type: 'spki', format: 'pem' }).toString();
+    },
+
+    /**
+     * This instance's signing key (cached; null when none is configured)
+     * Ships sign their messages with it, master signs its bundles
+     */
+    getPrivateKey(): KeyObject | null {
+      if (privateKey !== undefined) return privateKey;
+
+      const security = getConfig().security || {};
+      try {
+        const pem = security.privateKeyFile
+          ? readFileSync(security.privateKeyFile, 'utf8')
+          : security.privateKey?.replace(/\\n/g, '\n');
+        privateKey = pem ? createPrivateKey(pem) : null;
+      } catch (error: any) {
+        strapi.log.error(`[Signing] Failed to load the private key: ${error.message}`);
+        privateKey = null;
+      }
+      return privateKey;
+    },
+
+    /**
+     * Add this ship's signature to an outgoing message (unchanged on master or without a key)
+     */
+    sign<T extends Record<string, any>>(message: T): T & { signature?: MessageSignature } {
+      if (getConfig().mode !== 'replica') return message;
+
+      const key = this.getPrivateKey();
+      if (!key) return message;
+
+      const signature: MessageSignature = {
+        algorithm: 'ed25519',
+        value: sign(null, payloadOf(message), key).toString('base64'),
+      };
+      return { ...message, signature };
+    },
+
+    /**
+     * Sign a master bundle payload with master's key (base64 signature)
+     */
+    signBundle(payload: string): string {
+      const key = this.getPrivateKey();
+      if (!key) {
+        throw new Error('security.privateKeyFile (SYNC_SIGNING_PRIVATE_KEY_FILE) is not configured - master bundles are signed with master\'s key');
+      }
+      return sign(null, Buffer.from(payload), key).toString('base64');
+    },
+
+    /**
+     * Master's public key (replica, cached; null when none is configured)
+     */
+    getMasterPublicKey(): KeyObject | null {
+      if (masterPublicKey !== undefined) return masterPublicKey;
+
+      const security = getConfig().security || {};
+      try {
+        const pem = security.masterPublicKeyFile
+          ? readFileSync(security.masterPublicKeyFile, 'utf8')
+          : security.masterPublicKey?.replace(/\\n/g, '\n');
+        masterPublicKey = pem ? createPublicKey(pem) : null;
+      } catch (error: any) {
+        strapi.log.error(`[Signing] Failed to load master's public key: ${error.message}`);
+        masterPublicKey = null;
+      }
+      return masterPublicKey;
+    },
+
+    /**
+     * Check that a bundle payload was signed by master (replica)
+     */
+    verifyBundle(payload: string, signature: string): boolean {
+      const key = this.getMasterPublicKey();
+      if (!key) {
+        throw new Error('security.masterPublicKeyFile (SYNC_MASTER_PUBLIC_KEY_FILE) is not configured - master bundles can\'t be verified');
+      }
+      return isValidSignature(Buffer.from(payload), { algorithm: 'ed25519', value: signature }, key);
+    },
+
+    /**
+     * Public key registered for a ship (cached for PUBLIC_KEY_TTL_MS)
+     */
+    async getPublicKey(shipId: string): Promise<KeyObject | null> {
+      return (await this.lookupShip(shipId)).key;
+    },
+
+    /**
+     * Whether a ship is in the ship registry and its public key (cached for PUBLIC_KEY_TTL_MS)
+     */
+    async lookupShip(shipId: string): Promise<{ known: boolean; key: KeyObject | null }> {
+      const cached = publicKeys.get(shipId);
+      if (cached && Date.now() - cached.loadedAt < PUBLIC_KEY_TTL_MS) {
+        return cached;
+      }
+
+      const ship = await strapi.plugin('offline-sync').service('ship-tracker').getShip(shipId);
+      let key: KeyObject | null = null;
+      if (ship?.publicKey) {
+        try {
+          key = createPublicKey(ship.publicKey);
+        } catch (error: any) {
+          strapi.log.error(`[Signing] Invalid public key registered for ${shipId}: ${error.message}`);
+        }
+      }
+
+      const entry = { known: !!ship, key, loadedAt: Date.now() };
+      publicKeys.set(shipId, entry);
+      return entry;
+    },
+
+    /**
+     * Forget a cached public key (after it was changed)
+     */
+    invalidate(shipId: string): void {
+      publicKeys.delete(shipId);
+    },
+
+    /**
+     * Check a message received from a ship (master)
+     */
+    async verify(message: any): Promise<VerifyResult> {
+      const required = getConfig().security?.requireSignatures === true;
+      const shipId = message?.shipId;
+
+      if (!shipId || shipId === 'master') {
+        return { accepted: false, verified: false, reason: 'missing ship id' };
+      }
+
+      const { known, key: publicKey } = await this.lookupShip(shipId);
+
+      if (!known) {
+        return { accepted: false, verified: false, reason: 'unknown ship (not in the ship registry)' };
+      }
+
+      // Once a key is registered the ship must sign: otherwise any sender could impersonate it
+      if (!message.signature) {
+        return required || publicKey
+          ? { accepted: false, verified: false, reason: publicKey ? 'unsigned message from a ship with a registered key' : 'unsigned message' }
+          : { accepted: true, verified: false };
+      }
+
+      if (!publicKey) {
+        return required
+          ? { accepted: false, verified: false, reason: 'no public key registered' }
+          : { accepted: true, verified: false };
+      }
+
+      return isValidSignature(payloadOf(message), message.signature, publicKey)
+        ? { accepted: true, verified: true }
+        : { accepted: false, verified: false, reason: 'invalid signature' };
+    },
+
+    /**
+     * Check a ship's signed transport request, e.g. an HTTP poll or ack (master)
+     * The ship signs the request fields plus a timestamp; a registered key is required
+     * regardless of requireSignatures, so the shipId a request names is the ship that sent it
+     */
+    async verifyRequest(fields: { shipId: string } & Record<string, string>, timestamp?: string, signature?: string): Promise<VerifyResult> {
+      if (!fields.shipId || fields.shipId === 'master') {
+        return { accepted: false, verified: false, reason: 'missing ship id' };
+      }
+      if (!timestamp || !signature) {
+        return { accepted: false, verified: false, reason: 'unsigned request' };
+      }
+
+      const age = Math.abs(Date.now() - new Date(timestamp).getTime());
+      if (!Number.isFinite(age) || age > REQUEST_MAX_AGE_MS) {
+        return { accepted: false, verified: false, reason: 'request timestamp too far from master time (check the ship clock)' };
+      }
+
+      const { known, key: publicKey } = await this.lookupShip(fields.shipId);
+      if (!known) {
+        return { accepted: false, verified: false, reason: 'unknown ship (not in the ship registry)' };
+      }
+      if (!publicKey) {
+        return { accepted: false, verified: false, reason: 'no public key registered' };
+      }
+
+      return isValidSignature(payloadOf({ ...fields, timestamp }), { algorithm: 'ed25519', value: signature }, publicKey)
+        ? { accepted: true, verified: true }
+        : { accepted: false, verified: false, reason: 'invalid signature' };
+    },
+  };
+};
@@ -61,8 +61,33 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Get the recorded status of a message (null if never seen)
+     */
+    async getStatus(messageId: string): Promise<'processed' | 'failed' | null> {
+      if (!messageId) return null;
+      if (!strapi || !strapi.db) {
+        console.error('[MessageTracker] Strapi instance not available');
+        return null;
+      }
+
+      try {
+        const existing = await strapi.db.query(CONTENT_TYPE).findOne({
+          where: { messageId },
+        });
+        return existing ? existing.status : null;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (strapi && strapi.log) {
+          strapi.log.debug(`[MessageTracker] Status check failed for ${messageId}: ${message}`);
+        }
+        return null;
+      }
+    },
+
     /**
      * Mark a message as processed
+     * A previously failed message is upgraded to processed (dead letter replay)
      */
     async markProcessed(messageId: string, metadata: MessageMetadata = {}): Promise<boolean> {
       if (!messageId) return false;
@@ -77,11 +102,22 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
           where: { messageId },
         });
 
+        const now = new Date();
         if (existing) {
-          return false; // Already processed
+          if (existing.status !== 'failed') {
+            return false; // Already processed
+          }
+          await strapi.db.query(CONTENT_TYPE).update({
+            where: { id: existing.id },
+            data: {
+              status: 'processed',
+              processedAt: now,
+              updatedAt: now,
+            },
+          });
+          return true;
         }
 
-        const now = new Date();
         await strapi.db.query(CONTENT_TYPE).create({
           data: {
             documentId: generateDocumentId(),
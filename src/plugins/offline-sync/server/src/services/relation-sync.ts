@@ -0,0 +1,561 @@
+/**
+ * Relation Sync Service
+ * Keeps relations intact across ships and master, where the same document has different ids.
+ * - Outgoing payloads carry each relation as { documentId } (xToOne) or [{ documentId }] (xToMany)
+ * - Push order follows relation dependencies, so a referenced document is created first
+ * - Incoming relations are translated to local documentIds through document-mapping,
+ *   including relations inside components and dynamic zones
+ * - Relations whose target isn't mapped yet are deferred (deferred_relations) and
+ *   written once the target arrives, instead of pointing at a foreign id
+ *
+ * Both sides of a relation (inversedBy and mappedBy) are synced: editors may change
+ * either one, e.g. package.ships is stored on ship.packages.
+ */
+
+export type RelationDirection = 'to-master' | 'to-replica';
+
+export interface RelationField {
+  field: string;
+  target: string;
+  many: boolean;
+}
+
+export interface RelationReference {
+  field: string;
+  contentType: string;
+  documentId: string;
+}
+
+export interface TranslationResult {
+  data: Record<string, any>;
+  unresolved: RelationReference[];
+  deferred: Record<string, any>;   // Original values of the attributes left out of data
+}
+
+export interface DeferredKey {
+  direction: RelationDirection;
+  shipId: string;
+  contentType: string;
+  documentId: string;              // Sender's documentId (ship's on master, master's on replicas)
+  locale?: string | null;
+}
+
+// Only content API documents are synced (and therefore mapped)
+const SYNCED_TARGET_PREFIX = 'api::';
+
+// Relation kinds stored as a list of documents
+const TO_MANY = ['oneToMany', 'manyToMany'];
+
+// Attribute types that can hold relations
+const NESTING_TYPES = ['component', 'dynamiczone'];
+
+// Deferred relations retried per run
+const RETRY_BATCH_SIZE = 100;
+
+const isSyncedRelation = (field: string, attribute: any): boolean =>
+  attribute?.type === 'relation'
+  && field !== 'localizations'
+  && typeof attribute.target === 'string'
+  && attribute.target.startsWith(SYNCED_TARGET_PREFIX);
+
+/**
+ * documentIds held by a relation value, null when the shape is unknown (e.g. { count })
+ */
+const extractDocumentIds = (value: any): string[] | null => {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    const ids: string[] = [];
+    for (const item of value) {
+      const itemIds = extractDocumentIds(item);
+      if (itemIds === null) return null;
+      ids.push(...itemIds);
+    }
+    return ids;
+  }
+  if (typeof value === 'object' && typeof value.documentId === 'string') {
+    return [value.documentId];
+  }
+  return null;
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  let tableExists: boolean | null = null;
+
+  // Joins a surrounding transaction (bulk-sync), e.g. while master applies a ship bulk
+  const connection = () => strapi.plugin('offline-sync').service('bulk-sync').connection();
+
+  const parseJsonField = (value: any): any => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  };
+
+  /**
+   * Get attributes for a content type or component uid
+   */
+  const getAttributes = (uid?: string): Record<string, any> => {
+    if (!uid) return {};
+    return strapi.contentTypes?.[uid]?.attributes || strapi.components?.[uid]?.attributes || {};
+  };
+
+  /**
+   * Collect relation references inside an attribute value (walks components and dynamic zones)
+   */
+  const collectReferences = (field: string, attribute: any, value: any, references: RelationReference[]): void => {
+    if (value === null || value === undefined) return;
+
+    if (attribute.type === 'relation') {
+      for (const documentId of extractDocumentIds(value) || []) {
+        references.push({ field, contentType: attribute.target, documentId });
+      }
+      return;
+    }
+
+    const items = Array.isArray(value) ? value : [value];
+    for (const item of items) {
+      if (!item || typeof item !== 'object') continue;
+      const uid = attribute.type === 'dynamiczone' ? item.__component : attribute.component;
+      for (const [key, child] of Object.entries(getAttributes(uid))) {
+        if (key in item && (isSyncedRelation(key, child) || NESTING_TYPES.includes((child as any).type))) {
+          collectReferences(field, child, item[key], references);
+        }
+      }
+    }
+  };
+
+  const toRow = (key: DeferredKey) => ({
+    direction: key.direction,
+    ship_id: key.shipId,
+    content_type: key.contentType,
+    source_document_id: String(key.documentId),
+    locale: key.locale || '',
+  });
+
+  const getRetryConfig = () => {
+    const config = strapi.config.get('plugin::offline-sync', {});
+    return {
+      interval: config.sync?.relationRetryInterval || 60000,
+      maxAttempts: config.sync?.relationRetryAttempts || 30,
+    };
+  };
+
+  return {
+    /**
+     * Relation attributes of a content type that point at synced content types
+     */
+    getRelationFields(contentType: string): RelationField[] {
+      return Object.entries(getAttributes(contentType))
+        .filter(([field, attribute]) => isSyncedRelation(field, attribute))
+        .map(([field, attribute]: [string, any]) => ({
+          field,
+          target: attribute.target,
+          many: TO_MANY.includes(attribute.relation),
+        }));
+    },
+
+    /**
+     * Replace relation values in a payload with the related documentIds stored in the database
+     * Document Service results usually hold no relations (or only { count })
+     */
+    async attachRelations(contentType: string, documentId: string, data: any, locale?: string | null): Promise<any> {
+      const fields = this.getRelationFields(contentType);
+      if (fields.length === 0 || !data || typeof data !== 'object') {
+        return data;
+      }
+
+      try {
+        const populate: Record<string, any> = {};
+        for (const { field } of fields) {
+          populate[field] = { fields: ['documentId'] };
+        }
+
+        const findOptions: any = { documentId, populate };
+        if (locale) findOptions.locale = locale;
+        const doc = await strapi.documents(contentType).findOne(findOptions);
+        if (!doc) return data;
+
+        const result = { ...data };
+        for (const { field, many } of fields) {
+          const value = doc[field];
+          if (many) {
+            result[field] = Array.isArray(value) ? value.map((item: any) => ({ documentId: item.documentId })) : [];
+          } else {
+            result[field] = value?.documentId ? { documentId: value.documentId } : null;
+          }
+        }
+        return result;
+      } catch (error: any) {
+        // Without relations the payload still syncs its own fields
+        strapi.log.warn(`[Relations] Could not load relations for ${contentType}/${documentId}: ${error.message}`);
+        return data;
+      }
+    },
+
+    /**
+     * Documents a payload references through relations, including relations in components
+     */
+    getReferences(contentType: string, data: any): RelationReference[] {
+      if (!data || typeof data !== 'object') return [];
+
+      const references: RelationReference[] = [];
+      for (const [field, attribute] of Object.entries(getAttributes(contentType))) {
+        if (field in data && (isSyncedRelation(field, attribute) || NESTING_TYPES.includes((attribute as any).type))) {
+          collectReferences(field, attribute, data[field], references);
+        }
+      }
+      return references;
+    },
+
+    /**
+     * Order queue operations so documents created in the same batch are sent
+     * before the operations that reference them. Otherwise the queue order is kept;
+     * cycles (two new documents referencing each other) fall back to queue order.
+     */
+    orderByDependencies<T extends { content_type: string; content_id: string; operation: string; data: any }>(operations: T[]): T[] {
+      const createdIndex = new Map<string, number>();
+      operations.forEach((operation, index) => {
+        if (operation.operation === 'create') {
+          createdIndex.set(`${operation.content_type}:${operation.content_id}`, index);
+        }
+      });
+      if (createdIndex.size === 0) return operations;
+
+      const dependencies: Array<Set<number>> = operations.map((operation, index) => new Set<number>(
+        this.getReferences(operation.content_type, operation.data)
+          .map((reference: RelationReference) => createdIndex.get(`${reference.contentType}:${reference.documentId}`))
+          .filter((dependency): dependency is number => dependency !== undefined && dependency !== index)
+      ));
+
+      const ordered: T[] = [];
+      const emitted = new Set<number>();
+      const visiting = new Set<number>();
+
+      const visit = (index: number) => {
+        if (emitted.has(index) || visiting.has(index)) return;
+        visiting.add(index);
+        for (const dependency of dependencies[index]) {
+          visit(dependency);
+        }
+        visiting.delete(index);
+        emitted.add(index);
+        ordered.push(operations[index]);
+      };
+
+      operations.forEach((_, index) => visit(index));
+      return ordered;
+    },
+
+    /**
+     * Resolve the local documentId of a related document
+     * - to-master: ship documentId -> master documentId (mapping of the sending ship)
+     * - to-replica: master documentId -> this ship's documentId
+     * Falls back to the same documentId when it exists locally (document created with the same id)
+     */
+    async resolveDocumentId(
+      target: string,
+      documentId: string,
+      options: { direction: RelationDirection; shipId: string }
+    ): Promise<string | null> {
+      const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+
+      if (options.direction === 'to-master') {
+        const masterDocumentId = await documentMapping.getMasterDocumentId(options.shipId, target, documentId);
+        if (masterDocumentId) return masterDocumentId;
+      } else {
+        const mapping = await documentMapping.findByMasterDocumentId(options.shipId, target, documentId);
+        if (mapping?.replicaDocumentId) return mapping.replicaDocumentId;
+      }
+
+      const existing = await strapi.documents(target).findOne({ documentId, fields: ['documentId'] });
+      return existing ? documentId : null;
+    },
+
+    /**
+     * Translate one attribute value; value undefined means the key is left out
+     * complete is false when a related document (possibly nested) can't be resolved yet
+     */
+    async translateValue(
+      field: string,
+      attribute: any,
+      value: any,
+      options: { direction: RelationDirection; shipId: string },
+      unresolved: RelationReference[]
+    ): Promise<{ value: any; complete: boolean }> {
+      if (value === null || value === undefined) {
+        return { value, complete: true };
+      }
+
+      if (attribute.type === 'relation') {
+        const documentIds = extractDocumentIds(value);
+        if (documentIds === null) {
+          // Unknown shape (e.g. { count: 2 }) - nothing to translate
+          return { value: undefined, complete: true };
+        }
+
+        const translated: string[] = [];
+        for (const documentId of documentIds) {
+          const localId = await this.resolveDocumentId(attribute.target, documentId, options);
+          if (localId) {
+            translated.push(localId);
+          } else {
+            unresolved.push({ field, contentType: attribute.target, documentId });
+          }
+        }
+
+        const many = TO_MANY.includes(attribute.relation);
+        return {
+          value: many ? translated : (translated[0] ?? null),
+          complete: translated.length === documentIds.length,
+        };
+      }
+
+      // Component or dynamic zone - translate relations of each item
+      const items = Array.isArray(value) ? value : [value];
+      const translatedItems: any[] = [];
+      let complete = true;
+
+      for (const item of items) {
+        if (!item || typeof item !== 'object') {
+          translatedItems.push(item);
+          continue;
+        }
+
+        const uid = attribute.type === 'dynamiczone' ? item.__component : attribute.component;
+        const translatedItem = { ...item };
+        for (const [key, child] of Object.entries(getAttributes(uid))) {
+          if (!(key in item) || !(isSyncedRelation(key, child) || NESTING_TYPES.includes((child as any).type))) continue;
+
+          const result = await this.translateValue(field, child, item[key], options, unresolved);
+          if (result.value === undefined) {
+            delete translatedItem[key];
+          } else {
+            translatedItem[key] = result.value;
+          }
+          complete = complete && result.complete;
+        }
+        translatedItems.push(translatedItem);
+      }
+
+      return { value: Array.isArray(value) ? translatedItems : translatedItems[0], complete };
+    },
+
+    /**
+     * Translate relation values of an incoming payload to local documentIds
+     * Attributes with an unresolved target (also inside components) are left out of the write
+     * and returned in deferred, so the local value stays as it is instead of being
+     * overwritten with foreign ids. Pass the result to trackDeferred after the write.
+     */
+    async translateRelations(
+      contentType: string,
+      data: Record<string, any>,
+      options: { direction: RelationDirection; shipId: string }
+    ): Promise<TranslationResult> {
+      const result: Record<string, any> = { ...data };
+      const unresolved: RelationReference[] = [];
+      const deferred: Record<string, any> = {};
+
+      for (const [field, attribute] of Object.entries(getAttributes(contentType))) {
+        if (!(field in result) || !(isSyncedRelation(field, attribute) || NESTING_TYPES.includes((attribute as any).type))) continue;
+
+        const translated = await this.translateValue(field, attribute, result[field], options, unresolved);
+        if (!translated.complete) {
+          deferred[field] = data[field];
+          delete result[field];
+        } else if (translated.value === undefined) {
+          delete result[field];
+        } else {
+          result[field] = translated.value;
+        }
+      }
+
+      if (unresolved.length > 0) {
+        strapi.log.info(`[Relations] ${contentType}: ${unresolved.length} related document(s) not mapped yet, deferring ${Object.keys(deferred).join(', ')}`);
+      }
+
+      return { data: result, unresolved, deferred };
+    },
+
+    /**
+     * Check if deferred_relations table exists (cached)
+     */
+    async ensureTable(): Promise<boolean> {
+      if (tableExists !== null) return tableExists;
+
+      try {
+        const db = await connection();
+        tableExists = await db.schema.hasTable('deferred_relations');
+        return tableExists;
+      } catch (error: any) {
+        strapi.log.warn(`[Relations] Failed to check table: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Record the outcome of an applied message for a document:
+     * deferred attributes are stored for retry, earlier deferred values of
+     * attributes the message carried are superseded
+     */
+    async trackDeferred(key: DeferredKey, translation: TranslationResult): Promise<void> {
+      const fields = [...Object.keys(translation.data), ...Object.keys(translation.deferred)];
+
+      if (!await this.ensureTable()) {
+        if (Object.keys(translation.deferred).length > 0) {
+          strapi.log.warn(`[Relations] deferred_relations table missing - unresolved relations of ${key.contentType}/${key.documentId} are dropped`);
+        }
+        return;
+      }
+
+      try {
+        const db = await connection();
+        if (fields.length > 0) {
+          await db('deferred_relations').where(toRow(key)).whereIn('field', fields).delete();
+        }
+
+        const now = new Date();
+        for (const [field, value] of Object.entries(translation.deferred)) {
+          const targetTypes = [...new Set(translation.unresolved
+            .filter((reference) => reference.field === field)
+            .map((reference) => reference.contentType))];
+
+          await db('deferred_relations').insert({
+            ...toRow(key),
+            field,
+            value: JSON.stringify(value),
+            target_types: targetTypes.join(','),
+            status: 'pending',
+            attempts: 0,
+            created_at: now,
+            updated_at: now,
+          });
+        }
+      } catch (error: any) {
+        strapi.log.error(`[Relations] Failed to track deferred relations of ${key.contentType}/${key.documentId}: ${error.message}`);
+      }
+    },
+
+    /**
+     * Drop deferred relations of a deleted document (all locales when locale is not given)
+     */
+    async clearDeferred(key: DeferredKey): Promise<void> {
+      if (!await this.ensureTable()) {
+        return;
+      }
+
+      const db = await connection();
+      const { locale, ...where } = toRow(key);
+      const query = db('deferred_relations').where(where);
+      if (key.locale) {
+        query.where('locale', locale);
+      }
+      await query.delete();
+    },
+
+    /**
+     * Write deferred relations whose targets are mapped by now
+     * With targetType only rows waiting for that content type are retried (e.g. right after it was created)
+     */
+    async retryDeferred(filter: { direction?: RelationDirection; shipId?: string; targetType?: string } = {}): Promise<{ resolved: number; pending: number; failed: number }> {
+      const stats = { resolved: 0, pending: 0, failed: 0 };
+      if (!await this.ensureTable()) {
+        return stats;
+      }
+
+      const db = await connection();
+      const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+      const syncContext = strapi.plugin('offline-sync').service('sync-context');
+      const { maxAttempts } = getRetryConfig();
+
+      let query = db('deferred_relations')
+        .where('status', 'pending')
+        .orderBy('id', 'asc')
+        .limit(RETRY_BATCH_SIZE);
+      if (filter.direction) query = query.where('direction', filter.direction);
+      if (filter.shipId) query = query.where('ship_id', filter.shipId);
+      if (filter.targetType) query = query.where('target_types', 'like', `%${filter.targetType}%`);
+
+      const rows = await query;
+      for (const row of rows) {
+        const options = { direction: row.direction as RelationDirection, shipId: row.ship_id };
+        const origin = row.direction === 'to-master' ? 'ship' : 'master';
+
+        try {
+          // Local copy of the document the relation belongs to
+          const localDocumentId = row.direction === 'to-master'
+            ? await documentMapping.getMasterDocumentId(row.ship_id, row.content_type, row.source_document_id)
+            : (await documentMapping.findByMasterDocumentId(row.ship_id, row.content_type, row.source_document_id))?.replicaDocumentId;
+
+          const unresolved: RelationReference[] = [];
+          const attribute = getAttributes(row.content_type)[row.field];
+          const translated = localDocumentId && attribute
+            ? await this.translateValue(row.field, attribute, parseJsonField(row.value), options, unresolved)
+            : null;
+
+          if (!translated || !translated.complete) {
+            const attempts = row.attempts + 1;
+            const status = attempts >= maxAttempts ? 'failed' : 'pending';
+            await db('deferred_relations').where('id', row.id).update({
+              attempts,
+              status,
+              last_error: localDocumentId ? `${unresolved.length} related document(s) not mapped` : 'Document not mapped',
+              updated_at: new Date(),
+            });
+
+            if (status === 'failed') {
+              strapi.log.warn(`[Relations] ⚠️ Gave up on ${row.content_type}.${row.field} of ${row.source_document_id} after ${attempts} attempts`);
+            }
+            stats[status]++;
+            continue;
+          }
+
+          if (translated.value === undefined) {
+            // Nothing translatable left in the stored value
+            await db('deferred_relations').where('id', row.id).delete();
+            continue;
+          }
+
+          const updateOptions: any = {
+            documentId: localDocumentId,
+            data: { [row.field]: translated.value },
+            status: 'published',
+          };
+          if (row.locale) {
+            updateOptions.locale = row.locale;
+          }
+          // Prevent the write from being synced back to where it came from
+          await syncContext.runFrom(origin, () => strapi.documents(row.content_type).update(updateOptions));
+
+          await db('deferred_relations').where('id', row.id).delete();
+          stats.resolved++;
+
+          strapi.log.info(`[Relations] ✅ Applied deferred ${row.content_type}.${row.field} (${localDocumentId})${row.locale ? ` [${row.locale}]` : ''}`);
+        } catch (error: any) {
+          strapi.log.error(`[Relations] Failed to apply deferred ${row.content_type}.${row.field}: ${error.message}`);
+          const status = row.attempts + 1 >= maxAttempts ? 'failed' : 'pending';
+          await db('deferred_relations').where('id', row.id).update({
+            attempts: row.attempts + 1,
+            status,
+            last_error: error.message,
+            updated_at: new Date(),
+          });
+          stats[status]++;
+        }
+      }
+
+      return stats;
+    },
+
+    /**
+     * Interval of the periodic deferred relation retry
+     */
+    getRetryInterval(): number {
+      return getRetryConfig().interval;
+    },
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * Ship Routing Service
+ * Per-ship content scope on master: which content types, locales and site settings
+ * each ship subscribes to (config routing.ships).
+ * - With routing enabled, master publishes to one topic per ship (<masterUpdates>.<shipId>)
+ *   and only sends the changes in that ship's scope; replicas consume their own topic
+ * - Messages addressed to one ship (acks, conflicts, catch-up replies) go to its topic
+ * - Ships without rules receive everything
+ * - Initial sync on the replica applies the same scope (GET /routing/:shipId)
+ */
+
+export interface ShipScope {
+  contentTypes?: string[];
+  locales?: string[];
+  siteSettings?: string[];         // Site setting names or codes, e.g. ['MBA']
+}
+
+export interface RoutedMessage {
+  shipId: string | null;           // null: shared topic (routing disabled)
+  topic: string;
+  message: any;
+}
+
+// Content type whose entries (by name or code) scope pages, headers and footers
+const SITE_SETTING_UID = 'api::site-setting.site-setting';
+
+// Operations that carry document changes; the rest are control messages for one ship
+const DOCUMENT_OPERATIONS = ['create', 'update', 'delete', 'publish', 'unpublish', 'discard-draft', 'bulk'];
+
+// Site setting values of a related entry: its name and its code
+const siteSettingValues = (entry: any): string[] =>
+  entry && typeof entry === 'object'
+    ? [entry.name, entry.code].filter((value) => typeof value === 'string' && value.length > 0)
+    : [];
+
+export default ({ strapi }: { strapi: any }) => {
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+
+  return {
+    /**
+     * Check if per-ship routing is enabled
+     */
+    isEnabled(): boolean {
+      return getConfig().routing?.enabled === true;
+    },
+
+    /**
+     * Topic a ship consumes master updates from
+     * The shared master-updates topic while routing is disabled
+     */
+    getShipTopic(shipId?: string | null): string {
+      const sharedTopic = getConfig().kafka?.topics?.masterUpdates || 'master-updates';
+      return this.isEnabled() && shipId ? `${sharedTopic}.${shipId}` : sharedTopic;
+    },
+
+    /**
+     * Scope rules of a ship (null: everything)
+     */
+    getScope(shipId: string): ShipScope | null {
+      return getConfig().routing?.ships?.[shipId] || null;
+    },
+
+    /**
+     * Ships master publishes to: the ones with rules plus every registered ship
+     */
+    async getShipIds(): Promise<string[]> {
+      const shipIds = new Set<string>(Object.keys(getConfig().routing?.ships || {}));
+      const ships = await strapi.plugin('offline-sync').service('ship-tracker').listShips();
+      for (const ship of ships) {
+        if (ship?.shipId) shipIds.add(ship.shipId);
+      }
+      return [...shipIds];
+    },
+
+    /**
+     * Relation fields of a content type that point at site settings
+     */
+    getSiteSettingFields(contentType: string): string[] {
+      const attributes = strapi.contentTypes[contentType]?.attributes || {};
+      return Object.entries(attributes)
+        .filter(([, attribute]: [string, any]) => attribute?.type === 'relation' && attribute.target === SITE_SETTING_UID)
+        .map(([field]) => field);
+    },
+
+    /**
+     * Site setting names and codes of a populated document
+     * null when the content type isn't scoped by site settings
+     */
+    extractSiteSettings(contentType: string, doc: any): string[] | null {
+      if (contentType === SITE_SETTING_UID) {
+        return siteSettingValues(doc);
+      }
+
+      const fields = this.getSiteSettingFields(contentType);
+      if (fields.length === 0 || !doc) return null;
+
+      return fields.flatMap((field) => {
+        const value = doc[field];
+        return Array.isArray(value) ? value.flatMap(siteSettingValues) : siteSettingValues(value);
+      });
+    },
+
+    /**
+     * Site setting names and codes of a master document (null: not scoped or deleted)
+     */
+    async loadSiteSettings(contentType: string, documentId: string, locale?: string | null): Promise<string[] | null> {
+      const fields = contentType === SITE_SETTING_UID ? [] : this.getSiteSettingFields(contentType);
+      if (contentType !== SITE_SETTING_UID && fields.length === 0) return null;
+
+      try {
+        const findOptions: any = {
+          documentId,
+          populate: Object.fromEntries(fields.map((field) => [field, { fields: ['name', 'code'] }])),
+        };
+        if (locale) findOptions.locale = locale;
+        const doc = await strapi.documents(contentType).findOne(findOptions);
+        return doc ? this.extractSiteSettings(contentType, doc) : null;
+      } catch (error: any) {
+        strapi.log.debug(`[Routing] Could not load site settings of ${contentType}/${documentId}: ${error.message}`);
+        return null;
+      }
+    },
+
+    /**
+     * Check a document against a ship's scope
+     * Unknown site settings (deletes, documents without any) don't exclude it
+     */
+    inScope(scope: ShipScope | null, target: { contentType: string; locale?: string | null; siteSettings?: string[] | null }): boolean {
+      if (!scope) return true;
+
+      if (scope.contentTypes?.length && !scope.contentTypes.includes(target.contentType)) {
+        return false;
+      }
+      if (scope.locales?.length && target.locale && !scope.locales.includes(target.locale)) {
+        return false;
+      }
+      if (scope.siteSettings?.length && target.siteSettings?.length
+        && !target.siteSettings.some((value) => scope.siteSettings!.includes(value))) {
+        return false;
+      }
+      return true;
+    },
+
+    /**
+     * Check a document message against a ship's scope
+     * Site settings are read from the master document once per message (cache)
+     */
+    async matches(scope: ShipScope | null, message: any, cache: Map<string, string[] | null> = new Map()): Promise<boolean> {
+      const target = { contentType: message.contentType, locale: message.locale || null };
+      if (!this.inScope(scope, target) || !scope?.siteSettings?.length) {
+        return this.inScope(scope, target);
+      }
+
+      const key = `${message.contentType}:${message.contentId}:${message.locale || ''}`;
+      if (!cache.has(key)) {
+        cache.set(key, message.operation === 'delete'
+          ? null
+          : await this.loadSiteSettings(message.contentType, message.contentId, message.locale));
+      }
+      return this.inScope(scope, { ...target, siteSettings: cache.get(key) });
+    },
+
+    /**
+     * Topics (and per-ship copies) a master message is published to
+     * Bulk messages only carry the operations in each ship's scope
+     */
+    async route(message: any): Promise<RoutedMessage[]> {
+      if (!this.isEnabled()) {
+        return [{ shipId: null, topic: this.getShipTopic(null), message }];
+      }
+
+      // Acks, conflict notifications and catch-up replies are addressed to one ship
+      const addressee = message.targetShipId || (message.shipId && message.shipId !== 'master' ? message.shipId : null);
+      const shipIds = addressee ? [addressee] : await this.getShipIds();
+
+      if (!DOCUMENT_OPERATIONS.includes(message.operation)) {
+        return shipIds.map((shipId) => ({ shipId, topic: this.getShipTopic(shipId), message }));
+      }
+
+      const cache = new Map<string, string[] | null>();
+      const routed: RoutedMessage[] = [];
+
+      for (const shipId of shipIds) {
+        const scope = this.getScope(shipId);
+
+        if (message.operation === 'bulk') {
+          const operations: any[] = [];
+          for (const operation of message.operations || []) {
+            if (await this.matches(scope, operation, cache)) operations.push(operation);
+          }
+          if (operations.length > 0) {
+            routed.push({
+              shipId,
+              topic: this.getShipTopic(shipId),
+              message: operations.length === message.operations.length ? message : { ...message, operations },
+            });
+          }
+        } else if (await this.matches(scope, message, cache)) {
+          routed.push({ shipId, topic: this.getShipTopic(shipId), message });
+        }
+      }
+
+      return routed;
+    },
+  };
+};
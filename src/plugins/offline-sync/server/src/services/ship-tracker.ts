@@ -14,6 +14,7 @@ interface Ship {
   connectivityStatus: 'online' | 'offline';
   lastSeenAt: Date | null;
   metadata: Record<string, unknown> | null;
+  publicKey: string | null;     // Ed25519 key (PEM) the ship signs its messages with
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,7 +30,8 @@ export default ({ strapi: strapiParam }: { strapi: any }) => {
 
   return {
     /**
-     * Register or update a ship
+     * Mark a registered ship as seen (online); unknown ships are not added and return null
+     * Ships enter the registry through an admin (setPublicKey), never from a message
      * Uses strapi.db.query() for reliable async context operations
      */
     async registerShip(shipId: string, shipName?: string): Promise<Ship | null> {
@@ -85,23 +87,8 @@ export default ({ strapi: strapiParam }: { strapi: any }) => {
           return updated as Ship;
         }
 
-        // Create new ship using db.query
-        const created = await strapi.db.query(CONTENT_TYPE).create({
-          data: {
-            documentId: generateDocumentId(),
-            shipId,
-            shipName: shipName || shipId,
-            connectivityStatus: 'online',
-            lastSeenAt: now,
-            createdAt: now,
-            updatedAt: now,
-          },
-        });
-
-        if (strapi.log) {
-          strapi.log.info(`[ShipTracker] ✅ New ship registered: ${shipId} (${shipName || shipId})`);
-        }
-        return created as Ship;
+        strapi.log?.warn(`[ShipTracker] 🚫 Ignored unknown ship ${shipId} (${shipName || shipId}) - register it in the ship registry first`);
+        return null;
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         const stack = error instanceof Error ? error.stack : undefined;
@@ -161,6 +148,57 @@ export default ({ strapi: strapiParam }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Register the public key a ship signs its messages with
+     * Ships not seen yet are added (offline), so their first message can be verified;
+     * a null key on an unknown ship registers it without a key
+     */
+    async setPublicKey(shipId: string, publicKey: string | null): Promise<Ship> {
+      const now = new Date();
+      const existing = await strapi.db.query(CONTENT_TYPE).findOne({
+        where: { shipId },
+      });
+
+      const ship = existing
+        ? await strapi.db.query(CONTENT_TYPE).update({
+          where: { id: existing.id },
+          data: { publicKey, updatedAt: now },
+        })
+        : await strapi.db.query(CONTENT_TYPE).create({
+          data: {
+            documentId: generateDocumentId(),
+            shipId,
+            shipName: shipId,
+            connectivityStatus: 'offline',
+            publicKey,
+            createdAt: now,
+            updatedAt: now,
+          },
+        });
+
+      strapi.plugin('offline-sync').service('message-signing').invalidate(shipId);
+      strapi.log.info(`[ShipTracker] 🔑 ${publicKey ? 'Public key registered' : 'Public key removed'} for ${shipId}`);
+      return ship as Ship;
+    },
+
+    /**
+     * Replace a ship's metadata (health reported with its heartbeats, see fleet-health)
+     */
+    async setMetadata(shipId: string, metadata: Record<string, unknown>): Promise<Ship | null> {
+      const existing = await strapi.db.query(CONTENT_TYPE).findOne({
+        where: { shipId },
+      });
+      if (!existing) {
+        return null;
+      }
+
+      const ship = await strapi.db.query(CONTENT_TYPE).update({
+        where: { id: existing.id },
+        data: { metadata },
+      });
+      return ship as Ship;
+    },
+
     /**
      * Mark ships as offline if not seen recently
      */
@@ -201,6 +239,12 @@ export default ({ strapi: strapiParam }: { strapi: any }) => {
               updatedAt: new Date(),
             },
           });
+          strapi.eventHub?.emit('offline-sync.ship-status', {
+            shipId: ship.shipId,
+            connectivityStatus: 'offline',
+            lastSeenAt: ship.lastSeenAt,
+            timestamp: new Date().toISOString(),
+          });
           count++;
         }
 
@@ -0,0 +1,194 @@
+/**
+ * Sync Consumer Service
+ * Handles the sync messages the configured transport (Kafka or HTTP) receives
+ */
+
+export default ({ strapi: strapiInstance }: { strapi: any }) => {
+  // Capture strapi in closure to ensure it's always available
+  const strapi = strapiInstance;
+  const transport = () => strapi.plugin('offline-sync').service('transport');
+
+  /**
+   * Process incoming sync message
+   * Defined outside return to capture strapi in closure
+   */
+  const processMessage = async (message: any): Promise<void> => {
+    if (!strapi) {
+      console.error('[SyncConsumer] Strapi instance not available');
+      return;
+    }
+
+    const config = strapi.config.get('plugin::offline-sync', {});
+    const { operation, shipId } = message;
+
+    // Master only handles messages it can attribute to a registered ship
+    if (config.mode === 'master') {
+      const result = await strapi.plugin('offline-sync').service('message-signing').verify(message);
+      if (!result.accepted) {
+        strapi.log.warn(`[Signing] 🚫 Rejected ${operation || 'message'} ${message.messageId || ''} from ${shipId || 'unknown ship'}: ${result.reason}`);
+        return;
+      }
+    }
+
+    // Advance the local hybrid logical clock past every clock we receive
+    if (message.clock) {
+      strapi.plugin('offline-sync').service('hybrid-clock').receive(message.clock);
+    }
+
+    // Handle heartbeat messages (master mode only)
+    if (operation === 'heartbeat') {
+      if (config.mode === 'master') {
+        try {
+          const shipTracker = strapi.plugin('offline-sync').service('ship-tracker');
+          if (!shipTracker) {
+            strapi.log.error('[Heartbeat] Ship tracker service not available');
+            return;
+          }
+          
+          const ship = await shipTracker.registerShip(shipId, shipId);
+          if (ship) {
+            strapi.log.info(`💓 Heartbeat from ${shipId} - ${ship.connectivityStatus}`);
+            // Ships on older plugin versions send no health report
+            if (message.health) {
+              await strapi.plugin('offline-sync').service('fleet-health').recordHeartbeat(shipId, message.health);
+            }
+            strapi.eventHub?.emit('offline-sync.ship-heartbeat', {
+              shipId,
+              connectivityStatus: ship.connectivityStatus,
+              lastSeenAt: ship.lastSeenAt,
+              health: message.health ?? null,
+              timestamp: new Date().toISOString(),
+            });
+          } else {
+            strapi.log.warn(`[Heartbeat] 🚫 Rejected heartbeat from unregistered ship ${shipId}`);
+          }
+        } catch (error: any) {
+          const errorMsg = error?.message || 'Unknown error';
+          strapi.log.error(`[Heartbeat] Failed to register/update ship ${shipId}: ${errorMsg}`);
+          if (error?.stack) {
+            strapi.log.error(`[Heartbeat] Error stack: ${error.stack}`);
+          }
+          // Don't throw - allow other messages to process
+        }
+      }
+      return;
+    }
+
+    // Handle mapping acknowledgment (master mode only)
+    if (operation === 'mapping-ack') {
+      if (config.mode === 'master') {
+        try {
+          const syncService = strapi.plugin('offline-sync').service('sync-service');
+          await syncService.handleMappingAck(message);
+        } catch (error: any) {
+          strapi.log.error(`[MappingAck] Failed to process: ${error.message}`);
+        }
+      }
+      return;
+    }
+
+    // Handle conflict notes / withdrawals from ship editors (master mode only)
+    if (operation === 'conflict-note' || operation === 'conflict-withdrawn') {
+      if (config.mode === 'master') {
+        try {
+          const syncService = strapi.plugin('offline-sync').service('sync-service');
+          await syncService.handleConflictFeedback(message);
+        } catch (error: any) {
+          strapi.log.error(`[ConflictFeedback] Failed to process: ${error.message}`);
+        }
+      }
+      return;
+    }
+
+    // Handle catch-up requests from ships (master mode only)
+    if (operation === 'pull-request') {
+      if (config.mode === 'master') {
+        try {
+          const syncService = strapi.plugin('offline-sync').service('sync-service');
+          await syncService.handlePullRequest(message);
+        } catch (error: any) {
+          strapi.log.error(`[Pull] Failed to process pull request from ${shipId}: ${error.message}`);
+        }
+      }
+      return;
+    }
+
+    // Handle full-document requests from ships after a delta mismatch (master mode only)
+    if (operation === 'full-request' && config.mode === 'master') {
+      try {
+        const syncService = strapi.plugin('offline-sync').service('sync-service');
+        await syncService.handleFullRequest(message);
+      } catch (error: any) {
+        strapi.log.error(`[Delta] Failed to answer full-document request from ${shipId}: ${error.message}`);
+      }
+      return;
+    }
+
+    const syncService = strapi.plugin('offline-sync').service('sync-service');
+
+    if (config.mode === 'master') {
+      // Master receives updates from ships
+      strapi.log.info(`📨 Received sync message: ${message.messageId} from ${shipId}`);
+      try {
+        await syncService.processShipUpdate(message);
+      } catch (error: any) {
+        strapi.log.error(`Error processing ship update: ${error.message}`);
+        throw error;
+      }
+    } else {
+      // Catch-up replies and full-document requests are addressed to one ship
+      if (message.targetShipId && message.targetShipId !== config.shipId) {
+        return;
+      }
+
+      // Replica receives updates from master
+      strapi.log.info(`📥 Received master update: ${message.messageId}`);
+      try {
+        const result = await syncService.processMasterUpdate(message);
+        await syncService.settleSequence(message.sequence, result);
+      } catch (error: any) {
+        strapi.log.error(`Error processing master update: ${error.message}`);
+        throw error;
+      }
+    }
+  };
+
+  return {
+    /**
+     * Subscribe to incoming messages through the transport
+     * Works in both modes:
+     * - Master: ship-updates topic (receives from ships)
+     * - Replica: master-updates topic (receives from master)
+     */
+    async connect(): Promise<void> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      // With routing enabled a replica only consumes its own master-updates topic
+      const topic = config.mode === 'master'
+        ? config.kafka.topics.shipUpdates
+        : strapi.plugin('offline-sync').service('ship-routing').getShipTopic(config.shipId);
+
+      await transport().subscribe(topic, (message: any) => processMessage(message));
+    },
+
+    /**
+     * Stop receiving messages
+     */
+    async disconnect(): Promise<void> {
+      await transport().unsubscribe();
+    },
+
+    /**
+     * Process incoming sync message (exposed for testing)
+     */
+    processMessage,
+
+    /**
+     * Check if the transport is receiving messages
+     */
+    isConnected(): boolean {
+      return transport().isSubscribed();
+    },
+  };
+};
+
@@ -0,0 +1,45 @@
+/**
+ * Sync Context Service
+ * Marks the writes made while applying a change from the other side, so the
+ * Document Service middleware doesn't send them back (ship->master->ship->...).
+ * The origin belongs to the async call that applies the change, not to the process:
+ * parallel HTTP messages, the dead letter retry worker and bundle imports each carry
+ * their own, and an admin edit made meanwhile is still synced.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type SyncOrigin = 'ship' | 'master';
+
+const storage = new AsyncLocalStorage<SyncOrigin>();
+
+export default () => ({
+  /**
+   * Run fn with its writes marked as received from a ship (master side)
+   */
+  runFromShip<T>(fn: () => Promise<T>): Promise<T> {
+    return storage.run('ship', fn);
+  },
+
+  /**
+   * Run fn with its writes marked as received from master (replica side)
+   */
+  runFromMaster<T>(fn: () => Promise<T>): Promise<T> {
+    return storage.run('master', fn);
+  },
+
+  /**
+   * Run fn as the given origin
+   */
+  runFrom<T>(origin: SyncOrigin, fn: () => Promise<T>): Promise<T> {
+    return storage.run(origin, fn);
+  },
+
+  isFromShip(): boolean {
+    return storage.getStore() === 'ship';
+  },
+
+  isFromMaster(): boolean {
+    return storage.getStore() === 'master';
+  },
+});
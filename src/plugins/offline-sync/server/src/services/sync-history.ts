@@ -0,0 +1,260 @@
+/**
+ * Sync History Service
+ *
+ * Timeline of one document across the sync tables, answering "who changed it
+ * on which ship, and when did it reach shore":
+ * - sync_queue (replica): local changes, when master confirmed them, conflict outcomes
+ * - processed_messages: ship messages master (or a ship) applied or failed
+ * - master_edit_log (master): the last edit and who made it
+ * - conflict_logs: conflicts raised for the document and how they were resolved
+ * - document_mappings: the document's id on master and on each ship
+ *
+ * Works from either id: a master documentId also finds the ships' copies and
+ * a replica documentId finds its master document.
+ */
+
+const MAPPING_CONTENT_TYPE = 'plugin::offline-sync.document-mapping';
+const PROCESSED_MESSAGE_CONTENT_TYPE = 'plugin::offline-sync.processed-message';
+
+// Rows read per source (the timeline is cut to the requested limit afterwards)
+const SOURCE_LIMIT = 200;
+
+export type HistorySource = 'sync-queue' | 'processed-message' | 'edit-log' | 'conflict' | 'mapping';
+
+export interface HistoryEvent {
+  at: string;
+  source: HistorySource;
+  type: string;                   // e.g. queued, confirmed, processed, edited, conflict, conflict-resolved, mapped
+  shipId: string | null;
+  operation: string | null;
+  actor: string | null;           // admin:<email>, master-admin, ship-<id>, policy:<name>, ...
+  documentId: string;             // id the row refers to (master or replica)
+  details: Record<string, any>;
+}
+
+export interface DocumentHistory {
+  contentType: string;
+  documentId: string;
+  mode: 'master' | 'replica';
+  mappings: Array<{ shipId: string; replicaDocumentId: string; masterDocumentId: string; lastSyncedBy: string | null; clock: string | null; updatedAt: string }>;
+  events: HistoryEvent[];
+}
+
+export default ({ strapi }: { strapi: any }) => {
+  const tableExists = new Map<string, boolean>();
+
+  const toIso = (value: any): string | null => {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  };
+
+  /**
+   * Check if a raw sync table exists (cached per table)
+   */
+  const hasTable = async (table: string): Promise<boolean> => {
+    if (!tableExists.has(table)) {
+      tableExists.set(table, await strapi.db.connection.schema.hasTable(table));
+    }
+    return tableExists.get(table) ?? false;
+  };
+
+  const fromSyncQueue = async (contentType: string, ids: string[]): Promise<HistoryEvent[]> => {
+    if (!await hasTable('sync_queue')) return [];
+
+    const rows = await strapi.db.connection('sync_queue')
+      .where({ content_type: contentType })
+      .whereIn('content_id', ids)
+      .orderBy('created_at', 'desc')
+      .limit(SOURCE_LIMIT);
+
+    const events: HistoryEvent[] = [];
+    for (const row of rows) {
+      const base = { source: 'sync-queue' as const, shipId: row.ship_id, operation: row.operation, documentId: row.content_id };
+
+      events.push({
+        ...base,
+        at: toIso(row.created_at)!,
+        type: 'queued',
+        actor: row.ship_id ? `ship-${row.ship_id}` : null,
+        details: { queueId: row.id, status: row.status, locale: row.locale ?? null, bulkId: row.bulk_id ?? null, clock: row.clock ?? null },
+      });
+
+      if (row.synced_at) {
+        events.push({
+          ...base,
+          at: toIso(row.synced_at)!,
+          type: 'confirmed',
+          actor: 'master',
+          details: { queueId: row.id },
+        });
+      }
+
+      if (row.status === 'failed' && row.error_message) {
+        events.push({
+          ...base,
+          at: toIso(row.updated_at || row.created_at)!,
+          type: 'failed',
+          actor: null,
+          details: { queueId: row.id, error: row.error_message, retryCount: row.retry_count ?? 0 },
+        });
+      }
+
+      if (row.conflict_resolved_at) {
+        events.push({
+          ...base,
+          at: toIso(row.conflict_resolved_at)!,
+          type: 'conflict-resolved',
+          actor: row.conflict_resolved_by ?? null,
+          details: {
+            queueId: row.id,
+            resolution: row.conflict_resolution ?? null,
+            status: row.status,
+            message: row.error_message ?? null,
+            note: row.conflict_resolution_note ?? null,
+          },
+        });
+      }
+    }
+    return events;
+  };
+
+  const fromProcessedMessages = async (contentType: string, ids: string[]): Promise<HistoryEvent[]> => {
+    const rows = await strapi.db.query(PROCESSED_MESSAGE_CONTENT_TYPE).findMany({
+      where: { contentType, contentId: { $in: ids } },
+      orderBy: { processedAt: 'desc' },
+      limit: SOURCE_LIMIT,
+    });
+
+    return rows.map((row: any) => ({
+      at: toIso(row.processedAt || row.createdAt)!,
+      source: 'processed-message' as const,
+      type: row.status === 'failed' ? 'processing-failed' : 'processed',
+      shipId: row.shipId ?? null,
+      operation: row.operation ?? null,
+      actor: row.shipId ? `ship-${row.shipId}` : null,
+      documentId: row.contentId,
+      details: { messageId: row.messageId },
+    }));
+  };
+
+  const fromEditLog = async (contentType: string, ids: string[]): Promise<HistoryEvent[]> => {
+    if (!await hasTable('master_edit_log')) return [];
+
+    const rows = await strapi.db.connection('master_edit_log')
+      .where({ content_type: contentType })
+      .whereIn('document_id', ids);
+
+    return rows.map((row: any) => {
+      const shipEdit = typeof row.edited_by === 'string' && row.edited_by.startsWith('ship-');
+      return {
+        at: toIso(row.edited_at)!,
+        source: 'edit-log' as const,
+        type: 'edited',
+        shipId: shipEdit ? row.edited_by.slice('ship-'.length) : null,
+        operation: row.operation,
+        actor: row.edited_by,
+        documentId: row.document_id,
+        details: { locale: row.locale ?? null, clock: row.clock ?? null, latest: true },
+      };
+    });
+  };
+
+  const fromConflicts = async (contentType: string, ids: string[]): Promise<HistoryEvent[]> => {
+    if (!await hasTable('conflict_logs')) return [];
+
+    const rows = await strapi.db.connection('conflict_logs')
+      .where({ content_type: contentType })
+      .whereIn('content_id', ids)
+      .orderBy('created_at', 'desc')
+      .limit(SOURCE_LIMIT);
+
+    const events: HistoryEvent[] = [];
+    for (const row of rows) {
+      const base = { source: 'conflict' as const, shipId: row.ship_id, operation: null, documentId: row.content_id };
+
+      events.push({
+        ...base,
+        at: toIso(row.created_at)!,
+        type: 'conflict',
+        actor: `ship-${row.ship_id}`,
+        details: { conflictId: row.id, conflictType: row.conflict_type ?? null, shipNote: row.ship_note ?? null },
+      });
+
+      if (row.resolved_at) {
+        events.push({
+          ...base,
+          at: toIso(row.resolved_at)!,
+          type: 'conflict-resolved',
+          actor: row.resolved_by ?? null,
+          details: { conflictId: row.id, resolution: row.resolution_strategy, note: row.resolution_note ?? null },
+        });
+      }
+    }
+    return events;
+  };
+
+  return {
+    /**
+     * Timeline of a document, newest first
+     */
+    async getHistory(contentType: string, documentId: string, options: { limit?: number } = {}): Promise<DocumentHistory> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const limit = options.limit ?? 100;
+
+      // The document's ids on master and on every ship it was synced with
+      const mappings = await strapi.db.query(MAPPING_CONTENT_TYPE).findMany({
+        where: {
+          contentType,
+          $or: [{ masterDocumentId: documentId }, { replicaDocumentId: documentId }],
+        },
+        orderBy: { updatedAt: 'desc' },
+      });
+
+      const ids = new Set<string>([documentId]);
+      for (const mapping of mappings) {
+        ids.add(mapping.masterDocumentId);
+        ids.add(mapping.replicaDocumentId);
+      }
+      const idList = [...ids];
+
+      const sources = await Promise.all([
+        fromSyncQueue(contentType, idList),
+        fromProcessedMessages(contentType, idList),
+        fromEditLog(contentType, idList),
+        fromConflicts(contentType, idList),
+      ]);
+
+      const mappingEvents: HistoryEvent[] = mappings.map((mapping: any) => ({
+        at: toIso(mapping.createdAt)!,
+        source: 'mapping' as const,
+        type: 'mapped',
+        shipId: mapping.shipId,
+        operation: null,
+        actor: null,
+        documentId: mapping.replicaDocumentId,
+        details: { masterDocumentId: mapping.masterDocumentId, replicaDocumentId: mapping.replicaDocumentId },
+      }));
+
+      const events = [...sources.flat(), ...mappingEvents]
+        .filter((event) => event.at)
+        .sort((a, b) => b.at.localeCompare(a.at))
+        .slice(0, limit);
+
+      return {
+        contentType,
+        documentId,
+        mode: config.mode === 'master' ? 'master' : 'replica',
+        mappings: mappings.map((mapping: any) => ({
+          shipId: mapping.shipId,
+          replicaDocumentId: mapping.replicaDocumentId,
+          masterDocumentId: mapping.masterDocumentId,
+          lastSyncedBy: mapping.lastSyncedBy ?? null,
+          clock: mapping.clock ?? null,
+          updatedAt: toIso(mapping.updatedAt)!,
+        })),
+        events,
+      };
+    },
+  };
+};
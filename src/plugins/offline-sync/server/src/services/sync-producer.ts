@@ -0,0 +1,525 @@
+/**
+ * Sync Producer Service
+ * Builds the sync messages each side sends and hands them to the configured
+ * transport (Kafka or HTTP, see transport.ts); ships sign every message
+ */
+
+import type { TransportEnvelope } from './transport';
+
+export default ({ strapi }: { strapi: any }) => {
+  const transport = () => strapi.plugin('offline-sync').service('transport');
+
+  // Hand envelopes to the transport; a ship signs each message (message-signing)
+  const deliver = (envelopes: TransportEnvelope[]): Promise<void> => {
+    const signing = strapi.plugin('offline-sync').service('message-signing');
+    return transport().send(envelopes.map((envelope) => ({
+      ...envelope,
+      message: signing.sign(envelope.message),
+    })));
+  };
+
+  // Default topic of the side we send to
+  const getDefaultTopic = (): string => {
+    const config = strapi.config.get('plugin::offline-sync', {});
+    return config.mode === 'replica'
+      ? config.kafka.topics.shipUpdates
+      : config.kafka.topics.masterUpdates;
+  };
+
+  return {
+    /**
+     * Connect the transport
+     * Works in both replica (send to master) and master (send to ships) modes
+     */
+    async connect(): Promise<void> {
+      await transport().connect();
+    },
+
+    /**
+     * Disconnect the transport
+     */
+    async disconnect(): Promise<void> {
+      await transport().disconnect();
+    },
+
+    /**
+     * Health check - actually tests if the other side is reachable
+     */
+    async healthCheck(): Promise<boolean> {
+      return transport().healthCheck();
+    },
+
+    /**
+     * Send sync message to the other side
+     * The transport retries and reconnects on failure
+     */
+    async send(message: {
+      messageId: string;
+      shipId: string;
+      timestamp: string;
+      operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft' | 'bulk' | 'ack' | 'conflict';
+      contentType: string;
+      contentId: number;
+      version: number;
+      data: any;
+      metadata?: any;
+      clock?: string | null;      // Hybrid logical clock of the change
+      baseClock?: string | null;  // Clock of the master state the ship had seen
+      documentStatus?: 'draft' | 'published' | null;  // Version a create/update was saved to
+    }, topic?: string): Promise<any> {
+      await deliver([{
+        topic: topic || getDefaultTopic(),
+        key: message.shipId,
+        message,
+        headers: {
+          'content-type': 'application/json',
+          'ship-id': message.shipId,
+        },
+      }]);
+
+      strapi.log.debug(`Message sent to ${topic || getDefaultTopic()}: ${message.messageId}`);
+    },
+
+    /**
+     * Send batch of messages in a single request (compressed on Kafka)
+     * All messages succeed or fail together; callers track per-item status
+     */
+    async sendBatch(messages: any[], topic?: string): Promise<any> {
+      const targetTopic = topic || getDefaultTopic();
+
+      await deliver(messages.map((msg) => ({
+        topic: targetTopic,
+        key: msg.shipId,
+        message: msg,
+        headers: {
+          'content-type': 'application/json',
+          'ship-id': msg.shipId,
+        },
+      })));
+
+      strapi.log.debug(`Batch of ${messages.length} messages sent to ${targetTopic}`);
+    },
+
+    /**
+     * Send mapping acknowledgment to master (replica mode only)
+     * Called when replica creates a local copy of a master document
+     * This tells master: "My replicaDocId corresponds to your masterDocId"
+     */
+    async sendMappingAck(ack: {
+      contentType: string;
+      replicaDocumentId: string;
+      masterDocumentId: string;
+      clock?: string | null;
+    }): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'replica') {
+        strapi.log.warn('[Sync] sendMappingAck called in non-replica mode');
+        return false;
+      }
+
+      try {
+        const topic = config.kafka.topics.shipUpdates;
+
+        const message = {
+          messageId: `mapping-ack-${config.shipId}-${Date.now()}`,
+          shipId: config.shipId,
+          timestamp: new Date().toISOString(),
+          operation: 'mapping-ack',
+          contentType: ack.contentType,
+          replicaDocumentId: ack.replicaDocumentId,
+          masterDocumentId: ack.masterDocumentId,
+          clock: ack.clock || null,
+        };
+
+        await deliver([{
+          topic,
+          key: config.shipId,
+          message,
+          headers: {
+            'content-type': 'application/json',
+            'ship-id': config.shipId,
+            'message-type': 'mapping-ack',
+          },
+        }]);
+
+        strapi.log.info(`[Sync] 📤 Sent mapping ACK: ${ack.replicaDocumentId} → ${ack.masterDocumentId}`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send mapping ACK: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Send conflict feedback from the ship editor to master (replica mode only)
+     * - conflict-note: note for the master admin
+     * - conflict-withdrawn: local change discarded, master keeps its version
+     */
+    async sendConflictFeedback(feedback: {
+      operation: 'conflict-note' | 'conflict-withdrawn';
+      conflictId: number;
+      contentType: string;
+      replicaDocumentId: string;
+      note?: string;
+    }): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'replica') {
+        strapi.log.warn('[Sync] sendConflictFeedback called in non-replica mode');
+        return false;
+      }
+
+      try {
+        const message = {
+          messageId: `${feedback.operation}-${config.shipId}-${Date.now()}`,
+          shipId: config.shipId,
+          timestamp: new Date().toISOString(),
+          operation: feedback.operation,
+          conflictId: feedback.conflictId,
+          contentType: feedback.contentType,
+          replicaDocumentId: feedback.replicaDocumentId,
+          note: feedback.note || null,
+        };
+
+        await deliver([{
+          topic: config.kafka.topics.shipUpdates,
+          key: config.shipId,
+          message,
+          headers: {
+            'content-type': 'application/json',
+            'ship-id': config.shipId,
+            'message-type': feedback.operation,
+          },
+        }]);
+
+        strapi.log.info(`[Sync] 📤 Sent ${feedback.operation} for conflict #${feedback.conflictId}`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send ${feedback.operation}: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Ask master for every change after our watermark (replica mode only)
+     * watermark null = never pulled, master answers with its current sequence as baseline
+     */
+    async sendPullRequest(watermark: number | null): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'replica') {
+        strapi.log.warn('[Sync] sendPullRequest called in non-replica mode');
+        return false;
+      }
+
+      try {
+        await deliver([{
+          topic: config.kafka.topics.shipUpdates,
+          key: config.shipId,
+          message: {
+            messageId: `pull-request-${config.shipId}-${Date.now()}`,
+            shipId: config.shipId,
+            timestamp: new Date().toISOString(),
+            operation: 'pull-request',
+            watermark,
+          },
+          headers: {
+            'content-type': 'application/json',
+            'ship-id': config.shipId,
+            'message-type': 'pull-request',
+          },
+        }]);
+
+        strapi.log.info(`[Sync] 📤 Sent pull request (watermark: ${watermark ?? 'none'})`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send pull request: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Ask the other side for the full document after a delta didn't match our snapshot
+     * - replica: asks master for its current version of a master document
+     * - master: asks a ship (targetShipId) to resend its change (queueId) in full
+     */
+    async sendFullRequest(request: {
+      contentType: string;
+      contentId: string;
+      locale?: string | null;
+      targetShipId?: string;
+      queueId?: number | null;
+    }): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const isMaster = config.mode === 'master';
+
+      if (isMaster && !request.targetShipId) {
+        strapi.log.warn('[Sync] sendFullRequest on master needs a targetShipId');
+        return false;
+      }
+
+      try {
+        const sender = isMaster ? 'master' : config.shipId;
+        await deliver([{
+          topic: isMaster
+            ? strapi.plugin('offline-sync').service('ship-routing').getShipTopic(request.targetShipId)
+            : config.kafka.topics.shipUpdates,
+          key: request.targetShipId || config.shipId,
+          message: {
+            messageId: `full-request-${sender}-${Date.now()}`,
+            shipId: sender,
+            timestamp: new Date().toISOString(),
+            operation: 'full-request',
+            contentType: request.contentType,
+            contentId: request.contentId,
+            locale: request.locale || null,
+            targetShipId: request.targetShipId,
+            queueId: request.queueId ?? null,
+          },
+          headers: {
+            'content-type': 'application/json',
+            'ship-id': sender,
+            'message-type': 'full-request',
+            ...(request.targetShipId && { 'target-ship': request.targetShipId }),
+          },
+        }]);
+
+        strapi.log.info(`[Sync] 📤 Requested full document ${request.contentType}/${request.contentId}${request.targetShipId ? ` from ${request.targetShipId}` : ' from master'}`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send full-document request: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Send heartbeat to master
+     * Production-ready: uses the existing transport, lightweight payload
+     * Carries the ship's health report (fleet-health) for the master's fleet dashboard
+     */
+    async sendHeartbeat(): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'replica' || !transport().isConnected()) {
+        return false;
+      }
+
+      // A failing health probe must not stop the heartbeat itself
+      let health = null;
+      try {
+        health = await strapi.plugin('offline-sync').service('fleet-health').collectReport();
+      } catch (error: any) {
+        strapi.log.debug(`[Heartbeat] Health report skipped: ${error.message}`);
+      }
+
+      try {
+        await deliver([{
+          topic: config.kafka.topics.shipUpdates,
+          key: config.shipId,
+          message: {
+            messageId: `heartbeat-${config.shipId}-${Date.now()}`,
+            shipId: config.shipId,
+            timestamp: new Date().toISOString(),
+            operation: 'heartbeat',
+            health,
+          },
+          headers: {
+            'content-type': 'application/json',
+            'ship-id': config.shipId,
+            'message-type': 'heartbeat',
+          },
+        }]);
+        return true;
+      } catch (error: any) {
+        strapi.log.debug(`[Heartbeat] Send failed: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Check if the transport is connected
+     */
+    isConnected(): boolean {
+      return transport().isConnected();
+    },
+
+    /**
+     * Send create acknowledgment to a specific ship (master mode only)
+     * Called when master creates a document from ship's CREATE operation
+     * This tells the ship: "Your replicaDocId R001 is now my masterDocId M001"
+     */
+    async sendCreateAck(ack: {
+      shipId: string;
+      contentType: string;
+      replicaDocumentId: string;
+      masterDocumentId: string;
+      locale?: string | null;
+      clock?: string | null;
+    }): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'master') {
+        strapi.log.warn('[Sync] sendCreateAck called in non-master mode');
+        return false;
+      }
+
+      try {
+        const topic = strapi.plugin('offline-sync').service('ship-routing').getShipTopic(ack.shipId);
+
+        const message: any = {
+          messageId: `create-ack-${ack.shipId}-${Date.now()}`,
+          shipId: ack.shipId,
+          timestamp: new Date().toISOString(),
+          operation: 'create-ack',
+          contentType: ack.contentType,
+          replicaDocumentId: ack.replicaDocumentId,
+          masterDocumentId: ack.masterDocumentId,
+          clock: ack.clock || null,
+        };
+        
+        // Include locale for i18n support
+        if (ack.locale) {
+          message.locale = ack.locale;
+        }
+
+        await deliver([{
+          topic,
+          key: ack.shipId, // Route to specific ship
+          message,
+          headers: {
+            'content-type': 'application/json',
+            'source': 'master',
+            'operation': 'create-ack',
+            'target-ship': ack.shipId,
+          },
+        }]);
+
+        strapi.log.info(`[Sync] 📤 Sent create ACK to ${ack.shipId}: ${ack.replicaDocumentId} → ${ack.masterDocumentId}`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send create ACK: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Send conflict notification to a specific ship (master mode only)
+     * Called when master rejects a ship's update due to conflict
+     */
+    async sendConflictNotification(notification: {
+      shipId: string;
+      contentType: string;
+      contentId: string;
+      replicaDocumentId: string;
+      conflictId: number;
+      reason: string;
+      masterData: any;
+      shipData: any;
+      queueId?: number;
+    }): Promise<boolean> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'master') {
+        strapi.log.warn('[Sync] sendConflictNotification called in non-master mode');
+        return false;
+      }
+
+      try {
+        const topic = strapi.plugin('offline-sync').service('ship-routing').getShipTopic(notification.shipId);
+
+        const message = {
+          messageId: `conflict-${notification.conflictId}-${Date.now()}`,
+          shipId: notification.shipId,
+          timestamp: new Date().toISOString(),
+          operation: 'conflict-rejected',
+          contentType: notification.contentType,
+          contentId: notification.contentId,
+          replicaDocumentId: notification.replicaDocumentId,
+          conflictId: notification.conflictId,
+          reason: notification.reason,
+          masterData: notification.masterData,
+          shipData: notification.shipData,
+          queueId: notification.queueId,
+        };
+
+        await deliver([{
+          topic,
+          key: notification.shipId, // Route to specific ship
+          message,
+          headers: {
+            'content-type': 'application/json',
+            'source': 'master',
+            'operation': 'conflict-rejected',
+            'target-ship': notification.shipId,
+          },
+        }]);
+
+        strapi.log.info(`[Sync] ⚠️ Sent conflict notification to ${notification.shipId}: ${notification.contentType}/${notification.contentId}`);
+        return true;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send conflict notification: ${error.message}`);
+        return false;
+      }
+    },
+
+    /**
+     * Send message to ships (master mode only)
+     * Used for bi-directional sync: master pushes updates to all ships
+     * With targetShipId (catch-up replies) only that ship applies the message
+     * With routing enabled each ship's topic only gets the changes in its scope
+     * Returns the number of topics it was sent to (0 when no ship is in scope), false on failure
+     */
+    async sendToShips(message: {
+      messageId: string;
+      shipId: string;
+      timestamp: string;
+      operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft' | 'bulk' | 'pull-complete';
+      contentType?: string;
+      contentId?: string;
+      version?: number;
+      data?: any;
+      clock?: string | null;      // Hybrid logical clock of the change
+      sequence?: number | null;   // Change log sequence number
+      documentStatus?: 'draft' | 'published' | null;  // Version a create/update was saved to
+      targetShipId?: string;
+      [key: string]: any;
+    }): Promise<number | false> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+
+      if (config.mode !== 'master') {
+        strapi.log.warn('[Sync] sendToShips called in non-master mode');
+        return false;
+      }
+
+      try {
+        // Shared master-updates topic, or the topics of the ships in scope
+        const routed = await strapi.plugin('offline-sync').service('ship-routing').route(message);
+
+        if (routed.length === 0) {
+          strapi.log.debug(`[Sync] No ship subscribes to ${message.operation} ${message.contentType}/${message.contentId}`);
+          return 0;
+        }
+
+        await deliver(routed.map((entry: any) => ({
+          topic: entry.topic,
+          key: message.contentId || message.targetShipId || message.shipId,
+          message: entry.message,
+          headers: {
+            'content-type': 'application/json',
+            'source': 'master',
+            'operation': message.operation,
+            ...(message.targetShipId && { 'target-ship': message.targetShipId }),
+          },
+        })));
+
+        strapi.log.debug(`[Sync] 📤 Sent to ${routed.length} topic(s): ${message.operation} ${message.contentType}/${message.contentId}`);
+        return routed.length;
+      } catch (error: any) {
+        strapi.log.error(`[Sync] Failed to send to ships: ${error.message}`);
+        return false;
+      }
+    },
+  };
+};
+
@@ -1,5 +1,16 @@
+// Conflict statuses shown in the replica conflict inbox
+const INBOX_STATUSES = ['conflict_pending', 'conflict', 'conflict_rejected'];
+
+// Local changes master has not accepted yet
+const UNSYNCED_STATUSES = ['pending', 'syncing', 'failed', 'conflict_pending', 'conflict'];
+
 export default ({ strapi }: { strapi: any }) => {
   let tableExists: boolean | null = null;
+  let inboxColumnsExist: boolean | null = null;
+  let auditColumnsExist: boolean | null = null;
+  let clockColumnExists: boolean | null = null;
+  let documentStatusColumnExists: boolean | null = null;
+  let bulkColumnExists: boolean | null = null;
 
   const parseJsonField = (value: any): any => {
     if (typeof value === 'string') {
@@ -12,6 +23,27 @@ export default ({ strapi }: { strapi: any }) => {
     return value;
   };
 
+  // Tell the admin event stream the queue changed (bursts are coalesced there)
+  const emitChange = (reason: string, details: Record<string, any> = {}): void => {
+    strapi.eventHub?.emit('offline-sync.queue-changed', { reason, ...details, timestamp: new Date().toISOString() });
+  };
+
+  // Document ids referenced from a payload (populated relations, components, media)
+  const collectDocumentIds = (value: any, ids: Set<string> = new Set()): Set<string> => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => collectDocumentIds(item, ids));
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'documentId' && typeof child === 'string') {
+          ids.add(child);
+        } else {
+          collectDocumentIds(child, ids);
+        }
+      }
+    }
+    return ids;
+  };
+
   return {
     /**
      * Check if sync_queue table exists (cached)
@@ -24,70 +56,265 @@ export default ({ strapi }: { strapi: any }) => {
       return tableExists;
     },
 
+    /**
+     * Check if conflict inbox columns exist (migration 007, cached)
+     */
+    async hasInboxColumns(): Promise<boolean> {
+      if (inboxColumnsExist !== null) return inboxColumnsExist;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      inboxColumnsExist = await db.schema.hasColumn('sync_queue', 'master_data');
+      return inboxColumnsExist ?? false;
+    },
+
+    /**
+     * Check if conflict resolution audit columns exist (migration 016, cached)
+     */
+    async hasAuditColumns(): Promise<boolean> {
+      if (auditColumnsExist !== null) return auditColumnsExist;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      auditColumnsExist = await db.schema.hasColumn('sync_queue', 'conflict_resolved_by');
+      return auditColumnsExist ?? false;
+    },
+
+    /**
+     * Resolution audit columns for conflict updates (skipped when migration 016 is missing)
+     */
+    async buildAuditColumns(options: { resolvedBy?: string; resolutionNote?: string | null }): Promise<Record<string, any>> {
+      if (!await this.hasAuditColumns()) return {};
+      return {
+        conflict_resolved_by: options.resolvedBy || null,
+        conflict_resolution_note: options.resolutionNote || null,
+      };
+    },
+
+    /**
+     * Check if the clock column exists (migration 008, cached)
+     */
+    async hasClockColumn(): Promise<boolean> {
+      if (clockColumnExists !== null) return clockColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      clockColumnExists = await db.schema.hasColumn('sync_queue', 'clock');
+      return clockColumnExists ?? false;
+    },
+
+    /**
+     * Check if the document_status column exists (migration 013, cached)
+     */
+    async hasDocumentStatusColumn(): Promise<boolean> {
+      if (documentStatusColumnExists !== null) return documentStatusColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      documentStatusColumnExists = await db.schema.hasColumn('sync_queue', 'document_status');
+      return documentStatusColumnExists ?? false;
+    },
+
+    /**
+     * Check if the bulk_id column exists (migration 014, cached)
+     */
+    async hasBulkColumn(): Promise<boolean> {
+      if (bulkColumnExists !== null) return bulkColumnExists;
+      if (!await this.ensureTable()) return false;
+
+      const db = strapi.db.connection;
+      bulkColumnExists = await db.schema.hasColumn('sync_queue', 'bulk_id');
+      return bulkColumnExists ?? false;
+    },
+
     /**
      * Enqueue an operation for sync
+     * Pending operations for the same (content_type, content_id, locale) are coalesced:
+     * - create + update -> create (latest data)
+     * - update + update -> update (latest data)
+     * - update + delete -> delete
+     * - create + delete -> nothing (returns null)
+     * Publish-state operations (publish, unpublish, discard-draft) are never merged,
+     * and an update after one of them is queued after it.
+     * Operations of a bulk (bulkId) are queued as they are and nothing is merged into them,
+     * so master receives the bulk as it happened.
+     * Runs in a transaction holding a per-document lock (Postgres), so concurrent saves
+     * of a document are coalesced one after the other.
      */
     async enqueue(operation: {
       shipId: string;
       contentType: string;
       contentId: string | number;
-      operation: 'create' | 'update' | 'delete';
+      operation: 'create' | 'update' | 'delete' | 'publish' | 'unpublish' | 'discard-draft';
       localVersion: number;
       data: any;
       locale?: string | null; // For i18n support
+      clock?: string | null;  // Hybrid logical clock of the local change
+      documentStatus?: 'draft' | 'published' | null; // Version a create/update was saved to
+      bulkId?: string | null; // Bulk the operation belongs to (bulk-sync)
     }): Promise<any> {
       if (!await this.ensureTable()) {
         strapi.log.warn('sync_queue table does not exist');
         return null;
       }
 
+      const bulkId = operation.bulkId && await this.hasBulkColumn() ? operation.bulkId : null;
+      const withClock = !!operation.clock && await this.hasClockColumn();
+      const withDocumentStatus = !!operation.documentStatus && await this.hasDocumentStatusColumn();
+
       const db = strapi.db.connection;
-      
-      // Build insert data - include locale only if provided
-      const insertData: any = {
-        ship_id: operation.shipId,
-        content_type: operation.contentType,
-        content_id: String(operation.contentId),
-        operation: operation.operation,
-        local_version: operation.localVersion,
-        data: JSON.stringify(operation.data),
-        status: 'pending',
-        created_at: new Date(),
-      };
-      
-      // Include locale in data JSON for i18n support
-      if (operation.locale) {
-        insertData.data = JSON.stringify({
-          ...operation.data,
-          _syncLocale: operation.locale, // Store locale in data
-        });
-      }
-      
-      const [result] = await db('sync_queue')
-        .insert(insertData)
-        .returning('*');
+      const contentId = String(operation.contentId);
+
+      // Stored data: the locale travels inside it
+      const data = JSON.stringify(operation.locale
+        ? { ...operation.data, _syncLocale: operation.locale }
+        : operation.data);
+
+      // Lookup and merge/insert in one transaction, so concurrent saves of a document
+      // can't both miss (or both merge into) the same pending entry
+      // (SQLite runs one write transaction at a time anyway)
+      const postgres = strapi.db.dialect?.client === 'postgres';
+      const outcome = await db.transaction(async (trx: any) => {
+        if (postgres) {
+          // Serializes enqueues per document, also while nothing is pending for it yet
+          await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [
+            `sync_queue:${operation.shipId}:${operation.contentType}:${contentId}`,
+          ]);
+        }
 
-      return result;
+        const pendingQuery = trx('sync_queue')
+          .where({
+            ship_id: operation.shipId,
+            content_type: operation.contentType,
+            content_id: contentId,
+            status: 'pending',
+          })
+          .orderBy('id', 'asc');
+        // Pushes mark entries syncing in their own transactions - they wait for this one
+        const pendingForDocument = (await (postgres ? pendingQuery.forUpdate() : pendingQuery))
+          .filter((entry: any) => (parseJsonField(entry.data)?._syncLocale || null) === (operation.locale || null));
+
+        if (pendingForDocument.length > 0 && operation.operation === 'delete' && !bulkId) {
+          const ids = pendingForDocument.map((entry: any) => entry.id);
+          const createdLocally = pendingForDocument.some((entry: any) => entry.operation === 'create');
+          const removed = await trx('sync_queue')
+            .whereIn('id', ids)
+            .where('status', 'pending')
+            .delete();
+
+          // Master never saw the document - unless a push picked the create up meanwhile
+          if (createdLocally && removed === ids.length) {
+            strapi.log.info(`[SyncQueue] Coalesced create + delete of ${operation.contentType}/${contentId} - nothing to sync`);
+            return { entry: null, reason: 'removed' };
+          }
+          // The delete goes to the end of the queue, after anything that still referenced the document
+        }
+
+        const latest = pendingForDocument[pendingForDocument.length - 1];
+        if (latest && !bulkId && !latest.bulk_id && operation.operation === 'update' && ['create', 'update'].includes(latest.operation)) {
+
+          // The merged entry keeps its earlier queue position, so the new data must not reference
+          // documents that are queued after it (they would not exist on master yet)
+          const referencedIds = [...collectDocumentIds(operation.data)].filter((id) => id !== contentId);
+          const queuedLater = referencedIds.length > 0
+            ? await trx('sync_queue')
+              .where({ ship_id: operation.shipId, status: 'pending' })
+              .where('id', '>', latest.id)
+              .whereIn('content_id', referencedIds)
+              .first()
+            : null;
+
+          if (!queuedLater) {
+            const changes: any = {
+              local_version: operation.localVersion,
+              data,
+            };
+            if (withClock) {
+              changes.clock = operation.clock;
+            }
+            if (withDocumentStatus) {
+              changes.document_status = operation.documentStatus;
+            }
+
+            const updated = await trx('sync_queue')
+              .where({ id: latest.id, status: 'pending' })
+              .update(changes);
+
+            if (updated) {
+              strapi.log.debug(`[SyncQueue] Coalesced ${latest.operation} + update of ${operation.contentType}/${contentId} into #${latest.id}`);
+              return { entry: await trx('sync_queue').where({ id: latest.id }).first(), reason: 'enqueued' };
+            }
+          }
+        }
+
+        // Build insert data - include locale only if provided
+        const insertData: any = {
+          ship_id: operation.shipId,
+          content_type: operation.contentType,
+          content_id: contentId,
+          operation: operation.operation,
+          local_version: operation.localVersion,
+          data,
+          status: 'pending',
+          created_at: new Date(),
+        };
+
+        if (withClock) {
+          insertData.clock = operation.clock;
+        }
+
+        if (withDocumentStatus) {
+          insertData.document_status = operation.documentStatus;
+        }
+
+        if (bulkId) {
+          insertData.bulk_id = bulkId;
+        }
+
+        const [result] = await trx('sync_queue')
+          .insert(insertData)
+          .returning('*');
+        return { entry: result, reason: 'enqueued' };
+      });
+
+      // After commit, so listeners reading the queue see the change
+      emitChange(outcome.reason, { contentType: operation.contentType, contentId });
+      return outcome.entry;
     },
 
     /**
      * Dequeue pending operations
+     * A bulk is never split: its remaining operations come along even past the limit
+     * filter narrows it to one content type / document (push now from the content manager)
      */
-    async dequeue(shipId: string, limit: number = 100): Promise<any[]> {
+    async dequeue(shipId: string, limit: number = 100, filter: { contentType?: string; contentId?: string } = {}): Promise<any[]> {
       if (!await this.ensureTable()) {
         return [];
       }
 
       const db = strapi.db.connection;
-      const entries = await db('sync_queue')
-        .where({ ship_id: shipId, status: 'pending' })
+      const query = db('sync_queue').where({ ship_id: shipId, status: 'pending' });
+      if (filter.contentType) query.where({ content_type: filter.contentType });
+      if (filter.contentId) query.where({ content_id: String(filter.contentId) });
+      const entries = await query
         .orderBy('created_at', 'asc')
         .limit(limit);
 
+      const bulkIds = [...new Set(entries.map((e: any) => e.bulk_id).filter(Boolean))];
+      if (bulkIds.length > 0) {
+        const dequeued = new Set(entries.map((e: any) => e.id));
+        const rest = await db('sync_queue')
+          .where({ ship_id: shipId, status: 'pending' })
+          .whereIn('bulk_id', bulkIds)
+          .orderBy('id', 'asc');
+        entries.push(...rest.filter((e: any) => !dequeued.has(e.id)));
+      }
+
       if (entries.length > 0) {
         await db('sync_queue')
           .whereIn('id', entries.map((e: any) => e.id))
           .update({ status: 'syncing' });
+        emitChange('syncing', { count: entries.length });
       }
 
       return entries.map((entry: any) => {
@@ -120,6 +347,7 @@ export default ({ strapi }: { strapi: any }) => {
           synced_at: new Date(),
           kafka_offset: kafkaOffset || null,
         });
+      emitChange('pushed', { queueIds: [queueId] });
     },
 
     /**
@@ -129,7 +357,66 @@ export default ({ strapi }: { strapi: any }) => {
       const db = strapi.db.connection;
       await db('sync_queue')
         .where({ id: queueId })
-        .update({ status: 'synced' });
+        .update({ status: 'synced', synced_at: new Date() });
+      emitChange('synced', { queueIds: [queueId] });
+    },
+
+    /**
+     * Mark several operations as synced at once (batched push)
+     */
+    async markManySynced(queueIds: number[]): Promise<void> {
+      if (queueIds.length === 0) return;
+
+      const db = strapi.db.connection;
+      await db('sync_queue')
+        .whereIn('id', queueIds)
+        .update({ status: 'synced', synced_at: new Date() });
+      emitChange('synced', { queueIds });
+    },
+
+    /**
+     * Put a sent operation back to pending (master asked for the full document)
+     * Skipped when a newer operation for the same document exists - that one carries the latest state
+     */
+    async requeue(queueId: number): Promise<boolean> {
+      const db = strapi.db.connection;
+      const entry = await db('sync_queue').where({ id: queueId }).first();
+      if (!entry || !['synced', 'pushed'].includes(entry.status)) {
+        return false;
+      }
+
+      const newer = await db('sync_queue')
+        .where({ ship_id: entry.ship_id, content_type: entry.content_type, content_id: entry.content_id })
+        .where('id', '>', queueId)
+        .first();
+      if (newer) {
+        return false;
+      }
+
+      await db('sync_queue')
+        .where({ id: queueId })
+        .update({ status: 'pending', error_message: null });
+      emitChange('requeued', { queueIds: [queueId] });
+      return true;
+    },
+
+    /**
+     * Put a document's failed operations back to pending so the next push retries them
+     */
+    async retryFailed(shipId: string, contentType: string, contentId: string): Promise<number> {
+      if (!await this.ensureTable()) {
+        return 0;
+      }
+
+      const db = strapi.db.connection;
+      const count = await db('sync_queue')
+        .where({ ship_id: shipId, content_type: contentType, content_id: String(contentId), status: 'failed' })
+        .update({ status: 'pending', error_message: null });
+
+      if (count > 0) {
+        emitChange('requeued', { contentType, contentId: String(contentId) });
+      }
+      return count;
     },
 
     /**
@@ -146,6 +433,7 @@ export default ({ strapi }: { strapi: any }) => {
           error_message: error.message,
           retry_count: (entry?.retry_count || 0) + 1,
         });
+      emitChange('failed', { queueIds: [queueId], error: error.message });
     },
 
     /**
@@ -157,12 +445,16 @@ export default ({ strapi }: { strapi: any }) => {
       shipId: string;
       conflictId: number;
       reason: string;
+      masterData?: any;
     }): Promise<void> {
       if (!await this.ensureTable()) {
         return;
       }
 
       const db = strapi.db.connection;
+      const inboxColumns = options.masterData && await this.hasInboxColumns()
+        ? { master_data: JSON.stringify(options.masterData) }
+        : {};
       
       // Find the queue entry for this content
       const entry = await db('sync_queue')
@@ -184,9 +476,11 @@ export default ({ strapi }: { strapi: any }) => {
             conflict_reason: options.reason,
             error_message: `Conflict #${options.conflictId}: ${options.reason}`,
             updated_at: new Date(),
+            ...inboxColumns,
           });
         
         strapi.log.info(`[SyncQueue] Marked entry ${entry.id} as conflict_pending (conflict #${options.conflictId})`);
+        emitChange('conflict', { contentType: options.contentType, contentId: String(options.contentId), conflictId: options.conflictId });
       } else {
         strapi.log.debug(`[SyncQueue] No pending entry found for ${options.contentType}/${options.contentId}`);
       }
@@ -201,12 +495,19 @@ export default ({ strapi }: { strapi: any }) => {
       shipId: string;
       conflictId: number;
       reason?: string;
+      masterData?: any;
+      resolvedBy?: string;
+      resolutionNote?: string | null;
     }): Promise<void> {
       if (!await this.ensureTable()) {
         return;
       }
 
       const db = strapi.db.connection;
+      const inboxColumns = options.masterData && await this.hasInboxColumns()
+        ? { master_data: JSON.stringify(options.masterData) }
+        : {};
+      const auditColumns = await this.buildAuditColumns(options);
       
       await db('sync_queue')
         .where({
@@ -221,9 +522,12 @@ export default ({ strapi }: { strapi: any }) => {
           conflict_resolved_at: new Date(),
           error_message: options.reason || 'Master version kept, ship changes discarded',
           updated_at: new Date(),
+          ...inboxColumns,
+          ...auditColumns,
         });
       
       strapi.log.info(`[SyncQueue] Marked conflict #${options.conflictId} as rejected for ${options.contentType}/${options.contentId}`);
+      emitChange('conflict-rejected', { contentType: options.contentType, contentId: String(options.contentId), conflictId: options.conflictId });
     },
 
     /**
@@ -234,12 +538,15 @@ export default ({ strapi }: { strapi: any }) => {
       contentId: string;
       shipId: string;
       conflictId: number;
+      resolvedBy?: string;
+      resolutionNote?: string | null;
     }): Promise<void> {
       if (!await this.ensureTable()) {
         return;
       }
 
       const db = strapi.db.connection;
+      const auditColumns = await this.buildAuditColumns(options);
       
       await db('sync_queue')
         .where({
@@ -254,9 +561,11 @@ export default ({ strapi }: { strapi: any }) => {
           conflict_resolved_at: new Date(),
           error_message: 'Ship version accepted and applied to master',
           updated_at: new Date(),
+          ...auditColumns,
         });
       
       strapi.log.info(`[SyncQueue] Marked conflict #${options.conflictId} as accepted for ${options.contentType}/${options.contentId}`);
+      emitChange('conflict-accepted', { contentType: options.contentType, contentId: String(options.contentId), conflictId: options.conflictId });
     },
 
     /**
@@ -268,12 +577,15 @@ export default ({ strapi }: { strapi: any }) => {
       shipId: string;
       conflictId: number;
       mergeDetails?: string;
+      resolvedBy?: string;
+      resolutionNote?: string | null;
     }): Promise<void> {
       if (!await this.ensureTable()) {
         return;
       }
 
       const db = strapi.db.connection;
+      const auditColumns = await this.buildAuditColumns(options);
       
       await db('sync_queue')
         .where({
@@ -288,9 +600,11 @@ export default ({ strapi }: { strapi: any }) => {
           conflict_resolved_at: new Date(),
           error_message: options.mergeDetails || 'Changes were merged',
           updated_at: new Date(),
+          ...auditColumns,
         });
       
       strapi.log.info(`[SyncQueue] Marked conflict #${options.conflictId} as merged for ${options.contentType}/${options.contentId}`);
+      emitChange('conflict-merged', { contentType: options.contentType, contentId: String(options.contentId), conflictId: options.conflictId });
     },
 
     /**
@@ -302,35 +616,142 @@ export default ({ strapi }: { strapi: any }) => {
       shipId: string;
       conflictId: number;
       reason: string;
+      masterData?: any;
     }): Promise<void> {
       // Use the new conflict_pending status
       return this.markConflictPending(options);
     },
 
     /**
-     * Get conflict entries (all conflict-related statuses)
+     * Get conflict entries (all conflict-related statuses, or only the given ones)
      */
-    async getConflicts(shipId: string): Promise<any[]> {
+    async getConflicts(shipId: string, statuses?: string[]): Promise<any[]> {
       if (!await this.ensureTable()) {
         return [];
       }
 
       const db = strapi.db.connection;
-      const entries = await db('sync_queue')
-        .where({ ship_id: shipId })
-        .where(function() {
+      const query = db('sync_queue').where({ ship_id: shipId });
+      if (statuses?.length) {
+        query.whereIn('status', statuses);
+      } else {
+        query.where(function() {
           this.where('status', 'like', 'conflict%')
             .orWhere('status', 'conflict');
-        })
+        });
+      }
+      const entries = await query
         .orderBy('created_at', 'desc')
         .limit(100);
 
       return entries.map((entry: any) => ({
         ...entry,
         data: parseJsonField(entry.data),
+        master_data: parseJsonField(entry.master_data),
       }));
     },
 
+    /**
+     * Get conflicts awaiting the ship editor (pending on master or rejected)
+     */
+    async getInbox(shipId: string): Promise<any[]> {
+      return this.getConflicts(shipId, INBOX_STATUSES);
+    },
+
+    /**
+     * Check if an entry is shown in the conflict inbox
+     */
+    isInboxEntry(entry: any): boolean {
+      return !!entry && INBOX_STATUSES.includes(entry.status);
+    },
+
+    /**
+     * Get a single queue entry (locale extracted from data like dequeue)
+     */
+    async getEntry(queueId: number): Promise<any | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const db = strapi.db.connection;
+      const entry = await db('sync_queue').where({ id: queueId }).first();
+      if (!entry) return null;
+
+      const parsedData = parseJsonField(entry.data);
+      let locale = null;
+      if (parsedData && parsedData._syncLocale) {
+        locale = parsedData._syncLocale;
+        delete parsedData._syncLocale;
+      }
+
+      return {
+        ...entry,
+        data: parsedData,
+        master_data: parseJsonField(entry.master_data),
+        locale,
+      };
+    },
+
+    /**
+     * Close all unsynced / conflicted entries of a document (ship editor discarded the local change)
+     */
+    async markLocalChangesDiscarded(shipId: string, contentType: string, contentId: string): Promise<number> {
+      if (!await this.ensureTable()) {
+        return 0;
+      }
+
+      const db = strapi.db.connection;
+      const count = await db('sync_queue')
+        .where({ ship_id: shipId, content_type: contentType, content_id: String(contentId) })
+        .whereIn('status', ['pending', 'failed', ...INBOX_STATUSES])
+        .update({
+          status: 'conflict_resolved',
+          conflict_resolution: 'keep-master',
+          conflict_resolved_at: new Date(),
+          error_message: 'Local change discarded by ship editor',
+          updated_at: new Date(),
+        });
+
+      strapi.log.info(`[SyncQueue] Discarded ${count} local change(s) for ${contentType}/${contentId}`);
+      emitChange('discarded', { contentType, contentId: String(contentId) });
+      return count;
+    },
+
+    /**
+     * Close a conflict entry after the ship editor resubmitted it as a new change
+     */
+    async markConflictResubmitted(queueId: number): Promise<void> {
+      if (!await this.ensureTable()) {
+        return;
+      }
+
+      const db = strapi.db.connection;
+      await db('sync_queue')
+        .where({ id: queueId })
+        .update({
+          status: 'conflict_resolved',
+          conflict_resolution: 'keep-ship',
+          conflict_resolved_at: new Date(),
+          error_message: 'Resubmitted by ship editor',
+          updated_at: new Date(),
+        });
+      emitChange('resubmitted', { queueIds: [queueId] });
+    },
+
+    /**
+     * Store the ship editor's note on a conflict entry
+     */
+    async setConflictNote(queueId: number, note: string): Promise<void> {
+      if (!await this.hasInboxColumns()) {
+        return;
+      }
+
+      const db = strapi.db.connection;
+      await db('sync_queue')
+        .where({ id: queueId })
+        .update({ conflict_note: note, updated_at: new Date() });
+    },
+
     /**
      * Get pending conflicts (not yet resolved)
      */
@@ -396,6 +817,83 @@ export default ({ strapi }: { strapi: any }) => {
       return stats;
     },
 
+    /**
+     * Check if a document has local changes master has not accepted yet
+     * (queued, in flight, failed or waiting for conflict resolution)
+     */
+    async hasUnsyncedChanges(shipId: string, contentType: string, contentId: string): Promise<boolean> {
+      if (!await this.ensureTable()) {
+        return false;
+      }
+
+      const db = strapi.db.connection;
+      const entry = await db('sync_queue')
+        .where({ ship_id: shipId, content_type: contentType, content_id: String(contentId) })
+        .whereIn('status', UNSYNCED_STATUSES)
+        .first();
+
+      return !!entry;
+    },
+
+    /**
+     * Clock of the latest local change master has not accepted yet (null if none or unknown)
+     */
+    async getUnsyncedClock(shipId: string, contentType: string, contentId: string): Promise<string | null> {
+      if (!await this.hasClockColumn()) {
+        return null;
+      }
+
+      const db = strapi.db.connection;
+      const entries = await db('sync_queue')
+        .where({ ship_id: shipId, content_type: contentType, content_id: String(contentId) })
+        .whereIn('status', UNSYNCED_STATUSES)
+        .whereNotNull('clock')
+        .select('clock');
+
+      const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+      return hybridClock.max(entries.map((e: any) => e.clock));
+    },
+
+    /**
+     * Queue entries of several documents of one content type, oldest first
+     * (only the columns needed to derive each document's sync status)
+     */
+    async getDocumentEntries(shipId: string, contentType: string, contentIds: string[]): Promise<any[]> {
+      if (contentIds.length === 0 || !await this.ensureTable()) {
+        return [];
+      }
+
+      const db = strapi.db.connection;
+      return db('sync_queue')
+        .where({ ship_id: shipId, content_type: contentType })
+        .whereIn('content_id', contentIds.map(String))
+        .select('id', 'content_id', 'status', 'error_message', 'created_at', 'synced_at', 'conflict_resolved_at')
+        .orderBy('id', 'asc');
+    },
+
+    /**
+     * When the last change reached master and since when the oldest unsent change waits
+     * (reported with the heartbeat, see fleet-health)
+     */
+    async getBacklogTimes(shipId: string): Promise<{ lastPushAt: Date | null; oldestPendingAt: Date | null }> {
+      if (!await this.ensureTable()) {
+        return { lastPushAt: null, oldestPendingAt: null };
+      }
+
+      const db = strapi.db.connection;
+      const [pushed] = await db('sync_queue')
+        .where({ ship_id: shipId })
+        .whereNotNull('synced_at')
+        .max('synced_at as at');
+      const [oldest] = await db('sync_queue')
+        .where({ ship_id: shipId })
+        .whereIn('status', ['pending', 'syncing', 'failed'])
+        .min('created_at as at');
+
+      const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+      return { lastPushAt: toDate(pushed?.at), oldestPendingAt: toDate(oldest?.at) };
+    },
+
     /**
      * Get pending operations count
      */
@@ -1,3 +1,19 @@
+// Plugin store key of the last change log sequence this ship has seen (replica)
+const WATERMARK_KEY = 'pull-watermark';
+
+// Plugin store key of sequences received but not applied (failed, or waiting for a full document)
+const HELD_SEQUENCES_KEY = 'pull-watermark-held';
+
+/**
+ * Outcome of a master update on the replica:
+ * - applied: written (or a control message handled)
+ * - skipped: nothing to do (stale, unknown type, local changes kept by policy)
+ * - pending: waiting for the full document (delta base mismatch)
+ * - failed: error while applying
+ * Only applied and skipped let the pull watermark move past the message's sequence.
+ */
+export type MasterUpdateResult = 'applied' | 'skipped' | 'pending' | 'failed';
+
 export default ({ strapi: strapiInstance }: { strapi: any }) => {
   // Explicitly capture strapi in closure to ensure it's available in async callbacks
   const strapi = strapiInstance;
@@ -5,8 +21,12 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
   return {
     /**
      * Push pending operations to master
+     * Operations are sent in compressed Kafka batches of sync.pushBatchSize,
+     * updates as deltas against the last state sent to master (delta-sync);
+     * the operations of a bulk (bulk-sync) are sent as one 'bulk' message
+     * With options.contentType/documentId only that document's operations are pushed
      */
-    async push(): Promise<{ pushed: number; failed: number }> {
+    async push(options: { contentType?: string; documentId?: string } = {}): Promise<{ pushed: number; failed: number }> {
       const config = strapi.config.get('plugin::offline-sync', {});
 
       if (config.mode !== 'replica') {
@@ -14,91 +34,79 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
 
       const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
-      const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-      const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
-      const mediaSync = strapi.plugin('offline-sync').service('media-sync');
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+      const relationSync = strapi.plugin('offline-sync').service('relation-sync');
 
       let pushed = 0;
       let failed = 0;
 
       try {
         // Get pending operations
-        const pending = await syncQueue.dequeue(config.shipId, config.sync.batchSize);
+        // Referenced documents created in this batch go first, so master can map the relation
+        const pending = relationSync.orderByDependencies(
+          await syncQueue.dequeue(config.shipId, config.sync.batchSize, {
+            contentType: options.contentType,
+            contentId: options.documentId,
+          })
+        );
+        const pushBatchSize = Math.max(1, config.sync.pushBatchSize || 50);
 
         strapi.log.info(`Pushing ${pending.length} operations to master...`);
 
-        for (const operation of pending) {
-          try {
-            let operationData = operation.data;
-            let fileRecords: any[] = [];
+        const prepared = await this.preparePushUnits(pending);
+        const units = prepared.units;
+        failed += prepared.failed;
 
-            // If media sync is enabled, prepare media files for push
-            // This uploads files from MinIO to OSS and collects file records
-            if (mediaSync.isEnabled() && operationData && operation.operation !== 'delete') {
-              try {
-                const mediaPrep = await mediaSync.prepareContentForMasterPush(operationData);
-                fileRecords = mediaPrep.fileRecords;
+        // Send in compressed batches; queue order is kept since all messages share the ship key
+        for (let i = 0; i < units.length; i += pushBatchSize) {
+          const batch = units.slice(i, i + pushBatchSize);
 
-                if (mediaPrep.fileSyncResult.failed > 0) {
-                  strapi.log.warn(`[Push] ${mediaPrep.fileSyncResult.failed} media files failed to sync to OSS`);
+          try {
+            await syncProducer.sendBatch(batch.map((unit) => unit.message));
+            // Mark as 'synced' - Kafka guarantees delivery, so once sent we can consider it synced
+            const queueIds = batch.flatMap((unit) => unit.queueIds);
+            await syncQueue.markManySynced(queueIds);
+            pushed += queueIds.length;
+            continue;
+          } catch (error: any) {
+            if (!syncProducer.isConnected()) {
+              // Broker unreachable - fail the rest now instead of one reconnect per item
+              const remaining = units.slice(i);
+              strapi.log.error(`[Push] Kafka unavailable, ${remaining.reduce((sum, unit) => sum + unit.queueIds.length, 0)} operation(s) not pushed: ${error.message}`);
+              for (const unit of remaining) {
+                for (const queueId of unit.queueIds) {
+                  await syncQueue.markFailed(queueId, error);
+                  failed++;
+                }
+                for (const snapshotKey of unit.snapshotKeys) {
+                  await deltaSync.forget(snapshotKey);
                 }
-              } catch (mediaPrepError: any) {
-                strapi.log.warn(`[Push] Media preparation failed: ${mediaPrepError.message}`);
-                // Continue without media - content might still sync
               }
+              break;
             }
+            strapi.log.warn(`[Push] Batch of ${batch.length} failed (${error.message}), sending individually...`);
+          }
 
-            const message: any = {
-              messageId: `msg-${Date.now()}-${operation.id}`,
-              shipId: config.shipId,
-              timestamp: new Date().toISOString(),
-              operation: operation.operation,
-              contentType: operation.content_type,
-              contentId: operation.content_id,
-              version: operation.local_version,
-              data: operationData,
-              metadata: {
-                queueId: operation.id,
-              },
-            };
-
-            // Include file records if any (for master to create file entries)
-            if (fileRecords.length > 0) {
-              message.fileRecords = fileRecords;
-              strapi.log.info(`[Push] Including ${fileRecords.length} file records in message`);
-            }
-
-            // Include locale if present (for i18n support)
-            if (operation.locale) {
-              message.locale = operation.locale;
-            }
-
-            // For UPDATE/DELETE operations, include masterDocumentId if we have a mapping
-            // This helps Master identify the document even if it doesn't have the mapping yet
-            if (operation.operation !== 'create') {
-              try {
-                const masterDocId = await documentMapping.getMasterDocumentId(
-                  config.shipId,
-                  operation.content_type,
-                  operation.content_id
-                );
-                if (masterDocId) {
-                  message.masterDocumentId = masterDocId;
-                  strapi.log.debug(`[Push] Including masterDocumentId: ${masterDocId} for ${operation.content_id}`);
-                }
-              } catch (mappingError: any) {
-                strapi.log.debug(`[Push] No mapping found for ${operation.content_id}: ${mappingError.message}`);
+          // Fall back to one message per request so a single bad item (e.g. too large) fails alone
+          for (const unit of batch) {
+            try {
+              await syncProducer.send(unit.message);
+              for (const queueId of unit.queueIds) {
+                await syncQueue.markSynced(queueId);
+              }
+              pushed += unit.queueIds.length;
+            } catch (error: any) {
+              strapi.log.error(`Failed to push operation(s) ${unit.queueIds.join(', ')}: ${error.message}`);
+              for (const queueId of unit.queueIds) {
+                await syncQueue.markFailed(queueId, error);
+                failed++;
+              }
+              // Master never got this state, so the next push of the document is sent in full
+              for (const snapshotKey of unit.snapshotKeys) {
+                await deltaSync.forget(snapshotKey);
               }
             }
-
-            await kafkaProducer.send(message);
-            // Mark as 'synced' - Kafka guarantees delivery, so once sent we can consider it synced
-            await syncQueue.markSynced(operation.id);
-            pushed++;
-          } catch (error: any) {
-            strapi.log.error(`Failed to push operation ${operation.id}: ${error.message}`);
-            await syncQueue.markFailed(operation.id, error);
-            failed++;
           }
         }
 
@@ -112,25 +120,311 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
     },
 
     /**
-     * Pull updates from master
-     * In bi-directional sync, ships subscribe to master-updates topic
-     * This method is called when ship comes online to catch up on missed updates
+     * Turn dequeued operations into push messages, one per operation or per bulk
+     * A preparation failure marks that operation (or its whole bulk) failed.
+     * With options.full (sync bundles) updates are never deltas and media isn't uploaded.
      */
-    async pull(): Promise<{ pulled: number; conflicts: number }> {
+    async preparePushUnits(pending: any[], options: { full?: boolean } = {}): Promise<{
+      units: Array<{ queueIds: number[]; message: any; snapshotKeys: any[] }>;
+      failed: number;
+    }> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+      let failed = 0;
+
+      // A preparation failure only fails that operation (or its whole bulk)
+      const prepared: Array<{ queueId: number; bulkId: string | null; message: any; snapshotKey: any }> = [];
+      const failedBulks = new Map<string, Error>();
+      for (const operation of pending) {
+        try {
+          const snapshotKey = {
+            direction: 'outgoing',
+            peer: 'master',
+            contentType: operation.content_type,
+            documentId: operation.content_id,
+            locale: operation.locale,
+          };
+          prepared.push({
+            queueId: operation.id,
+            bulkId: operation.bulk_id || null,
+            message: await deltaSync.encode(
+              snapshotKey,
+              await this.buildPushMessage(operation, { uploadMedia: !options.full }),
+              { full: options.full }
+            ),
+            snapshotKey,
+          });
+        } catch (error: any) {
+          strapi.log.error(`Failed to prepare operation ${operation.id}: ${error.message}`);
+          await syncQueue.markFailed(operation.id, error);
+          if (operation.bulk_id) failedBulks.set(operation.bulk_id, error);
+          failed++;
+        }
+      }
+
+      // The operations of a bulk travel as one message, at the position of its first operation
+      const units: Array<{ queueIds: number[]; message: any; snapshotKeys: any[] }> = [];
+      const bulkUnits = new Map<string, { queueIds: number[]; message: any; snapshotKeys: any[] }>();
+      for (const item of prepared) {
+        if (item.bulkId && failedBulks.has(item.bulkId)) {
+          // Master applies a bulk all or nothing, so it isn't sent without the failed operation
+          await syncQueue.markFailed(item.queueId, failedBulks.get(item.bulkId)!);
+          await deltaSync.forget(item.snapshotKey);
+          failed++;
+          continue;
+        }
+        if (!item.bulkId) {
+          units.push({ queueIds: [item.queueId], message: item.message, snapshotKeys: [item.snapshotKey] });
+          continue;
+        }
+        let unit = bulkUnits.get(item.bulkId);
+        if (!unit) {
+          unit = {
+            queueIds: [],
+            message: {
+              messageId: `bulk-${Date.now()}-${item.bulkId}`,
+              shipId: config.shipId,
+              timestamp: new Date().toISOString(),
+              operation: 'bulk',
+              bulkId: item.bulkId,
+              operations: [],
+            },
+            snapshotKeys: [],
+          };
+          bulkUnits.set(item.bulkId, unit);
+          units.push(unit);
+        }
+        unit.queueIds.push(item.queueId);
+        unit.message.operations.push(item.message);
+        unit.snapshotKeys.push(item.snapshotKey);
+      }
+
+      return { units, failed };
+    },
+
+    /**
+     * Build the ship-updates message for a dequeued operation
+     * Uploads referenced media first and attaches the master mapping for updates/deletes
+     * With options.uploadMedia false the media is left to the caller (sync bundles)
+     */
+    async buildPushMessage(operation: any, options: { uploadMedia?: boolean } = {}): Promise<any> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+      const mediaSync = strapi.plugin('offline-sync').service('media-sync');
+
+      let operationData = operation.data;
+      let fileRecords: any[] = [];
+
+      // If media sync is enabled, prepare media files for push
+      // This uploads files from MinIO to OSS and collects file records
+      if (mediaSync.isEnabled() && operationData && operation.operation !== 'delete') {
+        try {
+          const mediaPrep = await mediaSync.prepareContentForMasterPush(operationData, { upload: options.uploadMedia });
+          fileRecords = mediaPrep.fileRecords;
+
+          if (mediaPrep.fileSyncResult.failed > 0) {
+            strapi.log.warn(`[Push] ${mediaPrep.fileSyncResult.failed} media files failed to sync to OSS`);
+          }
+        } catch (mediaPrepError: any) {
+          strapi.log.warn(`[Push] Media preparation failed: ${mediaPrepError.message}`);
+          // Continue without media - content might still sync
+        }
+      }
+
+      const message: any = {
+        messageId: `msg-${Date.now()}-${operation.id}`,
+        shipId: config.shipId,
+        timestamp: new Date().toISOString(),
+        operation: operation.operation,
+        contentType: operation.content_type,
+        contentId: operation.content_id,
+        version: operation.local_version,
+        data: operationData,
+        clock: operation.clock || null,
+        metadata: {
+          queueId: operation.id,
+        },
+      };
+
+      // Include file records if any (for master to create file entries)
+      if (fileRecords.length > 0) {
+        message.fileRecords = fileRecords;
+        strapi.log.info(`[Push] Including ${fileRecords.length} file records in message`);
+      }
+
+      // Include locale if present (for i18n support)
+      if (operation.locale) {
+        message.locale = operation.locale;
+      }
+
+      // Draft save or published write (publish / unpublish / discard-draft are operations of their own)
+      if (operation.document_status) {
+        message.documentStatus = operation.document_status;
+      }
+
+      // For UPDATE/DELETE operations, include masterDocumentId if we have a mapping
+      // This helps Master identify the document even if it doesn't have the mapping yet
+      // baseClock tells master which of its changes this edit was made on top of
+      if (operation.operation !== 'create') {
+        try {
+          const mapping = await documentMapping.getMapping(
+            config.shipId,
+            operation.content_type,
+            operation.content_id
+          );
+          if (mapping?.masterDocumentId) {
+            message.masterDocumentId = mapping.masterDocumentId;
+            message.baseClock = mapping.clock || null;
+            strapi.log.debug(`[Push] Including masterDocumentId: ${mapping.masterDocumentId} for ${operation.content_id}`);
+          }
+        } catch (mappingError: any) {
+          strapi.log.debug(`[Push] No mapping found for ${operation.content_id}: ${mappingError.message}`);
+        }
+      }
+
+      return message;
+    },
+
+    /**
+     * Pull updates from master (catch-up sync)
+     * Live updates arrive through the master-updates subscription; this asks master to
+     * re-send every change-log entry after our watermark, for ships that were offline
+     * longer than the topic retention. Replies arrive asynchronously on master-updates.
+     */
+    async pull(): Promise<{ requested: boolean; watermark: number | null }> {
       const config = strapi.config.get('plugin::offline-sync', {});
 
       if (config.mode !== 'replica') {
         throw new Error('Pull sync only available in replica mode');
       }
 
-      // Pull is now handled by Kafka consumer subscribing to master-updates topic
-      // This method can be used for on-demand sync or initial data load
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      const watermark = await this.getWatermark();
+      const requested = await syncProducer.sendPullRequest(watermark);
+
+      return { requested, watermark };
+    },
+
+    /**
+     * Last change log sequence applied on this ship (null = never pulled)
+     * Stays below the oldest held sequence, so the next pull delivers it again
+     */
+    async getWatermark(): Promise<number | null> {
+      const store = strapi.store({ type: 'plugin', name: 'offline-sync' });
+      const value = await store.get({ key: WATERMARK_KEY });
+      if (value === null || value === undefined) return null;
+
+      const held: number[] = (await store.get({ key: HELD_SEQUENCES_KEY })) || [];
+      return held.length > 0 ? Math.min(Number(value), Math.min(...held) - 1) : Number(value);
+    },
+
+    /**
+     * Move the watermark forward (never backwards - catch-up replies may arrive out of order)
+     * Held sequences stay held, so the end of a range can be recorded after failures in it
+     */
+    async advanceWatermark(sequence: number): Promise<void> {
+      const store = strapi.store({ type: 'plugin', name: 'offline-sync' });
+
+      const current = await store.get({ key: WATERMARK_KEY });
+      if (current !== null && current !== undefined && Number(current) >= sequence) {
+        return;
+      }
+      await store.set({ key: WATERMARK_KEY, value: sequence });
+    },
+
+    /**
+     * Keep the watermark below a sequence that was received but not applied
+     */
+    async holdWatermark(sequence: number): Promise<void> {
+      const store = strapi.store({ type: 'plugin', name: 'offline-sync' });
+      const held: number[] = (await store.get({ key: HELD_SEQUENCES_KEY })) || [];
+      if (!held.includes(sequence)) {
+        await store.set({ key: HELD_SEQUENCES_KEY, value: [...held, sequence].sort((a, b) => a - b) });
+      }
+    },
+
+    /**
+     * Record the outcome of a master update that carried a change log sequence
+     */
+    async settleSequence(sequence: number | null | undefined, result: MasterUpdateResult): Promise<void> {
+      if (!sequence) return;
+
+      if (result === 'applied' || result === 'skipped') {
+        // A held sequence that is now applied is released
+        const store = strapi.store({ type: 'plugin', name: 'offline-sync' });
+        const held: number[] = (await store.get({ key: HELD_SEQUENCES_KEY })) || [];
+        if (held.includes(Number(sequence))) {
+          await store.set({ key: HELD_SEQUENCES_KEY, value: held.filter((entry) => entry !== Number(sequence)) });
+        }
+        await this.advanceWatermark(Number(sequence));
+      } else {
+        await this.holdWatermark(Number(sequence));
+        strapi.log.warn(`[Sync] Change ${sequence} not applied (${result}) - the next pull delivers it again`);
+      }
+    },
+
+    /**
+     * Answer a ship's pull request with every change after its watermark (master side)
+     * Ships without a watermark only get the current sequence as their baseline
+     */
+    async handlePullRequest(message: any): Promise<void> {
+      const { shipId, watermark } = message;
+      if (!shipId) {
+        strapi.log.warn('[Pull] Invalid pull request: missing shipId');
+        return;
+      }
+
+      const changeLog = strapi.plugin('offline-sync').service('change-log');
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      let latest = await changeLog.getLatestSequence();
+      let sent = 0;
 
-      // For now, just log that pull sync is handled via Kafka subscription
-      strapi.log.info('[Sync] Pull sync is handled via Kafka subscription to master-updates topic');
+      if (watermark !== null && watermark !== undefined) {
+        const result = await changeLog.replay({
+          fromSequence: Number(watermark),
+          toSequence: latest,
+          shipId,
+          messagePrefix: 'pull',
+        });
+        sent = result.sent;
+        // The ship may only move up to the first change that couldn't be sent
+        if (result.firstFailed !== null) {
+          latest = result.firstFailed - 1;
+        }
+      }
+
+      await syncProducer.sendToShips({
+        messageId: `pull-complete-${shipId}-${Date.now()}`,
+        shipId: 'master',
+        targetShipId: shipId,
+        timestamp: new Date().toISOString(),
+        operation: 'pull-complete',
+        watermark: watermark ?? null,
+        latestSequence: latest,
+        count: sent,
+      });
 
-      // Return current stats (could be enhanced with actual pull tracking)
-      return { pulled: 0, conflicts: 0 };
+      strapi.log.info(`[Pull] 📤 Sent ${sent} change(s) to ${shipId} (watermark: ${watermark ?? 'none'}, latest: ${latest})`);
+    },
+
+    /**
+     * Handle the end of a catch-up reply (replica side)
+     * latestSequence is the end of the range master scanned, including changes outside this
+     * ship's scope it didn't send; changes from the reply that weren't applied stay held
+     */
+    async handlePullComplete(message: any): Promise<void> {
+      const { count, latestSequence } = message;
+
+      await this.advanceWatermark(Number(latestSequence) || 0);
+
+      strapi.log.info(`[Sync] 📥 Catch-up complete: ${count} change(s) from master (latest sequence: ${latestSequence})`);
+
+      strapi.eventHub?.emit('offline-sync.pull-complete', {
+        count,
+        latestSequence,
+        timestamp: new Date().toISOString(),
+      });
     },
 
     /**
@@ -153,19 +447,375 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       return cleaned;
     },
 
+    /**
+     * Answer a ship's full-document request (master side)
+     * Sends the latest broadcast payload from the change log, which is also the base
+     * of the next delta, so the ship's snapshot lines up again
+     */
+    async handleFullRequest(message: any): Promise<void> {
+      const { shipId, contentType, contentId: documentId, locale } = message;
+      if (!shipId || !contentType || !documentId) {
+        strapi.log.warn('[Delta] Invalid full-document request: missing required fields');
+        return;
+      }
+
+      const changeLog = strapi.plugin('offline-sync').service('change-log');
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+
+      let entry = await changeLog.getLatestFor(contentType, documentId, locale);
+      if (!entry) {
+        // Never broadcast (e.g. created before the change log) - send the current document
+        const findOptions: any = { documentId, populate: '*' };
+        if (locale) findOptions.locale = locale;
+        const doc = await strapi.documents(contentType).findOne(findOptions);
+        const lastEdit = await strapi.plugin('offline-sync').service('master-sync-queue').getLastEditor(contentType, documentId);
+        entry = doc
+          ? { operation: 'update', data: this.cleanSyncData(doc), locale: locale || null, clock: lastEdit?.clock || null, sequence: null }
+          : { operation: 'delete', data: null, locale: locale || null, clock: lastEdit?.clock || null, sequence: null };
+      }
+
+      await syncProducer.sendToShips({
+        messageId: `full-${shipId}-${documentId}-${Date.now()}`,
+        shipId: 'master',
+        targetShipId: shipId,
+        timestamp: new Date().toISOString(),
+        operation: entry.operation,
+        contentType,
+        contentId: documentId,
+        version: 0,
+        data: entry.data,
+        locale: entry.locale,
+        clock: entry.clock,
+        documentStatus: entry.document_status || null,
+        sequence: entry.sequence,
+      });
+
+      strapi.log.info(`[Delta] 📤 Sent full ${contentType}/${documentId} to ${shipId}`);
+    },
+
+    /**
+     * Handle master's request to resend a change in full (replica side)
+     * Drops our outgoing snapshot and puts the queued change back to pending
+     */
+    async handleFullResendRequest(message: any): Promise<void> {
+      const { contentType, contentId: replicaDocumentId, locale, queueId } = message;
+
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+
+      await deltaSync.forget({
+        direction: 'outgoing',
+        peer: 'master',
+        contentType,
+        documentId: replicaDocumentId,
+        locale,
+      });
+
+      const requeued = queueId ? await syncQueue.requeue(Number(queueId)) : false;
+      strapi.log.info(`[Delta] Master requested full ${contentType}/${replicaDocumentId}${requeued ? ` - queue entry #${queueId} requeued` : ''}`);
+
+      // Resend right away through the debounced instant push (auto-push picks it up otherwise)
+      if (requeued && (strapi as any).offlineSyncPush) {
+        (strapi as any).offlineSyncPush();
+      }
+    },
+
+    /**
+     * Record the just-synced state as common ancestor for future three-way merges (master side)
+     * Stores the master document and the ship payload under the same ship id
+     */
+    async recordSyncSnapshot(params: {
+      contentType: string;
+      masterDocumentId: string;
+      replicaDocumentId: string;
+      shipId: string;
+      locale?: string | null;
+      shipData: any;
+    }): Promise<void> {
+      try {
+        const versionManager = strapi.plugin('offline-sync').service('version-manager');
+        const findOptions: any = { documentId: params.masterDocumentId, populate: '*' };
+        if (params.locale) {
+          findOptions.locale = params.locale;
+        }
+        const masterDoc = await strapi.documents(params.contentType).findOne(findOptions);
+        if (!masterDoc) return;
+
+        const options = { shipId: params.shipId, locale: params.locale || null };
+        await versionManager.recordSnapshot(params.contentType, params.masterDocumentId, this.cleanSyncData(masterDoc), options);
+        await versionManager.recordSnapshot(params.contentType, params.replicaDocumentId, params.shipData || {}, options);
+      } catch (error: unknown) {
+        // Non-critical: without a snapshot the next concurrent edit goes to manual resolution
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        strapi.log.debug(`[Sync] Could not record sync snapshot for ${params.contentType}/${params.masterDocumentId}: ${message}`);
+      }
+    },
+
+    /**
+     * Three-way merge a ship update with the current master document (master side)
+     * Returns null when no common ancestor snapshot is available
+     */
+    async tryThreeWayMerge(params: {
+      contentType: string;
+      masterDocumentId: string;
+      replicaDocumentId: string;
+      shipId: string;
+      locale?: string | null;
+      masterData: any;
+      shipData: any;
+    }): Promise<any> {
+      const versionManager = strapi.plugin('offline-sync').service('version-manager');
+      const threeWayMerge = strapi.plugin('offline-sync').service('three-way-merge');
+      const options = { shipId: params.shipId, locale: params.locale || null };
+
+      const base = await versionManager.getLatestSnapshot(params.contentType, params.masterDocumentId, options);
+      if (!base) {
+        strapi.log.debug(`[Sync] No merge ancestor for ${params.contentType}/${params.masterDocumentId}`);
+        return null;
+      }
+      const shipBase = await versionManager.getLatestSnapshot(params.contentType, params.replicaDocumentId, options);
+
+      const result = threeWayMerge.mergeDocuments({
+        contentType: params.contentType,
+        base: base.data,
+        shipBase: shipBase?.data || null,
+        master: params.masterData,
+        ship: params.shipData,
+      });
+
+      return { ...result, base: base.data, baseVersion: base.version };
+    },
+
+    /**
+     * Document version a synced create/update/publish is written to
+     * Draft saves stay drafts; publish messages and senders without publish state write the published version
+     */
+    getWriteStatus(message: { documentStatus?: string | null }): 'draft' | 'published' {
+      return message.documentStatus === 'draft' ? 'draft' : 'published';
+    },
+
+    /**
+     * Run a side effect (e.g. a Kafka ack) once the surrounding transaction commits
+     * A bulk that rolls back must not have told the ship about documents it never kept
+     */
+    async afterCommit(task: () => Promise<any>): Promise<void> {
+      if (!strapi.db.inTransaction()) {
+        await task();
+        return;
+      }
+
+      await strapi.db.transaction(({ onCommit }: any) => {
+        onCommit(() => {
+          task().catch((error: any) => {
+            strapi.log.error(`[Sync] Post-commit task failed: ${error.message}`);
+          });
+        });
+      });
+    },
+
+    /**
+     * Replay an unpublish or discard-draft on a local document
+     * Content types without draft & publish have nothing to replay
+     */
+    async applyPublishAction(contentType: string, documentId: string, operation: 'unpublish' | 'discard-draft', locale?: string | null): Promise<void> {
+      if (!strapi.contentTypes[contentType]?.options?.draftAndPublish) {
+        strapi.log.debug(`[Sync] ${operation} skipped - ${contentType} has no draft & publish`);
+        return;
+      }
+
+      const options: any = { documentId };
+      if (locale) {
+        options.locale = locale;
+      }
+
+      if (operation === 'unpublish') {
+        await strapi.documents(contentType).unpublish(options);
+      } else {
+        await strapi.documents(contentType).discardDraft(options);
+      }
+    },
+
+    /**
+     * Apply a conflict-free three-way merge result to master (master side)
+     * Records an auto-resolved conflict and sends the merged document back to the ship
+     */
+    async applyAutoMerge(params: {
+      message: any;
+      contentType: string;
+      masterDocumentId: string;
+      replicaDocumentId: string;
+      shipId: string;
+      shipVersion: number;
+      masterData: any;
+      shipData: any;
+      merge: any;
+    }): Promise<void> {
+      const { message, contentType, masterDocumentId, replicaDocumentId, shipId, merge } = params;
+      const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+      const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
+      const conflictResolver = strapi.plugin('offline-sync').service('conflict-resolver');
+      const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+
+      // The merged document is a new state neither side has seen yet
+      const clock = hybridClock.now();
+
+      if (Object.keys(merge.changes).length > 0) {
+        const updateOptions: any = {
+          documentId: masterDocumentId,
+          data: merge.changes,
+          status: this.getWriteStatus(message),
+        };
+        if (message.locale) {
+          updateOptions.locale = message.locale;
+        }
+        await strapi.documents(contentType).update(updateOptions);
+      }
+
+      await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId, clock);
+      await masterSyncQueue.logEdit({
+        contentType,
+        documentId: masterDocumentId,
+        operation: 'update',
+        editedBy: `ship-${shipId}`,
+        clock,
+      });
+
+      const conflictLog = await conflictResolver.logAutoMerge({
+        contentType,
+        contentId: masterDocumentId,
+        shipId,
+        shipVersion: params.shipVersion,
+        shipData: params.shipData,
+        masterData: params.masterData,
+        baseData: merge.base,
+        mergedData: merge.merged,
+        locale: message.locale || null,
+        documentStatus: message.documentStatus || null,
+      });
+
+      strapi.log.info(`[Sync] 🔀 Auto-merged ${contentType} (master: ${masterDocumentId}) - ship fields: ${merge.autoMerged.join(', ') || 'none'}`);
+
+      // Ship needs the master-side edits it hasn't seen yet
+      const findOptions: any = { documentId: masterDocumentId, status: this.getWriteStatus(message) };
+      if (message.locale) {
+        findOptions.locale = message.locale;
+      }
+      const mergedDoc = await strapi.documents(contentType).findOne(findOptions);
+      const resolvedData = mergedDoc ? this.cleanSyncData(mergedDoc) : null;
+
+      await this.recordSyncSnapshot({
+        contentType,
+        masterDocumentId,
+        replicaDocumentId,
+        shipId,
+        locale: message.locale || null,
+        shipData: resolvedData,
+      });
+
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+      if (syncProducer.isConnected()) {
+        await this.afterCommit(() => syncProducer.sendToShips({
+          messageId: `conflict-resolved-${conflictLog?.id || 0}-${Date.now()}`,
+          shipId,
+          timestamp: new Date().toISOString(),
+          operation: 'conflict-resolved',
+          contentType,
+          contentId: masterDocumentId,
+          replicaDocumentId,
+          conflictId: conflictLog?.id || 0,
+          resolution: 'merge',
+          resolvedData,
+          resolvedBy: 'auto-merge',
+          locale: message.locale || null,
+          documentStatus: message.documentStatus || null,
+          clock,
+        }));
+      }
+    },
+
+    /**
+     * Process a bulk message from a ship (master side)
+     * All operations are applied in one transaction: if one fails, none is kept and
+     * the whole bulk goes to the dead letter queue. Conflicting operations are held
+     * back for resolution like single updates, the rest of the bulk is applied.
+     */
+    async processShipBulk(message: any, options: { replay?: boolean } = {}): Promise<void> {
+      const { messageId, shipId, bulkId } = message;
+      const operations: any[] = Array.isArray(message.operations) ? message.operations : [];
+      if (!shipId || operations.length === 0) {
+        strapi.log.warn('[Sync] Invalid bulk message: missing ship or operations');
+        return;
+      }
+
+      const messageTracker = strapi.plugin('offline-sync').service('message-tracker');
+      const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
+
+      if (messageId) {
+        const alreadyProcessed = options.replay
+          ? (await messageTracker.getStatus(messageId)) === 'processed'
+          : await messageTracker.isProcessed(messageId);
+        if (alreadyProcessed) {
+          strapi.log.debug(`[Sync] Duplicate bulk skipped: ${messageId}`);
+          return;
+        }
+      }
+
+      const applyAll = async () => {
+        for (const operation of operations) {
+          // Failures are thrown (replay) so the whole bulk rolls back
+          await this.processShipUpdate(operation, { replay: true });
+        }
+        if (messageId) {
+          await messageTracker.markProcessed(messageId, { shipId, contentId: bulkId, operation: 'bulk' });
+        }
+      };
+
+      // The plugin's tables are written through bulk-sync's connection, which joins this
+      // transaction, and messages to ships wait for the commit (afterCommit)
+      try {
+        await strapi.db.transaction(applyAll);
+        strapi.log.info(`[Sync] ✅ Applied bulk ${bulkId} (${operations.length} operations) from ${shipId}`);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (messageId) await messageTracker.markFailed(messageId);
+
+        if (options.replay) {
+          throw error;
+        }
+
+        // The retry worker replays the bulk as a whole
+        await deadLetter.add({
+          messageId: messageId || `unknown-${Date.now()}`,
+          shipId,
+          contentId: bulkId,
+          operation: 'bulk',
+          payload: message,
+          error: error instanceof Error ? error : new Error(errorMessage),
+          maxRetries: 3,
+        });
+
+        strapi.log.error(`[Sync] Bulk ${bulkId} from ${shipId} rolled back: ${errorMessage}`);
+      }
+    },
+
     /**
      * Process ship update (master side)
-     * Conflict detection: checks if master was modified since last sync from this ship
+     * Conflict detection: checks with hybrid logical clocks if master changed since the state the ship edited
+     * With options.replay (dead letter retry), failures are thrown instead of re-queued
      */
-    async processShipUpdate(message: any): Promise<void> {
+    async processShipUpdate(message: any, options: { replay?: boolean } = {}): Promise<void> {
       const config = strapi.config.get('plugin::offline-sync', {});
 
       if (config.mode !== 'master') {
         throw new Error('processShipUpdate only available in master mode');
       }
 
+      if (message.operation === 'bulk') {
+        return this.processShipBulk(message, options);
+      }
+
       // Validate message
-      const { messageId, contentType, contentId: replicaDocumentId, version: shipVersion, data, operation, shipId, timestamp } = message;
+      const { messageId, contentType, contentId: replicaDocumentId, version: shipVersion, operation, shipId } = message;
       if (!contentType || !replicaDocumentId || !shipId) {
         strapi.log.warn('[Sync] Invalid message: missing required fields');
         return;
@@ -176,16 +826,54 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       const shipTracker = strapi.plugin('offline-sync').service('ship-tracker');
       const deadLetter = strapi.plugin('offline-sync').service('dead-letter');
       const conflictResolver = strapi.plugin('offline-sync').service('conflict-resolver');
+      const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+
+      // Clock of the ship's change (ships without clocks get one on receipt)
+      const shipClock: string = message.clock || hybridClock.now();
+
+      // Draft saves stay drafts on master, publish messages go live
+      const writeStatus = this.getWriteStatus(message);
 
       // Idempotency check - skip if already processed
+      // Replays only skip messages that were processed successfully
       if (messageId) {
-        const alreadyProcessed = await messageTracker.isProcessed(messageId);
+        const alreadyProcessed = options.replay
+          ? (await messageTracker.getStatus(messageId)) === 'processed'
+          : await messageTracker.isProcessed(messageId);
         if (alreadyProcessed) {
           strapi.log.debug(`[Sync] Duplicate message skipped: ${messageId}`);
           return;
         }
       }
 
+      // Rebuild delta payloads against the last state received from this ship
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+      const data = await deltaSync.decode({
+        direction: 'incoming',
+        peer: shipId,
+        contentType,
+        documentId: replicaDocumentId,
+        locale: message.locale,
+      }, message);
+
+      if (message.delta) {
+        if (data === null) {
+          // Base mismatch - the ship resends its change in full
+          const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+          await this.afterCommit(() => syncProducer.sendFullRequest({
+            targetShipId: shipId,
+            contentType,
+            contentId: replicaDocumentId,
+            locale: message.locale,
+            queueId: message.metadata?.queueId,
+          }));
+          return;
+        }
+        // Dead letters and replays keep the full document
+        message.data = data;
+        delete message.delta;
+      }
+
       // Register ship (non-blocking, but log errors for debugging)
       shipTracker.registerShip(shipId, shipId).catch((error: unknown) => {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -193,597 +881,820 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         // Don't throw - this is non-blocking, but we log it for debugging
       });
 
-      // Set flag to prevent Document Service middleware from re-broadcasting these changes
-      // This prevents infinite sync loops (ship->master->ship->...)
-      (strapi as any)._offlineSyncFromShip = true;
-
-      try {
-        // Validate content type exists
-        const model = strapi.contentTypes[contentType];
-        if (!model) {
-          strapi.log.warn(`[Sync] Unknown content type: ${contentType}`);
-          if (messageId) await messageTracker.markFailed(messageId);
-          return;
-        }
+      // Mark the writes below as coming from the ship so the Document Service middleware
+      // doesn't re-broadcast them (ship->master->ship->...); the mark only covers this call
+      const syncContext = strapi.plugin('offline-sync').service('sync-context');
+      return syncContext.runFromShip(async () => {
+        try {
+          // Validate content type exists
+          const model = strapi.contentTypes[contentType];
+          if (!model) {
+            strapi.log.warn(`[Sync] Unknown content type: ${contentType}`);
+            if (messageId) await messageTracker.markFailed(messageId);
+            if (options.replay) throw new Error(`Unknown content type: ${contentType}`);
+            return;
+          }
 
-        // Clean data - remove internal fields
-        let cleanedData = this.cleanSyncData(data || {});
+          // Clean data - remove internal fields
+          let cleanedData = this.cleanSyncData(data || {});
 
-        // Transform media URLs from replica (MinIO) to master (OSS)
-        const mediaSync = strapi.plugin('offline-sync').service('media-sync');
+          // Transform media URLs from replica (MinIO) to master (OSS)
+          const mediaSync = strapi.plugin('offline-sync').service('media-sync');
 
-        // IMPORTANT: Process file records FIRST before content
-        // This creates the plugin::upload.file entries that content may reference
-        let fileIdMapping = new Map<number, number>();
-        if (message.fileRecords && message.fileRecords.length > 0) {
-          strapi.log.info(`[Sync] 📥 Processing ${message.fileRecords.length} file records from replica...`);
-          try {
-            fileIdMapping = await mediaSync.processReplicaFileRecords(message.fileRecords);
+          // IMPORTANT: Process file records FIRST before content
+          // This creates the plugin::upload.file entries that content may reference
+          let fileIdMapping = new Map<number, number>();
+          if (message.fileRecords && message.fileRecords.length > 0) {
+            strapi.log.info(`[Sync] 📥 Processing ${message.fileRecords.length} file records from replica...`);
+            try {
+              fileIdMapping = await mediaSync.processReplicaFileRecords(message.fileRecords);
 
-            // Update content data with new file IDs
-            if (fileIdMapping.size > 0) {
-              cleanedData = mediaSync.updateContentFileIds(cleanedData, fileIdMapping);
-              strapi.log.info(`[Sync] ✅ Updated content with ${fileIdMapping.size} file ID mappings`);
+              // Update content data with new file IDs
+              if (fileIdMapping.size > 0) {
+                cleanedData = mediaSync.updateContentFileIds(cleanedData, fileIdMapping);
+                strapi.log.info(`[Sync] ✅ Updated content with ${fileIdMapping.size} file ID mappings`);
+              }
+            } catch (fileRecordError: any) {
+              strapi.log.error(`[Sync] Failed to process file records: ${fileRecordError.message}`);
+              // Continue anyway - content might still be valid without media
             }
-          } catch (fileRecordError: any) {
-            strapi.log.error(`[Sync] Failed to process file records: ${fileRecordError.message}`);
-            // Continue anyway - content might still be valid without media
           }
-        }
 
-        // Transform remaining media URLs from replica (MinIO) to master (OSS)
-        if (mediaSync.isEnabled()) {
-          cleanedData = mediaSync.transformToMaster(cleanedData);
-        }
+          // Transform remaining media URLs from replica (MinIO) to master (OSS)
+          if (mediaSync.isEnabled()) {
+            cleanedData = mediaSync.transformToMaster(cleanedData);
+          }
 
-        // Get master documentId - first check if provided in message, then lookup from mapping
-        let masterDocumentId: string | null = null;
-        let masterDocIdFromMessage = false; // Track if we got it from message (need to create mapping later)
+          // Translate related ship documentIds to master documentIds
+          // Relations to documents master doesn't know yet are deferred until they arrive
+          const relationSync = strapi.plugin('offline-sync').service('relation-sync');
+          const relationTranslation = await relationSync.translateRelations(contentType, cleanedData, {
+            direction: 'to-master',
+            shipId,
+          });
+          cleanedData = relationTranslation.data;
+          const deferredKey = { direction: 'to-master', shipId, contentType, documentId: replicaDocumentId, locale: message.locale || null };
+
+          // Get master documentId - first check if provided in message, then lookup from mapping
+          let masterDocumentId: string | null = null;
+          let masterDocIdFromMessage = false; // Track if we got it from message (need to create mapping later)
+
+          // Priority 1: Use masterDocumentId from message (Replica sends this for existing content)
+          if (message.masterDocumentId) {
+            masterDocumentId = message.masterDocumentId;
+            masterDocIdFromMessage = true;
+            strapi.log.debug(`[Sync] Using masterDocumentId from message: ${masterDocumentId}`);
+            // NOTE: Do NOT update mapping here - must wait until AFTER conflict detection
+          }
 
-        // Priority 1: Use masterDocumentId from message (Replica sends this for existing content)
-        if (message.masterDocumentId) {
-          masterDocumentId = message.masterDocumentId;
-          masterDocIdFromMessage = true;
-          strapi.log.debug(`[Sync] Using masterDocumentId from message: ${masterDocumentId}`);
-          // NOTE: Do NOT update mapping here - must wait until AFTER conflict detection
-        }
+          // Priority 2: Lookup from Master's mapping table
+          if (!masterDocumentId) {
+            masterDocumentId = await documentMapping.getMasterDocumentId(
+              shipId,
+              contentType,
+              replicaDocumentId
+            );
+          }
 
-        // Priority 2: Lookup from Master's mapping table
-        if (!masterDocumentId) {
-          masterDocumentId = await documentMapping.getMasterDocumentId(
-            shipId,
-            contentType,
-            replicaDocumentId
-          );
-        }
+          // Handle operations
+          if (operation === 'delete') {
+            if (masterDocumentId) {
+              // Use locale if provided (for locale-specific deletes)
+              const deleteOptions: any = { documentId: masterDocumentId };
+              if (message.locale) {
+                deleteOptions.locale = message.locale;
+                strapi.log.info(`[Sync] 🗑️ Deleting ${contentType} locale=${message.locale} (replica: ${replicaDocumentId})`);
+              }
+
+              await strapi.documents(contentType).delete(deleteOptions);
+
+              // Only delete mapping if ALL locales were deleted (no specific locale)
+              if (!message.locale) {
+                await documentMapping.deleteMapping(shipId, contentType, replicaDocumentId);
+              }
+              await relationSync.clearDeferred(deferredKey);
+              strapi.log.info(`[Sync] ✅ Deleted ${contentType}${message.locale ? ` [${message.locale}]` : ''} (replica: ${replicaDocumentId})`);
+            } else {
+              strapi.log.debug(`[Sync] Delete skipped - no mapping for ${replicaDocumentId}`);
+            }
+          } else if (operation === 'unpublish' || operation === 'discard-draft') {
+            // Publish state change only - no content to check for conflicts
+            if (masterDocumentId) {
+              await this.applyPublishAction(contentType, masterDocumentId, operation, message.locale);
+              strapi.log.info(`[Sync] ✅ Replayed ${operation} for ${contentType}${message.locale ? ` [${message.locale}]` : ''} (master: ${masterDocumentId})`);
+            } else {
+              strapi.log.debug(`[Sync] ${operation} skipped - no mapping for ${replicaDocumentId}`);
+            }
+          } else if (operation === 'create' && masterDocumentId && message.locale) {
+            // SPECIAL CASE: Adding a new locale to an existing document
+            // Mapping exists (masterDocumentId found) + locale specified = new locale for existing doc
+            strapi.log.info(`[Sync] 🌐 Adding locale ${message.locale} to existing ${contentType} (master: ${masterDocumentId})`);
+
+            await strapi.documents(contentType).update({
+              documentId: masterDocumentId,
+              locale: message.locale,
+              data: cleanedData,
+              status: writeStatus,
+            });
+
+            strapi.log.info(`[Sync] ✅ Added locale ${message.locale} to ${contentType}: ${replicaDocumentId} -> ${masterDocumentId}`);
+
+            await this.recordSyncSnapshot({
+              contentType,
+              masterDocumentId: masterDocumentId,
+              replicaDocumentId,
+              shipId,
+              locale: message.locale || null,
+              shipData: cleanedData,
+            });
+
+          } else if (operation === 'create' && masterDocumentId) {
+            // CREATE with existing mapping - this is likely adding content to existing doc
+            // Just update the existing document
+            strapi.log.info(`[Sync] 📝 Create with existing mapping - updating ${contentType} (master: ${masterDocumentId})`);
+
+            await strapi.documents(contentType).update({
+              documentId: masterDocumentId,
+              locale: message.locale || undefined,
+              data: cleanedData,
+              status: writeStatus,
+            });
+
+            // Update mapping
+            await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId, shipClock);
+
+            strapi.log.info(`[Sync] ✅ Updated existing ${contentType}: ${replicaDocumentId} -> ${masterDocumentId}`);
+
+            await this.recordSyncSnapshot({
+              contentType,
+              masterDocumentId: masterDocumentId,
+              replicaDocumentId,
+              shipId,
+              locale: message.locale || null,
+              shipData: cleanedData,
+            });
+
+          } else if (operation === 'create') {
+            // CREATE with NO mapping - truly new content
+            const createOptions: any = {
+              data: cleanedData,
+              status: writeStatus,
+            };
 
-        // Handle operations
-        if (operation === 'delete') {
-          if (masterDocumentId) {
-            // Use locale if provided (for locale-specific deletes)
-            const deleteOptions: any = { documentId: masterDocumentId };
             if (message.locale) {
-              deleteOptions.locale = message.locale;
-              strapi.log.info(`[Sync] 🗑️ Deleting ${contentType} locale=${message.locale} (replica: ${replicaDocumentId})`);
+              createOptions.locale = message.locale;
+            }
+
+            const created = await strapi.documents(contentType).create(createOptions);
+
+            if (created?.documentId) {
+              await documentMapping.setMapping(shipId, contentType, replicaDocumentId, created.documentId, shipId, shipClock);
+
+              const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
+              await masterSyncQueue.logEdit({
+                contentType,
+                documentId: created.documentId,
+                operation: 'create',
+                editedBy: `ship-${shipId}`,
+                clock: shipClock,
+              });
+
+              strapi.log.info(`[Sync] ✅ Created ${contentType}${message.locale ? ` [${message.locale}]` : ''}: ${replicaDocumentId} -> ${created.documentId}`);
+
+              await this.recordSyncSnapshot({
+                contentType,
+                masterDocumentId: created.documentId,
+                replicaDocumentId,
+                shipId,
+                locale: message.locale || null,
+                shipData: cleanedData,
+              });
+
+              const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+              if (syncProducer.isConnected()) {
+                await this.afterCommit(() => syncProducer.sendCreateAck({
+                  shipId,
+                  contentType,
+                  replicaDocumentId,
+                  masterDocumentId: created.documentId,
+                  locale: message.locale || null,
+                  clock: shipClock,
+                }));
+              }
+            }
+          } else if ((operation === 'update' || operation === 'publish') && !masterDocumentId) {
+            // UPDATE with NO mapping - this should not happen if initial sync was done properly
+            // Log error and skip - do NOT create duplicate entries
+            strapi.log.error(`[Sync] ❌ UPDATE without mapping for ${contentType} (${replicaDocumentId}) - Initial sync required!`);
+            strapi.log.error(`[Sync] ❌ Please run initial sync: POST /offline-sync/initial-sync/pull`);
+
+            if (options.replay) {
+              throw new Error(`No mapping found for UPDATE operation. Run initial sync first.`);
             }
 
-            await strapi.documents(contentType).delete(deleteOptions);
+            // Add to dead letter for manual review (full message kept for replay)
+            await deadLetter.add({
+              messageId: messageId || `no-mapping-${Date.now()}`,
+              shipId,
+              contentType,
+              contentId: replicaDocumentId,
+              operation,
+              payload: message,
+              error: new Error(`No mapping found for UPDATE operation. Run initial sync first.`),
+              maxRetries: 0, // Don't retry - needs manual intervention
+            });
 
-            // Only delete mapping if ALL locales were deleted (no specific locale)
-            if (!message.locale) {
-              await documentMapping.deleteMapping(shipId, contentType, replicaDocumentId);
+            if (messageId) {
+              await messageTracker.markFailed(messageId);
             }
-            strapi.log.info(`[Sync] ✅ Deleted ${contentType}${message.locale ? ` [${message.locale}]` : ''} (replica: ${replicaDocumentId})`);
+            return; // Skip - requires initial sync
           } else {
-            strapi.log.debug(`[Sync] Delete skipped - no mapping for ${replicaDocumentId}`);
-          }
-        } else if (operation === 'create' && masterDocumentId && message.locale) {
-          // SPECIAL CASE: Adding a new locale to an existing document
-          // Mapping exists (masterDocumentId found) + locale specified = new locale for existing doc
-          strapi.log.info(`[Sync] 🌐 Adding locale ${message.locale} to existing ${contentType} (master: ${masterDocumentId})`);
+            // UPDATE - Check for conflicts against master's document clock
+            // Get current master document (include locale for i18n-aware conflict detection)
+            // Populated so components and dynamic zones can be three-way merged
+            const findOptions: any = { documentId: masterDocumentId, populate: '*' };
+            if (message.locale) {
+              findOptions.locale = message.locale;
+            }
+            const masterDoc = await strapi.documents(contentType).findOne(findOptions);
+
+            // IMPORTANT: If the specific locale doesn't exist on master, this is a NEW locale
+            // No conflict possible - just create/update the new locale
+            const isNewLocale = message.locale && !masterDoc;
+            if (isNewLocale) {
+              strapi.log.info(`[Sync] 🌐 Adding new locale ${message.locale} to existing ${contentType} (master: ${masterDocumentId})`);
+
+              await strapi.documents(contentType).update({
+                documentId: masterDocumentId,
+                locale: message.locale,
+                data: cleanedData,
+                status: writeStatus,
+              });
 
-          await strapi.documents(contentType).update({
-            documentId: masterDocumentId,
-            locale: message.locale,
-            data: cleanedData,
-            status: 'published',
-          });
+              // Update the mapping
+              await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId, shipClock);
 
-          strapi.log.info(`[Sync] ✅ Added locale ${message.locale} to ${contentType}: ${replicaDocumentId} -> ${masterDocumentId}`);
+              strapi.log.info(`[Sync] ✅ Added locale ${message.locale} to ${contentType} (master: ${masterDocumentId})`);
 
-        } else if (operation === 'create' && masterDocumentId) {
-          // CREATE with existing mapping - this is likely adding content to existing doc
-          // Just update the existing document
-          strapi.log.info(`[Sync] 📝 Create with existing mapping - updating ${contentType} (master: ${masterDocumentId})`);
+              await this.recordSyncSnapshot({
+                contentType,
+                masterDocumentId: masterDocumentId,
+                replicaDocumentId,
+                shipId,
+                locale: message.locale || null,
+                shipData: cleanedData,
+              });
+              await relationSync.trackDeferred(deferredKey, relationTranslation);
 
-          await strapi.documents(contentType).update({
-            documentId: masterDocumentId,
-            locale: message.locale || undefined,
-            data: cleanedData,
-            status: 'published',
-          });
+              // Mark message as processed and return early
+              if (messageId) {
+                await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation, locale: message.locale });
+              }
+              return;
+            }
 
-          // Update mapping
-          await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
+            // Latest change applied to this master document (admin edit or ship sync)
+            const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
+            const masterDirectEdit = await masterSyncQueue.getLastEditor(contentType, masterDocumentId);
+            const masterClock: string | null = masterDirectEdit?.clock || null;
 
-          strapi.log.info(`[Sync] ✅ Updated existing ${contentType}: ${replicaDocumentId} -> ${masterDocumentId}`);
+            // Conflict Detection (hybrid logical clocks):
+            // The ship sends the clock of the master state it edited (baseClock). Master changed
+            // concurrently if its latest clock is newer than that state and is not the ship's
+            // own earlier push. Ships without a baseClock (first sync after initial sync) conflict
+            // with any clocked master change.
+            const hasConflict = hybridClock.isConcurrent(masterClock, message.baseClock, message.clock);
+            const conflictSource = hasConflict ? (masterDirectEdit?.editedBy || 'unknown') : '';
 
-        } else if (operation === 'create') {
-          // CREATE with NO mapping - truly new content
-          const createOptions: any = {
-            data: cleanedData,
-            status: 'published',
-          };
+            strapi.log.debug(`[Sync] Conflict check: hasConflict=${hasConflict}, masterClock=${masterClock}, baseClock=${message.baseClock || '-'}, shipClock=${shipClock}`);
 
-          if (message.locale) {
-            createOptions.locale = message.locale;
-          }
+            if (hasConflict) {
+              strapi.log.debug(`[Sync] Conflict detected: source=${conflictSource}, currentShip=${shipId}`);
 
-          const created = await strapi.documents(contentType).create(createOptions);
+              const isMasterAdminConflict = conflictSource === 'master-admin';
+              const masterData = this.cleanSyncData(masterDoc || {});
+              const policy = conflictResolver.getPolicy(contentType);
 
-          if (created?.documentId) {
-            await documentMapping.setMapping(shipId, contentType, replicaDocumentId, created.documentId, shipId);
+              // Field-level three-way merge against the last synced snapshot
+              // Only auto-applied with field-merge; otherwise stored so the admin sees the overlapping fields
+              const merge = await this.tryThreeWayMerge({
+                contentType,
+                masterDocumentId,
+                replicaDocumentId,
+                shipId,
+                locale: message.locale || null,
+                masterData,
+                shipData: cleanedData,
+              });
 
-            const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
-            await masterSyncQueue.logEdit({
-              contentType,
-              documentId: created.documentId,
-              operation: 'create',
-              editedBy: `ship-${shipId}`,
-            });
+              if (policy === 'field-merge' && merge && merge.conflicts.length === 0) {
+                await this.applyAutoMerge({
+                  message,
+                  contentType,
+                  masterDocumentId,
+                  replicaDocumentId,
+                  shipId,
+                  shipVersion: shipVersion || 0,
+                  masterData,
+                  shipData: cleanedData,
+                  merge,
+                });
+                await relationSync.trackDeferred(deferredKey, relationTranslation);
 
-            strapi.log.info(`[Sync] ✅ Created ${contentType}${message.locale ? ` [${message.locale}]` : ''}: ${replicaDocumentId} -> ${created.documentId}`);
+                if (messageId) {
+                  await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation });
+                }
+                return;
+              }
 
-            const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-            if (kafkaProducer.isConnected()) {
-              await kafkaProducer.sendCreateAck({
-                shipId,
+              // Log conflict for admin resolution (only overlapping fields need a decision)
+              const conflictLog = await conflictResolver.logConflict({
                 contentType,
-                replicaDocumentId,
-                masterDocumentId: created.documentId,
+                contentId: masterDocumentId,
+                shipId,
+                shipVersion: shipVersion || 0,
+                masterVersion: 0, // Not using versions anymore
+                shipData: cleanedData,
+                masterData,
+                conflictType: isMasterAdminConflict ? 'master-admin-edit' : 'concurrent-edit',
                 locale: message.locale || null,
+                documentStatus: message.documentStatus || null,
+                ...(merge && {
+                  baseData: merge.base,
+                  mergedData: merge.merged,
+                  conflictFields: merge.conflicts,
+                }),
               });
-            }
-          }
-        } else if (operation === 'update' && !masterDocumentId) {
-          // UPDATE with NO mapping - this should not happen if initial sync was done properly
-          // Log error and skip - do NOT create duplicate entries
-          strapi.log.error(`[Sync] ❌ UPDATE without mapping for ${contentType} (${replicaDocumentId}) - Initial sync required!`);
-          strapi.log.error(`[Sync] ❌ Please run initial sync API: POST /api/offline-sync/initial-sync`);
 
-          // Add to dead letter for manual review
-          await deadLetter.add({
-            messageId: messageId || `no-mapping-${Date.now()}`,
-            shipId,
-            contentType,
-            contentId: replicaDocumentId,
-            operation,
-            payload: { data: cleanedData, locale: message.locale },
-            error: new Error(`No mapping found for UPDATE operation. Run initial sync first.`),
-            maxRetries: 0, // Don't retry - needs manual intervention
-          });
+              if (merge) {
+                strapi.log.info(`[Sync] 🔀 Three-way merge: ${merge.autoMerged.length} field(s) merged, ${merge.conflicts.length} overlapping: ${merge.conflicts.map((c: any) => c.field).join(', ')}`);
+              }
 
-          if (messageId) {
-            await messageTracker.markFailed(messageId);
-          }
-          return; // Skip - requires initial sync
-        } else {
-          // UPDATE - Check for conflicts using multiple sources
-          const mapping = await documentMapping.getMapping(shipId, contentType, replicaDocumentId);
-          const lastSyncedAt = mapping?.updatedAt ? new Date(mapping.updatedAt) : null;
-          const lastSyncedBy = mapping?.lastSyncedBy || null;
-
-          // Get current master document (include locale for i18n-aware conflict detection)
-          const findOptions: any = { documentId: masterDocumentId };
-          if (message.locale) {
-            findOptions.locale = message.locale;
-          }
-          const masterDoc = await strapi.documents(contentType).findOne(findOptions);
-          const masterUpdatedAt = masterDoc?.updatedAt ? new Date(masterDoc.updatedAt) : null;
+              const conflictReason = isMasterAdminConflict
+                ? 'Master was directly edited by admin - both sides made changes while offline'
+                : 'Master was edited by another ship after last sync';
 
-          // IMPORTANT: If the specific locale doesn't exist on master, this is a NEW locale
-          // No conflict possible - just create/update the new locale
-          const isNewLocale = message.locale && !masterDoc;
-          if (isNewLocale) {
-            strapi.log.info(`[Sync] 🌐 Adding new locale ${message.locale} to existing ${contentType} (master: ${masterDocumentId})`);
+              // If masterDocumentId came from message, still create mapping for future syncs
+              // (so conflict resolution can work properly)
+              if (masterDocIdFromMessage) {
+                await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
+              }
 
-            await strapi.documents(contentType).update({
-              documentId: masterDocumentId,
-              locale: message.locale,
-              data: cleanedData,
-              status: 'published',
-            });
+              // Auto-resolve through the regular resolution flow when the policy picks a side
+              const winner = conflictResolver.getPolicyWinner(policy, shipClock, masterClock);
+              if (winner && conflictLog?.id) {
+                strapi.log.info(`[Sync] ⚖️ CONFLICT auto-resolved by policy '${policy}': ${contentType} (${masterDocumentId}) - ${winner} wins`);
+                await conflictResolver.resolveConflict(
+                  conflictLog.id,
+                  winner === 'ship' ? 'keep-ship' : 'keep-master',
+                  undefined,
+                  undefined,
+                  { resolvedBy: `policy:${policy}` }
+                );
 
-            // Update the mapping
-            await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
+                if (messageId) {
+                  await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation, conflict: true });
+                }
+                return;
+              }
 
-            strapi.log.info(`[Sync] ✅ Added locale ${message.locale} to ${contentType} (master: ${masterDocumentId})`);
+              strapi.log.warn(`[Sync] ⚠️ CONFLICT: ${contentType} (${masterDocumentId}) - ${conflictReason}`);
 
-            // Mark message as processed and return early
-            if (messageId) {
-              await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation, locale: message.locale });
-            }
-            return;
-          }
+              // Send conflict notification back to replica
+              const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+              if (syncProducer.isConnected()) {
+                await this.afterCommit(() => syncProducer.sendConflictNotification({
+                  shipId,
+                  contentType,
+                  contentId: masterDocumentId,
+                  replicaDocumentId,
+                  conflictId: conflictLog?.id || 0,
+                  reason: conflictReason,
+                  masterData,
+                  shipData: cleanedData,
+                  queueId: message.metadata?.queueId,
+                }));
+              }
 
-          // Check if Master was directly edited by admin (using master_edit_log)
-          const masterSyncQueue = strapi.plugin('offline-sync').service('master-sync-queue');
-          const masterDirectEdit = await masterSyncQueue.getLastEditor(contentType, masterDocumentId);
-
-          // Conflict Detection (Production-Ready):
-          let hasConflict = false;
-          let conflictSource = '';
-
-          // Case A: masterDocumentId came from message (no mapping on Master yet)
-          // This happens for existing content after initial sync
-          if (masterDocIdFromMessage && !mapping) {
-            // No mapping on Master - check ONLY master_edit_log
-            // If Master admin edited, it's a conflict
-            if (masterDirectEdit && masterDirectEdit.editedBy === 'master-admin') {
-              hasConflict = true;
-              conflictSource = 'master-admin (no mapping, first sync after initial sync)';
-              strapi.log.debug(`[Sync] Conflict: No mapping exists, master_edit_log shows admin edited`);
+              if (messageId) {
+                await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation, conflict: true });
+              }
+              return; // Don't apply - needs resolution
             }
-            // If last editor was a ship or no edit log, no conflict (allow first sync)
-          } else {
-            // Case B: Normal flow - mapping exists on Master
-            // Case 1: Master was modified after last sync by a DIFFERENT ship
-            const masterModifiedAfterSync = lastSyncedAt && masterUpdatedAt && masterUpdatedAt > lastSyncedAt;
-            const differentShipModified = lastSyncedBy !== shipId;
-
-            // Case 2: Master was directly edited by admin after last sync
-            const masterAdminEdited = masterDirectEdit &&
-              masterDirectEdit.editedBy === 'master-admin' &&
-              lastSyncedAt &&
-              masterDirectEdit.editedAt > lastSyncedAt;
-
-            // Trigger conflict if:
-            // 1. Master was modified after last sync by DIFFERENT source (ship or admin)
-            // 2. OR Master admin directly edited after last sync
-            hasConflict = (masterModifiedAfterSync && differentShipModified) || masterAdminEdited;
 
-            if (hasConflict) {
-              conflictSource = masterAdminEdited ? 'master-admin' : `ship (lastSyncedBy=${lastSyncedBy})`;
+            // No conflict - apply update and publish
+            const updateOptions: any = {
+              documentId: masterDocumentId,
+              data: cleanedData,
+              status: writeStatus,
+            };
+
+            // Include locale for i18n support - critical for locale-specific updates
+            if (message.locale) {
+              updateOptions.locale = message.locale;
             }
-          }
 
-          strapi.log.debug(`[Sync] Conflict check: hasConflict=${hasConflict}, masterDocIdFromMessage=${masterDocIdFromMessage}, mappingExists=${!!mapping}`);
+            await strapi.documents(contentType).update(updateOptions);
+
+            // Ship's change becomes the latest synced state (mapping clock + lastSyncedBy)
+            await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId, shipClock);
 
-          if (hasConflict) {
-            strapi.log.debug(`[Sync] Conflict detected: source=${conflictSource}, currentShip=${shipId}`);
+            // Ship sync takes over as latest modifier in the master edit log
+            await masterSyncQueue.logEdit({
+              contentType,
+              documentId: masterDocumentId,
+              operation: 'update',
+              editedBy: `ship-${shipId}`,
+              clock: shipClock,
+            });
 
-            const isMasterAdminConflict = conflictSource.includes('master-admin');
+            strapi.log.info(`[Sync] ✅ Updated ${contentType}${message.locale ? ` [${message.locale}]` : ''} (master: ${masterDocumentId})`);
 
-            // Log conflict for admin resolution
-            const conflictLog = await conflictResolver.logConflict({
+            await this.recordSyncSnapshot({
               contentType,
-              contentId: masterDocumentId,
+              masterDocumentId: masterDocumentId,
+              replicaDocumentId,
               shipId,
-              shipVersion: shipVersion || 0,
-              masterVersion: 0, // Not using versions anymore
+              locale: message.locale || null,
               shipData: cleanedData,
-              masterData: this.cleanSyncData(masterDoc || {}),
-              conflictType: isMasterAdminConflict ? 'master-admin-edit' : 'concurrent-edit',
             });
-
-            const conflictReason = isMasterAdminConflict
-              ? 'Master was directly edited by admin - both sides made changes while offline'
-              : 'Master was edited by another ship after last sync';
-
-            strapi.log.warn(`[Sync] ⚠️ CONFLICT: ${contentType} (${masterDocumentId}) - ${conflictReason}`);
-
-            // Send conflict notification back to replica
-            const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-            if (kafkaProducer.isConnected()) {
-              await kafkaProducer.sendConflictNotification({
-                shipId,
-                contentType,
-                contentId: masterDocumentId,
-                replicaDocumentId,
-                conflictId: conflictLog?.id || 0,
-                reason: conflictReason,
-                masterData: this.cleanSyncData(masterDoc || {}),
-                shipData: cleanedData,
-                queueId: message.metadata?.queueId,
-              });
-            }
-
-            // If masterDocumentId came from message, still create mapping for future syncs
-            // (so conflict resolution can work properly)
-            if (masterDocIdFromMessage) {
-              await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
-            }
-
-            if (messageId) {
-              await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation, conflict: true });
-            }
-            return; // Don't apply - needs resolution
           }
 
-          // No conflict - apply update and publish
-          const updateOptions: any = {
-            documentId: masterDocumentId,
-            data: cleanedData,
-            status: 'published',
-          };
+          if (operation !== 'delete') {
+            await relationSync.trackDeferred(deferredKey, relationTranslation);
+          }
+          if (operation === 'create') {
+            // Relations deferred until this document arrived can be written now
+            await relationSync.retryDeferred({ direction: 'to-master', shipId, targetType: contentType });
+          }
 
-          // Include locale for i18n support - critical for locale-specific updates
-          if (message.locale) {
-            updateOptions.locale = message.locale;
+          // Mark message as processed
+          if (messageId) {
+            await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation });
           }
 
-          await strapi.documents(contentType).update(updateOptions);
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          if (messageId) await messageTracker.markFailed(messageId);
 
-          // Update the mapping timestamp and lastSyncedBy (for conflict detection)
-          await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
+          // Let the retry worker record the failed attempt on the existing entry
+          if (options.replay) {
+            throw error;
+          }
 
-          // Clear master edit log (ship sync takes over as latest modifier)
-          await masterSyncQueue.logEdit({
+          // Full message is stored so the retry worker can replay it
+          await deadLetter.add({
+            messageId: messageId || `unknown-${Date.now()}`,
+            shipId,
             contentType,
-            documentId: masterDocumentId,
-            operation: 'update',
-            editedBy: `ship-${shipId}`,
+            contentId: replicaDocumentId,
+            operation,
+            payload: message,
+            error: error instanceof Error ? error : new Error(errorMessage),
+            maxRetries: 3,
           });
 
-          strapi.log.info(`[Sync] ✅ Updated ${contentType}${message.locale ? ` [${message.locale}]` : ''} (master: ${masterDocumentId})`);
-        }
-
-        // Mark message as processed
-        if (messageId) {
-          await messageTracker.markProcessed(messageId, { shipId, contentType, contentId: replicaDocumentId, operation });
+          strapi.log.error(`[Sync] Error: ${contentType}:${replicaDocumentId} - ${errorMessage}`);
         }
+      });
+    },
 
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        if (messageId) await messageTracker.markFailed(messageId);
-
-        await deadLetter.add({
-          messageId: messageId || `unknown-${Date.now()}`,
-          shipId,
-          contentType,
-          contentId: replicaDocumentId,
-          operation,
-          payload: { version: shipVersion, data },
-          error: error instanceof Error ? error : new Error(errorMessage),
-          maxRetries: 3,
-        });
-
-        strapi.log.error(`[Sync] Error: ${contentType}:${replicaDocumentId} - ${errorMessage}`);
-      } finally {
-        // Always reset the flag to allow normal master changes to be broadcast
-        (strapi as any)._offlineSyncFromShip = false;
+    /**
+     * Process a bulk message from master (replica side)
+     * The operations are applied in order, each like a single master update
+     * (a failing operation is logged and skipped, as it would be on its own);
+     * the bulk counts as failed / pending if any operation was
+     */
+    async processMasterBulk(message: any): Promise<MasterUpdateResult> {
+      const operations: any[] = Array.isArray(message.operations) ? message.operations : [];
+      const results: MasterUpdateResult[] = [];
+      for (const operation of operations) {
+        results.push(await this.processMasterUpdate(operation));
       }
+      strapi.log.info(`[Sync] ✅ Applied bulk ${message.bulkId} (${operations.length} operations) from master`);
+
+      if (results.includes('failed')) return 'failed';
+      if (results.includes('pending')) return 'pending';
+      return 'applied';
     },
 
     /**
      * Process master update (replica side)
      * Called when replica receives updates from master via Kafka
+     * Errors are logged and reported as 'failed' (see MasterUpdateResult)
      */
-    async processMasterUpdate(message: any): Promise<void> {
+    async processMasterUpdate(message: any): Promise<MasterUpdateResult> {
       const config = strapi.config.get('plugin::offline-sync', {});
 
       if (config.mode !== 'replica') {
         throw new Error('processMasterUpdate only available in replica mode');
       }
 
-      const { messageId, contentType, contentId: masterDocumentId, data, operation } = message;
+      const { messageId, contentType, contentId: masterDocumentId, operation } = message;
+
+      if (operation === 'bulk') {
+        return this.processMasterBulk(message);
+      }
 
       // Handle conflict-rejected notifications from master (conflict detected)
       if (operation === 'conflict-rejected') {
         await this.handleConflictNotification(message);
-        return;
+        return 'applied';
       }
 
       // Handle conflict resolution notifications from master (admin resolved conflict)
       if (operation === 'conflict-resolved') {
         await this.handleConflictResolution(message);
-        return;
+        return 'applied';
       }
 
       // Handle create-ack from master (mapping confirmation)
       if (operation === 'create-ack') {
         await this.handleCreateAck(message);
-        return;
+        return 'applied';
+      }
+
+      // Handle end of a catch-up reply
+      if (operation === 'pull-complete') {
+        await this.handlePullComplete(message);
+        return 'applied';
+      }
+
+      // Handle master asking for one of our changes in full (delta base mismatch)
+      if (operation === 'full-request') {
+        await this.handleFullResendRequest(message);
+        return 'applied';
       }
 
       if (!contentType || !masterDocumentId) {
         strapi.log.warn('[Sync] Invalid master update: missing required fields');
-        return;
+        return 'skipped';
+      }
+
+      // Rebuild delta payloads against the last state received from master
+      const deltaSync = strapi.plugin('offline-sync').service('delta-sync');
+      const data = await deltaSync.decode({
+        direction: 'incoming',
+        peer: 'master',
+        contentType,
+        documentId: masterDocumentId,
+        locale: message.locale,
+      }, message);
+
+      if (message.delta && data === null) {
+        // Base mismatch (missed a broadcast) - master answers with the full document
+        const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+        await syncProducer.sendFullRequest({
+          contentType,
+          contentId: masterDocumentId,
+          locale: message.locale,
+        });
+        return 'pending';
       }
 
       // Skip updates that originated from this ship to avoid loops
       const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
       const shipId = config.shipId;
 
-      // Set flag to prevent Document Service middleware from re-queueing these changes
-      // This prevents infinite sync loops (master->replica->master->...)
-      (strapi as any)._offlineSyncFromMaster = true;
-
-      try {
-        // Validate content type exists
-        const model = strapi.contentTypes[contentType];
-        if (!model) {
-          strapi.log.warn(`[Sync] Unknown content type from master: ${contentType}`);
-          return;
-        }
+      // Master drafts stay drafts on the ship, publish messages go live
+      const writeStatus = this.getWriteStatus(message);
+
+      // Mark the writes below as coming from master so the Document Service middleware
+      // doesn't re-queue them (master->replica->master->...); the mark only covers this call
+      const syncContext = strapi.plugin('offline-sync').service('sync-context');
+      return syncContext.runFromMaster(async () => {
+        try {
+          // Validate content type exists
+          const model = strapi.contentTypes[contentType];
+          if (!model) {
+            strapi.log.warn(`[Sync] Unknown content type from master: ${contentType}`);
+            return 'skipped';
+          }
 
-        // Clean data - remove internal fields
-        let cleanedData = this.cleanSyncData(data || {});
+          // Clean data - remove internal fields
+          let cleanedData = this.cleanSyncData(data || {});
+
+          // On-demand media sync: Download images BEFORE transforming URLs
+          // This ensures images are available in MinIO when content is displayed
+          const mediaSync = strapi.plugin('offline-sync').service('media-sync');
+          if (mediaSync.isEnabled()) {
+            // Sync media files referenced in this content (non-blocking but awaited)
+            try {
+              await mediaSync.syncContentMedia(data);
+            } catch (mediaSyncError: any) {
+              // Non-critical: log but continue with content sync
+              strapi.log.debug(`[Sync] Media sync skipped: ${mediaSyncError.message}`);
+            }
 
-        // On-demand media sync: Download images BEFORE transforming URLs
-        // This ensures images are available in MinIO when content is displayed
-        const mediaSync = strapi.plugin('offline-sync').service('media-sync');
-        if (mediaSync.isEnabled()) {
-          // Sync media files referenced in this content (non-blocking but awaited)
-          try {
-            await mediaSync.syncContentMedia(data);
-          } catch (mediaSyncError: any) {
-            // Non-critical: log but continue with content sync
-            strapi.log.debug(`[Sync] Media sync skipped: ${mediaSyncError.message}`);
+            // Transform media URLs from master (OSS) to replica (MinIO)
+            cleanedData = mediaSync.transformToReplica(cleanedData);
           }
 
-          // Transform media URLs from master (OSS) to replica (MinIO)
-          cleanedData = mediaSync.transformToReplica(cleanedData);
-        }
+          // Translate related master documentIds to this ship's documentIds
+          // Relations to documents this ship doesn't have yet are deferred until they arrive
+          const relationSync = strapi.plugin('offline-sync').service('relation-sync');
+          const relationTranslation = await relationSync.translateRelations(contentType, cleanedData, {
+            direction: 'to-replica',
+            shipId,
+          });
+          cleanedData = relationTranslation.data;
+          const deferredKey = { direction: 'to-replica', shipId, contentType, documentId: masterDocumentId, locale: message.locale || null };
 
-        // Check if we have a local copy of this master document
-        // (reverse lookup: find local doc mapped to this master doc)
-        const localMapping = await documentMapping.findByMasterDocumentId(
-          shipId,
-          contentType,
-          masterDocumentId
-        );
+          // Check if we have a local copy of this master document
+          // (reverse lookup: find local doc mapped to this master doc)
+          const localMapping = await documentMapping.findByMasterDocumentId(
+            shipId,
+            contentType,
+            masterDocumentId
+          );
 
-        if (operation === 'delete') {
-          const deleteLocale = message.locale || null;
-          strapi.log.info(`[Sync] 🗑️ Processing delete for ${contentType}/${masterDocumentId}${deleteLocale ? ` [${deleteLocale}]` : ' [all locales]'}`);
-          strapi.log.info(`[Sync]   Looking up mapping for shipId=${shipId}, masterDoc=${masterDocumentId}`);
+          if (operation === 'delete') {
+            const deleteLocale = message.locale || null;
+            strapi.log.info(`[Sync] 🗑️ Processing delete for ${contentType}/${masterDocumentId}${deleteLocale ? ` [${deleteLocale}]` : ' [all locales]'}`);
+            strapi.log.info(`[Sync]   Looking up mapping for shipId=${shipId}, masterDoc=${masterDocumentId}`);
 
-          if (localMapping?.replicaDocumentId) {
-            strapi.log.info(`[Sync]   Found mapping: masterDoc=${masterDocumentId} → localDoc=${localMapping.replicaDocumentId}`);
+            if (localMapping?.replicaDocumentId) {
+              strapi.log.info(`[Sync]   Found mapping: masterDoc=${masterDocumentId} → localDoc=${localMapping.replicaDocumentId}`);
 
-            // Check if local document exists
-            const findOptions: any = { documentId: localMapping.replicaDocumentId };
-            if (deleteLocale) {
-              findOptions.locale = deleteLocale;
-            }
+              // Check if local document exists
+              const findOptions: any = { documentId: localMapping.replicaDocumentId };
+              if (deleteLocale) {
+                findOptions.locale = deleteLocale;
+              }
 
-            const localDoc = await strapi.documents(contentType).findOne(findOptions);
+              const localDoc = await strapi.documents(contentType).findOne(findOptions);
 
-            if (localDoc) {
-              // Use locale if provided (for locale-specific deletes)
-              const deleteOptions: any = { documentId: localMapping.replicaDocumentId };
-              if (deleteLocale) {
-                deleteOptions.locale = deleteLocale;
+              if (localDoc) {
+                // Use locale if provided (for locale-specific deletes)
+                const deleteOptions: any = { documentId: localMapping.replicaDocumentId };
+                if (deleteLocale) {
+                  deleteOptions.locale = deleteLocale;
+                }
+
+                await strapi.documents(contentType).delete(deleteOptions);
+                strapi.log.info(`[Sync] ✅ Deleted local ${contentType}${deleteLocale ? ` [${deleteLocale}]` : ''} (${localMapping.replicaDocumentId}) from master`);
+              } else {
+                strapi.log.warn(`[Sync] ⚠️ Local document not found: ${localMapping.replicaDocumentId}${deleteLocale ? ` [${deleteLocale}]` : ''}`);
               }
 
-              await strapi.documents(contentType).delete(deleteOptions);
-              strapi.log.info(`[Sync] ✅ Deleted local ${contentType}${deleteLocale ? ` [${deleteLocale}]` : ''} (${localMapping.replicaDocumentId}) from master`);
+              // Only clean up mapping if ALL locales were deleted (no specific locale)
+              if (!deleteLocale) {
+                await documentMapping.deleteMapping(shipId, contentType, localMapping.replicaDocumentId);
+                strapi.log.info(`[Sync]   Mapping removed (all locales deleted)`);
+              } else {
+                strapi.log.info(`[Sync]   Mapping preserved (only locale ${deleteLocale} deleted)`);
+              }
+              await relationSync.clearDeferred(deferredKey);
             } else {
-              strapi.log.warn(`[Sync] ⚠️ Local document not found: ${localMapping.replicaDocumentId}${deleteLocale ? ` [${deleteLocale}]` : ''}`);
+              strapi.log.warn(`[Sync] ⚠️ No mapping found for ${contentType}/${masterDocumentId}`);
+              strapi.log.warn(`[Sync]   Content may have been created before sync was active`);
+              strapi.log.warn(`[Sync]   Or this shipId (${shipId}) doesn't match the original sync`);
             }
+          } else if (operation === 'unpublish' || operation === 'discard-draft') {
+            if (localMapping?.replicaDocumentId) {
+              // Skip stale deliveries, like content updates
+              const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+              if (message.clock && localMapping.clock && hybridClock.compare(message.clock, localMapping.clock) <= 0) {
+                strapi.log.debug(`[Sync] Skipping stale master ${operation} for ${contentType}/${masterDocumentId}`);
+                return 'skipped';
+              }
 
-            // Only clean up mapping if ALL locales were deleted (no specific locale)
-            if (!deleteLocale) {
-              await documentMapping.deleteMapping(shipId, contentType, localMapping.replicaDocumentId);
-              strapi.log.info(`[Sync]   Mapping removed (all locales deleted)`);
+              await this.applyPublishAction(contentType, localMapping.replicaDocumentId, operation, message.locale);
+              await documentMapping.setMapping(shipId, contentType, localMapping.replicaDocumentId, masterDocumentId, 'master', message.clock);
+              strapi.log.info(`[Sync] 📥 Replayed ${operation} for local ${contentType}${message.locale ? ` [${message.locale}]` : ''} (${localMapping.replicaDocumentId}) from master`);
             } else {
-              strapi.log.info(`[Sync]   Mapping preserved (only locale ${deleteLocale} deleted)`);
+              strapi.log.debug(`[Sync] ${operation} skipped - no local copy of ${contentType}/${masterDocumentId}`);
             }
-          } else {
-            strapi.log.warn(`[Sync] ⚠️ No mapping found for ${contentType}/${masterDocumentId}`);
-            strapi.log.warn(`[Sync]   Content may have been created before sync was active`);
-            strapi.log.warn(`[Sync]   Or this shipId (${shipId}) doesn't match the original sync`);
-          }
-        } else if (localMapping?.replicaDocumentId) {
-          // Update existing local document
-          const localDoc = await strapi.documents(contentType).findOne({
-            documentId: localMapping.replicaDocumentId
-          });
+          } else if (localMapping?.replicaDocumentId) {
+            // Update existing local document
+            const localDoc = await strapi.documents(contentType).findOne({
+              documentId: localMapping.replicaDocumentId
+            });
 
-          if (localDoc) {
-            // Check for local modifications (conflict detection)
-            const localUpdatedAt = localDoc.updatedAt ? new Date(localDoc.updatedAt) : null;
-            const mappingUpdatedAt = localMapping.updatedAt ? new Date(localMapping.updatedAt) : null;
+            if (localDoc) {
+              // Skip stale deliveries - this ship already holds the same or a newer master state
+              const hybridClock = strapi.plugin('offline-sync').service('hybrid-clock');
+              if (message.clock && localMapping.clock && hybridClock.compare(message.clock, localMapping.clock) <= 0) {
+                strapi.log.debug(`[Sync] Skipping stale master update for ${contentType}/${masterDocumentId} (${message.clock} <= ${localMapping.clock})`);
+                return 'skipped';
+              }
 
-            // If local was modified since last sync, we have a conflict
-            const hasLocalChanges = mappingUpdatedAt && localUpdatedAt && localUpdatedAt > mappingUpdatedAt;
+              // Local changes master hasn't accepted yet cannot be known to master - the update is concurrent
+              const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+              const hasLocalChanges = await syncQueue.hasUnsyncedChanges(shipId, contentType, localMapping.replicaDocumentId);
 
-            if (hasLocalChanges) {
-              // Log conflict - local ship has unsaved changes that conflict with master update
-              strapi.log.warn(`[Sync] ⚠️ Local conflict: ${contentType} (${localMapping.replicaDocumentId}) - local changes would be overwritten`);
-              // For now, master wins (can be made configurable)
-            }
+              if (hasLocalChanges) {
+                const conflictResolver = strapi.plugin('offline-sync').service('conflict-resolver');
+                const policy = conflictResolver.getPolicy(contentType);
+                const localClock = await syncQueue.getUnsyncedClock(shipId, contentType, localMapping.replicaDocumentId);
+                const winner = conflictResolver.getPolicyWinner(policy, localClock, message.clock || null);
 
-            // Apply master update to local and publish
-            const updateOptions: any = {
-              documentId: localMapping.replicaDocumentId,
-              data: cleanedData,
-              status: 'published',
-            };
+                if (winner !== 'master') {
+                  // Keep local changes - master applies the policy when our queued update arrives
+                  strapi.log.warn(`[Sync] ⚠️ Local conflict: ${contentType} (${localMapping.replicaDocumentId}) - keeping local changes (policy: ${policy})`);
+                  return 'skipped';
+                }
 
-            // Include locale if specified (for locale-specific updates)
-            if (message.locale) {
-              updateOptions.locale = message.locale;
-            }
+                strapi.log.warn(`[Sync] ⚠️ Local conflict: ${contentType} (${localMapping.replicaDocumentId}) - local changes overwritten (policy: ${policy})`);
+              }
 
-            await strapi.documents(contentType).update(updateOptions);
+              // Apply master update to local and publish
+              const updateOptions: any = {
+                documentId: localMapping.replicaDocumentId,
+                data: cleanedData,
+                status: writeStatus,
+              };
+
+              // Include locale if specified (for locale-specific updates)
+              if (message.locale) {
+                updateOptions.locale = message.locale;
+              }
 
-            // Update mapping timestamp - master made this change
-            await documentMapping.setMapping(shipId, contentType, localMapping.replicaDocumentId, masterDocumentId, 'master');
+              await strapi.documents(contentType).update(updateOptions);
 
-            strapi.log.info(`[Sync] 📥 Updated local ${contentType}${message.locale ? ` [${message.locale}]` : ''} (${localMapping.replicaDocumentId}) from master`);
-          } else {
-            // Local doc was deleted, recreate it
-            const recreateOptions: any = {
+              // Master made this change - its clock is the new synced state
+              await documentMapping.setMapping(shipId, contentType, localMapping.replicaDocumentId, masterDocumentId, 'master', message.clock);
+
+              strapi.log.info(`[Sync] 📥 Updated local ${contentType}${message.locale ? ` [${message.locale}]` : ''} (${localMapping.replicaDocumentId}) from master`);
+            } else {
+              // Local doc was deleted, recreate it
+              const recreateOptions: any = {
+                data: cleanedData,
+                status: writeStatus,
+              };
+
+              // Include locale if specified
+              if (message.locale) {
+                recreateOptions.locale = message.locale;
+              }
+
+              const created = await strapi.documents(contentType).create(recreateOptions);
+
+              if (created?.documentId) {
+                // Master triggered this recreate
+                await documentMapping.setMapping(shipId, contentType, created.documentId, masterDocumentId, 'master', message.clock);
+                strapi.log.info(`[Sync] 📥 Recreated ${contentType}${message.locale ? ` [${message.locale}]` : ''}: master ${masterDocumentId} -> local ${created.documentId}`);
+
+                // Send mapping ACK to master so it knows the relationship
+                const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+                if (syncProducer.isConnected()) {
+                  await syncProducer.sendMappingAck({
+                    contentType,
+                    replicaDocumentId: created.documentId,
+                    masterDocumentId,
+                    clock: message.clock || null,
+                  });
+                }
+              }
+            }
+          } else if (operation !== 'delete') {
+            // No local copy exists - create new document (but NOT for delete operations)
+            const createOptions: any = {
               data: cleanedData,
-              status: 'published',
+              status: writeStatus,
             };
 
             // Include locale if specified
             if (message.locale) {
-              recreateOptions.locale = message.locale;
+              createOptions.locale = message.locale;
             }
 
-            const created = await strapi.documents(contentType).create(recreateOptions);
+            const created = await strapi.documents(contentType).create(createOptions);
 
             if (created?.documentId) {
-              // Master triggered this recreate
-              await documentMapping.setMapping(shipId, contentType, created.documentId, masterDocumentId, 'master');
-              strapi.log.info(`[Sync] 📥 Recreated ${contentType}${message.locale ? ` [${message.locale}]` : ''}: master ${masterDocumentId} -> local ${created.documentId}`);
+              // Master created this document
+              await documentMapping.setMapping(shipId, contentType, created.documentId, masterDocumentId, 'master', message.clock);
+              strapi.log.info(`[Sync] 📥 Created local ${contentType} from master: ${masterDocumentId} -> ${created.documentId}`);
 
               // Send mapping ACK to master so it knows the relationship
-              const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-              if (kafkaProducer.isConnected()) {
-                await kafkaProducer.sendMappingAck({
+              const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+              if (syncProducer.isConnected()) {
+                await syncProducer.sendMappingAck({
                   contentType,
                   replicaDocumentId: created.documentId,
                   masterDocumentId,
+                  clock: message.clock || null,
                 });
               }
             }
+          } else {
+            // Delete operation but no local mapping - nothing to delete, just log
+            strapi.log.debug(`[Sync] Delete skipped - no local copy of ${contentType}/${masterDocumentId}`);
           }
-        } else if (operation !== 'delete') {
-          // No local copy exists - create new document (but NOT for delete operations)
-          const createOptions: any = {
-            data: cleanedData,
-            status: 'published',
-          };
 
-          // Include locale if specified
-          if (message.locale) {
-            createOptions.locale = message.locale;
+          if (operation === 'create' || operation === 'update' || operation === 'publish') {
+            await relationSync.trackDeferred(deferredKey, relationTranslation);
+            // Relations deferred until this document arrived can be written now
+            await relationSync.retryDeferred({ direction: 'to-replica', shipId, targetType: contentType });
           }
 
-          const created = await strapi.documents(contentType).create(createOptions);
-
-          if (created?.documentId) {
-            // Master created this document
-            await documentMapping.setMapping(shipId, contentType, created.documentId, masterDocumentId, 'master');
-            strapi.log.info(`[Sync] 📥 Created local ${contentType} from master: ${masterDocumentId} -> ${created.documentId}`);
-
-            // Send mapping ACK to master so it knows the relationship
-            const kafkaProducer = strapi.plugin('offline-sync').service('kafka-producer');
-            if (kafkaProducer.isConnected()) {
-              await kafkaProducer.sendMappingAck({
-                contentType,
-                replicaDocumentId: created.documentId,
-                masterDocumentId,
-              });
-            }
-          }
-        } else {
-          // Delete operation but no local mapping - nothing to delete, just log
-          strapi.log.debug(`[Sync] Delete skipped - no local copy of ${contentType}/${masterDocumentId}`);
+          return 'applied';
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          strapi.log.error(`[Sync] Failed to process master update: ${contentType}:${masterDocumentId} - ${errorMessage}`);
+          return 'failed';
         }
-
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        strapi.log.error(`[Sync] Failed to process master update: ${contentType}:${masterDocumentId} - ${errorMessage}`);
-      } finally {
-        // Always reset the flag to allow normal local changes to be queued
-        (strapi as any)._offlineSyncFromMaster = false;
-      }
+      });
     },
 
     /**
@@ -824,6 +1735,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
           shipId: config.shipId,
           conflictId,
           reason,
+          masterData,
         });
 
         // Emit an event for the admin UI to show notification (optional)
@@ -848,6 +1760,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
     /**
      * Handle conflict resolution notification from master (replica side)
      * Called when master admin resolves a conflict
+     * Resolved data is written to the message's locale and version (documentStatus)
      */
     async handleConflictResolution(message: any): Promise<void> {
       const config = strapi.config.get('plugin::offline-sync', {});
@@ -860,6 +1773,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         resolution, // 'keep-ship', 'keep-master', 'merge'
         resolvedData,
         resolvedBy,
+        resolutionNote,
       } = message;
 
       // Only process if this notification is for our ship
@@ -873,8 +1787,18 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       strapi.log.info(`[Sync]   Conflict ID: ${conflictId}`);
       strapi.log.info(`[Sync]   Resolution: ${resolution}`);
       strapi.log.info(`[Sync]   Resolved by: ${resolvedBy || 'admin'}`);
+      if (resolutionNote) {
+        strapi.log.info(`[Sync]   Note: ${resolutionNote}`);
+      }
+
+      // Who resolved it and why, kept on the queue entry for audit
+      const audit = { resolvedBy: resolvedBy || 'admin', resolutionNote: resolutionNote || null };
+      const resolver = resolvedBy?.startsWith('admin:')
+        ? `admin ${resolvedBy.slice('admin:'.length)}`
+        : resolvedBy?.startsWith('policy:') ? `conflict policy '${resolvedBy.slice('policy:'.length)}'` : 'admin';
 
       const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const syncContext = strapi.plugin('offline-sync').service('sync-context');
 
       try {
         switch (resolution) {
@@ -885,6 +1809,7 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
               contentId: replicaDocumentId,
               shipId: config.shipId,
               conflictId,
+              ...audit,
             });
             strapi.log.info(`[Sync] 🎉 Your changes were ACCEPTED and applied to master!`);
             break;
@@ -896,7 +1821,9 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
               contentId: replicaDocumentId,
               shipId: config.shipId,
               conflictId,
-              reason: 'Admin chose to keep master version',
+              reason: `Master version kept by ${resolver}`,
+              masterData: resolvedData,
+              ...audit,
             });
 
             // Optionally apply master's resolved data to local
@@ -910,13 +1837,12 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
                 );
 
                 if (localMapping?.replicaDocumentId) {
-                  (strapi as any)._offlineSyncFromMaster = true;
-                  await strapi.documents(contentType).update({
+                  await syncContext.runFromMaster(() => strapi.documents(contentType).update({
                     documentId: localMapping.replicaDocumentId,
+                    ...(message.locale && { locale: message.locale }),
                     data: this.cleanSyncData(resolvedData),
-                    status: 'published',
-                  });
-                  (strapi as any)._offlineSyncFromMaster = false;
+                    status: this.getWriteStatus(message),
+                  }));
                   strapi.log.info(`[Sync] Local content updated with master's version`);
                 }
               } catch (updateError: any) {
@@ -933,7 +1859,8 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
               contentId: replicaDocumentId,
               shipId: config.shipId,
               conflictId,
-              mergeDetails: 'Changes were merged by admin',
+              mergeDetails: resolvedBy === 'auto-merge' ? 'Changes were merged automatically' : `Changes were merged by ${resolver}`,
+              ...audit,
             });
 
             // Apply merged data to local
@@ -947,26 +1874,34 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
                 );
 
                 if (localMapping?.replicaDocumentId) {
-                  (strapi as any)._offlineSyncFromMaster = true;
-                  await strapi.documents(contentType).update({
+                  await syncContext.runFromMaster(() => strapi.documents(contentType).update({
                     documentId: localMapping.replicaDocumentId,
+                    ...(message.locale && { locale: message.locale }),
                     data: this.cleanSyncData(resolvedData),
-                    status: 'published',
-                  });
-                  (strapi as any)._offlineSyncFromMaster = false;
+                    status: this.getWriteStatus(message),
+                  }));
                   strapi.log.info(`[Sync] Local content updated with merged version`);
                 }
               } catch (updateError: any) {
                 strapi.log.debug(`[Sync] Could not update local content: ${updateError.message}`);
               }
             }
-            strapi.log.info(`[Sync] 🔀 Changes were MERGED by admin.`);
+            strapi.log.info(`[Sync] 🔀 Changes were MERGED ${resolvedBy === 'auto-merge' ? 'automatically (three-way merge)' : `by ${resolver}`}.`);
             break;
 
           default:
             strapi.log.warn(`[Sync] Unknown resolution type: ${resolution}`);
         }
 
+        // Resolved state is the new synced state - later ship edits are based on it
+        if (message.clock && replicaDocumentId) {
+          const documentMapping = strapi.plugin('offline-sync').service('document-mapping');
+          const mapping = await documentMapping.getMapping(config.shipId, contentType, replicaDocumentId);
+          if (mapping) {
+            await documentMapping.setMapping(config.shipId, contentType, replicaDocumentId, mapping.masterDocumentId, mapping.lastSyncedBy || 'master', message.clock);
+          }
+        }
+
         // Emit an event for the admin UI
         strapi.eventHub?.emit('offline-sync.conflict-resolved', {
           shipId: config.shipId,
@@ -974,6 +1909,8 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
           contentId: replicaDocumentId,
           conflictId,
           resolution,
+          resolvedBy: audit.resolvedBy,
+          resolutionNote: audit.resolutionNote,
           timestamp: new Date().toISOString(),
         });
 
@@ -983,6 +1920,147 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
       }
     },
 
+    /**
+     * Discard a conflicted local change (replica side)
+     * Restores master's copy locally and withdraws the change on master if still pending
+     */
+    async discardLocalChange(queueId: number): Promise<{ restored: boolean; withdrawn: boolean }> {
+      const config = strapi.config.get('plugin::offline-sync', {});
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+
+      const entry = await syncQueue.getEntry(queueId);
+      if (!syncQueue.isInboxEntry(entry)) {
+        throw new Error('Conflict entry not found');
+      }
+
+      let restored = false;
+      if (entry.master_data && entry.operation !== 'delete') {
+        // Same as applying a master update - must not be queued again
+        const syncContext = strapi.plugin('offline-sync').service('sync-context');
+        const updateOptions: any = {
+          documentId: entry.content_id,
+          data: this.cleanSyncData(entry.master_data),
+          // The version the discarded change was saved to
+          status: this.getWriteStatus({ documentStatus: entry.document_status }),
+        };
+        if (entry.locale) {
+          updateOptions.locale = entry.locale;
+        }
+        await syncContext.runFromMaster(() => strapi.documents(entry.content_type).update(updateOptions));
+        restored = true;
+      }
+
+      await syncQueue.markLocalChangesDiscarded(config.shipId, entry.content_type, entry.content_id);
+
+      // Master still waits for an admin decision - let it keep its version
+      let withdrawn = false;
+      if (entry.status !== 'conflict_rejected' && entry.conflict_id) {
+        withdrawn = await syncProducer.sendConflictFeedback({
+          operation: 'conflict-withdrawn',
+          conflictId: entry.conflict_id,
+          contentType: entry.content_type,
+          replicaDocumentId: entry.content_id,
+        });
+      }
+
+      strapi.log.info(`[Sync] 🗑️ Discarded local change #${queueId} for ${entry.content_type}/${entry.content_id} (restored: ${restored}, withdrawn: ${withdrawn})`);
+      return { restored, withdrawn };
+    },
+
+    /**
+     * Resubmit a conflicted local change, optionally edited (replica side)
+     * Applied as a regular local edit so it is queued and pushed like any other change
+     */
+    async resubmitLocalChange(queueId: number, data?: any): Promise<{ resubmitted: boolean }> {
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+
+      const entry = await syncQueue.getEntry(queueId);
+      if (!syncQueue.isInboxEntry(entry)) {
+        throw new Error('Conflict entry not found');
+      }
+      if (entry.operation === 'delete') {
+        throw new Error('Delete operations cannot be resubmitted');
+      }
+
+      const { _syncLocale, ...payload } = data || entry.data || {};
+      const updateOptions: any = {
+        documentId: entry.content_id,
+        data: this.cleanSyncData(payload),
+        status: this.getWriteStatus({ documentStatus: entry.document_status }),
+      };
+      if (entry.locale) {
+        updateOptions.locale = entry.locale;
+      }
+      await strapi.documents(entry.content_type).update(updateOptions);
+
+      await syncQueue.markConflictResubmitted(queueId);
+
+      strapi.log.info(`[Sync] 🔁 Resubmitted local change #${queueId} for ${entry.content_type}/${entry.content_id}`);
+      return { resubmitted: true };
+    },
+
+    /**
+     * Attach a note for the master admin to a conflicted local change (replica side)
+     */
+    async sendConflictNote(queueId: number, note: string): Promise<{ sent: boolean }> {
+      const syncQueue = strapi.plugin('offline-sync').service('sync-queue');
+      const syncProducer = strapi.plugin('offline-sync').service('sync-producer');
+
+      const entry = await syncQueue.getEntry(queueId);
+      if (!syncQueue.isInboxEntry(entry)) {
+        throw new Error('Conflict entry not found');
+      }
+
+      await syncQueue.setConflictNote(queueId, note);
+
+      const sent = entry.conflict_id
+        ? await syncProducer.sendConflictFeedback({
+          operation: 'conflict-note',
+          conflictId: entry.conflict_id,
+          contentType: entry.content_type,
+          replicaDocumentId: entry.content_id,
+          note,
+        })
+        : false;
+
+      return { sent };
+    },
+
+    /**
+     * Handle conflict note / withdrawal from a ship editor (master side)
+     */
+    async handleConflictFeedback(message: any): Promise<void> {
+      const { operation, shipId, conflictId, note } = message;
+      const conflictResolver = strapi.plugin('offline-sync').service('conflict-resolver');
+
+      if (!shipId || !conflictId) {
+        strapi.log.warn(`[Sync] Invalid ${operation}: missing shipId or conflictId`);
+        return;
+      }
+
+      if (operation === 'conflict-note') {
+        const saved = await conflictResolver.addShipNote(conflictId, shipId, String(note || ''));
+        strapi.log.info(`[Sync] 📝 Note from ${shipId} on conflict #${conflictId}${saved ? '' : ' (not saved)'}`);
+        return;
+      }
+
+      if (operation === 'conflict-withdrawn') {
+        const conflict = await conflictResolver.getConflict(conflictId);
+        if (!conflict || conflict.ship_id !== shipId) {
+          strapi.log.warn(`[Sync] Ignoring withdrawal of conflict #${conflictId} from ${shipId}`);
+          return;
+        }
+        if (conflict.resolved_at) {
+          strapi.log.debug(`[Sync] Conflict #${conflictId} already resolved, withdrawal ignored`);
+          return;
+        }
+
+        await conflictResolver.resolveConflict(conflictId, 'keep-master', undefined, undefined, { resolvedBy: `ship-${shipId}` });
+        strapi.log.info(`[Sync] ↩️ Conflict #${conflictId} withdrawn by ${shipId} - master version kept`);
+      }
+    },
+
     /**
      * Handle mapping acknowledgment from replica (master side)
      * Called when replica creates a local copy of a master document and sends ACK
@@ -1029,10 +2107,13 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
         }
 
         // Save the mapping on master - ship made this change
-        await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId);
+        await documentMapping.setMapping(shipId, contentType, replicaDocumentId, masterDocumentId, shipId, message.clock);
 
         strapi.log.info(`[Sync] ✅ Mapping ACK received: ${shipId}'s ${replicaDocumentId} → master's ${masterDocumentId}`);
 
+        // Ship relations to this document can be translated now
+        await strapi.plugin('offline-sync').service('relation-sync').retryDeferred({ direction: 'to-master', shipId, targetType: contentType });
+
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         strapi.log.error(`[Sync] Failed to handle mapping ACK: ${errorMessage}`);
@@ -1095,10 +2176,13 @@ export default ({ strapi: strapiInstance }: { strapi: any }) => {
 
         // Save the mapping on replica - this ship created it
         // This allows us to find master's document when Master sends updates
-        await documentMapping.setMapping(config.shipId, contentType, replicaDocumentId, masterDocumentId, config.shipId);
+        await documentMapping.setMapping(config.shipId, contentType, replicaDocumentId, masterDocumentId, config.shipId, message.clock);
 
         strapi.log.info(`[Sync] ✅ Create ACK received: my ${replicaDocumentId} → master's ${masterDocumentId}${locale ? ` [${locale}]` : ''}`);
 
+        // Master relations to this document can be translated now
+        await strapi.plugin('offline-sync').service('relation-sync').retryDeferred({ direction: 'to-replica', shipId: config.shipId, targetType: contentType });
+
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         strapi.log.error(`[Sync] Failed to handle create ACK: ${errorMessage}`);
@@ -0,0 +1,439 @@
+/**
+ * Three-Way Merge Service
+ * Field-level merge of a ship update against the current master document,
+ * using the last synced snapshot (version-manager) as the common ancestor.
+ * - Fields changed on only one side are merged automatically
+ * - Repeatable components and dynamic zones are matched by component id
+ * - Only fields changed differently on both sides are reported as conflicts
+ *
+ * The merged result always holds the master value for conflicting fields,
+ * so applying it as-is equals "master wins" for the overlapping fields only.
+ */
+
+type PathSegment = string | number;
+
+export interface MergeConflict {
+  field: string;                 // Display path, e.g. "seo.metaTitle" or "blocks[12].title"
+  path: PathSegment[];           // Location inside the merged data
+  kind: 'modified' | 'deleted-on-ship' | 'deleted-on-master';
+  base: any;
+  master: any;
+  ship: any;
+}
+
+export interface MergeResult {
+  merged: Record<string, any>;
+  changes: Record<string, any>;  // Top-level fields that differ from master (update payload)
+  conflicts: MergeConflict[];
+  autoMerged: string[];          // Fields where the ship change was taken
+}
+
+interface MergeContext {
+  field: string;
+  path: PathSegment[];
+  attribute?: any;
+  conflicts: MergeConflict[];
+  autoMerged: string[];
+}
+
+// Attribute types that are always compared as a whole
+const ATOMIC_TYPES = ['media', 'relation', 'json', 'blocks', 'richtext'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const isEqual = (a: any, b: any): boolean => stableStringify(a) === stableStringify(b);
+
+// Component ids are local to each database, so ignore them when comparing content
+const stripIds = (value: any): any => {
+  if (Array.isArray(value)) return value.map(stripIds);
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key !== 'id') result[key] = stripIds(child);
+    }
+    return result;
+  }
+  return value;
+};
+
+const isContentEqual = (a: any, b: any): boolean => isEqual(stripIds(a), stripIds(b));
+
+// Remove placeholder ids given to ship-only components (see rebaseShipData)
+const dropShipIds = (value: any): any => {
+  if (Array.isArray(value)) return value.map(dropShipIds);
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'id' && typeof child === 'string' && child.startsWith('ship-')) continue;
+      result[key] = dropShipIds(child);
+    }
+    return result;
+  }
+  return value;
+};
+
+const itemKey = (item: any): string | null => {
+  if (!isPlainObject(item) || item.id === undefined || item.id === null) return null;
+  return `${item.__component || ''}:${item.id}`;
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  /**
+   * Get attributes for a content type or component uid
+   */
+  const getAttributes = (uid?: string): Record<string, any> | undefined => {
+    if (!uid) return undefined;
+    return strapi.contentTypes?.[uid]?.attributes || strapi.components?.[uid]?.attributes;
+  };
+
+  /**
+   * Align side items to base items: returns the base index for each side item (-1 = new)
+   * Uses component id when the side shares ids with the base, otherwise position
+   */
+  const align = (base: any[], side: any[]): number[] => {
+    const baseKeys = new Map<string, number>();
+    base.forEach((item, index) => {
+      const key = itemKey(item);
+      if (key) baseKeys.set(key, index);
+    });
+
+    const keyed = side.some((item) => {
+      const key = itemKey(item);
+      return key !== null && baseKeys.has(key);
+    });
+
+    if (keyed) {
+      return side.map((item) => {
+        const key = itemKey(item);
+        return key !== null && baseKeys.has(key) ? baseKeys.get(key)! : -1;
+      });
+    }
+
+    // Positional fallback (e.g. ship component ids never seen on master)
+    return side.map((item, index) => {
+      if (index >= base.length) return -1;
+      const sameComponent = (base[index]?.__component || null) === (item?.__component || null);
+      return sameComponent ? index : -1;
+    });
+  };
+
+  const addConflict = (ctx: MergeContext, kind: MergeConflict['kind'], base: any, master: any, ship: any) => {
+    ctx.conflicts.push({ field: ctx.field, path: ctx.path, kind, base, master, ship: dropShipIds(ship) });
+  };
+
+  /**
+   * Merge a single value (dispatches on schema attribute, then on value shape)
+   */
+  const mergeValue = (base: any, master: any, ship: any, ctx: MergeContext): any => {
+    // Identical on both sides, or only one side changed
+    if (isContentEqual(master, ship)) return master;
+    if (isContentEqual(base, ship)) return master;
+    if (isContentEqual(base, master)) {
+      ctx.autoMerged.push(ctx.field);
+      return dropShipIds(ship);
+    }
+
+    const attribute = ctx.attribute;
+    const type = attribute?.type;
+
+    if (type && ATOMIC_TYPES.includes(type)) {
+      addConflict(ctx, 'modified', base, master, ship);
+      return master;
+    }
+
+    if (type === 'dynamiczone') {
+      return mergeArray(base, master, ship, ctx, (item) => getAttributes(item?.__component));
+    }
+
+    if (type === 'component') {
+      if (attribute.repeatable) {
+        return mergeArray(base, master, ship, ctx, () => getAttributes(attribute.component));
+      }
+      return mergeObject(base, master, ship, ctx, getAttributes(attribute.component));
+    }
+
+    // No schema information: fall back to value shape
+    if (!type) {
+      if (isPlainObject(master) && isPlainObject(ship)) {
+        return mergeObject(base, master, ship, ctx, undefined);
+      }
+      if (Array.isArray(master) && Array.isArray(ship) && [...master, ...ship].every(isPlainObject)) {
+        return mergeArray(base, master, ship, ctx, () => undefined);
+      }
+    }
+
+    addConflict(ctx, 'modified', base, master, ship);
+    return master;
+  };
+
+  /**
+   * Merge objects key by key (content type root, single components)
+   * Keys missing from the ship payload are left untouched
+   */
+  const mergeObject = (
+    base: any,
+    master: any,
+    ship: any,
+    ctx: MergeContext,
+    attributes: Record<string, any> | undefined
+  ): any => {
+    if (!isPlainObject(master) || !isPlainObject(ship)) {
+      addConflict(ctx, 'modified', base, master, ship);
+      return master;
+    }
+
+    const baseObject = isPlainObject(base) ? base : {};
+    const result: Record<string, any> = { ...master };
+
+    for (const key of Object.keys(ship)) {
+      if (key === 'id' || key === '__component') continue;
+
+      result[key] = mergeValue(baseObject[key], master[key], ship[key], {
+        ...ctx,
+        field: ctx.field ? `${ctx.field}.${key}` : key,
+        path: [...ctx.path, key],
+        attribute: attributes?.[key],
+      });
+    }
+
+    return result;
+  };
+
+  /**
+   * Merge repeatable components / dynamic zone entries matched by component id
+   * Master order is kept; items added on the ship are appended
+   */
+  const mergeArray = (
+    base: any,
+    master: any,
+    ship: any,
+    ctx: MergeContext,
+    getItemAttributes: (item: any) => Record<string, any> | undefined
+  ): any => {
+    if (!Array.isArray(master) || !Array.isArray(ship)) {
+      addConflict(ctx, 'modified', base, master, ship);
+      return master;
+    }
+
+    const baseArray: any[] = Array.isArray(base) ? base : [];
+    const masterAlignment = align(baseArray, master);
+    const shipAlignment = align(baseArray, ship);
+
+    const shipByBase = new Map<number, any>();
+    shipAlignment.forEach((baseIndex, shipIndex) => {
+      if (baseIndex >= 0) shipByBase.set(baseIndex, ship[shipIndex]);
+    });
+    const masterBaseIndexes = new Set(masterAlignment.filter((index) => index >= 0));
+
+    const result: any[] = [];
+    const itemField = (item: any) => `${ctx.field}[${item?.id ?? `+${result.length}`}]`;
+
+    master.forEach((masterItem, masterIndex) => {
+      const baseIndex = masterAlignment[masterIndex];
+
+      // Added on master
+      if (baseIndex < 0) {
+        result.push(masterItem);
+        return;
+      }
+
+      const baseItem = baseArray[baseIndex];
+      const itemCtx: MergeContext = {
+        ...ctx,
+        field: itemField(masterItem),
+        path: [...ctx.path, result.length],
+        attribute: undefined,
+      };
+
+      if (!shipByBase.has(baseIndex)) {
+        // Deleted on ship: drop unless master changed it meanwhile
+        if (isContentEqual(baseItem, masterItem)) {
+          ctx.autoMerged.push(itemCtx.field);
+          return;
+        }
+        addConflict(itemCtx, 'deleted-on-ship', baseItem, masterItem, null);
+        result.push(masterItem);
+        return;
+      }
+
+      const merged = mergeObject(baseItem, masterItem, shipByBase.get(baseIndex), itemCtx, getItemAttributes(masterItem));
+      result.push(merged);
+    });
+
+    // Deleted on master but edited on ship
+    baseArray.forEach((baseItem, baseIndex) => {
+      if (masterBaseIndexes.has(baseIndex) || !shipByBase.has(baseIndex)) return;
+      const shipItem = shipByBase.get(baseIndex);
+      if (isContentEqual(baseItem, shipItem)) return;
+
+      addConflict(
+        { ...ctx, field: `${ctx.field}[${baseItem?.id ?? baseIndex}]`, path: [...ctx.path, result.length] },
+        'deleted-on-master',
+        baseItem,
+        null,
+        shipItem
+      );
+    });
+
+    // Added on ship (placeholder ids dropped so master creates new components)
+    shipAlignment.forEach((baseIndex, shipIndex) => {
+      if (baseIndex >= 0) return;
+      ctx.autoMerged.push(`${ctx.field}[+${result.length}]`);
+      result.push(dropShipIds(ship[shipIndex]));
+    });
+
+    return result;
+  };
+
+  const getAt = (data: any, path: PathSegment[]): any =>
+    path.reduce((current, segment) => (current == null ? undefined : current[segment]), data);
+
+  return {
+    /**
+     * Merge a ship update into the current master document
+     * @param base - Common ancestor (master-side snapshot)
+     * @param shipBase - Same ancestor as stored from the ship payload (aligns ship component ids)
+     */
+    mergeDocuments(params: {
+      contentType: string;
+      base: Record<string, any>;
+      master: Record<string, any>;
+      ship: Record<string, any>;
+      shipBase?: Record<string, any> | null;
+    }): MergeResult {
+      const conflicts: MergeConflict[] = [];
+      const autoMerged: string[] = [];
+      const attributes = getAttributes(params.contentType);
+
+      // Re-key ship component ids onto master ids via the ship's own ancestor
+      const ship = this.rebaseShipData(params.base || {}, params.shipBase || {}, params.ship || {}, attributes);
+
+      const merged = mergeObject(
+        params.base || {},
+        params.master || {},
+        ship || {},
+        { field: '', path: [], conflicts, autoMerged },
+        attributes
+      );
+
+      return { merged, changes: this.getChanges(params.master || {}, merged), conflicts, autoMerged };
+    },
+
+    /**
+     * Top-level fields of merged that differ from master (minimal update payload)
+     */
+    getChanges(master: Record<string, any>, merged: Record<string, any>): Record<string, any> {
+      const changes: Record<string, any> = {};
+      for (const key of Object.keys(merged || {})) {
+        if (!isEqual(merged[key], master?.[key])) {
+          changes[key] = merged[key];
+        }
+      }
+      return changes;
+    },
+
+    /**
+     * Translate ship component ids to master component ids using both ancestors
+     * (the two snapshots describe the same state, so items line up by position).
+     * Unknown ship ids are prefixed so they never collide with master ids.
+     */
+    rebaseShipData(
+      base: Record<string, any>,
+      shipBase: Record<string, any>,
+      ship: Record<string, any>,
+      attributes: Record<string, any> | undefined
+    ): Record<string, any> {
+      if (!isPlainObject(ship)) return ship;
+
+      const result: Record<string, any> = { ...ship };
+      for (const [key, value] of Object.entries(ship)) {
+        const attribute = attributes?.[key];
+        const type = attribute?.type;
+
+        if (type === 'component' && !attribute.repeatable && isPlainObject(value)) {
+          result[key] = this.rebaseShipData(base?.[key], shipBase?.[key], value, getAttributes(attribute.component));
+          continue;
+        }
+
+        const isComponentArray = type === 'dynamiczone' || (type === 'component' && attribute.repeatable);
+        if (!isComponentArray || !Array.isArray(value)) continue;
+
+        const masterItems: any[] = Array.isArray(base?.[key]) ? base[key] : [];
+        const shipItems: any[] = Array.isArray(shipBase?.[key]) ? shipBase[key] : [];
+        const positions = new Map<string, number>();
+        shipItems.forEach((item, index) => {
+          const shipKey = itemKey(item);
+          if (shipKey && masterItems[index] && masterItems[index].__component === item.__component) {
+            positions.set(shipKey, index);
+          }
+        });
+
+        result[key] = value.map((item) => {
+          const shipKey = itemKey(item);
+          if (!shipKey) return item;
+
+          const itemAttributes = getAttributes(type === 'dynamiczone' ? item.__component : attribute.component);
+          if (!positions.has(shipKey)) {
+            return { ...this.rebaseShipData({}, {}, item, itemAttributes), id: `ship-${item.id}` };
+          }
+
+          const index = positions.get(shipKey)!;
+          return {
+            ...this.rebaseShipData(masterItems[index], shipItems[index], item, itemAttributes),
+            id: masterItems[index].id,
+          };
+        });
+      }
+      return result;
+    },
+
+    /**
+     * Apply per-field choices to a merged document
+     * Conflicts without a choice keep the master value already in merged
+     */
+    applyResolutions(
+      merged: Record<string, any>,
+      conflicts: MergeConflict[],
+      choices: Record<string, 'ship' | 'master'>
+    ): Record<string, any> {
+      const result = JSON.parse(JSON.stringify(merged || {}));
+
+      // Deepest / last array positions first so splices don't shift pending paths
+      const selected = conflicts
+        .filter((conflict) => choices[conflict.field] === 'ship')
+        .sort((a, b) => {
+          const lastA = a.path[a.path.length - 1];
+          const lastB = b.path[b.path.length - 1];
+          return typeof lastA === 'number' && typeof lastB === 'number' ? lastB - lastA : b.path.length - a.path.length;
+        });
+
+      for (const conflict of selected) {
+        const parentPath = conflict.path.slice(0, -1);
+        const last = conflict.path[conflict.path.length - 1];
+        const parent = parentPath.length > 0 ? getAt(result, parentPath) : result;
+        if (parent == null) continue;
+
+        if (conflict.kind === 'deleted-on-ship' && Array.isArray(parent)) {
+          parent.splice(last as number, 1);
+        } else if (conflict.kind === 'deleted-on-master' && Array.isArray(parent)) {
+          parent.splice(last as number, 0, conflict.ship);
+        } else {
+          parent[last] = conflict.ship;
+        }
+      }
+
+      return result;
+    },
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * Transport Service
+ * Moves sync messages between master and ships (config transport.type):
+ * - kafka: topics on the Kafka cluster (kafka-transport)
+ * - http:  ships post to and long-poll master's REST API (http-transport)
+ *
+ * A replica uses one transport. Master sends and receives through Kafka and,
+ * when transport.http.enabled (or type 'http'), also serves HTTP ships, so a
+ * fleet can mix both.
+ */
+
+export interface TransportEnvelope {
+  topic: string;
+  key?: string;
+  message: any;
+  headers?: Record<string, string>;
+}
+
+export type TransportHandler = (message: any, topic: string) => Promise<void>;
+
+export interface Transport {
+  name: 'kafka' | 'http';
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+  healthCheck(): Promise<boolean>;
+  // All envelopes are delivered together or the call throws
+  send(envelopes: TransportEnvelope[]): Promise<void>;
+  subscribe(topic: string, handler: TransportHandler): Promise<void>;
+  unsubscribe(): Promise<void>;
+  isSubscribed(): boolean;
+  // Confirm messages up to a position were handled (Kafka commits offsets itself)
+  ack(topic: string, position: string | number): Promise<void>;
+}
+
+export type TransportType = Transport['name'];
+
+// Transport implementations by config name
+const TRANSPORT_SERVICES: Record<TransportType, string> = {
+  kafka: 'kafka-transport',
+  http: 'http-transport',
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  const getConfig = () => strapi.config.get('plugin::offline-sync', {});
+  const getService = (type: TransportType): Transport =>
+    strapi.plugin('offline-sync').service(TRANSPORT_SERVICES[type]);
+
+  return {
+    /**
+     * Configured transport type (default kafka)
+     */
+    getType(): TransportType {
+      return getConfig().transport?.type === 'http' ? 'http' : 'kafka';
+    },
+
+    /**
+     * Transports this instance uses
+     * Master adds the HTTP transport next to Kafka when it serves HTTP ships
+     */
+    getTransports(): Transport[] {
+      const config = getConfig();
+      const types = new Set<TransportType>([this.getType()]);
+      if (config.mode === 'master' && config.transport?.http?.enabled) {
+        types.add('http');
+      }
+      return [...types].map(getService);
+    },
+
+    async connect(): Promise<void> {
+      await Promise.all(this.getTransports().map((transport) => transport.connect()));
+    },
+
+    async disconnect(): Promise<void> {
+      await Promise.all(this.getTransports().map((transport) => transport.disconnect().catch(() => { /* ignore */ })));
+    },
+
+    /**
+     * Connected when every transport is (master: Kafka and the HTTP outbox)
+     */
+    isConnected(): boolean {
+      return this.getTransports().every((transport) => transport.isConnected());
+    },
+
+    async healthCheck(): Promise<boolean> {
+      const results = await Promise.all(this.getTransports().map((transport) => transport.healthCheck()));
+      return results.every(Boolean);
+    },
+
+    /**
+     * Send envelopes through every transport
+     * Connects first when needed; throws when a transport can't deliver
+     * (after trying the others, so one broken transport doesn't hold back the rest)
+     */
+    async send(envelopes: TransportEnvelope[]): Promise<void> {
+      if (envelopes.length === 0) return;
+
+      let firstError: Error | null = null;
+      for (const transport of this.getTransports()) {
+        try {
+          if (!transport.isConnected()) {
+            await transport.connect();
+          }
+          await transport.send(envelopes);
+        } catch (error: any) {
+          strapi.log.debug(`[Transport] ${transport.name} send failed: ${error.message}`);
+          firstError = firstError || error;
+        }
+      }
+
+      if (firstError) {
+        throw firstError;
+      }
+    },
+
+    async subscribe(topic: string, handler: TransportHandler): Promise<void> {
+      await Promise.all(this.getTransports().map((transport) => transport.subscribe(topic, handler)));
+    },
+
+    async unsubscribe(): Promise<void> {
+      await Promise.all(this.getTransports().map((transport) => transport.unsubscribe().catch(() => { /* ignore */ })));
+    },
+
+    isSubscribed(): boolean {
+      return this.getTransports().every((transport) => transport.isSubscribed());
+    },
+
+    /**
+     * Status per transport for health endpoints
+     */
+    getStatus(): Array<{ name: TransportType; connected: boolean; subscribed: boolean }> {
+      return this.getTransports().map((transport) => ({
+        name: transport.name,
+        connected: transport.isConnected(),
+        subscribed: transport.isSubscribed(),
+      }));
+    },
+  };
+};
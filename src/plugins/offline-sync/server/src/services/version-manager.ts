@@ -1,6 +1,9 @@
 export default ({ strapi }: { strapi: any }) => {
   let tableExists: boolean | null = null;
 
+  // Joins a surrounding transaction (bulk-sync), e.g. while master applies a ship bulk
+  const connection = () => strapi.plugin('offline-sync').service('bulk-sync').connection();
+
   return {
     /**
      * Check if content_versions table exists (cached)
@@ -8,7 +11,7 @@ export default ({ strapi }: { strapi: any }) => {
     async ensureTable(): Promise<boolean> {
       if (tableExists !== null) return tableExists;
       
-      const db = strapi.db.connection;
+      const db = await connection();
       tableExists = await db.schema.hasTable('content_versions');
       return tableExists;
     },
@@ -21,7 +24,7 @@ export default ({ strapi }: { strapi: any }) => {
         return 1;
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
       const result = await db('content_versions')
         .where({ content_type: contentType, content_id: String(contentId) })
         .orderBy('version', 'desc')
@@ -42,7 +45,7 @@ export default ({ strapi }: { strapi: any }) => {
         return 1;
       }
 
-      const db = strapi.db.connection;
+      const db = await connection();
       const currentVersion = await this.getVersion(contentType, contentId);
       const newVersion = currentVersion + 1;
 
@@ -58,42 +61,122 @@ export default ({ strapi }: { strapi: any }) => {
     },
 
     /**
-     * Create version snapshot
+     * Create version snapshot (inserts the version row if it doesn't exist yet)
      */
     async createSnapshot(
       contentType: string,
       contentId: string | number,
       version: number,
       data: any,
-      shipId?: string
+      shipId?: string,
+      locale?: string | null
     ): Promise<void> {
       if (!await this.ensureTable()) {
         return;
       }
 
-      const db = strapi.db.connection;
-      await db('content_versions')
-        .where({ content_type: contentType, content_id: String(contentId), version })
+      const db = await connection();
+      const where = { content_type: contentType, content_id: String(contentId), version };
+      const updated = await db('content_versions')
+        .where(where)
         .update({
           data_snapshot: JSON.stringify(data),
           ship_id: shipId || null,
+          locale: locale || null,
+        });
+
+      if (!updated) {
+        await db('content_versions').insert({
+          ...where,
+          data_snapshot: JSON.stringify(data),
+          ship_id: shipId || null,
+          locale: locale || null,
+          changed_at: new Date(),
         });
+      }
+    },
+
+    /**
+     * Record a new version together with its snapshot
+     * Used on master to keep the last synced state as merge ancestor
+     */
+    async recordSnapshot(
+      contentType: string,
+      contentId: string | number,
+      data: any,
+      options: { shipId?: string; locale?: string | null } = {}
+    ): Promise<number> {
+      if (!await this.ensureTable()) {
+        return 1;
+      }
+
+      const version = await this.incrementVersion(contentType, contentId, options.shipId);
+      await this.createSnapshot(contentType, contentId, version, data, options.shipId, options.locale);
+      return version;
     },
 
     /**
-     * Compare versions
+     * Get the latest snapshot for content (optionally per locale / ship)
      */
-    compareVersions(local: number, remote: number): {
-      isConflict: boolean;
-      isLocalNewer: boolean;
-      isRemoteNewer: boolean;
-    } {
+    async getLatestSnapshot(
+      contentType: string,
+      contentId: string | number,
+      options: { shipId?: string; locale?: string | null } = {}
+    ): Promise<{ version: number; data: any; shipId: string | null; changedAt: Date } | null> {
+      if (!await this.ensureTable()) {
+        return null;
+      }
+
+      const db = await connection();
+      const query = db('content_versions')
+        .where({ content_type: contentType, content_id: String(contentId) })
+        .whereNotNull('data_snapshot');
+
+      if (options.locale) {
+        query.where('locale', options.locale);
+      } else {
+        query.whereNull('locale');
+      }
+      if (options.shipId) {
+        query.where('ship_id', options.shipId);
+      }
+
+      const row = await query.orderBy('version', 'desc').first();
+      if (!row) {
+        return null;
+      }
+
       return {
-        isConflict: local !== remote,
-        isLocalNewer: local > remote,
-        isRemoteNewer: remote > local,
+        version: row.version,
+        data: typeof row.data_snapshot === 'string' ? JSON.parse(row.data_snapshot) : row.data_snapshot,
+        shipId: row.ship_id,
+        changedAt: row.changed_at,
       };
     },
+
+    /**
+     * Cleanup old version rows, always keeping the latest row per document
+     */
+    async cleanup(retentionDays: number = 30): Promise<number> {
+      if ((strapi as any)._isShuttingDown || !await this.ensureTable()) {
+        return 0;
+      }
+
+      const db = await connection();
+      const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const deleted = await db('content_versions')
+        .where('changed_at', '<', cutoffDate)
+        .whereNotIn('id', function (this: any) {
+          this.max('id').from('content_versions').groupBy('content_type', 'content_id', 'locale', 'ship_id');
+        })
+        .delete();
+
+      if (deleted > 0) {
+        strapi.log.info(`[Version] Cleaned up ${deleted} old version rows`);
+      }
+      return deleted;
+    },
   };
 };
 